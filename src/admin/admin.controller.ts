@@ -1,26 +1,63 @@
-import { Controller, Get, Patch, Post, Delete, Param, Query, Body, UsePipes, ValidationPipe, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Controller, Get, Patch, Post, Put, Delete, Param, Query, Body, Res, UsePipes, ValidationPipe, HttpCode, HttpStatus, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
 import { PluginReviewService } from '../plugins/plugin-review.service';
 import { PluginsService } from '../plugins/plugins.service';
+import { VersionDiffService } from '../plugins/version-diff.service';
+import { ReviewCommentsService } from '../plugins/review-comments.service';
+import { DevelopersService } from '../developers/developers.service';
+import { BlocklistService } from '../blocklist/blocklist.service';
+import { AuditService } from '../audit/audit.service';
 import { PluginReviewItem } from '../common/dto/plugin-review-item.dto';
+import { PluginResponse } from '../common/dto/plugin-response.dto';
+import { DeletedPluginResponse } from '../common/dto/deleted-plugin-response.dto';
+import { PluginVersionResponse } from '../common/dto/plugin-version-response.dto';
+import { PluginVersionFilesResponse } from '../common/dto/plugin-version-files-response.dto';
+import { DeprecateVersionRequestDto, YankVersionRequestDto } from '../common/dto/version-lifecycle-request.dto';
 import { ReviewDecisionRequestDto } from '../common/dto/review-decision-request.dto';
+import { ReviewQueueQueryDto } from '../common/dto/review-queue-query.dto';
+import { VersionDiffResponse } from '../common/dto/version-diff-response.dto';
+import { CreateReviewThreadRequestDto, ReviewCommentReplyRequestDto } from '../common/dto/review-comment-request.dto';
+import { ReviewThreadResponse } from '../common/dto/review-comment-response.dto';
+import { AssignReviewerRequestDto } from '../common/dto/review-assignment-request.dto';
+import { ReviewClaimResponse, ReviewDecisionResponse } from '../common/dto/review-assignment-response.dto';
+import { OwnershipDecisionRequestDto } from '../common/dto/developer-request.dto';
+import { NamespaceClaimResponse, OwnershipTransferResponse } from '../common/dto/developer-response.dto';
+import { AddBlocklistEntryRequestDto } from '../common/dto/blocklist-request.dto';
+import { BlocklistEntryAddedResponse, BlocklistEntryResponse } from '../common/dto/blocklist-response.dto';
+import { AuditLogQueryDto } from '../common/dto/audit-log-query.dto';
+import { AuditLogEntryResponse } from '../common/dto/audit-log-response.dto';
+import { OwnershipRequestStatus } from '../common/enums/developer-account.enum';
+import { BlocklistEntryType } from '../common/enums/blocklist-entry-type.enum';
+import { ReviewCommentAuthorRole } from '../common/enums/review-comment-author.enum';
+import { AuditActorRole } from '../common/enums/audit.enum';
+import { Role } from '../common/enums/role.enum';
+import { NEXT_CURSOR_HEADER } from '../common/utils/page-cursor.util';
+import { Roles, CurrentUser, AuthenticatedUser } from '../auth';
 
 /**
  * Admin API controller for plugin review and management.
  * Endpoints for administrators to review, approve, and reject plugins.
  *
- * In production, these endpoints should be protected with authentication
- * and authorization (e.g., using guards).
+ * All endpoints require a bearer token carrying the 'admin' role.
+ * The acting reviewer is taken from the token, never from the request.
  *
  * Base path: /api/v1/admin
  */
 @ApiTags('Admin')
+@ApiBearerAuth()
+@Roles(Role.ADMIN)
 @Controller('admin')
 @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
 export class AdminController {
   constructor(
     private readonly reviewService: PluginReviewService,
     private readonly pluginsService: PluginsService,
+    private readonly versionDiffService: VersionDiffService,
+    private readonly reviewCommentsService: ReviewCommentsService,
+    private readonly developersService: DevelopersService,
+    private readonly blocklistService: BlocklistService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -30,10 +67,101 @@ export class AdminController {
   @ApiOperation({
     summary: 'Get review queue',
     description:
-      'Returns all plugin versions currently in the review queue (SUBMITTED or PENDING_REVIEW status), ordered by submission date.',
+      'Returns the plugin versions in the review queue (SUBMITTED or PENDING_REVIEW status) with their risk scores, assignees and approval progress, ordered by submission date unless sorted by risk score, status or flag. Filters narrow the queue by status, flag, risk score range and age in hours. With pageSize or cursor only one page is returned, and the X-Next-Cursor header carries the cursor of the next page.',
   })
-  async getReviewQueue(): Promise<PluginReviewItem[]> {
-    return this.reviewService.getReviewQueue();
+  async getReviewQueue(
+    @Query() query: ReviewQueueQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<PluginReviewItem[]> {
+    const page = await this.reviewService.getReviewQueue(query);
+    if (page.nextCursor) {
+      res.setHeader(NEXT_CURSOR_HEADER, page.nextCursor);
+    }
+    return page.data;
+  }
+
+  /**
+   * Compares a version with another version of the same plugin.
+   */
+  @Get('versions/:versionId/diff')
+  @ApiOperation({
+    summary: 'Diff two versions',
+    description:
+      'Returns what changed from the `against` version to this one: added and removed permissions, changed triggers, the minAppVersion change and other changed manifest fields, plus a unified diff of every changed text file (plugin.js included) read from the stored artifacts. Binary files and text files over 1 MB are listed without a diff.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version ID under review' })
+  @ApiQuery({ name: 'against', description: 'Version ID to compare with, usually the previous release', required: true })
+  async diffVersions(
+    @Param('versionId') versionId: string,
+    @Query('against') againstVersionId: string,
+  ): Promise<VersionDiffResponse> {
+    if (!againstVersionId) {
+      throw new BadRequestException('Query parameter against is required');
+    }
+    return this.versionDiffService.diffVersions(versionId, againstVersionId);
+  }
+
+  /**
+   * Retrieves the file inventory of a version, whatever its status.
+   */
+  @Get('versions/:versionId/files')
+  @ApiOperation({
+    summary: 'Get version files',
+    description:
+      'Returns every file in the version\'s .synx package with its size, SHA-256 and MIME type, including versions under review, rejected, flagged or yanked.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version ID' })
+  async getVersionFiles(@Param('versionId') versionId: string): Promise<PluginVersionFilesResponse> {
+    return this.pluginsService.getVersionFilesForReview(versionId);
+  }
+
+  /**
+   * Lists the review threads on a version.
+   */
+  @Get('versions/:versionId/comments')
+  @ApiOperation({
+    summary: 'List review comments',
+    description:
+      'Returns the review threads on a version, including the threads of the earlier versions it was resubmitted in response to (newest version first).',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version ID' })
+  async listReviewComments(@Param('versionId') versionId: string): Promise<ReviewThreadResponse[]> {
+    return this.reviewCommentsService.getThreads(versionId);
+  }
+
+  /**
+   * Opens a review thread on a version.
+   */
+  @Post('versions/:versionId/comments')
+  @ApiOperation({
+    summary: 'Start review thread',
+    description:
+      'Opens a review thread on a version, optionally anchored to a file in its package and a line in that file. Requesting changes requires at least one thread.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version ID under review' })
+  async startReviewThread(
+    @Param('versionId') versionId: string,
+    @Body() dto: CreateReviewThreadRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewThreadResponse> {
+    return this.reviewCommentsService.startThread(versionId, dto, user.id);
+  }
+
+  /**
+   * Replies to a review thread.
+   */
+  @Post('comments/:commentId/replies')
+  @ApiOperation({
+    summary: 'Reply to review thread',
+    description: 'Adds a reviewer reply to the thread the comment belongs to and returns the whole thread.',
+  })
+  @ApiParam({ name: 'commentId', description: 'ID of any comment in the thread' })
+  async replyToReviewComment(
+    @Param('commentId') commentId: string,
+    @Body() dto: ReviewCommentReplyRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewThreadResponse> {
+    return this.reviewCommentsService.reply(commentId, dto, user.id, ReviewCommentAuthorRole.REVIEWER);
   }
 
   /**
@@ -43,14 +171,66 @@ export class AdminController {
   @ApiOperation({
     summary: 'Submit review decision',
     description:
-      'Approves or rejects a plugin version. When approved, updates the plugin\'s latest_version_id. When rejected, stores the rejection reason.',
+      'Approves or rejects a plugin version, or sends it back with CHANGES_REQUESTED (which needs at least one review thread; rejectionReason then holds an optional summary). Versions claimed by another reviewer are rejected with 409. PUBLISH records an approval; the version is published once the approval policy\'s number of distinct reviewers have approved it (two for plugins with OAuth clients or sensitive permissions by default). When published, updates the plugin\'s latest_version_id. When rejected, stores the rejection reason. Publishing a version with CRITICAL static analysis findings requires scanOverrideReason. A version that matches the malware blocklist is flagged instead of published.',
   })
   @ApiParam({ name: 'versionId', description: 'Version ID to review' })
   async submitReviewDecision(
     @Param('versionId') versionId: string,
     @Body() decision: ReviewDecisionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewDecisionResponse> {
+    return this.reviewService.submitReviewDecision(versionId, decision, user.id);
+  }
+
+  /**
+   * Claims a queued version for the caller.
+   */
+  @Post('versions/:versionId/claim')
+  @ApiOperation({
+    summary: 'Claim version for review',
+    description:
+      'Claims a version awaiting review for the caller until the claim expires (REVIEW_CLAIM_TTL_MINUTES); claiming again extends it. Returns 409 if another reviewer holds an unexpired claim.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version ID to claim' })
+  async claimVersion(
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewClaimResponse> {
+    return this.reviewService.claimVersion(versionId, user.id);
+  }
+
+  /**
+   * Releases the caller's claim on a version.
+   */
+  @Delete('versions/:versionId/claim')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Release review claim',
+    description: 'Releases the caller\'s claim on a version, or an expired claim. Returns 409 if another reviewer holds an unexpired claim.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Claimed version ID' })
+  async releaseClaim(
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<void> {
-    return this.reviewService.submitReviewDecision(versionId, decision);
+    return this.reviewService.releaseClaim(versionId, user.id);
+  }
+
+  /**
+   * Assigns a queued version to a reviewer.
+   */
+  @Put('versions/:versionId/assignee')
+  @ApiOperation({
+    summary: 'Assign reviewer',
+    description: 'Assigns a version awaiting review to an admin, replacing any existing claim. The assignment expires like a claim. Returns 400 unless the assignee has acted as an admin before.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version ID to assign' })
+  async assignVersion(
+    @Param('versionId') versionId: string,
+    @Body() dto: AssignReviewerRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewClaimResponse> {
+    return this.reviewService.assignVersion(versionId, dto.assigneeId, user.id);
   }
 
   /**
@@ -63,44 +243,251 @@ export class AdminController {
   })
   @ApiParam({ name: 'versionId', description: 'Version ID to flag' })
   @ApiQuery({ name: 'reason', description: 'Security violation reason', required: true })
-  @ApiQuery({ name: 'flaggedBy', description: 'Admin identifier', required: true })
   async flagVersion(
     @Param('versionId') versionId: string,
     @Query('reason') reason: string,
-    @Query('flaggedBy') flaggedBy: string,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<void> {
-    return this.reviewService.flagVersion(versionId, reason, flaggedBy);
+    return this.reviewService.flagVersion(versionId, reason, user.id);
   }
 
   /**
-   * Unflags a previously flagged version.
+   * Unflags a flagged version, returning it to its status before flagging.
    */
   @Delete('plugins/:versionId/flag')
   @ApiOperation({
     summary: 'Unflag plugin',
-    description: 'Removes security flag from a plugin version.',
+    description:
+      'Removes security flag from a plugin version and returns it to the status it had when flagged. Fails with 400 if the version is not flagged.',
   })
   @ApiParam({ name: 'versionId', description: 'Version ID to unflag' })
-  async unflagVersion(@Param('versionId') versionId: string): Promise<void> {
-    return this.reviewService.unflagVersion(versionId);
+  async unflagVersion(
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.reviewService.unflagVersion(versionId, user.id);
   }
 
   /**
-   * Deletes a plugin and all its associated versions with full storage cleanup.
-   * This is a hard delete operation that removes:
-   * - All plugin version artifacts from storage
-   * - Plugin icon from storage
-   * - All plugin version records from database
-   * - The plugin record from database
+   * Deprecates a published version of a plugin.
+   */
+  @Post('plugins/:packageId/versions/:version/deprecate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Deprecate version',
+    description: 'Marks a published version DEPRECATED. It stays installable and can remain the latest version; the message is returned with it in the store.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of the plugin' })
+  @ApiParam({ name: 'version', description: 'Version string (e.g. 1.2.0)' })
+  async deprecateVersion(
+    @Param('packageId') packageId: string,
+    @Param('version') version: string,
+    @Body() dto: DeprecateVersionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginVersionResponse> {
+    return this.pluginsService.deprecateVersion(packageId, version, dto.message, user.id, AuditActorRole.ADMIN);
+  }
+
+  /**
+   * Yanks a published or deprecated version of a plugin.
+   */
+  @Post('plugins/:packageId/versions/:version/yank')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Yank version',
+    description: 'Marks a published or deprecated version YANKED. It stays in the version history but is no longer picked as the latest or a compatible version; the plugin\'s latest version falls back to the newest remaining installable one.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of the plugin' })
+  @ApiParam({ name: 'version', description: 'Version string (e.g. 1.2.0)' })
+  async yankVersion(
+    @Param('packageId') packageId: string,
+    @Param('version') version: string,
+    @Body() dto: YankVersionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginVersionResponse> {
+    return this.pluginsService.yankVersion(packageId, version, dto.reason, user.id, AuditActorRole.ADMIN);
+  }
+
+  /**
+   * Soft-deletes a plugin. Its artifacts, icon and records are purged once
+   * the retention window ends; until then it can be restored.
    */
   @Delete('plugins/:packageId')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Delete plugin',
-    description: 'Permanently deletes a plugin and all its versions. This action removes all storage files including artifacts and icons, and deletes all database records. This operation cannot be undone.',
+    description: 'Deletes a plugin: it is hidden from the store immediately and its package ID stays reserved. It can be restored until DELETED_PLUGIN_RETENTION_DAYS have passed, after which its artifacts, icon, versions and record are purged permanently.',
   })
   @ApiParam({ name: 'packageId', description: 'Package ID of the plugin to delete (e.g., "com.synapse.tictic")' })
-  async deletePlugin(@Param('packageId') packageId: string): Promise<void> {
-    return this.pluginsService.deletePlugin(packageId);
+  async deletePlugin(
+    @Param('packageId') packageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.pluginsService.deletePlugin(packageId, user.id);
+  }
+
+  /**
+   * Restores a deleted plugin that has not been purged yet.
+   */
+  @Post('plugins/:packageId/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore deleted plugin',
+    description: 'Restores a deleted plugin to the status it had before deletion. Fails once the plugin has been purged.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of the deleted plugin' })
+  async restorePlugin(
+    @Param('packageId') packageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginResponse> {
+    return this.pluginsService.restorePlugin(packageId, user.id);
+  }
+
+  /**
+   * Lists deleted plugins awaiting purge.
+   */
+  @Get('deleted-plugins')
+  @ApiOperation({
+    summary: 'List deleted plugins',
+    description: 'Returns the deleted plugins that can still be restored, oldest deletion first, with when each will be purged.',
+  })
+  async listDeletedPlugins(): Promise<DeletedPluginResponse[]> {
+    return this.pluginsService.listDeletedPlugins();
+  }
+
+  /**
+   * Lists namespace claims, pending ones by default.
+   */
+  @Get('namespace-claims')
+  @ApiOperation({
+    summary: 'List namespace claims',
+    description: 'Returns namespace claims with the given status (default PENDING), oldest first.',
+  })
+  @ApiQuery({ name: 'status', enum: OwnershipRequestStatus, required: false })
+  async listNamespaceClaims(
+    @Query('status') status?: OwnershipRequestStatus,
+  ): Promise<NamespaceClaimResponse[]> {
+    return this.developersService.listNamespaceClaims(status);
+  }
+
+  /**
+   * Approves or rejects a namespace claim.
+   */
+  @Patch('namespace-claims/:claimId')
+  @ApiOperation({
+    summary: 'Review namespace claim',
+    description: 'Approves or rejects a pending namespace claim. Approval fails if the namespace overlaps one already owned by another account.',
+  })
+  @ApiParam({ name: 'claimId', description: 'Namespace claim ID' })
+  async reviewNamespaceClaim(
+    @Param('claimId') claimId: string,
+    @Body() decision: OwnershipDecisionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<NamespaceClaimResponse> {
+    return this.developersService.reviewNamespaceClaim(claimId, decision, user.id);
+  }
+
+  /**
+   * Lists plugin ownership transfers, pending ones by default.
+   */
+  @Get('ownership-transfers')
+  @ApiOperation({
+    summary: 'List ownership transfers',
+    description: 'Returns plugin ownership transfers with the given status (default PENDING), oldest first.',
+  })
+  @ApiQuery({ name: 'status', enum: OwnershipRequestStatus, required: false })
+  async listOwnershipTransfers(
+    @Query('status') status?: OwnershipRequestStatus,
+  ): Promise<OwnershipTransferResponse[]> {
+    return this.developersService.listOwnershipTransfers(status);
+  }
+
+  /**
+   * Approves or rejects a plugin ownership transfer.
+   */
+  @Patch('ownership-transfers/:transferId')
+  @ApiOperation({
+    summary: 'Review ownership transfer',
+    description: 'Approves or rejects a pending ownership transfer. Approval moves the plugin to the target account.',
+  })
+  @ApiParam({ name: 'transferId', description: 'Ownership transfer ID' })
+  async reviewOwnershipTransfer(
+    @Param('transferId') transferId: string,
+    @Body() decision: OwnershipDecisionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<OwnershipTransferResponse> {
+    return this.developersService.reviewOwnershipTransfer(transferId, decision, user.id);
+  }
+
+  /**
+   * Lists malware blocklist entries.
+   */
+  @Get('blocklist')
+  @ApiOperation({
+    summary: 'List blocklist entries',
+    description: 'Returns the malware blocklist (artifact hashes, file hashes and domains), newest first.',
+  })
+  @ApiQuery({ name: 'type', enum: BlocklistEntryType, required: false })
+  async listBlocklistEntries(@Query('type') type?: BlocklistEntryType): Promise<BlocklistEntryResponse[]> {
+    return this.blocklistService.listEntries(type);
+  }
+
+  /**
+   * Adds a malware blocklist entry and flags matching published versions.
+   */
+  @Post('blocklist')
+  @ApiOperation({
+    summary: 'Add blocklist entry',
+    description: 'Blocklists an artifact SHA-256, a file SHA-256 or a domain (and its subdomains). Matching submissions are rejected or flagged, and published versions that match are flagged immediately.',
+  })
+  async addBlocklistEntry(
+    @Body() dto: AddBlocklistEntryRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<BlocklistEntryAddedResponse> {
+    return this.reviewService.addBlocklistEntry(dto, user.id);
+  }
+
+  /**
+   * Removes a malware blocklist entry.
+   */
+  @Delete('blocklist/:entryId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove blocklist entry',
+    description: 'Removes a blocklist entry. Versions it flagged stay flagged until unflagged.',
+  })
+  @ApiParam({ name: 'entryId', description: 'Blocklist entry ID' })
+  async removeBlocklistEntry(
+    @Param('entryId') entryId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.blocklistService.removeEntry(entryId, user.id);
+  }
+
+  /**
+   * Lists audit log entries, as JSON or as a CSV download.
+   */
+  @Get('audit')
+  @ApiOperation({
+    summary: 'Query the audit log',
+    description:
+      'Returns state-changing admin, developer and system actions (review decisions, flags, deletions, claims, keys, credentials and more), newest first, filtered by entity, actor, action and time range. Each entry records the actor, the old and new status, the reason and the correlation ID of the request. format=csv returns the same entries as a CSV file. When more entries follow, the X-Next-Cursor header carries the cursor of the next page.',
+  })
+  @ApiProduces('application/json', 'text/csv')
+  async getAuditLog(
+    @Query() query: AuditLogQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuditLogEntryResponse[] | string> {
+    const page = await this.auditService.list(query);
+    if (page.nextCursor) {
+      res.setHeader(NEXT_CURSOR_HEADER, page.nextCursor);
+    }
+    if (query.format !== 'csv') {
+      return page.data;
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="audit-log.csv"');
+    return this.auditService.toCsv(page.data);
   }
 }
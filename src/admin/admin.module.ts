@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { AdminController } from './admin.controller';
 import { PluginsModule } from '../plugins/plugins.module';
+import { DevelopersModule } from '../developers/developers.module';
+import { BlocklistModule } from '../blocklist/blocklist.module';
 
 /**
  * Admin module - handles admin review and management operations.
  */
 @Module({
-  imports: [PluginsModule],
+  imports: [PluginsModule, DevelopersModule, BlocklistModule],
   controllers: [AdminController],
 })
 export class AdminModule {}
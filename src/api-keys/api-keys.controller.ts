@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyRequestDto } from '../common/dto/api-key-request.dto';
+import { ApiKeyResponse, CreatedApiKeyResponse } from '../common/dto/api-key-response.dto';
+import { Role } from '../common/enums/role.enum';
+import { Roles, CurrentUser, AuthenticatedUser } from '../auth';
+
+/**
+ * Developer API controller for managing API keys.
+ *
+ * Base path: /api/v1/dev/api-keys
+ *
+ * All endpoints require a JWT carrying the 'developer' role; API keys
+ * cannot be used to issue or revoke other keys.
+ */
+@ApiTags('Developer')
+@ApiBearerAuth()
+@Roles(Role.DEVELOPER)
+@Controller('dev/api-keys')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create API key',
+    description:
+      'Issues a scoped API key for CI publishing. The key is returned once in the response and cannot be retrieved again.',
+  })
+  async createKey(
+    @Body() dto: CreateApiKeyRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CreatedApiKeyResponse> {
+    return this.apiKeysService.createKey(user, dto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List API keys',
+    description: 'Lists the caller\'s API keys with scopes, expiry and last-used time and IP.',
+  })
+  async listKeys(@CurrentUser() user: AuthenticatedUser): Promise<ApiKeyResponse[]> {
+    return this.apiKeysService.listKeys(user);
+  }
+
+  @Delete(':keyId')
+  @ApiOperation({
+    summary: 'Revoke API key',
+    description: 'Revokes an API key. Requests using it are rejected immediately.',
+  })
+  @ApiParam({ name: 'keyId', description: 'API key ID' })
+  async revokeKey(
+    @Param('keyId') keyId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ApiKeyResponse> {
+    return this.apiKeysService.revokeKey(user, keyId);
+  }
+}
@@ -0,0 +1,27 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysRepository } from './api-keys.repository';
+import { ApiKeysController } from './api-keys.controller';
+import { DevelopersModule } from '../developers/developers.module';
+import { ApiKeyVerifier } from '../auth/api-key-verifier';
+
+/**
+ * API keys module - developer-issued keys for CI publishing.
+ * Marked as Global so AuthGuard can resolve ApiKeyVerifier.
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, DevelopersModule],
+  controllers: [ApiKeysController],
+  providers: [
+    ApiKeysService,
+    ApiKeysRepository,
+    {
+      provide: ApiKeyVerifier,
+      useExisting: ApiKeysService,
+    },
+  ],
+  exports: [ApiKeyVerifier],
+})
+export class ApiKeysModule {}
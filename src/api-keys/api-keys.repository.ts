@@ -0,0 +1,152 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeveloperApiKey,
+  CreateDeveloperApiKeyDto,
+} from '../common/entities/developer-api-key.entity';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for DeveloperApiKey entity using Supabase.
+ */
+@Injectable()
+export class ApiKeysRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find a key by ID.
+   */
+  async findById(id: string): Promise<DeveloperApiKey | null> {
+    const { data, error } = await this.supabase
+      .from('developer_api_keys')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find a key by the hash of its plaintext value.
+   */
+  async findByHash(keyHash: string): Promise<DeveloperApiKey | null> {
+    const { data, error } = await this.supabase
+      .from('developer_api_keys')
+      .select('*')
+      .eq('key_hash', keyHash)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find all keys issued for a developer account, newest first.
+   */
+  async findByDeveloperId(developerId: string): Promise<DeveloperApiKey[]> {
+    const { data } = await this.supabase
+      .from('developer_api_keys')
+      .select('*')
+      .eq('developer_id', developerId)
+      .order('created_at', { ascending: false });
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Create a new key record.
+   */
+  async create(dto: CreateDeveloperApiKeyDto): Promise<DeveloperApiKey> {
+    const { data, error } = await this.supabase
+      .from('developer_api_keys')
+      .insert({
+        id: crypto.randomUUID(),
+        developer_id: dto.developerId,
+        created_by: dto.createdBy,
+        name: dto.name,
+        key_prefix: dto.keyPrefix,
+        key_hash: dto.keyHash,
+        scopes: dto.scopes,
+        expires_at: dto.expiresAt ? dto.expiresAt.toISOString() : null,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Record a successful authentication with a key.
+   */
+  async recordUsage(id: string, ipAddress: string | null): Promise<void> {
+    const { error } = await this.supabase
+      .from('developer_api_keys')
+      .update({
+        last_used_at: new Date().toISOString(),
+        last_used_ip: ipAddress,
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to record API key usage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Revoke a key.
+   */
+  async revoke(id: string): Promise<DeveloperApiKey> {
+    const { data, error } = await this.supabase
+      .from('developer_api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Map database row to DeveloperApiKey entity.
+   */
+  private mapToEntity(data: any): DeveloperApiKey {
+    return {
+      id: data.id,
+      developerId: data.developer_id,
+      createdBy: data.created_by,
+      name: data.name,
+      keyPrefix: data.key_prefix,
+      keyHash: data.key_hash,
+      scopes: data.scopes || [],
+      expiresAt: data.expires_at ? new Date(data.expires_at) : null,
+      lastUsedAt: data.last_used_at ? new Date(data.last_used_at) : null,
+      lastUsedIp: data.last_used_ip,
+      revokedAt: data.revoked_at ? new Date(data.revoked_at) : null,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
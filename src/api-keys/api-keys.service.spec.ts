@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysRepository } from './api-keys.repository';
+import { VaultService } from '../vault/vault.service';
+import { DevelopersService } from '../developers/developers.service';
+import { DeveloperApiKey } from '../common/entities/developer-api-key.entity';
+import { DeveloperType } from '../common/enums/developer-account.enum';
+import { Role } from '../common/enums/role.enum';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { AuthenticatedUser, ApiKeyScopes } from '../auth';
+import { AuditService } from '../audit/audit.service';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let apiKeysRepository: jest.Mocked<ApiKeysRepository>;
+  let vaultService: jest.Mocked<VaultService>;
+
+  const user: AuthenticatedUser = {
+    id: 'user-1',
+    roles: [Role.DEVELOPER],
+    claims: {},
+  };
+
+  const storedKey: DeveloperApiKey = {
+    id: 'key-1',
+    developerId: 'dev-1',
+    createdBy: 'user-1',
+    name: 'CI',
+    keyPrefix: 'synx_abcdefg',
+    keyHash: 'hashed',
+    scopes: ['submit:com.acme.*'],
+    expiresAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    createdAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        {
+          provide: ApiKeysRepository,
+          useValue: {
+            findById: jest.fn(),
+            findByHash: jest.fn(),
+            findByDeveloperId: jest.fn(),
+            create: jest.fn(),
+            recordUsage: jest.fn(),
+            revoke: jest.fn(),
+          },
+        },
+        {
+          provide: VaultService,
+          useValue: {
+            hash: jest.fn().mockReturnValue('hashed'),
+            generateRandom: jest.fn().mockReturnValue('abcdefghijklmnop'),
+          },
+        },
+        {
+          provide: DevelopersService,
+          useValue: {
+            getOrCreateForUser: jest.fn().mockResolvedValue({
+              id: 'dev-1',
+              userId: 'user-1',
+              type: DeveloperType.INDIVIDUAL,
+              displayName: 'Dev',
+              createdAt: new Date('2024-01-01'),
+              updatedAt: new Date('2024-01-01'),
+            }),
+          },
+        },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+    apiKeysRepository = module.get(ApiKeysRepository);
+    vaultService = module.get(VaultService);
+  });
+
+  describe('createKey', () => {
+    it('should store only the hash and return the plaintext key once', async () => {
+      apiKeysRepository.create.mockResolvedValue(storedKey);
+
+      const result = await service.createKey(user, { name: 'CI', scopes: ['submit:com.acme.*'] });
+
+      expect(vaultService.hash).toHaveBeenCalledWith('synx_abcdefghijklmnop');
+      expect(apiKeysRepository.create).toHaveBeenCalledWith({
+        developerId: 'dev-1',
+        createdBy: 'user-1',
+        name: 'CI',
+        keyPrefix: 'synx_abcdefg',
+        keyHash: 'hashed',
+        scopes: ['submit:com.acme.*'],
+        expiresAt: null,
+      });
+      expect(result.key).toBe('synx_abcdefghijklmnop');
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.createKey(user, {
+          name: 'CI',
+          scopes: ['read:analytics'],
+          expiresAt: '2000-01-01T00:00:00Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(apiKeysRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should not reveal keys belonging to other developers', async () => {
+      apiKeysRepository.findById.mockResolvedValue({ ...storedKey, developerId: 'dev-2' });
+
+      await expect(service.revokeKey(user, 'key-1')).rejects.toThrow(ResourceNotFoundException);
+      expect(apiKeysRepository.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    it('should authenticate as the issuing developer and record usage', async () => {
+      apiKeysRepository.findByHash.mockResolvedValue(storedKey);
+
+      const result = await service.verify('synx_abcdefghijklmnop', '203.0.113.7');
+
+      expect(apiKeysRepository.findByHash).toHaveBeenCalledWith('hashed');
+      expect(apiKeysRepository.recordUsage).toHaveBeenCalledWith('key-1', '203.0.113.7');
+      expect(result).toEqual({
+        id: 'user-1',
+        roles: [Role.DEVELOPER],
+        claims: {},
+        apiKey: { id: 'key-1', developerId: 'dev-1', scopes: ['submit:com.acme.*'] },
+      });
+    });
+
+    it('should reject unknown keys', async () => {
+      apiKeysRepository.findByHash.mockResolvedValue(null);
+
+      await expect(service.verify('synx_unknown')).rejects.toThrow('Invalid API key');
+    });
+
+    it('should reject revoked keys', async () => {
+      apiKeysRepository.findByHash.mockResolvedValue({ ...storedKey, revokedAt: new Date() });
+
+      await expect(service.verify('synx_abcdefghijklmnop')).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject expired keys', async () => {
+      apiKeysRepository.findByHash.mockResolvedValue({
+        ...storedKey,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.verify('synx_abcdefghijklmnop')).rejects.toThrow('API key has expired');
+      expect(apiKeysRepository.recordUsage).not.toHaveBeenCalled();
+    });
+
+    it('should still authenticate when usage cannot be recorded', async () => {
+      apiKeysRepository.findByHash.mockResolvedValue(storedKey);
+      apiKeysRepository.recordUsage.mockRejectedValue(new Error('database unavailable'));
+
+      await expect(service.verify('synx_abcdefghijklmnop')).resolves.toHaveProperty('id', 'user-1');
+    });
+  });
+
+  describe('ApiKeyScopes.allowsSubmit', () => {
+    it('should match exact packages and namespace wildcards', () => {
+      expect(ApiKeyScopes.allowsSubmit(['submit:com.acme.tasks'], 'com.acme.tasks')).toBe(true);
+      expect(ApiKeyScopes.allowsSubmit(['submit:com.acme.*'], 'com.acme.tools.timer')).toBe(true);
+      expect(ApiKeyScopes.allowsSubmit(['submit:*'], 'io.example.timer')).toBe(true);
+    });
+
+    it('should not match other packages or lookalike namespaces', () => {
+      expect(ApiKeyScopes.allowsSubmit(['submit:com.acme.tasks'], 'com.acme.notes')).toBe(false);
+      expect(ApiKeyScopes.allowsSubmit(['submit:com.acme.*'], 'com.acmecorp.tasks')).toBe(false);
+      expect(ApiKeyScopes.allowsSubmit(['submit:com.acme.*'], 'com.acme')).toBe(false);
+      expect(ApiKeyScopes.allowsSubmit(['read:analytics'], 'com.acme.tasks')).toBe(false);
+    });
+  });
+
+  describe('ApiKeyScopes.allowsManage', () => {
+    it('should match manage scopes for the package', () => {
+      expect(ApiKeyScopes.isValid('manage:com.acme.*')).toBe(true);
+      expect(ApiKeyScopes.allowsManage(['manage:com.acme.tasks'], 'com.acme.tasks')).toBe(true);
+      expect(ApiKeyScopes.allowsManage(['manage:com.acme.*'], 'com.acme.tools.timer')).toBe(true);
+      expect(ApiKeyScopes.allowsManage(['manage:*'], 'io.example.timer')).toBe(true);
+    });
+
+    it('should not be implied by submit scopes', () => {
+      expect(ApiKeyScopes.allowsManage(['submit:com.acme.tasks'], 'com.acme.tasks')).toBe(false);
+      expect(ApiKeyScopes.allowsManage(['submit:*'], 'com.acme.tasks')).toBe(false);
+      expect(ApiKeyScopes.allowsSubmit(['manage:*'], 'com.acme.tasks')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Injectable, Logger, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ApiKeysRepository } from './api-keys.repository';
+import { VaultService } from '../vault/vault.service';
+import { DevelopersService } from '../developers/developers.service';
+import { AuditService } from '../audit/audit.service';
+import { DeveloperApiKey } from '../common/entities/developer-api-key.entity';
+import { CreateApiKeyRequestDto } from '../common/dto/api-key-request.dto';
+import { ApiKeyResponse, CreatedApiKeyResponse } from '../common/dto/api-key-response.dto';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { Role } from '../common/enums/role.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import { AuthenticatedUser, ApiKeyVerifier, API_KEY_PREFIX } from '../auth';
+
+/** Number of leading key characters kept in plaintext for display. */
+const KEY_PREFIX_LENGTH = 12;
+
+/**
+ * Service for developer API keys.
+ *
+ * Keys are random 32-byte strings prefixed with API_KEY_PREFIX. Only their
+ * VaultService.hash is persisted, so a lost key has to be revoked and re-issued.
+ * A key authenticates as the developer who issued it, limited to its scopes.
+ */
+@Injectable()
+export class ApiKeysService extends ApiKeyVerifier {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly apiKeysRepository: ApiKeysRepository,
+    private readonly vaultService: VaultService,
+    private readonly developersService: DevelopersService,
+    private readonly auditService: AuditService,
+  ) {
+    super();
+  }
+
+  /**
+   * Issues a new key for the caller's developer account.
+   * The plaintext key is only ever returned from this call.
+   */
+  async createKey(
+    user: AuthenticatedUser,
+    dto: CreateApiKeyRequestDto,
+  ): Promise<CreatedApiKeyResponse> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const developer = await this.developersService.getOrCreateForUser(user);
+    const key = `${API_KEY_PREFIX}${this.vaultService.generateRandom(32, 'base64url')}`;
+
+    const apiKey = await this.apiKeysRepository.create({
+      developerId: developer.id,
+      createdBy: user.id,
+      name: dto.name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: this.vaultService.hash(key),
+      scopes: [...new Set(dto.scopes)],
+      expiresAt,
+    });
+
+    this.logger.log(`Issued API key ${apiKey.id} for developer ${developer.id}`);
+    await this.audit(AuditAction.API_KEY_CREATED, apiKey, user);
+    return new CreatedApiKeyResponse(
+      apiKey.id,
+      apiKey.name,
+      apiKey.keyPrefix,
+      apiKey.scopes,
+      apiKey.expiresAt || null,
+      apiKey.createdAt,
+      key,
+    );
+  }
+
+  /**
+   * Lists the keys issued for the caller's developer account, including revoked ones.
+   */
+  async listKeys(user: AuthenticatedUser): Promise<ApiKeyResponse[]> {
+    const developer = await this.developersService.getOrCreateForUser(user);
+    const keys = await this.apiKeysRepository.findByDeveloperId(developer.id);
+    return keys.map((k) => this.toApiKeyResponse(k));
+  }
+
+  /**
+   * Revokes one of the caller's keys. Revoking an already revoked key is a no-op.
+   */
+  async revokeKey(user: AuthenticatedUser, keyId: string): Promise<ApiKeyResponse> {
+    const developer = await this.developersService.getOrCreateForUser(user);
+    const apiKey = await this.apiKeysRepository.findById(keyId);
+    if (!apiKey || apiKey.developerId !== developer.id) {
+      throw new ResourceNotFoundException('API key', 'id', keyId);
+    }
+
+    if (apiKey.revokedAt) {
+      return this.toApiKeyResponse(apiKey);
+    }
+
+    const revoked = await this.apiKeysRepository.revoke(keyId);
+    this.logger.log(`Revoked API key ${keyId} for developer ${developer.id}`);
+    await this.audit(AuditAction.API_KEY_REVOKED, apiKey, user);
+    return this.toApiKeyResponse(revoked);
+  }
+
+  /**
+   * Authenticates a request made with an API key.
+   */
+  async verify(key: string, ipAddress?: string): Promise<AuthenticatedUser> {
+    const apiKey = await this.apiKeysRepository.findByHash(this.vaultService.hash(key));
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    try {
+      await this.apiKeysRepository.recordUsage(apiKey.id, ipAddress || null);
+    } catch (error) {
+      // Usage tracking must not block an otherwise valid request
+      this.logger.warn(`Could not record usage of API key ${apiKey.id}: ${error.message}`);
+    }
+
+    return {
+      id: apiKey.createdBy,
+      roles: [Role.DEVELOPER],
+      claims: {},
+      apiKey: {
+        id: apiKey.id,
+        developerId: apiKey.developerId,
+        scopes: apiKey.scopes,
+      },
+    };
+  }
+
+  private async audit(action: AuditAction, apiKey: DeveloperApiKey, user: AuthenticatedUser): Promise<void> {
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action,
+      entityType: AuditEntityType.API_KEY,
+      entityId: apiKey.id,
+      metadata: { developerId: apiKey.developerId, keyPrefix: apiKey.keyPrefix, scopes: apiKey.scopes },
+    });
+  }
+
+  private toApiKeyResponse(apiKey: DeveloperApiKey): ApiKeyResponse {
+    return new ApiKeyResponse(
+      apiKey.id,
+      apiKey.name,
+      apiKey.keyPrefix,
+      apiKey.scopes,
+      apiKey.expiresAt || null,
+      apiKey.lastUsedAt || null,
+      apiKey.lastUsedIp || null,
+      apiKey.revokedAt || null,
+      apiKey.createdAt,
+    );
+  }
+}
@@ -6,13 +6,22 @@ import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 
 import { AppConfigModule } from './config/config.module';
 import { StorageModule } from './storage/storage.module';
+import { ManifestModule } from './manifest/manifest.module';
 import { PluginsModule } from './plugins/plugins.module';
 import { DeveloperModule } from './developer/developer.module';
+import { DevelopersModule } from './developers/developers.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { SigningModule } from './signing/signing.module';
+import { ScannerModule } from './scanner/scanner.module';
+import { SigningKeysModule } from './signing-keys/signing-keys.module';
 import { AdminModule } from './admin/admin.module';
+import { AuditModule } from './audit/audit.module';
 import { HealthModule } from './health';
 import { CorrelationIdMiddleware } from './common/middleware/correlation-id.middleware';
 import { OAuthModule } from './oauth/oauth.module';
+import { OAuthCredentialsModule } from './oauth/oauth-credentials.module';
 import { VaultModule } from './vault/vault.module';
+import { AuthModule, AuthGuard, RolesGuard } from './auth';
 
 /**
  * Root application module.
@@ -34,14 +43,25 @@ import { VaultModule } from './vault/vault.module';
       },
     ]),
 
+    // Authentication
+    AuthModule,
+
     // Feature modules
+    AuditModule,
     HealthModule,
     VaultModule,
     StorageModule,
+    ManifestModule,
+    SigningModule,
+    ScannerModule,
     PluginsModule,
+    DevelopersModule,
+    ApiKeysModule,
+    SigningKeysModule,
     DeveloperModule,
     AdminModule,
     OAuthModule,
+    OAuthCredentialsModule,
   ],
   controllers: [],
   providers: [
@@ -50,6 +70,16 @@ import { VaultModule } from './vault/vault.module';
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    // Authenticate bearer tokens on every non-@Public() route
+    {
+      provide: APP_GUARD,
+      useClass: AuthGuard,
+    },
+    // Enforce @Roles() metadata
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
   ],
 })
 export class AppModule implements NestModule {
@@ -0,0 +1,167 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import { AuditLogEntry, CreateAuditLogEntryDto } from '../common/entities/audit-log-entry.entity';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import {
+  KeysetColumn,
+  KeysetPage,
+  KeysetValue,
+  keysetFilter,
+  toKeysetPage,
+} from '../common/utils/page-cursor.util';
+import * as crypto from 'crypto';
+
+/**
+ * Filters for reading the audit log.
+ */
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+
+  /** Inclusive lower bound on created_at. */
+  from?: Date;
+
+  /** Exclusive upper bound on created_at. */
+  to?: Date;
+
+  limit: number;
+  offset: number;
+
+  /** Sort key of the last entry of the previous page; the page starts after it instead of at the offset. */
+  after?: KeysetValue[];
+}
+
+/** Newest entry first, ties by ID. */
+const AUDIT_LOG_PAGE_COLUMNS: KeysetColumn[] = [
+  { column: 'created_at', ascending: false },
+  { column: 'id', ascending: true },
+];
+
+/**
+ * Repository for AuditLogEntry entity using Supabase.
+ * Entries are only ever inserted and read.
+ */
+@Injectable()
+export class AuditLogRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find a page of entries matching the filter, newest first.
+   */
+  async find(filter: AuditLogFilter): Promise<KeysetPage<AuditLogEntry>> {
+    let query = this.supabase.from('admin_audit_log').select('*');
+    if (filter.entityType) {
+      query = query.eq('entity_type', filter.entityType);
+    }
+    if (filter.entityId) {
+      query = query.eq('entity_id', filter.entityId);
+    }
+    if (filter.actorId) {
+      query = query.eq('actor_id', filter.actorId);
+    }
+    if (filter.action) {
+      query = query.eq('action', filter.action);
+    }
+    if (filter.from) {
+      query = query.gte('created_at', filter.from.toISOString());
+    }
+    if (filter.to) {
+      query = query.lt('created_at', filter.to.toISOString());
+    }
+
+    if (filter.after) {
+      query = query.or(keysetFilter(AUDIT_LOG_PAGE_COLUMNS, filter.after));
+    }
+    for (const { column, ascending } of AUDIT_LOG_PAGE_COLUMNS) {
+      query = query.order(column, { ascending });
+    }
+
+    const offset = filter.after ? 0 : filter.offset;
+    const { data, error } = await query.range(offset, offset + filter.limit);
+
+    if (error) {
+      throw new Error(`Failed to load audit log: ${error.message}`);
+    }
+
+    return toKeysetPage(data || [], AUDIT_LOG_PAGE_COLUMNS, filter.limit, (item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Whether any entry was recorded by the actor in the given role.
+   */
+  async existsForActor(actorId: string, actorRole: AuditActorRole): Promise<boolean> {
+    const { count, error } = await this.supabase
+      .from('admin_audit_log')
+      .select('id', { count: 'exact', head: true })
+      .eq('actor_id', actorId)
+      .eq('actor_role', actorRole);
+
+    if (error) {
+      throw new Error(`Failed to check audit log: ${error.message}`);
+    }
+
+    return (count ?? 0) > 0;
+  }
+
+  /**
+   * Record an entry.
+   */
+  async create(dto: CreateAuditLogEntryDto): Promise<AuditLogEntry> {
+    const { data, error } = await this.supabase
+      .from('admin_audit_log')
+      .insert({
+        id: crypto.randomUUID(),
+        actor_id: dto.actorId,
+        actor_role: dto.actorRole,
+        action: dto.action,
+        entity_type: dto.entityType,
+        entity_id: dto.entityId,
+        entity_version: dto.entityVersion ?? null,
+        old_status: dto.oldStatus ?? null,
+        new_status: dto.newStatus ?? null,
+        reason: dto.reason ?? null,
+        correlation_id: dto.correlationId ?? null,
+        metadata: dto.metadata ?? null,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record audit log entry: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Map database row to AuditLogEntry entity.
+   */
+  private mapToEntity(data: any): AuditLogEntry {
+    return {
+      id: data.id,
+      actorId: data.actor_id,
+      actorRole: data.actor_role as AuditActorRole,
+      action: data.action as AuditAction,
+      entityType: data.entity_type as AuditEntityType,
+      entityId: data.entity_id,
+      entityVersion: data.entity_version,
+      oldStatus: data.old_status,
+      newStatus: data.new_status,
+      reason: data.reason,
+      correlationId: data.correlation_id,
+      metadata: data.metadata,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
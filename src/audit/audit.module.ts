@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuditService } from './audit.service';
+import { AuditLogRepository } from './audit-log.repository';
+
+/**
+ * Audit module - the log of state-changing admin and developer actions.
+ * Marked as Global so every feature module can record its actions.
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [AuditService, AuditLogRepository],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AuditService, DEFAULT_AUDIT_LOG_LIMIT } from './audit.service';
+import { AuditLogRepository } from './audit-log.repository';
+import { RequestContext } from '../common/middleware/request-context';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import { AuditLogEntry } from '../common/entities/audit-log-entry.entity';
+import { InvalidCursorException } from '../common/exceptions';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let auditLogRepository: { create: jest.Mock; find: jest.Mock };
+
+  const entry = (overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+    id: 'entry-1',
+    actorId: 'admin-1',
+    actorRole: AuditActorRole.ADMIN,
+    action: AuditAction.VERSION_REJECTED,
+    entityType: AuditEntityType.PLUGIN_VERSION,
+    entityId: 'version-1',
+    entityVersion: '1.0.0',
+    oldStatus: 'PENDING_REVIEW',
+    newStatus: 'REJECTED',
+    reason: 'Uses eval',
+    correlationId: 'req-1',
+    metadata: { packageId: 'com.acme.tasks' },
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  const event = {
+    actorId: 'admin-1',
+    actorRole: AuditActorRole.ADMIN,
+    action: AuditAction.PLUGIN_DELETED,
+    entityType: AuditEntityType.PLUGIN,
+    entityId: 'plugin-1',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: AuditLogRepository,
+          useValue: { create: jest.fn(), find: jest.fn().mockResolvedValue({ items: [], nextKey: null }) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue({ cursorSecret: 'test-secret' }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+    auditLogRepository = module.get(AuditLogRepository);
+  });
+
+  describe('record', () => {
+    it("should tag the entry with the request's correlation ID", async () => {
+      await RequestContext.run({ correlationId: 'req-42' }, () => service.record(event));
+
+      expect(auditLogRepository.create).toHaveBeenCalledWith({ ...event, correlationId: 'req-42' });
+    });
+
+    it('should record actions outside a request without a correlation ID', async () => {
+      await service.record(event);
+
+      expect(auditLogRepository.create).toHaveBeenCalledWith({ ...event, correlationId: null });
+    });
+
+    it('should not fail the action when the entry cannot be written', async () => {
+      auditLogRepository.create.mockRejectedValue(new Error('connection reset'));
+
+      await expect(service.record(event)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('list', () => {
+    it('should pass the filters on with the default page', async () => {
+      const from = new Date('2024-01-01');
+      auditLogRepository.find.mockResolvedValue({ items: [entry()], nextKey: null });
+
+      const page = await service.list({ entityType: AuditEntityType.PLUGIN_VERSION, actorId: 'admin-1', from });
+
+      expect(auditLogRepository.find).toHaveBeenCalledWith({
+        entityType: AuditEntityType.PLUGIN_VERSION,
+        entityId: undefined,
+        actorId: 'admin-1',
+        action: undefined,
+        from,
+        to: undefined,
+        limit: DEFAULT_AUDIT_LOG_LIMIT,
+        offset: 0,
+        after: undefined,
+      });
+      expect(page.data).toEqual([expect.objectContaining({ id: 'entry-1', correlationId: 'req-1' })]);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should continue after the last entry of the previous page with its cursor', async () => {
+      const nextKey = ['2024-01-01T00:00:00.123456+00:00', 'entry-1'];
+      auditLogRepository.find.mockResolvedValue({ items: [entry()], nextKey });
+      const { nextCursor } = await service.list({ actorId: 'admin-1', limit: 1 });
+
+      await service.list({ actorId: 'admin-1', limit: 1, cursor: nextCursor as string });
+
+      expect(auditLogRepository.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({ actorId: 'admin-1', limit: 1, after: nextKey }),
+      );
+    });
+
+    it('should refuse a cursor for other filters, or together with an offset', async () => {
+      auditLogRepository.find.mockResolvedValue({ items: [entry()], nextKey: ['2024-01-01', 'entry-1'] });
+      const { nextCursor } = await service.list({ actorId: 'admin-1' });
+
+      await expect(service.list({ actorId: 'admin-2', cursor: nextCursor as string })).rejects.toThrow(
+        InvalidCursorException,
+      );
+      await expect(service.list({ actorId: 'admin-1', cursor: nextCursor as string, offset: 100 })).rejects.toThrow(
+        InvalidCursorException,
+      );
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write a header row and one CRLF-terminated row per entry', () => {
+      const csv = service.toCsv([entry()]);
+
+      expect(csv).toBe(
+        'id,createdAt,actorId,actorRole,action,entityType,entityId,entityVersion,oldStatus,newStatus,reason,correlationId,metadata\r\n' +
+          'entry-1,2024-01-01T00:00:00.000Z,admin-1,admin,VERSION_REJECTED,PLUGIN_VERSION,version-1,1.0.0,PENDING_REVIEW,REJECTED,Uses eval,req-1,' +
+          '"{""packageId"":""com.acme.tasks""}"\r\n',
+      );
+    });
+
+    it('should quote separators and neutralize formulas', () => {
+      const csv = service.toCsv([
+        entry({ reason: '=HYPERLINK("http://evil.example"), "click"', entityVersion: null, metadata: null }),
+      ]);
+
+      const row = csv.split('\r\n')[1];
+      expect(row).toContain(',version-1,,PENDING_REVIEW,');
+      expect(row).toContain('"\'=HYPERLINK(""http://evil.example""), ""click"""');
+      expect(row.endsWith(',req-1,')).toBe(true);
+    });
+  });
+});
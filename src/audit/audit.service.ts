@@ -0,0 +1,154 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditLogRepository } from './audit-log.repository';
+import { RequestContext } from '../common/middleware/request-context';
+import { AuditLogEntry, CreateAuditLogEntryDto } from '../common/entities/audit-log-entry.entity';
+import { AuditActorRole } from '../common/enums/audit.enum';
+import { AuditLogEntryResponse, AuditLogQueryDto } from '../common/dto';
+import { InvalidCursorException } from '../common/exceptions';
+import { CursorPage, decodePageCursor, encodePageCursor, queryFingerprint } from '../common/utils/page-cursor.util';
+
+/** An action to record; the correlation ID is taken from the current request. */
+export type AuditEvent = Omit<CreateAuditLogEntryDto, 'correlationId'>;
+
+/** Entries returned when the query does not set a limit. */
+export const DEFAULT_AUDIT_LOG_LIMIT = 100;
+
+/** Cursor scope of the audit log. */
+const AUDIT_LOG_CURSOR = 'audit-log';
+
+const CSV_COLUMNS: (keyof AuditLogEntryResponse)[] = [
+  'id',
+  'createdAt',
+  'actorId',
+  'actorRole',
+  'action',
+  'entityType',
+  'entityId',
+  'entityVersion',
+  'oldStatus',
+  'newStatus',
+  'reason',
+  'correlationId',
+  'metadata',
+];
+
+/** Leading characters that make spreadsheet applications evaluate a cell as a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Service for the audit log of state-changing admin and developer actions.
+ *
+ * Services call record() after an action has taken effect. Recording never
+ * fails the action: errors are logged instead.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    private readonly auditLogRepository: AuditLogRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Records an action, tagged with the current request's correlation ID.
+   */
+  async record(event: AuditEvent): Promise<void> {
+    try {
+      await this.auditLogRepository.create({ ...event, correlationId: RequestContext.correlationId() ?? null });
+    } catch (error) {
+      this.logger.error(
+        `Failed to audit ${event.action} of ${event.entityType} ${event.entityId} by ${event.actorId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Whether the user has acted as an admin before. Users are only known
+   * through their tokens, so the audit log is the record of who reviews.
+   */
+  async isKnownAdmin(userId: string): Promise<boolean> {
+    return this.auditLogRepository.existsForActor(userId, AuditActorRole.ADMIN);
+  }
+
+  /**
+   * Lists a page of entries matching the query, newest first, starting at
+   * the offset or after the last entry of the page that returned the cursor.
+   *
+   * @throws InvalidCursorException if the cursor is invalid, was issued for
+   *   other filters or is combined with an offset
+   */
+  async list(query: AuditLogQueryDto): Promise<CursorPage<AuditLogEntryResponse>> {
+    if (query.cursor && query.offset !== undefined) {
+      throw new InvalidCursorException('Use either cursor or offset, not both');
+    }
+    const filter = {
+      entityType: query.entityType,
+      entityId: query.entityId,
+      actorId: query.actorId,
+      action: query.action,
+      from: query.from,
+      to: query.to,
+    };
+    const fingerprint = queryFingerprint(filter);
+    const cursorSecret = this.configService.get('app.pagination').cursorSecret;
+    const cursor = query.cursor ? decodePageCursor(query.cursor, cursorSecret, AUDIT_LOG_CURSOR, fingerprint) : null;
+
+    const { items, nextKey } = await this.auditLogRepository.find({
+      ...filter,
+      limit: query.limit ?? DEFAULT_AUDIT_LOG_LIMIT,
+      offset: query.offset ?? 0,
+      after: cursor?.after,
+    });
+    return {
+      data: items.map((e) => this.toAuditLogEntryResponse(e)),
+      nextCursor: nextKey
+        ? encodePageCursor(
+            { scope: AUDIT_LOG_CURSOR, query: fingerprint, after: nextKey, page: (cursor?.page ?? 0) + 1 },
+            cursorSecret,
+          )
+        : null,
+    };
+  }
+
+  /**
+   * Renders entries as RFC 4180 CSV with a header row. Metadata is written
+   * as JSON, and cells that a spreadsheet would run as a formula are
+   * prefixed with an apostrophe.
+   */
+  toCsv(entries: AuditLogEntryResponse[]): string {
+    const rows = entries.map((entry) => CSV_COLUMNS.map((column) => this.toCsvCell(entry[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  private toCsvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    let text =
+      value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toAuditLogEntryResponse(entry: AuditLogEntry): AuditLogEntryResponse {
+    return new AuditLogEntryResponse(
+      entry.id,
+      entry.createdAt,
+      entry.actorId,
+      entry.actorRole,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.entityVersion,
+      entry.oldStatus,
+      entry.newStatus,
+      entry.reason,
+      entry.correlationId,
+      entry.metadata,
+    );
+  }
+}
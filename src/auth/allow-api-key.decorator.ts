@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_API_KEY_KEY = 'allowApiKey';
+
+/**
+ * Accepts developer API keys as an alternative to JWTs on a controller or route.
+ * Scope checks are left to the handler, since they usually depend on the request.
+ */
+export const AllowApiKey = () => SetMetadata(ALLOW_API_KEY_KEY, true);
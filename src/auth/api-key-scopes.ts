@@ -0,0 +1,62 @@
+/**
+ * Helpers for developer API key scopes.
+ *
+ * Supported scopes:
+ * - `submit:<packageId>` - submit versions of one package
+ * - `submit:<namespace>.*` - submit any package inside a namespace
+ * - `submit:*` - submit any package the developer owns
+ * - `manage:<packageId>`, `manage:<namespace>.*`, `manage:*` - unpublish,
+ *   relist, deprecate and yank; never implied by a submit scope
+ * - `read:analytics` - read plugin statistics
+ */
+export class ApiKeyScopes {
+  static readonly READ_ANALYTICS = 'read:analytics';
+
+  /** Pattern every scope granted to a key must match. */
+  static readonly PATTERN =
+    /^((submit|manage):(\*|[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*(\.\*)?)|read:analytics)$/;
+
+  /**
+   * Checks whether a scope string is well-formed.
+   */
+  static isValid(scope: string): boolean {
+    return ApiKeyScopes.PATTERN.test(scope);
+  }
+
+  /**
+   * Checks whether the scopes allow submitting the given package.
+   */
+  static allowsSubmit(scopes: string[], packageId: string): boolean {
+    return ApiKeyScopes.coversPackage(scopes, 'submit:', packageId);
+  }
+
+  /**
+   * Checks whether the scopes allow unpublishing, relisting, deprecating and
+   * yanking the given package.
+   */
+  static allowsManage(scopes: string[], packageId: string): boolean {
+    return ApiKeyScopes.coversPackage(scopes, 'manage:', packageId);
+  }
+
+  /**
+   * Checks whether the scopes include an exact scope.
+   */
+  static has(scopes: string[], scope: string): boolean {
+    return scopes.includes(scope);
+  }
+
+  private static coversPackage(scopes: string[], prefix: string, packageId: string): boolean {
+    return scopes
+      .filter((scope) => scope.startsWith(prefix))
+      .map((scope) => scope.slice(prefix.length))
+      .some((pattern) => {
+        if (pattern === '*') {
+          return true;
+        }
+        if (pattern.endsWith('.*')) {
+          return packageId.startsWith(pattern.slice(0, -1));
+        }
+        return pattern === packageId;
+      });
+  }
+}
@@ -0,0 +1,23 @@
+import { AuthenticatedUser } from './authenticated-user.interface';
+
+/**
+ * Prefix that distinguishes developer API keys from JWTs in the Authorization header.
+ */
+export const API_KEY_PREFIX = 'synx_';
+
+/**
+ * Verifies developer API keys and resolves them to an authenticated user.
+ *
+ * Bound by ApiKeysModule; AuthGuard only consults it on routes marked with @AllowApiKey().
+ */
+export abstract class ApiKeyVerifier {
+  /**
+   * Verifies a raw API key and records its use.
+   *
+   * @param key The key string without the "Bearer " prefix
+   * @param ipAddress Address of the calling client, recorded as last-used IP
+   * @returns The developer the key was issued to, with the key's scopes attached
+   * @throws UnauthorizedException if the key is unknown, revoked or expired
+   */
+  abstract verify(key: string, ipAddress?: string): Promise<AuthenticatedUser>;
+}
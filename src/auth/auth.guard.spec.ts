@@ -0,0 +1,139 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from './auth.guard';
+import { RolesGuard } from './roles.guard';
+import { TokenVerifier } from './token-verifier';
+import { ApiKeyVerifier } from './api-key-verifier';
+import { ALLOW_API_KEY_KEY } from './allow-api-key.decorator';
+import { AuthenticatedUser } from './authenticated-user.interface';
+import { IS_PUBLIC_KEY } from '../common/guards/public.guard';
+import { ROLES_KEY } from './roles.decorator';
+import { Role } from '../common/enums/role.enum';
+
+describe('AuthGuard and RolesGuard', () => {
+  let reflector: Reflector;
+  let tokenVerifier: jest.Mocked<TokenVerifier>;
+  let apiKeyVerifier: jest.Mocked<ApiKeyVerifier>;
+  let authGuard: AuthGuard;
+  let rolesGuard: RolesGuard;
+
+  const adminUser: AuthenticatedUser = {
+    id: 'admin-1',
+    roles: [Role.ADMIN],
+    claims: { sub: 'admin-1' },
+  };
+
+  const createContext = (
+    request: Record<string, any>,
+    metadata: Record<string, any> = {},
+  ): ExecutionContext => {
+    const handler = () => undefined;
+    class TestController {}
+
+    for (const [key, value] of Object.entries(metadata)) {
+      Reflect.defineMetadata(key, value, handler);
+    }
+
+    return {
+      getHandler: () => handler,
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+  };
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    tokenVerifier = { verify: jest.fn() } as jest.Mocked<TokenVerifier>;
+    apiKeyVerifier = { verify: jest.fn() } as jest.Mocked<ApiKeyVerifier>;
+    authGuard = new AuthGuard(reflector, tokenVerifier, apiKeyVerifier);
+    rolesGuard = new RolesGuard(reflector);
+  });
+
+  describe('AuthGuard', () => {
+    it('should allow public routes without a token', async () => {
+      const context = createContext({ headers: {} }, { [IS_PUBLIC_KEY]: true });
+
+      await expect(authGuard.canActivate(context)).resolves.toBe(true);
+      expect(tokenVerifier.verify).not.toHaveBeenCalled();
+    });
+
+    it('should reject protected routes without a bearer token', async () => {
+      const context = createContext({ headers: {} });
+
+      await expect(authGuard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject non-bearer authorization schemes', async () => {
+      const context = createContext({ headers: { authorization: 'Basic abc' } });
+
+      await expect(authGuard.canActivate(context)).rejects.toThrow('Missing bearer token');
+    });
+
+    it('should attach the verified user to the request', async () => {
+      const request = { headers: { authorization: 'Bearer good-token' } } as Record<string, any>;
+      tokenVerifier.verify.mockResolvedValue(adminUser);
+
+      await expect(authGuard.canActivate(createContext(request))).resolves.toBe(true);
+      expect(tokenVerifier.verify).toHaveBeenCalledWith('good-token');
+      expect(request.user).toEqual(adminUser);
+    });
+
+    it('should propagate verifier failures', async () => {
+      tokenVerifier.verify.mockRejectedValue(new UnauthorizedException('Token has expired'));
+      const context = createContext({ headers: { authorization: 'Bearer expired' } });
+
+      await expect(authGuard.canActivate(context)).rejects.toThrow('Token has expired');
+    });
+
+    it('should reject API keys on routes that do not allow them', async () => {
+      const context = createContext({ headers: { authorization: 'Bearer synx_abc' } });
+
+      await expect(authGuard.canActivate(context)).rejects.toThrow(
+        'API keys are not accepted on this route',
+      );
+      expect(apiKeyVerifier.verify).not.toHaveBeenCalled();
+      expect(tokenVerifier.verify).not.toHaveBeenCalled();
+    });
+
+    it('should verify API keys on routes marked with @AllowApiKey()', async () => {
+      const keyUser: AuthenticatedUser = {
+        id: 'dev-user-1',
+        roles: [Role.DEVELOPER],
+        claims: {},
+        apiKey: { id: 'key-1', developerId: 'dev-1', scopes: ['submit:com.acme.*'] },
+      };
+      const request = {
+        headers: { authorization: 'Bearer synx_abc' },
+        ip: '203.0.113.7',
+      } as Record<string, any>;
+      apiKeyVerifier.verify.mockResolvedValue(keyUser);
+
+      await expect(
+        authGuard.canActivate(createContext(request, { [ALLOW_API_KEY_KEY]: true })),
+      ).resolves.toBe(true);
+      expect(apiKeyVerifier.verify).toHaveBeenCalledWith('synx_abc', '203.0.113.7');
+      expect(request.user).toEqual(keyUser);
+    });
+  });
+
+  describe('RolesGuard', () => {
+    it('should allow routes without role metadata', () => {
+      const context = createContext({ user: adminUser });
+
+      expect(rolesGuard.canActivate(context)).toBe(true);
+    });
+
+    it('should allow callers holding a required role', () => {
+      const context = createContext({ user: adminUser }, { [ROLES_KEY]: [Role.ADMIN] });
+
+      expect(rolesGuard.canActivate(context)).toBe(true);
+    });
+
+    it('should forbid callers missing the required role', () => {
+      const developer = { ...adminUser, roles: [Role.DEVELOPER] };
+      const context = createContext({ user: developer }, { [ROLES_KEY]: [Role.ADMIN] });
+
+      expect(() => rolesGuard.canActivate(context)).toThrow(ForbiddenException);
+    });
+  });
+});
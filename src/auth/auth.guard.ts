@@ -0,0 +1,88 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { IS_PUBLIC_KEY } from '../common/guards/public.guard';
+import { AuthenticatedUser } from './authenticated-user.interface';
+import { TokenVerifier } from './token-verifier';
+import { ApiKeyVerifier, API_KEY_PREFIX } from './api-key-verifier';
+import { ALLOW_API_KEY_KEY } from './allow-api-key.decorator';
+
+/**
+ * Extension to Express Request to include the authenticated caller.
+ */
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Global guard that authenticates every request with a bearer token,
+ * except routes marked with @Public().
+ *
+ * Bearer values starting with API_KEY_PREFIX are treated as developer API keys
+ * and only accepted on routes marked with @AllowApiKey().
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  private readonly logger = new Logger(AuthGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly tokenVerifier: TokenVerifier,
+    private readonly apiKeyVerifier: ApiKeyVerifier,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets);
+
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const token = this.extractBearerToken(request);
+
+    if (!token) {
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+      if (!this.reflector.getAllAndOverride<boolean>(ALLOW_API_KEY_KEY, targets)) {
+        throw new UnauthorizedException('API keys are not accepted on this route');
+      }
+      request.user = await this.apiKeyVerifier.verify(token, request.ip);
+    } else {
+      request.user = await this.tokenVerifier.verify(token);
+    }
+
+    this.logger.debug(
+      `Authenticated ${request.user.id} for ${context.getClass().name}.${context.getHandler().name}`,
+    );
+
+    return true;
+  }
+
+  /**
+   * Reads the token from an "Authorization: Bearer <token>" header.
+   */
+  private extractBearerToken(request: Request): string | null {
+    const header = request.headers.authorization;
+    if (!header) {
+      return null;
+    }
+
+    const [scheme, token] = header.split(' ');
+    return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+  }
+}
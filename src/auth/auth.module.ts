@@ -0,0 +1,27 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TokenVerifier } from './token-verifier';
+import { JwtTokenVerifier } from './jwt-token-verifier';
+import { AuthGuard } from './auth.guard';
+import { RolesGuard } from './roles.guard';
+
+/**
+ * Authentication module - verifies bearer tokens and enforces roles.
+ * Marked as Global so the guards can resolve TokenVerifier from any module.
+ *
+ * The guards themselves are registered as APP_GUARDs in AppModule.
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: TokenVerifier,
+      useClass: JwtTokenVerifier,
+    },
+    AuthGuard,
+    RolesGuard,
+  ],
+  exports: [TokenVerifier, AuthGuard, RolesGuard],
+})
+export class AuthModule {}
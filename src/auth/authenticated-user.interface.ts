@@ -0,0 +1,35 @@
+import { Role } from '../common/enums/role.enum';
+
+/**
+ * Identity of the caller attached to the request once authentication succeeds.
+ */
+export interface AuthenticatedUser {
+  /** Stable subject identifier (the token's `sub` claim). */
+  id: string;
+
+  /** Roles granted to the caller. */
+  roles: Role[];
+
+  /** Email address, when present in the token. */
+  email?: string;
+
+  /** Raw verified claims, for consumers that need provider-specific fields. */
+  claims: Record<string, any>;
+
+  /** Set when the caller authenticated with a developer API key instead of a JWT. */
+  apiKey?: ApiKeyPrincipal;
+}
+
+/**
+ * Details of the developer API key a request was authenticated with.
+ */
+export interface ApiKeyPrincipal {
+  /** API key ID. */
+  id: string;
+
+  /** Developer account the key was issued for. */
+  developerId: string;
+
+  /** Scopes granted to the key (e.g. "submit:com.acme.*"). */
+  scopes: string[];
+}
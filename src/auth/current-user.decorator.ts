@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedUser } from './authenticated-user.interface';
+
+/**
+ * Injects the authenticated caller resolved by AuthGuard.
+ *
+ * @example
+ * ```typescript
+ * @Get('me')
+ * whoAmI(@CurrentUser() user: AuthenticatedUser) { ... }
+ * ```
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthenticatedUser | undefined => {
+    return context.switchToHttp().getRequest().user;
+  },
+);
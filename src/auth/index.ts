@@ -0,0 +1,11 @@
+export * from './auth.module';
+export * from './auth.guard';
+export * from './roles.guard';
+export * from './roles.decorator';
+export * from './current-user.decorator';
+export * from './token-verifier';
+export * from './jwt-token-verifier';
+export * from './api-key-verifier';
+export * from './api-key-scopes';
+export * from './allow-api-key.decorator';
+export * from './authenticated-user.interface';
@@ -0,0 +1,125 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync } from 'crypto';
+import { JwtTokenVerifier } from './jwt-token-verifier';
+import { Jwt } from './jwt.util';
+import { Role } from '../common/enums/role.enum';
+
+describe('JwtTokenVerifier', () => {
+  const secret = 'test-signing-secret';
+
+  const createVerifier = (overrides: Record<string, any> = {}) => {
+    const configService = {
+      get: jest.fn(() => ({
+        algorithm: 'HS256',
+        secret,
+        rolesClaim: 'roles',
+        clockToleranceSeconds: 0,
+        ...overrides,
+      })),
+    } as unknown as ConfigService;
+
+    return new JwtTokenVerifier(configService);
+  };
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('should verify a token signed with the local secret', async () => {
+    const verifier = createVerifier();
+    const token = Jwt.sign(
+      { sub: 'admin-1', email: 'admin@synapse.dev', roles: ['admin'], exp: now() + 60 },
+      secret,
+    );
+
+    const user = await verifier.verify(token);
+
+    expect(user.id).toBe('admin-1');
+    expect(user.email).toBe('admin@synapse.dev');
+    expect(user.roles).toEqual([Role.ADMIN]);
+  });
+
+  it('should read roles from a nested claim and ignore unknown roles', async () => {
+    const verifier = createVerifier({ rolesClaim: 'app_metadata.roles' });
+    const token = Jwt.sign(
+      { sub: 'dev-1', app_metadata: { roles: ['developer', 'superuser'] } },
+      secret,
+    );
+
+    const user = await verifier.verify(token);
+
+    expect(user.roles).toEqual([Role.DEVELOPER]);
+  });
+
+  it('should reject a token with an invalid signature', async () => {
+    const verifier = createVerifier();
+    const token = Jwt.sign({ sub: 'admin-1' }, 'another-secret');
+
+    await expect(verifier.verify(token)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('should reject an expired token', async () => {
+    const verifier = createVerifier();
+    const token = Jwt.sign({ sub: 'admin-1', exp: now() - 10 }, secret);
+
+    await expect(verifier.verify(token)).rejects.toThrow('Token has expired');
+  });
+
+  it('should reject a token signed with a different algorithm', async () => {
+    const verifier = createVerifier();
+    const token = Jwt.sign({ sub: 'admin-1' }, secret, 'HS512');
+
+    await expect(verifier.verify(token)).rejects.toThrow('Unexpected token algorithm');
+  });
+
+  it('should reject an unsigned "none" token', async () => {
+    const verifier = createVerifier();
+    const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sub: 'admin-1' })).toString('base64url');
+
+    await expect(verifier.verify(`${header}.${payload}.`)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should enforce issuer and audience when configured', async () => {
+    const verifier = createVerifier({ issuer: 'https://auth.synapse.dev', audience: 'plugin-store' });
+
+    const valid = Jwt.sign(
+      { sub: 'admin-1', iss: 'https://auth.synapse.dev', aud: ['plugin-store'] },
+      secret,
+    );
+    const wrongAudience = Jwt.sign(
+      { sub: 'admin-1', iss: 'https://auth.synapse.dev', aud: 'other' },
+      secret,
+    );
+
+    await expect(verifier.verify(valid)).resolves.toHaveProperty('id', 'admin-1');
+    await expect(verifier.verify(wrongAudience)).rejects.toThrow('Token audience does not match');
+  });
+
+  it('should reject a token without a subject', async () => {
+    const verifier = createVerifier();
+    const token = Jwt.sign({ roles: ['admin'] }, secret);
+
+    await expect(verifier.verify(token)).rejects.toThrow('Token is missing a subject');
+  });
+
+  it('should verify RS256 tokens with a public key', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const verifier = createVerifier({
+      algorithm: 'RS256',
+      secret: undefined,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    });
+
+    const token = Jwt.sign({ sub: 'host-1', roles: 'host-app' }, privateKey, 'RS256');
+    const user = await verifier.verify(token);
+
+    expect(user.roles).toEqual([Role.HOST_APP]);
+  });
+
+  it('should reject all tokens when no key is configured', async () => {
+    const verifier = createVerifier({ secret: undefined });
+    const token = Jwt.sign({ sub: 'admin-1' }, secret);
+
+    await expect(verifier.verify(token)).rejects.toThrow('Authentication is not configured');
+  });
+});
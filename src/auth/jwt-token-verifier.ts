@@ -0,0 +1,135 @@
+import { Inject, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role } from '../common/enums/role.enum';
+import { AuthenticatedUser } from './authenticated-user.interface';
+import { TokenVerifier } from './token-verifier';
+import { Jwt } from './jwt.util';
+
+/**
+ * JWT configuration as loaded from the `auth.jwt` config namespace.
+ */
+interface JwtConfig {
+  algorithm: string;
+  secret?: string;
+  publicKey?: string;
+  issuer?: string;
+  audience?: string;
+  rolesClaim: string;
+  clockToleranceSeconds: number;
+}
+
+/**
+ * Verifies compact JWS bearer tokens with a locally configured key.
+ *
+ * Checks performed:
+ * 1. Header algorithm matches the configured algorithm ("none" is never accepted)
+ * 2. Signature is valid for the configured secret or public key
+ * 3. exp / nbf are honoured (with configurable clock tolerance)
+ * 4. iss / aud match when configured
+ * 5. A subject claim is present
+ */
+@Injectable()
+export class JwtTokenVerifier extends TokenVerifier {
+  private readonly logger = new Logger(JwtTokenVerifier.name);
+  private readonly config: JwtConfig;
+  private readonly key: string | undefined;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    super();
+
+    this.config = this.configService.get<JwtConfig>('auth.jwt') as JwtConfig;
+
+    if (!Jwt.isSupportedAlgorithm(this.config.algorithm)) {
+      throw new Error(`Unsupported AUTH_JWT_ALGORITHM: ${this.config.algorithm}`);
+    }
+
+    this.key = this.config.algorithm.startsWith('HS') ? this.config.secret : this.config.publicKey;
+
+    if (!this.key) {
+      this.logger.warn(
+        'No JWT verification key configured (AUTH_JWT_SECRET / AUTH_JWT_PUBLIC_KEY). ' +
+          'All authenticated routes will reject requests.',
+      );
+    }
+  }
+
+  /**
+   * Verifies a bearer token and maps its claims to an AuthenticatedUser.
+   */
+  async verify(token: string): Promise<AuthenticatedUser> {
+    if (!this.key) {
+      throw new UnauthorizedException('Authentication is not configured');
+    }
+
+    let decoded;
+    try {
+      decoded = Jwt.decode(token);
+    } catch (error) {
+      throw new UnauthorizedException(`Malformed token: ${error.message}`);
+    }
+
+    if (decoded.header.alg !== this.config.algorithm) {
+      throw new UnauthorizedException(`Unexpected token algorithm: ${decoded.header.alg}`);
+    }
+
+    if (!Jwt.verifySignature(decoded, this.key, this.config.algorithm)) {
+      throw new UnauthorizedException('Invalid token signature');
+    }
+
+    const claims = decoded.payload;
+    this.validateClaims(claims);
+
+    return {
+      id: String(claims.sub),
+      roles: this.extractRoles(claims),
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      claims,
+    };
+  }
+
+  /**
+   * Validates registered claims (exp, nbf, iss, aud, sub).
+   */
+  private validateClaims(claims: Record<string, any>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.config.clockToleranceSeconds;
+
+    if (typeof claims.exp === 'number' && now - tolerance >= claims.exp) {
+      throw new UnauthorizedException('Token has expired');
+    }
+
+    if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+      throw new UnauthorizedException('Token is not yet valid');
+    }
+
+    if (this.config.issuer && claims.iss !== this.config.issuer) {
+      throw new UnauthorizedException('Token issuer is not trusted');
+    }
+
+    if (this.config.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.config.audience)) {
+        throw new UnauthorizedException('Token audience does not match');
+      }
+    }
+
+    if (!claims.sub) {
+      throw new UnauthorizedException('Token is missing a subject');
+    }
+  }
+
+  /**
+   * Reads roles from the configured (possibly nested) claim.
+   * Unknown role names are ignored.
+   */
+  private extractRoles(claims: Record<string, any>): Role[] {
+    const raw = this.config.rolesClaim
+      .split('.')
+      .reduce<any>((value, segment) => (value == null ? undefined : value[segment]), claims);
+
+    const names: unknown[] = Array.isArray(raw) ? raw : raw != null ? [raw] : [];
+    const known = Object.values(Role) as string[];
+
+    return names.filter((name): name is Role => typeof name === 'string' && known.includes(name));
+  }
+}
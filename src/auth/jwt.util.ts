@@ -0,0 +1,146 @@
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  createSign,
+  createVerify,
+  timingSafeEqual,
+  KeyObject,
+} from 'crypto';
+
+/**
+ * Supported JWS algorithms mapped to their Node digest and key family.
+ */
+const ALGORITHMS: Record<string, { digest: string; family: 'hmac' | 'rsa' | 'ecdsa' }> = {
+  HS256: { digest: 'sha256', family: 'hmac' },
+  HS384: { digest: 'sha384', family: 'hmac' },
+  HS512: { digest: 'sha512', family: 'hmac' },
+  RS256: { digest: 'sha256', family: 'rsa' },
+  RS384: { digest: 'sha384', family: 'rsa' },
+  RS512: { digest: 'sha512', family: 'rsa' },
+  ES256: { digest: 'sha256', family: 'ecdsa' },
+  ES384: { digest: 'sha384', family: 'ecdsa' },
+};
+
+/**
+ * Decoded (but not yet trusted) JWT parts.
+ */
+export interface DecodedJwt {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Minimal compact-JWS helpers built on node:crypto.
+ */
+export class Jwt {
+  /**
+   * Returns true if the algorithm is supported.
+   */
+  static isSupportedAlgorithm(algorithm: string): boolean {
+    return algorithm in ALGORITHMS;
+  }
+
+  /**
+   * Signs a payload and returns a compact JWT.
+   * Used by tests and local tooling to mint tokens with a local key.
+   */
+  static sign(
+    payload: Record<string, any>,
+    key: string | Buffer | KeyObject,
+    algorithm = 'HS256',
+  ): string {
+    const spec = ALGORITHMS[algorithm];
+    if (!spec) {
+      throw new Error(`Unsupported JWT algorithm: ${algorithm}`);
+    }
+
+    const header = Jwt.encodeSegment({ alg: algorithm, typ: 'JWT' });
+    const body = Jwt.encodeSegment(payload);
+    const signingInput = `${header}.${body}`;
+
+    let signature: Buffer;
+    if (spec.family === 'hmac') {
+      signature = createHmac(spec.digest, key as string | Buffer).update(signingInput).digest();
+    } else {
+      signature = createSign(spec.digest)
+        .update(signingInput)
+        .sign({ key: Jwt.toKeyObject(key, createPrivateKey), dsaEncoding: 'ieee-p1363' });
+    }
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Splits and decodes a compact JWT without verifying it.
+   *
+   * @throws Error if the token is not a well-formed compact JWS
+   */
+  static decode(token: string): DecodedJwt {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Token must have three segments');
+    }
+
+    const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+    try {
+      return {
+        header: JSON.parse(Buffer.from(headerSegment, 'base64url').toString('utf-8')),
+        payload: JSON.parse(Buffer.from(payloadSegment, 'base64url').toString('utf-8')),
+        signingInput: `${headerSegment}.${payloadSegment}`,
+        signature: Buffer.from(signatureSegment, 'base64url'),
+      };
+    } catch {
+      throw new Error('Token segments are not valid base64url JSON');
+    }
+  }
+
+  /**
+   * Verifies the signature of a decoded token.
+   */
+  static verifySignature(
+    decoded: DecodedJwt,
+    key: string | Buffer | KeyObject,
+    algorithm: string,
+  ): boolean {
+    const spec = ALGORITHMS[algorithm];
+    if (!spec) {
+      return false;
+    }
+
+    if (spec.family === 'hmac') {
+      const expected = createHmac(spec.digest, key as string | Buffer)
+        .update(decoded.signingInput)
+        .digest();
+      return (
+        expected.length === decoded.signature.length &&
+        timingSafeEqual(expected, decoded.signature)
+      );
+    }
+
+    try {
+      return createVerify(spec.digest)
+        .update(decoded.signingInput)
+        .verify(
+          { key: Jwt.toKeyObject(key, createPublicKey), dsaEncoding: 'ieee-p1363' },
+          decoded.signature,
+        );
+    } catch {
+      return false;
+    }
+  }
+
+  private static toKeyObject(
+    key: string | Buffer | KeyObject,
+    create: (key: string | Buffer) => KeyObject,
+  ): KeyObject {
+    return key instanceof KeyObject ? key : create(key);
+  }
+
+  private static encodeSegment(value: Record<string, any>): string {
+    return Buffer.from(JSON.stringify(value), 'utf-8').toString('base64url');
+  }
+}
@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../common/enums/role.enum';
+
+/**
+ * Metadata key for the roles required by a route.
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restricts a controller or route to callers holding at least one of the given roles.
+ * Method-level metadata overrides class-level metadata.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,36 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '../common/enums/role.enum';
+import { IS_PUBLIC_KEY } from '../common/guards/public.guard';
+import { ROLES_KEY } from './roles.decorator';
+
+/**
+ * Global guard that enforces @Roles() metadata.
+ * Runs after AuthGuard, so request.user is populated for non-public routes.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, targets);
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+    const granted = requiredRoles.some((role) => user?.roles?.includes(role));
+
+    if (!granted) {
+      throw new ForbiddenException(`Requires one of the roles: ${requiredRoles.join(', ')}`);
+    }
+
+    return true;
+  }
+}
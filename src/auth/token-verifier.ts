@@ -0,0 +1,18 @@
+import { AuthenticatedUser } from './authenticated-user.interface';
+
+/**
+ * Verifies bearer tokens and resolves them to an authenticated user.
+ *
+ * Bound to JwtTokenVerifier by default; tests and alternative identity
+ * providers can bind their own implementation in AuthModule.
+ */
+export abstract class TokenVerifier {
+  /**
+   * Verifies a raw bearer token.
+   *
+   * @param token The token string without the "Bearer " prefix
+   * @returns The authenticated user described by the token
+   * @throws UnauthorizedException if the token is invalid or expired
+   */
+  abstract verify(token: string): Promise<AuthenticatedUser>;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BlocklistService } from './blocklist.service';
+import { BlocklistRepository } from './blocklist.repository';
+
+/**
+ * Blocklist module - known-malicious artifact hashes, file hashes and domains.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [BlocklistService, BlocklistRepository],
+  exports: [BlocklistService],
+})
+export class BlocklistModule {}
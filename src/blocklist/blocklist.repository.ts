@@ -0,0 +1,143 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import { BlocklistEntry, CreateBlocklistEntryDto } from '../common/entities/blocklist-entry.entity';
+import { BlocklistEntryType } from '../common/enums/blocklist-entry-type.enum';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for BlocklistEntry entity using Supabase.
+ */
+@Injectable()
+export class BlocklistRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find all entries, optionally of one type, newest first.
+   */
+  async findAll(type?: BlocklistEntryType): Promise<BlocklistEntry[]> {
+    let query = this.supabase.from('blocklist_entries').select('*');
+    if (type) {
+      query = query.eq('type', type);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) {
+      throw new Error(`Failed to load blocklist: ${error.message}`);
+    }
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Find an entry by ID.
+   */
+  async findById(id: string): Promise<BlocklistEntry | null> {
+    const { data, error } = await this.supabase
+      .from('blocklist_entries')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find an entry by type and value.
+   */
+  async findByTypeAndValue(type: BlocklistEntryType, value: string): Promise<BlocklistEntry | null> {
+    const { data, error } = await this.supabase
+      .from('blocklist_entries')
+      .select('*')
+      .eq('type', type)
+      .eq('value', value)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find the entries of the given types whose value is one of the given values.
+   */
+  async findByValues(types: BlocklistEntryType[], values: string[]): Promise<BlocklistEntry[]> {
+    if (values.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('blocklist_entries')
+      .select('*')
+      .in('type', types)
+      .in('value', values);
+
+    if (error) {
+      throw new Error(`Failed to check blocklist: ${error.message}`);
+    }
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Create a new entry.
+   */
+  async create(dto: CreateBlocklistEntryDto): Promise<BlocklistEntry> {
+    const { data, error } = await this.supabase
+      .from('blocklist_entries')
+      .insert({
+        id: crypto.randomUUID(),
+        type: dto.type,
+        value: dto.value,
+        reason: dto.reason,
+        created_by: dto.createdBy,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create blocklist entry: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Delete an entry by ID.
+   */
+  async delete(id: string): Promise<void> {
+    const { error } = await this.supabase.from('blocklist_entries').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete blocklist entry: ${error.message}`);
+    }
+  }
+
+  /**
+   * Map database row to BlocklistEntry entity.
+   */
+  private mapToEntity(data: any): BlocklistEntry {
+    return {
+      id: data.id,
+      type: data.type as BlocklistEntryType,
+      value: data.value,
+      reason: data.reason,
+      createdBy: data.created_by,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { BlocklistService } from './blocklist.service';
+import { BlocklistRepository } from './blocklist.repository';
+import { BlocklistEntry } from '../common/entities/blocklist-entry.entity';
+import { PluginVersion, PluginVersionFile } from '../common/entities/plugin-version.entity';
+import { BlocklistEntryType } from '../common/enums/blocklist-entry-type.enum';
+import { VersionStatus } from '../common/enums/version-status.enum';
+import { DryRunEventType, DryRunPhaseOutcome, DryRunStatus } from '../common/enums/dry-run.enum';
+import { BlocklistedPackageException } from '../common/exceptions';
+import { AuditService } from '../audit/audit.service';
+
+describe('BlocklistService', () => {
+  let service: BlocklistService;
+  let blocklistRepository: jest.Mocked<BlocklistRepository>;
+
+  const artifactHash = 'a'.repeat(64);
+  const files: PluginVersionFile[] = [
+    { path: 'manifest.json', size: 20, sha256: 'b'.repeat(64), mimeType: 'application/json' },
+    { path: 'plugin.js', size: 10, sha256: 'c'.repeat(64), mimeType: 'text/javascript' },
+  ];
+
+  const entry = (type: BlocklistEntryType, value: string): BlocklistEntry => ({
+    id: `entry-${value.slice(0, 8)}`,
+    type,
+    value,
+    reason: 'Reported as malware',
+    createdBy: 'admin-1',
+    createdAt: new Date('2024-01-01'),
+  });
+
+  const version: PluginVersion = {
+    id: 'version-1',
+    pluginId: 'plugin-1',
+    version: '1.0.0',
+    manifest: {},
+    minAppVersion: '1.0.0',
+    status: VersionStatus.PUBLISHED,
+    checksumSha256: artifactHash,
+    createdAt: new Date('2024-01-01'),
+    downloadCount: 0,
+    isFlagged: false,
+    files,
+    signatures: [],
+    scanFindings: [],
+    permissionAnalysis: { detected: ['network', 'network:https://api.acme.com', 'storage:read'], findings: [] },
+    dryRunReport: {
+      status: DryRunStatus.COMPLETED,
+      startedAt: '2024-01-01T00:00:00.000Z',
+      durationMs: 10,
+      phases: [
+        {
+          name: 'load',
+          outcome: DryRunPhaseOutcome.OK,
+          durationMs: 1,
+          events: [
+            { type: DryRunEventType.NETWORK, name: 'XMLHttpRequest', detail: 'POST https://collect.Evil.example/t' },
+            { type: DryRunEventType.API_CALL, name: 'synapse.open', detail: '["https://docs.evil.example"]' },
+          ],
+          droppedEvents: 0,
+        },
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BlocklistService,
+        {
+          provide: BlocklistRepository,
+          useValue: {
+            findAll: jest.fn().mockResolvedValue([]),
+            findById: jest.fn(),
+            findByTypeAndValue: jest.fn().mockResolvedValue(null),
+            findByValues: jest.fn().mockResolvedValue([]),
+            create: jest.fn().mockImplementation(async (dto) => ({ ...dto, id: 'entry-1', createdAt: new Date() })),
+            delete: jest.fn(),
+          },
+        },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<BlocklistService>(BlocklistService);
+    blocklistRepository = module.get(BlocklistRepository);
+  });
+
+  describe('addEntry', () => {
+    it('should store hashes in lowercase', async () => {
+      await service.addEntry(
+        { type: BlocklistEntryType.FILE_HASH, value: ` ${'C'.repeat(64)} `, reason: 'Stealer' },
+        'admin-1',
+      );
+
+      expect(blocklistRepository.create).toHaveBeenCalledWith({
+        type: BlocklistEntryType.FILE_HASH,
+        value: 'c'.repeat(64),
+        reason: 'Stealer',
+        createdBy: 'admin-1',
+      });
+    });
+
+    it('should reduce URLs and wildcards to the domain name', async () => {
+      await service.addEntry({ type: BlocklistEntryType.DOMAIN, value: 'https://Evil.example/x', reason: 'C2' }, 'admin-1');
+      await service.addEntry({ type: BlocklistEntryType.DOMAIN, value: '*.evil.example', reason: 'C2' }, 'admin-1');
+
+      expect(blocklistRepository.create.mock.calls.map(([dto]) => dto.value)).toEqual([
+        'evil.example',
+        'evil.example',
+      ]);
+    });
+
+    it('should reject malformed values', async () => {
+      await expect(
+        service.addEntry({ type: BlocklistEntryType.ARTIFACT_HASH, value: 'abc123', reason: 'x' }, 'admin-1'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.addEntry({ type: BlocklistEntryType.DOMAIN, value: 'not a domain', reason: 'x' }, 'admin-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject duplicates', async () => {
+      blocklistRepository.findByTypeAndValue.mockResolvedValue(entry(BlocklistEntryType.DOMAIN, 'evil.example'));
+
+      await expect(
+        service.addEntry({ type: BlocklistEntryType.DOMAIN, value: 'evil.example', reason: 'C2' }, 'admin-1'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('assertPackageAllowed', () => {
+    it('should accept packages without matches', async () => {
+      await expect(service.assertPackageAllowed('com.acme.tasks', artifactHash, files)).resolves.toBeUndefined();
+      expect(blocklistRepository.findByValues).toHaveBeenCalledWith(
+        [BlocklistEntryType.ARTIFACT_HASH, BlocklistEntryType.FILE_HASH],
+        [artifactHash, 'b'.repeat(64), 'c'.repeat(64)],
+      );
+    });
+
+    it('should reject packages whose artifact or files match', async () => {
+      blocklistRepository.findByValues.mockResolvedValue([
+        entry(BlocklistEntryType.FILE_HASH, 'c'.repeat(64)),
+        // A file hash listed as an artifact hash does not match the file
+        entry(BlocklistEntryType.ARTIFACT_HASH, 'b'.repeat(64)),
+      ]);
+
+      const error = await service.assertPackageAllowed('com.acme.tasks', artifactHash, files).catch((e) => e);
+
+      expect(error).toBeInstanceOf(BlocklistedPackageException);
+      expect(error.matches).toEqual([`File plugin.js (SHA-256 ${'c'.repeat(64)}) is blocklisted`]);
+    });
+  });
+
+  describe('matchVersion', () => {
+    it('should match hosts from the permission analysis and dry run network attempts', () => {
+      expect(
+        service.matchVersion(version, [
+          entry(BlocklistEntryType.DOMAIN, 'evil.example'),
+          entry(BlocklistEntryType.DOMAIN, 'acme.com'),
+          entry(BlocklistEntryType.DOMAIN, 'me.com'),
+        ]),
+      ).toEqual([
+        'Code contacts api.acme.com, which is under blocked domain acme.com',
+        'Code contacts collect.evil.example, which is under blocked domain evil.example',
+      ]);
+    });
+
+    it('should match the artifact hash', () => {
+      expect(service.matchVersion(version, [entry(BlocklistEntryType.ARTIFACT_HASH, artifactHash)])).toEqual([
+        `Artifact SHA-256 ${artifactHash} is blocklisted`,
+      ]);
+    });
+
+    it('should report clean versions', () => {
+      expect(service.matchVersion(version, [entry(BlocklistEntryType.DOMAIN, 'example.org')])).toEqual([]);
+    });
+  });
+});
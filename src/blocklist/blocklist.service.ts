@@ -0,0 +1,224 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { BlocklistRepository } from './blocklist.repository';
+import { AuditService } from '../audit/audit.service';
+import { BlocklistEntry } from '../common/entities/blocklist-entry.entity';
+import { PluginVersion, PluginVersionFile } from '../common/entities/plugin-version.entity';
+import { BlocklistEntryType } from '../common/enums/blocklist-entry-type.enum';
+import { DryRunEventType } from '../common/enums/dry-run.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import { AddBlocklistEntryRequestDto, BlocklistEntryResponse } from '../common/dto';
+import { BlocklistedPackageException, ResourceNotFoundException } from '../common/exceptions';
+
+/** The part of an entry matching needs. */
+export type BlocklistRule = Pick<BlocklistEntry, 'type' | 'value'>;
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+const DOMAIN_PATTERN = /^(?=.{1,253}$)[a-z0-9-]{1,63}(\.[a-z0-9-]{1,63})+$/;
+
+/** URLs in dry run event details (e.g. "POST https://example.com/upload"). */
+const URL_PATTERN = /\b(?:https?|wss?):\/\/[^\s"'`<>()\\]+/gi;
+
+/**
+ * Service for the admin-managed malware blocklist.
+ *
+ * Hash entries are checked against a submission's artifact and file hashes
+ * before anything is stored. Domain entries are checked against the hosts a
+ * version's code is known to contact: network targets found by the permission
+ * analysis and network attempts recorded by the dry run. A domain entry also
+ * matches its subdomains.
+ */
+@Injectable()
+export class BlocklistService {
+  private readonly logger = new Logger(BlocklistService.name);
+
+  constructor(
+    private readonly blocklistRepository: BlocklistRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Adds an entry. Hashes are lowercased; domains may be given as URLs or
+   * `*.` wildcards and are reduced to the lowercase domain name.
+   */
+  async addEntry(dto: AddBlocklistEntryRequestDto, createdBy: string): Promise<BlocklistEntryResponse> {
+    const value = this.normalizeValue(dto.type, dto.value);
+    if (await this.blocklistRepository.findByTypeAndValue(dto.type, value)) {
+      throw new ConflictException(`${dto.type} ${value} is already blocklisted`);
+    }
+
+    const entry = await this.blocklistRepository.create({
+      type: dto.type,
+      value,
+      reason: dto.reason.trim(),
+      createdBy,
+    });
+
+    this.logger.warn(`Blocklisted ${entry.type} ${entry.value} by ${createdBy}: ${entry.reason}`);
+    await this.audit(AuditAction.BLOCKLIST_ENTRY_ADDED, entry, createdBy);
+    return this.toBlocklistEntryResponse(entry);
+  }
+
+  /**
+   * Lists entries, optionally of one type, newest first.
+   */
+  async listEntries(type?: BlocklistEntryType): Promise<BlocklistEntryResponse[]> {
+    const entries = await this.blocklistRepository.findAll(type);
+    return entries.map((e) => this.toBlocklistEntryResponse(e));
+  }
+
+  /**
+   * Removes an entry. Versions it caused to be flagged stay flagged.
+   */
+  async removeEntry(id: string, removedBy: string): Promise<void> {
+    const entry = await this.blocklistRepository.findById(id);
+    if (!entry) {
+      throw new ResourceNotFoundException('Blocklist entry', 'id', id);
+    }
+
+    await this.blocklistRepository.delete(id);
+    this.logger.log(`Removed ${entry.type} ${entry.value} from the blocklist by ${removedBy}`);
+    await this.audit(AuditAction.BLOCKLIST_ENTRY_REMOVED, entry, removedBy);
+  }
+
+  /**
+   * Rejects a submission whose artifact or files match a blocklisted hash.
+   *
+   * @throws BlocklistedPackageException listing the matches
+   */
+  async assertPackageAllowed(
+    packageId: string,
+    checksumSha256: string,
+    files: PluginVersionFile[],
+  ): Promise<void> {
+    const entries = await this.blocklistRepository.findByValues(
+      [BlocklistEntryType.ARTIFACT_HASH, BlocklistEntryType.FILE_HASH],
+      [...new Set([checksumSha256, ...files.map((f) => f.sha256)])],
+    );
+
+    const matches = this.matchHashes(checksumSha256, files, entries);
+    if (matches.length > 0) {
+      this.logger.warn(`Rejected blocklisted submission of ${packageId}: ${matches.join('; ')}`);
+      throw new BlocklistedPackageException(packageId, matches);
+    }
+  }
+
+  /**
+   * Checks a stored version against the whole blocklist.
+   *
+   * @returns A description of each match; empty if the version is clean
+   */
+  async findVersionMatches(version: PluginVersion): Promise<string[]> {
+    return this.matchVersion(version, await this.blocklistRepository.findAll());
+  }
+
+  /**
+   * Checks a stored version against the given entries.
+   *
+   * @returns A description of each match; empty if the version is clean
+   */
+  matchVersion(version: PluginVersion, entries: BlocklistRule[]): string[] {
+    const matches = version.checksumSha256 ? this.matchHashes(version.checksumSha256, version.files, entries) : [];
+
+    const domains = entries.filter((e) => e.type === BlocklistEntryType.DOMAIN);
+    if (domains.length === 0) {
+      return matches;
+    }
+    for (const host of this.contactedHosts(version)) {
+      const blocked = domains.find((d) => host === d.value || host.endsWith(`.${d.value}`));
+      if (blocked) {
+        matches.push(`Code contacts ${host}, which is under blocked domain ${blocked.value}`);
+      }
+    }
+    return matches;
+  }
+
+  private async audit(action: AuditAction, entry: BlocklistEntry, actorId: string): Promise<void> {
+    await this.auditService.record({
+      actorId,
+      actorRole: AuditActorRole.ADMIN,
+      action,
+      entityType: AuditEntityType.BLOCKLIST_ENTRY,
+      entityId: entry.id,
+      reason: entry.reason,
+      metadata: { type: entry.type, value: entry.value },
+    });
+  }
+
+  private matchHashes(checksumSha256: string, files: PluginVersionFile[], entries: BlocklistRule[]): string[] {
+    const matches: string[] = [];
+    for (const entry of entries) {
+      if (entry.type === BlocklistEntryType.ARTIFACT_HASH && entry.value === checksumSha256) {
+        matches.push(`Artifact SHA-256 ${entry.value} is blocklisted`);
+      } else if (entry.type === BlocklistEntryType.FILE_HASH) {
+        for (const file of files.filter((f) => f.sha256 === entry.value)) {
+          matches.push(`File ${file.path} (SHA-256 ${entry.value}) is blocklisted`);
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Hosts the version's code is known to contact, sorted.
+   */
+  private contactedHosts(version: PluginVersion): string[] {
+    const urls: string[] = [];
+    for (const permission of version.permissionAnalysis?.detected || []) {
+      if (permission.startsWith('network:')) {
+        urls.push(permission.slice('network:'.length));
+      }
+    }
+    for (const phase of version.dryRunReport?.phases || []) {
+      for (const event of phase.events) {
+        if (event.type === DryRunEventType.NETWORK && event.detail) {
+          urls.push(...(event.detail.match(URL_PATTERN) || []));
+        }
+      }
+    }
+
+    const hosts = new Set<string>();
+    for (const url of urls) {
+      try {
+        hosts.add(new URL(url).hostname.toLowerCase());
+      } catch {
+        // Not a URL (e.g. "network" for a computed target); nothing to match
+      }
+    }
+    return [...hosts].sort();
+  }
+
+  private normalizeValue(type: BlocklistEntryType, raw: string): string {
+    let value = raw.trim().toLowerCase();
+
+    if (type !== BlocklistEntryType.DOMAIN) {
+      if (!SHA256_PATTERN.test(value)) {
+        throw new BadRequestException('Hash must be a hex-encoded SHA-256 digest (64 characters)');
+      }
+      return value;
+    }
+
+    if (value.includes('://')) {
+      try {
+        value = new URL(value).hostname;
+      } catch {
+        throw new BadRequestException(`'${raw}' is not a valid URL`);
+      }
+    }
+    value = value.replace(/^\*\./, '').replace(/\.$/, '');
+    if (!DOMAIN_PATTERN.test(value)) {
+      throw new BadRequestException(`'${raw}' is not a valid domain name`);
+    }
+    return value;
+  }
+
+  private toBlocklistEntryResponse(entry: BlocklistEntry): BlocklistEntryResponse {
+    return new BlocklistEntryResponse(
+      entry.id,
+      entry.type,
+      entry.value,
+      entry.reason,
+      entry.createdBy,
+      entry.createdAt,
+    );
+  }
+}
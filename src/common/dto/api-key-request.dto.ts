@@ -0,0 +1,33 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  Length,
+  Matches,
+} from 'class-validator';
+import { ApiKeyScopes } from '../../auth/api-key-scopes';
+
+/**
+ * Request DTO for issuing a developer API key.
+ */
+export class CreateApiKeyRequestDto {
+  @IsNotEmpty({ message: 'Key name is required' })
+  @Length(1, 100, { message: 'Key name must be between 1 and 100 characters' })
+  name: string;
+
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @ArrayMaxSize(20, { message: 'A key can carry at most 20 scopes' })
+  @Matches(ApiKeyScopes.PATTERN, {
+    each: true,
+    message: 'Each scope must be submit:<packageId>, submit:<namespace>.*, submit:*, the same forms of manage: or read:analytics',
+  })
+  scopes: string[];
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'Expiry must be an ISO 8601 date-time' })
+  expiresAt?: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Response DTO for a developer API key. Never contains the key itself.
+ */
+export class ApiKeyResponse {
+  constructor(
+    public id: string,
+    public name: string,
+    public keyPrefix: string,
+    public scopes: string[],
+    public expiresAt: Date | null,
+    public lastUsedAt: Date | null,
+    public lastUsedIp: string | null,
+    public revokedAt: Date | null,
+    public createdAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO returned once when a key is issued, including the plaintext key.
+ */
+export class CreatedApiKeyResponse extends ApiKeyResponse {
+  constructor(
+    id: string,
+    name: string,
+    keyPrefix: string,
+    scopes: string[],
+    expiresAt: Date | null,
+    createdAt: Date,
+    /** The full key. It is not stored and cannot be retrieved again. */
+    public key: string,
+  ) {
+    super(id, name, keyPrefix, scopes, expiresAt, null, null, null, createdAt);
+  }
+}
@@ -0,0 +1,66 @@
+import { IsDate, IsEnum, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AuditAction, AuditEntityType } from '../enums/audit.enum';
+
+/** Most entries returned per request. */
+export const MAX_AUDIT_LOG_LIMIT = 1000;
+
+/**
+ * Query DTO for reading the audit log, newest entry first.
+ */
+export class AuditLogQueryDto {
+  @IsOptional()
+  @IsEnum(AuditEntityType, { message: 'Entity type is not a known audit entity type' })
+  entityType?: AuditEntityType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255, { message: 'Entity ID must not exceed 255 characters' })
+  entityId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255, { message: 'Actor ID must not exceed 255 characters' })
+  actorId?: string;
+
+  @IsOptional()
+  @IsEnum(AuditAction, { message: 'Action is not a known audit action' })
+  action?: AuditAction;
+
+  /** Entries at or after this time (ISO 8601). */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'From must be an ISO 8601 timestamp' })
+  from?: Date;
+
+  /** Entries before this time (ISO 8601). */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'To must be an ISO 8601 timestamp' })
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: `Limit must be between 1 and ${MAX_AUDIT_LOG_LIMIT}` })
+  @Max(MAX_AUDIT_LOG_LIMIT, { message: `Limit must be between 1 and ${MAX_AUDIT_LOG_LIMIT}` })
+  limit?: number;
+
+  /** Not combined with cursor. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Offset must be an integer' })
+  @Min(0, { message: 'Offset must not be negative' })
+  offset?: number;
+
+  /** X-Next-Cursor of the previous page; the page starts after its last entry. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024, { message: 'Cursor must not exceed 1024 characters' })
+  cursor?: string;
+
+  /** json (default) or csv. */
+  @IsOptional()
+  @IsIn(['json', 'csv'], { message: 'Format must be either json or csv' })
+  format?: 'json' | 'csv';
+}
@@ -0,0 +1,22 @@
+import { AuditAction, AuditActorRole, AuditEntityType } from '../enums/audit.enum';
+
+/**
+ * Response DTO for an audit log entry.
+ */
+export class AuditLogEntryResponse {
+  constructor(
+    public id: string,
+    public createdAt: Date,
+    public actorId: string,
+    public actorRole: AuditActorRole,
+    public action: AuditAction,
+    public entityType: AuditEntityType,
+    public entityId: string,
+    public entityVersion: string | null,
+    public oldStatus: string | null,
+    public newStatus: string | null,
+    public reason: string | null,
+    public correlationId: string | null,
+    public metadata: Record<string, unknown> | null,
+  ) {}
+}
@@ -0,0 +1,22 @@
+import { IsEnum, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { BlocklistEntryType } from '../enums/blocklist-entry-type.enum';
+
+/**
+ * Request DTO for adding a blocklist entry.
+ */
+export class AddBlocklistEntryRequestDto {
+  @IsEnum(BlocklistEntryType, { message: 'Type must be one of ARTIFACT_HASH, FILE_HASH or DOMAIN' })
+  @IsNotEmpty({ message: 'Type is required' })
+  type: BlocklistEntryType;
+
+  /** Hex SHA-256 for hashes; a domain name (or URL) for DOMAIN. */
+  @IsString()
+  @IsNotEmpty({ message: 'Value is required' })
+  @MaxLength(500, { message: 'Value must not exceed 500 characters' })
+  value: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(1000, { message: 'Reason must not exceed 1000 characters' })
+  reason: string;
+}
@@ -0,0 +1,26 @@
+import { BlocklistEntryType } from '../enums/blocklist-entry-type.enum';
+
+/**
+ * Response DTO for a blocklist entry.
+ */
+export class BlocklistEntryResponse {
+  constructor(
+    public id: string,
+    public type: BlocklistEntryType,
+    public value: string,
+    public reason: string,
+    public createdBy: string,
+    public createdAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO for a newly added blocklist entry, with the published
+ * versions that matched it and were flagged.
+ */
+export class BlocklistEntryAddedResponse {
+  constructor(
+    public entry: BlocklistEntryResponse,
+    public flaggedVersionIds: string[],
+  ) {}
+}
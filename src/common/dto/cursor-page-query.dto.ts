@@ -0,0 +1,22 @@
+import { IsInt, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Query DTO for lists returned as plain arrays that can be read a page at a
+ * time. Without either parameter the whole list is returned; otherwise the
+ * X-Next-Cursor response header carries the cursor of the next page.
+ */
+export class CursorPageQueryDto {
+  /** Capped at the configured maximum page size. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page size must be an integer' })
+  @Min(1, { message: 'Page size must be at least 1' })
+  pageSize?: number;
+
+  /** X-Next-Cursor of the previous page. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024, { message: 'Cursor must not exceed 1024 characters' })
+  cursor?: string;
+}
@@ -0,0 +1,18 @@
+import { PluginStatus } from '../enums/plugin-status.enum';
+
+/**
+ * Response DTO for a deleted plugin awaiting purge.
+ */
+export class DeletedPluginResponse {
+  constructor(
+    public id: string,
+    public packageId: string,
+    public name: string,
+    /** Status the plugin returns to when restored. */
+    public statusBeforeDeletion: PluginStatus | null,
+    public deletedAt: Date | null,
+    public deletedBy: string | null,
+    /** When the plugin will be purged and its packageId released. */
+    public purgeAfter: Date | null,
+  ) {}
+}
@@ -0,0 +1,88 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { OwnershipDecision } from '../enums/developer-account.enum';
+
+/**
+ * Request DTO for creating or updating the caller's developer profile.
+ */
+export class UpdateDeveloperProfileRequestDto {
+  @IsNotEmpty({ message: 'Display name is required' })
+  @Length(2, 100, { message: 'Display name must be between 2 and 100 characters' })
+  displayName: string;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email?: string;
+}
+
+/**
+ * Request DTO for creating an organization account.
+ */
+export class CreateOrganizationRequestDto {
+  @IsNotEmpty({ message: 'Organization name is required' })
+  @Length(2, 100, { message: 'Organization name must be between 2 and 100 characters' })
+  displayName: string;
+
+  @IsOptional()
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email?: string;
+}
+
+/**
+ * Request DTO for adding a developer to an organization.
+ */
+export class AddOrganizationMemberRequestDto {
+  @IsUUID('4', { message: 'Developer ID must be a valid UUID' })
+  developerId: string;
+}
+
+/**
+ * Request DTO for claiming a reverse-domain namespace.
+ */
+export class ClaimNamespaceRequestDto {
+  @IsNotEmpty({ message: 'Namespace is required' })
+  @Matches(/^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+(\.\*)?$/, {
+    message: 'Namespace must be in reverse domain notation (e.g., com.acme or com.acme.*)',
+  })
+  namespace: string;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Organization ID must be a valid UUID' })
+  organizationId?: string;
+}
+
+/**
+ * Request DTO for requesting a plugin ownership transfer.
+ */
+export class RequestOwnershipTransferRequestDto {
+  @IsUUID('4', { message: 'Target developer ID must be a valid UUID' })
+  toDeveloperId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Reason must not exceed 1000 characters' })
+  reason?: string;
+}
+
+/**
+ * Request DTO for admin decisions on namespace claims and ownership transfers.
+ */
+export class OwnershipDecisionRequestDto {
+  @IsEnum(OwnershipDecision, { message: 'Decision must be either APPROVE or REJECT' })
+  @IsNotEmpty({ message: 'Decision is required' })
+  decision: OwnershipDecision;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Note must not exceed 1000 characters' })
+  note?: string;
+}
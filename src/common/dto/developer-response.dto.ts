@@ -0,0 +1,52 @@
+import { DeveloperType, OwnershipRequestStatus } from '../enums/developer-account.enum';
+
+/**
+ * Response DTO for a developer or organization account.
+ */
+export class DeveloperResponse {
+  constructor(
+    public id: string,
+    public type: DeveloperType,
+    public displayName: string,
+    public email: string | null,
+    /** Organizations the developer belongs to (empty for organizations). */
+    public organizationIds: string[],
+    public createdAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO for a namespace claim.
+ */
+export class NamespaceClaimResponse {
+  constructor(
+    public id: string,
+    public developerId: string,
+    public namespace: string,
+    public status: OwnershipRequestStatus,
+    public requestedBy: string,
+    public reviewedBy: string | null,
+    public reviewedAt: Date | null,
+    public rejectionReason: string | null,
+    public createdAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO for a plugin ownership transfer request.
+ */
+export class OwnershipTransferResponse {
+  constructor(
+    public id: string,
+    public pluginId: string,
+    public fromDeveloperId: string | null,
+    public toDeveloperId: string,
+    public requestedBy: string,
+    public reason: string | null,
+    public status: OwnershipRequestStatus,
+    public reviewedBy: string | null,
+    public reviewedAt: Date | null,
+    public reviewNote: string | null,
+    public createdAt: Date,
+  ) {}
+}
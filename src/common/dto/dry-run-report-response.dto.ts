@@ -0,0 +1,38 @@
+import { DryRunEventType, DryRunPhaseOutcome, DryRunStatus } from '../enums/dry-run.enum';
+
+/**
+ * Response DTO for something a plugin attempted during its dry run.
+ */
+export class DryRunEventResponse {
+  constructor(
+    public type: DryRunEventType,
+    public name: string,
+    public detail: string | null,
+  ) {}
+}
+
+/**
+ * Response DTO for one phase of a dry run (loading, or one intent).
+ */
+export class DryRunPhaseResponse {
+  constructor(
+    public name: string,
+    public outcome: DryRunPhaseOutcome,
+    public durationMs: number,
+    public events: DryRunEventResponse[],
+    public droppedEvents: number,
+  ) {}
+}
+
+/**
+ * Response DTO for the sandboxed dry run of a plugin version.
+ */
+export class DryRunReportResponse {
+  constructor(
+    public status: DryRunStatus,
+    public error: string | null,
+    public startedAt: string,
+    public durationMs: number,
+    public phases: DryRunPhaseResponse[],
+  ) {}
+}
@@ -1,7 +1,34 @@
 export * from './plugin-response.dto';
 export * from './plugin-detail-response.dto';
 export * from './plugin-version-response.dto';
+export * from './plugin-version-files-response.dto';
+export * from './plugin-update-check-response.dto';
+export * from './version-diff-response.dto';
 export * from './plugin-statistics-response.dto';
+export * from './deleted-plugin-response.dto';
 export * from './plugin-review-item.dto';
+export * from './scan-finding-response.dto';
+export * from './permission-analysis-response.dto';
+export * from './dry-run-report-response.dto';
+export * from './risk-factor-response.dto';
 export * from './review-decision-request.dto';
+export * from './cursor-page-query.dto';
+export * from './store-plugins-query.dto';
+export * from './store-suggest-query.dto';
+export * from './review-queue-query.dto';
+export * from './review-comment-request.dto';
+export * from './review-comment-response.dto';
+export * from './review-assignment-request.dto';
+export * from './review-assignment-response.dto';
+export * from './version-lifecycle-request.dto';
+export * from './audit-log-query.dto';
+export * from './audit-log-response.dto';
 export * from './submit-plugin-request.dto';
+export * from './developer-request.dto';
+export * from './developer-response.dto';
+export * from './api-key-request.dto';
+export * from './api-key-response.dto';
+export * from './signing-key-request.dto';
+export * from './signing-key-response.dto';
+export * from './blocklist-request.dto';
+export * from './blocklist-response.dto';
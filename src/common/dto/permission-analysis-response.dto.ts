@@ -0,0 +1,26 @@
+import { PermissionFindingType } from '../enums/permission-finding.enum';
+
+/**
+ * Response DTO for a mismatch between declared permissions and code behaviour.
+ */
+export class PermissionFindingResponse {
+  constructor(
+    public type: PermissionFindingType,
+    public permission: string,
+    public message: string,
+    public file: string | null,
+    public line: number | null,
+    public column: number | null,
+  ) {}
+}
+
+/**
+ * Response DTO for the permission surface of a plugin version: the
+ * capabilities its code uses and how they compare with its manifest.
+ */
+export class PermissionAnalysisResponse {
+  constructor(
+    public detected: string[],
+    public findings: PermissionFindingResponse[],
+  ) {}
+}
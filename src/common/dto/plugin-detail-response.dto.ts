@@ -1,4 +1,19 @@
 import { PluginStatus } from '../enums/plugin-status.enum';
+import { SignatureRole } from '../enums/signature-role.enum';
+import { PermissionAnalysisResponse } from './permission-analysis-response.dto';
+
+/**
+ * Response DTO for a package signature, with the public key needed to verify it.
+ */
+export class PackageSignatureResponse {
+  constructor(
+    public role: SignatureRole,
+    public keyId: string,
+    public algorithm: string,
+    public publicKey: string,
+    public signature: string,
+  ) {}
+}
 
 /**
  * Combined response DTO containing plugin metadata and version details.
@@ -48,5 +63,15 @@ export class PluginDetailResponse {
 
     /** Storage path within the bucket */
     public storagePath: string | null,
+
+    // ===== Provenance =====
+    /** Developer signature and store counter-signature (see README: Package signing) */
+    public signatures: PackageSignatureResponse[] = [],
+
+    /** Capabilities the code uses compared with manifest.permissions (see README: Permission analysis) */
+    public permissionAnalysis: PermissionAnalysisResponse | null = null,
+
+    /** Set when the version is DEPRECATED; hosts should show it to the user */
+    public deprecationMessage: string | null = null,
   ) {}
 }
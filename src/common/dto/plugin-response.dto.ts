@@ -19,6 +19,27 @@ export class PluginResponse {
     public sourceUrl: string | null,
     public createdAt: Date,
     public updatedAt: Date,
+    public totalDownloads = 0,
+    /** Average user rating (0-5), null until rated. */
+    public ratingAverage: number | null = null,
+    public ratingCount = 0,
+    public verified = false,
+    public featured = false,
+    /** How the plugin matched the search; only set when sorted by relevance. */
+    public search?: PluginSearchMatchResponse,
+  ) {}
+}
+
+/**
+ * How a plugin matched a store search. The name and snippet are HTML-escaped,
+ * with the matched words wrapped in `<mark>`; the snippet is taken from the
+ * description, or from the README when only it matches.
+ */
+export class PluginSearchMatchResponse {
+  constructor(
+    public rank: number,
+    public nameHighlight: string,
+    public snippet: string | null,
   ) {}
 }
 
@@ -34,3 +55,56 @@ export class PaginatedResponse<T> {
     public totalPages: number,
   ) {}
 }
+
+/**
+ * Number of listed plugins with a facet value.
+ */
+export class FacetCountResponse {
+  constructor(
+    public value: string,
+    public count: number,
+  ) {}
+}
+
+/**
+ * Match counts per category and tag for a store listing, most matches first.
+ * Category counts ignore the category filter; tag counts include the tag filter.
+ */
+export class StorePluginFacetsResponse {
+  constructor(
+    public categories: FacetCountResponse[],
+    public tags: FacetCountResponse[],
+  ) {}
+}
+
+/**
+ * Store search suggestions for what has been typed so far, with the number of
+ * published plugins for each value. Values starting with the query come first,
+ * then those with the most plugins.
+ */
+export class StoreSuggestionsResponse {
+  constructor(
+    public names: FacetCountResponse[],
+    public categories: FacetCountResponse[],
+    public tags: FacetCountResponse[],
+    public authors: FacetCountResponse[],
+  ) {}
+}
+
+/**
+ * A page of the store listing with its facet counts and the cursor of the
+ * next page (null on the last page).
+ */
+export class StorePluginPageResponse extends PaginatedResponse<PluginResponse> {
+  constructor(
+    data: PluginResponse[],
+    total: number,
+    page: number,
+    pageSize: number,
+    totalPages: number,
+    public facets: StorePluginFacetsResponse,
+    public nextCursor: string | null = null,
+  ) {
+    super(data, total, page, pageSize, totalPages);
+  }
+}
@@ -1,8 +1,21 @@
 import { VersionStatus } from '../enums/version-status.enum';
+import { ScanFindingResponse } from './scan-finding-response.dto';
+import { PermissionAnalysisResponse } from './permission-analysis-response.dto';
+import { DryRunReportResponse } from './dry-run-report-response.dto';
+import { RiskFactorResponse } from './risk-factor-response.dto';
+import { ReviewApprovalResponse } from './review-assignment-response.dto';
 
 /**
  * Response DTO for items in the admin review queue.
- * Contains summary information for pending plugin versions.
+ * Contains summary information for pending plugin versions, including the
+ * static analysis findings recorded at submission (most severe first), the
+ * permission analysis (null if the code could not be analyzed), the
+ * sandbox dry run report (null until the dry run has finished) and the
+ * review risk score with its factors (null for versions submitted before scoring).
+ * resubmissionOfVersionId links a version submitted in response to a
+ * changes request to the version that was sent back. claimedBy is the
+ * reviewer holding an unexpired claim (null if unclaimed), and approvals
+ * lists the publish approvals recorded towards requiredApprovals.
  */
 export class PluginReviewItem {
   constructor(
@@ -17,5 +30,16 @@ export class PluginReviewItem {
     public status: VersionStatus,
     public isFlagged: boolean,
     public flagReason: string | null,
+    public scanFindings: ScanFindingResponse[] = [],
+    public permissionAnalysis: PermissionAnalysisResponse | null = null,
+    public dryRunReport: DryRunReportResponse | null = null,
+    public riskScore: number | null = null,
+    public riskFactors: RiskFactorResponse[] = [],
+    public resubmissionOfVersionId: string | null = null,
+    public claimedBy: string | null = null,
+    public claimExpiresAt: Date | null = null,
+    public approvals: ReviewApprovalResponse[] = [],
+    public requiredApprovals = 1,
+    public approvalReasons: string[] = [],
   ) {}
 }
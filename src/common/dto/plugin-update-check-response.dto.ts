@@ -0,0 +1,29 @@
+import { VersionStatus } from '../enums/version-status.enum';
+
+/**
+ * Response DTO for an installed plugin checking for updates.
+ */
+export class PluginUpdateCheckResponse {
+  constructor(
+    public packageId: string,
+
+    /** True when the owner has unpublished the plugin; no update is offered */
+    public delisted: boolean,
+
+    public installedVersion: string | null,
+
+    /** Status of the installed version; null if it is not a version of this plugin */
+    public installedVersionStatus: VersionStatus | null,
+
+    /** Set when the installed version is DEPRECATED */
+    public deprecationMessage: string | null,
+
+    /** Set when the installed version is YANKED */
+    public yankReason: string | null,
+
+    /** Newest installable version (compatible with the app version, if given) */
+    public latestVersion: string | null,
+
+    public updateAvailable: boolean,
+  ) {}
+}
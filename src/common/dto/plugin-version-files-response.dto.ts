@@ -0,0 +1,24 @@
+/**
+ * Response DTO for a single file in a version's .synx archive.
+ */
+export class PluginVersionFileResponse {
+  constructor(
+    public path: string,
+    public size: number,
+    public sha256: string,
+    public mimeType: string,
+  ) {}
+}
+
+/**
+ * Response DTO for the file inventory of a plugin version.
+ */
+export class PluginVersionFilesResponse {
+  constructor(
+    public versionId: string,
+    public version: string,
+    public totalFiles: number,
+    public totalSizeBytes: number,
+    public files: PluginVersionFileResponse[],
+  ) {}
+}
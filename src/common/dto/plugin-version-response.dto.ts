@@ -25,5 +25,10 @@ export class PluginVersionResponse {
     public storageBucket: string | null,
     public fileSizeBytes: number | null,
     public checksumSha256: string | null,
+    // ===== Lifecycle =====
+    /** Set while the version is DEPRECATED */
+    public deprecationMessage: string | null = null,
+    /** Set once the version is YANKED */
+    public yankReason: string | null = null,
   ) {}
 }
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Request DTO for assigning a queued version to a reviewer.
+ */
+export class AssignReviewerRequestDto {
+  /** User ID (token subject) of the admin who should review the version. */
+  @IsString()
+  @IsNotEmpty({ message: 'Assignee ID is required' })
+  @MaxLength(255, { message: 'Assignee ID must not exceed 255 characters' })
+  assigneeId: string;
+}
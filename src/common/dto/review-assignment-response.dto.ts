@@ -0,0 +1,38 @@
+import { VersionStatus } from '../enums/version-status.enum';
+
+/**
+ * Response DTO for a reviewer's claim on a queued version.
+ */
+export class ReviewClaimResponse {
+  constructor(
+    public versionId: string,
+    public claimedBy: string,
+    public claimExpiresAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO for a recorded publish approval.
+ */
+export class ReviewApprovalResponse {
+  constructor(
+    public approvedBy: string,
+    public approvedAt: string,
+  ) {}
+}
+
+/**
+ * Response DTO for a review decision. A PUBLISH decision that does not yet
+ * reach requiredApprovals distinct approvers is recorded as an approval and
+ * leaves the status unchanged; approvalReasons says why more than one
+ * approval is needed.
+ */
+export class ReviewDecisionResponse {
+  constructor(
+    public versionId: string,
+    public status: VersionStatus,
+    public approvals: ReviewApprovalResponse[],
+    public requiredApprovals: number,
+    public approvalReasons: string[] = [],
+  ) {}
+}
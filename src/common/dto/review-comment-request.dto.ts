@@ -0,0 +1,37 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min, ValidateIf } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Request DTO for starting a review thread on a plugin version.
+ * The thread may be anchored to a file in the package, and to a line in it.
+ */
+export class CreateReviewThreadRequestDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Comment body is required' })
+  @MaxLength(10000, { message: 'Comment body must not exceed 10000 characters' })
+  body: string;
+
+  /** Path inside the package (e.g., "plugin.js"). Required when line is given. */
+  @ValidateIf((dto) => dto.file !== undefined || dto.line !== undefined)
+  @IsString({ message: 'File is required when a line is given' })
+  @IsNotEmpty({ message: 'File must not be empty' })
+  @MaxLength(500, { message: 'File must not exceed 500 characters' })
+  file?: string;
+
+  /** 1-based line in the file. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Line must be an integer' })
+  @Min(1, { message: 'Line must be at least 1' })
+  line?: number;
+}
+
+/**
+ * Request DTO for replying to a review thread.
+ */
+export class ReviewCommentReplyRequestDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Comment body is required' })
+  @MaxLength(10000, { message: 'Comment body must not exceed 10000 characters' })
+  body: string;
+}
@@ -0,0 +1,31 @@
+import { ReviewCommentAuthorRole } from '../enums/review-comment-author.enum';
+
+/**
+ * Response DTO for one comment in a review thread.
+ */
+export class ReviewCommentResponse {
+  constructor(
+    public id: string,
+    public authorId: string,
+    public authorRole: ReviewCommentAuthorRole,
+    public body: string,
+    public createdAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO for a review thread: the root comment first, then the replies
+ * in the order they were written. `versionId` and `version` identify the
+ * version the thread was opened on, which may be an earlier version that this
+ * one was resubmitted in response to.
+ */
+export class ReviewThreadResponse {
+  constructor(
+    public id: string,
+    public versionId: string,
+    public version: string,
+    public file: string | null,
+    public line: number | null,
+    public comments: ReviewCommentResponse[],
+  ) {}
+}
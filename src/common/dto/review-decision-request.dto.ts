@@ -3,10 +3,13 @@ import { IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-valid
 
 /**
  * Request DTO for admin review decisions.
- * Used to approve or reject plugin versions.
+ * Used to approve or reject plugin versions, or to request changes (which
+ * requires at least one review comment on the version).
+ * Publishing a version with CRITICAL scan findings requires scanOverrideReason.
+ * The reviewer identity is taken from the caller's token, not from this body.
  */
 export class ReviewDecisionRequestDto {
-  @IsEnum(ReviewDecision, { message: 'Decision must be either PUBLISH or REJECT' })
+  @IsEnum(ReviewDecision, { message: 'Decision must be one of PUBLISH, REJECT or CHANGES_REQUESTED' })
   @IsNotEmpty({ message: 'Decision is required' })
   decision: ReviewDecision;
 
@@ -15,7 +18,12 @@ export class ReviewDecisionRequestDto {
   @MaxLength(1000, { message: 'Rejection reason must not exceed 1000 characters' })
   rejectionReason?: string;
 
-  @IsNotEmpty({ message: 'Reviewer ID is required' })
+  /**
+   * Publishes despite CRITICAL static analysis findings. Recorded on the version.
+   */
+  @IsOptional()
   @IsString()
-  reviewedBy: string;
+  @IsNotEmpty({ message: 'Scan override reason must not be empty' })
+  @MaxLength(1000, { message: 'Scan override reason must not exceed 1000 characters' })
+  scanOverrideReason?: string;
 }
@@ -0,0 +1,71 @@
+import { IsBoolean, IsEnum, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { VersionStatus } from '../enums/version-status.enum';
+import { ReviewQueueSort, SortOrder } from '../enums/review-queue.enum';
+
+/**
+ * Query DTO for sorting, filtering and paging the admin review queue.
+ * Without parameters the whole queue is returned oldest submission first.
+ */
+export class ReviewQueueQueryDto {
+  @IsOptional()
+  @IsEnum(ReviewQueueSort, { message: 'Sort must be one of age, riskScore, status or flagged' })
+  sort?: ReviewQueueSort;
+
+  /** Defaults to desc when sorting by riskScore or flagged, asc otherwise. */
+  @IsOptional()
+  @IsEnum(SortOrder, { message: 'Order must be either asc or desc' })
+  order?: SortOrder;
+
+  @IsOptional()
+  @IsIn([VersionStatus.SUBMITTED, VersionStatus.PENDING_REVIEW], {
+    message: 'Status must be either SUBMITTED or PENDING_REVIEW',
+  })
+  status?: VersionStatus;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean({ message: 'Flagged must be true or false' })
+  flagged?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Minimum risk score must be an integer' })
+  @Min(0, { message: 'Minimum risk score must be between 0 and 100' })
+  @Max(100, { message: 'Minimum risk score must be between 0 and 100' })
+  minRiskScore?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Maximum risk score must be an integer' })
+  @Min(0, { message: 'Maximum risk score must be between 0 and 100' })
+  @Max(100, { message: 'Maximum risk score must be between 0 and 100' })
+  maxRiskScore?: number;
+
+  /** Only versions submitted at least this many hours ago. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Minimum age must be a whole number of hours' })
+  @Min(0, { message: 'Minimum age must not be negative' })
+  minAgeHours?: number;
+
+  /** Only versions submitted at most this many hours ago. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Maximum age must be a whole number of hours' })
+  @Min(0, { message: 'Maximum age must not be negative' })
+  maxAgeHours?: number;
+
+  /** Capped at the configured maximum page size; the whole queue when omitted. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page size must be an integer' })
+  @Min(1, { message: 'Page size must be at least 1' })
+  pageSize?: number;
+
+  /** X-Next-Cursor of the previous page. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024, { message: 'Cursor must not exceed 1024 characters' })
+  cursor?: string;
+}
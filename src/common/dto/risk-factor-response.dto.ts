@@ -0,0 +1,12 @@
+import { RiskFactorType } from '../enums/risk-factor.enum';
+
+/**
+ * Response DTO for one signal's contribution to a version's risk score.
+ */
+export class RiskFactorResponse {
+  constructor(
+    public factor: RiskFactorType,
+    public points: number,
+    public detail: string,
+  ) {}
+}
@@ -0,0 +1,15 @@
+import { ScanSeverity } from '../enums/scan-severity.enum';
+
+/**
+ * Response DTO for a static analysis finding on a plugin version.
+ */
+export class ScanFindingResponse {
+  constructor(
+    public ruleId: string,
+    public severity: ScanSeverity,
+    public message: string,
+    public file: string,
+    public line: number,
+    public column: number,
+  ) {}
+}
@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsOptional, IsUUID, Length, MaxLength } from 'class-validator';
+
+/**
+ * Request DTO for registering an Ed25519 signing key.
+ */
+export class RegisterSigningKeyRequestDto {
+  @IsNotEmpty({ message: 'Key name is required' })
+  @Length(1, 100, { message: 'Key name must be between 1 and 100 characters' })
+  name: string;
+
+  /** Raw 32-byte public key (base64) or an SPKI PEM public key. */
+  @IsNotEmpty({ message: 'Public key is required' })
+  @MaxLength(1000, { message: 'Public key must not exceed 1000 characters' })
+  publicKey: string;
+
+  /** Register the key for an organization the caller belongs to. */
+  @IsOptional()
+  @IsUUID('4', { message: 'Organization ID must be a valid UUID' })
+  organizationId?: string;
+}
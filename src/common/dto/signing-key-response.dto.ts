@@ -0,0 +1,26 @@
+/**
+ * Response DTO for a developer signing key.
+ */
+export class SigningKeyResponse {
+  constructor(
+    public id: string,
+    public developerId: string,
+    public name: string,
+    public keyId: string,
+    public algorithm: string,
+    public publicKey: string,
+    public revokedAt: Date | null,
+    public createdAt: Date,
+  ) {}
+}
+
+/**
+ * Response DTO for the key the store counter-signs published artifacts with.
+ */
+export class StoreSigningKeyResponse {
+  constructor(
+    public keyId: string,
+    public algorithm: string,
+    public publicKey: string,
+  ) {}
+}
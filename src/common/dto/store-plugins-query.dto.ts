@@ -0,0 +1,81 @@
+import { IsBoolean, IsEnum, IsInt, IsOptional, IsString, Matches, MaxLength, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { StorePluginSort } from '../enums/store-plugin-sort.enum';
+
+/**
+ * Query DTO for filtering, sorting and paging the store listing.
+ * Filters combine; without a sort, the best search matches, or without a search
+ * the most recently published plugins, come first.
+ * Pages are selected by page number or, so that they do not shift while plugins
+ * are published, by the cursor returned with the previous page.
+ */
+export class StorePluginsQueryDto {
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  /**
+   * Words matched by prefix against name, tags, description and README; the
+   * name also matches with a typo.
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200, { message: 'Search must not exceed 200 characters' })
+  search?: string;
+
+  /** Comma-separated; plugins must have every tag. Case-insensitive. */
+  @IsOptional()
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value.join(',') : String(value))
+      .split(',')
+      .map((tag: string) => tag.trim().toLowerCase())
+      .filter((tag: string) => tag.length > 0),
+  )
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsString()
+  author?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean({ message: 'Verified must be true or false' })
+  verified?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean({ message: 'Featured must be true or false' })
+  featured?: boolean;
+
+  /** Only plugins with a version whose minimum app version is at most this. */
+  @IsOptional()
+  @Matches(/^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/, {
+    message: 'Minimum app version must follow semantic versioning (e.g., 1.0.0)',
+  })
+  minAppVersion?: string;
+
+  @IsOptional()
+  @IsEnum(StorePluginSort, { message: 'Sort must be one of relevance, downloads, rating, recent or name' })
+  sort?: StorePluginSort;
+
+  /** 0-based. Not combined with cursor. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(0, { message: 'Page must not be negative' })
+  page?: number;
+
+  /** Capped at the configured maximum page size. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page size must be an integer' })
+  @Min(1, { message: 'Page size must be at least 1' })
+  pageSize?: number;
+
+  /** nextCursor of the previous page; the next page starts after its last plugin. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024, { message: 'Cursor must not exceed 1024 characters' })
+  cursor?: string;
+}
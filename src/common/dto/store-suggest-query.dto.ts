@@ -0,0 +1,24 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/** Most suggestions of each kind one request can ask for. */
+export const MAX_STORE_SUGGESTIONS = 10;
+
+/**
+ * Query DTO for store search suggestions, requested as the user types.
+ */
+export class StoreSuggestQueryDto {
+  /** What has been typed so far; its last word is matched by prefix. */
+  @IsString()
+  @IsNotEmpty({ message: 'Query is required' })
+  @MaxLength(100, { message: 'Query must not exceed 100 characters' })
+  q: string;
+
+  /** Suggestions of each kind; 5 by default. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: `Limit must be between 1 and ${MAX_STORE_SUGGESTIONS}` })
+  @Max(MAX_STORE_SUGGESTIONS, { message: `Limit must be between 1 and ${MAX_STORE_SUGGESTIONS}` })
+  limit?: number;
+}
@@ -0,0 +1,80 @@
+import { FileChangeType } from '../enums/file-change.enum';
+
+/**
+ * Response DTO for entries added to and removed from a manifest list
+ * (permissions, or one kind of trigger).
+ */
+export class ListChangeResponse {
+  constructor(
+    public added: string[],
+    public removed: string[],
+  ) {}
+}
+
+/**
+ * Response DTO for a change to one trigger list (e.g. "voiceIntents").
+ */
+export class TriggerChangeResponse {
+  constructor(
+    public trigger: string,
+    public added: string[],
+    public removed: string[],
+  ) {}
+}
+
+/**
+ * Response DTO for a value that changed between two versions.
+ */
+export class ValueChangeResponse {
+  constructor(
+    public from: string | null,
+    public to: string | null,
+  ) {}
+}
+
+/**
+ * Response DTO for the structured difference between two manifests.
+ * Lists and fields are empty or null when unchanged; `otherChangedFields`
+ * names the remaining top-level fields whose values differ.
+ */
+export class ManifestDiffResponse {
+  constructor(
+    public permissions: ListChangeResponse,
+    public triggers: TriggerChangeResponse[],
+    public minAppVersion: ValueChangeResponse | null,
+    public otherChangedFields: string[],
+  ) {}
+}
+
+/**
+ * Response DTO for one file that differs between two versions.
+ * `diff` is a unified diff for text files; for binary or oversized files it
+ * is null and `diffOmittedReason` says why.
+ */
+export class FileDiffResponse {
+  constructor(
+    public path: string,
+    public change: FileChangeType,
+    public sizeBefore: number | null,
+    public sizeAfter: number | null,
+    public diff: string | null,
+    public diffOmittedReason: string | null = null,
+  ) {}
+}
+
+/**
+ * Response DTO for the changes from another version of the same plugin (`against`) to a version.
+ */
+export class VersionDiffResponse {
+  constructor(
+    public packageId: string,
+    public versionId: string,
+    public version: string,
+    public againstVersionId: string,
+    public againstVersion: string,
+    public manifest: ManifestDiffResponse,
+    /** Changed files, by path. */
+    public files: FileDiffResponse[],
+    public unchangedFiles: number,
+  ) {}
+}
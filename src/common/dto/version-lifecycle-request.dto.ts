@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Request DTO for deprecating a published plugin version.
+ */
+export class DeprecateVersionRequestDto {
+  /** Shown to users of the version (e.g., "Use 2.x instead"). */
+  @IsString()
+  @IsNotEmpty({ message: 'Deprecation message is required' })
+  @MaxLength(1000, { message: 'Deprecation message must not exceed 1000 characters' })
+  message: string;
+}
+
+/**
+ * Request DTO for yanking a published or deprecated plugin version.
+ */
+export class YankVersionRequestDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(1000, { message: 'Reason must not exceed 1000 characters' })
+  reason: string;
+}
@@ -0,0 +1,57 @@
+import { AuditAction, AuditActorRole, AuditEntityType } from '../enums/audit.enum';
+
+/**
+ * A record of one state-changing admin or developer action.
+ *
+ * Table: admin_audit_log
+ */
+export interface AuditLogEntry {
+  /** Primary key - UUID identifier for this entry. */
+  id: string;
+
+  /** Auth token subject of the caller, or a system actor name (e.g. "blocklist"). */
+  actorId: string;
+
+  actorRole: AuditActorRole;
+
+  action: AuditAction;
+
+  entityType: AuditEntityType;
+
+  /** ID of the changed record. */
+  entityId: string;
+
+  /** Plugin version string, when the entity is a version. */
+  entityVersion: string | null;
+
+  oldStatus: string | null;
+
+  newStatus: string | null;
+
+  reason: string | null;
+
+  /** X-Correlation-ID of the request that performed the action. */
+  correlationId: string | null;
+
+  /** Action-specific details (e.g. the package ID of a deleted plugin). */
+  metadata: Record<string, unknown> | null;
+
+  createdAt: Date;
+}
+
+/**
+ * Input type for recording an audit log entry.
+ */
+export interface CreateAuditLogEntryDto {
+  actorId: string;
+  actorRole: AuditActorRole;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityVersion?: string | null;
+  oldStatus?: string | null;
+  newStatus?: string | null;
+  reason?: string | null;
+  correlationId?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
@@ -0,0 +1,35 @@
+import { BlocklistEntryType } from '../enums/blocklist-entry-type.enum';
+
+/**
+ * A known-malicious artifact hash, file hash or network domain.
+ *
+ * Table: blocklist_entries
+ */
+export interface BlocklistEntry {
+  /** Primary key - UUID identifier for this entry. */
+  id: string;
+
+  type: BlocklistEntryType;
+
+  /** Lowercase hex SHA-256 for hashes; lowercase domain name for domains. */
+  value: string;
+
+  /** Why the entry was added (e.g. a malware report reference). */
+  reason: string;
+
+  /** Auth token subject of the admin who added the entry. */
+  createdBy: string;
+
+  /** Timestamp when the entry was added. */
+  createdAt: Date;
+}
+
+/**
+ * Input type for adding a blocklist entry.
+ */
+export interface CreateBlocklistEntryDto {
+  type: BlocklistEntryType;
+  value: string;
+  reason: string;
+  createdBy: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Represents a scoped API key issued by a developer for non-interactive publishing.
+ * Only the SHA-256 hash of the key is stored.
+ *
+ * Table: developer_api_keys
+ */
+export interface DeveloperApiKey {
+  /** Primary key - UUID identifier for this key. */
+  id: string;
+
+  /** Developer account the key was issued for. */
+  developerId: string;
+
+  /** Auth token subject of the developer who issued the key. */
+  createdBy: string;
+
+  /** Human-readable label (e.g. "GitHub Actions"). */
+  name: string;
+
+  /** First characters of the key, shown so developers can tell keys apart. */
+  keyPrefix: string;
+
+  /** SHA-256 hash of the full key. */
+  keyHash: string;
+
+  /** Granted scopes (e.g. "submit:com.acme.*", "read:analytics"). */
+  scopes: string[];
+
+  /** Optional expiry; the key is rejected after this time. */
+  expiresAt?: Date | null;
+
+  /** Timestamp of the last successful authentication. */
+  lastUsedAt?: Date | null;
+
+  /** Client IP address of the last successful authentication. */
+  lastUsedIp?: string | null;
+
+  /** Timestamp when the key was revoked. */
+  revokedAt?: Date | null;
+
+  /** Timestamp when this key was created. */
+  createdAt: Date;
+}
+
+/**
+ * Input type for creating an API key.
+ */
+export interface CreateDeveloperApiKeyDto {
+  developerId: string;
+  createdBy: string;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Represents an Ed25519 public key a developer signs .synx packages with.
+ *
+ * Table: developer_signing_keys
+ */
+export interface DeveloperSigningKey {
+  /** Primary key - UUID identifier for this key. */
+  id: string;
+
+  /** Developer or organization account the key signs for. */
+  developerId: string;
+
+  /** Auth token subject of the developer who registered the key. */
+  createdBy: string;
+
+  /** Human-readable label (e.g. "Release laptop"). */
+  name: string;
+
+  /** Fingerprint of the public key, referenced by signatures. */
+  keyId: string;
+
+  /** Raw 32-byte Ed25519 public key, base64 encoded. */
+  publicKey: string;
+
+  /** Timestamp when the key was revoked (null while active). */
+  revokedAt?: Date | null;
+
+  /** Timestamp when the key was registered. */
+  createdAt: Date;
+}
+
+/**
+ * Input type for registering a signing key.
+ */
+export interface CreateDeveloperSigningKeyDto {
+  developerId: string;
+  createdBy: string;
+  name: string;
+  keyId: string;
+  publicKey: string;
+}
@@ -0,0 +1,115 @@
+import {
+  DeveloperType,
+  OrganizationRole,
+  OwnershipRequestStatus,
+} from '../enums/developer-account.enum';
+
+/**
+ * Represents a developer or organization account that can own plugins.
+ *
+ * Table: developers
+ */
+export interface Developer {
+  /** Primary key - UUID identifier for this account. */
+  id: string;
+
+  /** Auth token subject for individual developers (null for organizations). */
+  userId?: string | null;
+
+  /** Whether this account is an individual or an organization. */
+  type: DeveloperType;
+
+  /** Public display name, used as the plugin author. */
+  displayName: string;
+
+  /** Contact email address. */
+  email?: string | null;
+
+  /** Timestamp when this account was created. */
+  createdAt: Date;
+
+  /** Timestamp when this account was last updated. */
+  updatedAt: Date;
+}
+
+/**
+ * Membership of a developer in an organization.
+ *
+ * Table: developer_organization_members
+ */
+export interface OrganizationMembership {
+  organizationId: string;
+  developerId: string;
+  role: OrganizationRole;
+  createdAt: Date;
+}
+
+/**
+ * A reverse-domain namespace claimed by a developer or organization.
+ * An approved claim on "com.acme" covers "com.acme" and every "com.acme.*" package.
+ *
+ * Table: namespace_claims
+ */
+export interface NamespaceClaim {
+  id: string;
+
+  /** Account that will own packages in this namespace. */
+  developerId: string;
+
+  /** Namespace without wildcard suffix (e.g. "com.acme"). */
+  namespace: string;
+
+  status: OwnershipRequestStatus;
+
+  /** Token subject of the developer who filed the claim. */
+  requestedBy: string;
+
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  rejectionReason?: string | null;
+  createdAt: Date;
+}
+
+/**
+ * A request to move a plugin to a different owner, approved by an administrator.
+ *
+ * Table: plugin_ownership_transfers
+ */
+export interface OwnershipTransfer {
+  id: string;
+  pluginId: string;
+
+  /** Current owner at request time (null for legacy unowned plugins). */
+  fromDeveloperId?: string | null;
+
+  /** Proposed new owner. */
+  toDeveloperId: string;
+
+  /** Token subject of the developer who requested the transfer. */
+  requestedBy: string;
+
+  reason?: string | null;
+  status: OwnershipRequestStatus;
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  reviewNote?: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Input type for creating a developer account.
+ */
+export interface CreateDeveloperDto {
+  userId?: string | null;
+  type: DeveloperType;
+  displayName: string;
+  email?: string | null;
+}
+
+/**
+ * Input type for updating a developer account.
+ */
+export interface UpdateDeveloperDto {
+  displayName?: string;
+  email?: string | null;
+}
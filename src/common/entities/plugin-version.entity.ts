@@ -1,4 +1,10 @@
 import { VersionStatus } from '../enums/version-status.enum';
+import { SignatureRole } from '../enums/signature-role.enum';
+import { ScanSeverity } from '../enums/scan-severity.enum';
+import { PermissionFindingType } from '../enums/permission-finding.enum';
+import { DryRunEventType, DryRunPhaseOutcome, DryRunStatus } from '../enums/dry-run.enum';
+import { CreatePluginDto } from './plugin.entity';
+import { RiskFactorType } from '../enums/risk-factor.enum';
 
 /**
  * Represents a specific version release of a plugin.
@@ -44,6 +50,9 @@ export interface PluginVersion {
   /** Version-specific release notes from the developer. */
   releaseNotes?: string | null;
 
+  /** README.md from the package; the latest version's README is searched. */
+  readme?: string | null;
+
   /** Status of this specific version in the review workflow. */
   status: VersionStatus;
 
@@ -70,6 +79,215 @@ export interface PluginVersion {
 
   /** Notes about why this version was flagged. */
   flagReason?: string | null;
+
+  /** Status the version returns to when unflagged; set while FLAGGED. */
+  statusBeforeFlag?: VersionStatus | null;
+
+  /** Inventory of every file in the .synx archive. */
+  files: PluginVersionFile[];
+
+  /** Developer signature and store counter-signature, if any. */
+  signatures: PackageSignature[];
+
+  /** Static analysis findings for the entry point, recorded at submission. */
+  scanFindings: ScanFinding[];
+
+  /** Reason given by the admin who published despite critical findings. */
+  scanOverrideReason?: string | null;
+
+  /** Identifier of the admin who overrode the critical findings. */
+  scanOverriddenBy?: string | null;
+
+  /** Declared permissions compared with the entry point's behaviour; null if the code could not be analyzed. */
+  permissionAnalysis?: PermissionAnalysis | null;
+
+  /** What the entry point did when loaded in the sandbox; null until the dry run has finished. */
+  dryRunReport?: DryRunReport | null;
+
+  /** Review risk from 0 (low) to 100 (high), computed at submission; null for versions submitted before scoring. */
+  riskScore?: number | null;
+
+  /** What contributed to riskScore, largest first. */
+  riskFactors?: RiskFactor[];
+
+  /** Version whose review requested the changes this version responds to. */
+  resubmissionOfVersionId?: string | null;
+
+  /** Admin reviewing the version; the claim lapses at claimExpiresAt. */
+  claimedBy?: string | null;
+
+  claimExpiresAt?: Date | null;
+
+  /** Reviewers who approved publishing, oldest first. */
+  approvals?: ReviewApproval[];
+
+  /** Shown to users of a DEPRECATED version (e.g. "Use 2.x instead"). */
+  deprecationMessage?: string | null;
+
+  deprecatedAt?: Date | null;
+
+  /** Why the version was YANKED. */
+  yankReason?: string | null;
+
+  yankedAt?: Date | null;
+}
+
+/**
+ * A single file inside a version's .synx archive.
+ */
+export interface PluginVersionFile {
+  /** Path inside the archive (e.g., "assets/locales/en.json"). */
+  path: string;
+
+  /** Uncompressed size in bytes. */
+  size: number;
+
+  /** SHA-256 of the file contents, hex encoded. */
+  sha256: string;
+
+  /** MIME type derived from the file extension. */
+  mimeType: string;
+}
+
+/**
+ * An Ed25519 signature over a version's signing payload.
+ * Carries the public key so hosts can verify it without calling the store.
+ */
+export interface PackageSignature {
+  role: SignatureRole;
+
+  /** Fingerprint of the signing key. */
+  keyId: string;
+
+  /** Always "Ed25519". */
+  algorithm: string;
+
+  /** Raw 32-byte public key, base64 encoded. */
+  publicKey: string;
+
+  /** Signature, base64 encoded. */
+  signature: string;
+}
+
+/**
+ * A single finding from the static analysis of a version's JavaScript.
+ */
+export interface ScanFinding {
+  /** Scanner rule that produced the finding (e.g., "no-eval"). */
+  ruleId: string;
+
+  severity: ScanSeverity;
+
+  message: string;
+
+  /** Path inside the archive of the scanned file. */
+  file: string;
+
+  /** 1-based line of the offending code. */
+  line: number;
+
+  /** 0-based column of the offending code. */
+  column: number;
+}
+
+/**
+ * The capabilities a version's code actually uses, compared with the
+ * permissions its manifest declares.
+ */
+export interface PermissionAnalysis {
+  /** Capabilities found in the code, as permission strings (e.g., "network:https://api.example.com"). */
+  detected: string[];
+
+  findings: PermissionFinding[];
+}
+
+/**
+ * A mismatch between declared permissions and code behaviour.
+ */
+export interface PermissionFinding {
+  type: PermissionFindingType;
+
+  /** The undeclared capability or the unused declared permission. */
+  permission: string;
+
+  message: string;
+
+  /** Location of the first use, for undeclared capabilities. */
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Record of a version's entry point being loaded and exercised in the sandbox.
+ */
+export interface DryRunReport {
+  status: DryRunStatus;
+
+  /** Why the run did not complete, when it didn't. */
+  error?: string | null;
+
+  /** When the dry run started (ISO 8601). */
+  startedAt: string;
+
+  durationMs: number;
+
+  /** Loading the plugin, then one phase per declared intent, in order. */
+  phases: DryRunPhase[];
+}
+
+/**
+ * One step of a dry run.
+ */
+export interface DryRunPhase {
+  /** "load", "voiceIntent:<name>" or "screenshotIntent:<name>". */
+  name: string;
+
+  outcome: DryRunPhaseOutcome;
+
+  durationMs: number;
+
+  events: DryRunEvent[];
+
+  /** Events beyond the per-phase limit that were not recorded. */
+  droppedEvents: number;
+}
+
+/**
+ * Something the plugin attempted during a dry run.
+ */
+export interface DryRunEvent {
+  type: DryRunEventType;
+
+  /** API path, network primitive, timer function or error name (e.g., "synapse.storage.get", "fetch"). */
+  name: string;
+
+  /** Arguments, target URL, delay or error message, truncated. */
+  detail?: string;
+}
+
+/**
+ * One signal's contribution to a version's risk score.
+ */
+export interface RiskFactor {
+  factor: RiskFactorType;
+
+  /** Points added to the score. */
+  points: number;
+
+  /** Human-readable explanation (e.g., "1 CRITICAL, 2 HIGH findings"). */
+  detail: string;
+}
+
+/**
+ * A reviewer's approval to publish, recorded until the version has enough
+ * distinct approvers.
+ */
+export interface ReviewApproval {
+  approvedBy: string;
+
+  /** ISO 8601 timestamp. */
+  approvedAt: string;
 }
 
 /**
@@ -81,9 +299,23 @@ export interface CreatePluginVersionDto {
   manifest: Record<string, any>;
   minAppVersion: string;
   releaseNotes?: string;
+  readme?: string;
   storagePath?: string;
   storageBucket?: string;
   tempStoragePath?: string;
   fileSizeBytes?: number;
   checksumSha256?: string;
+  files?: PluginVersionFile[];
+  signatures?: PackageSignature[];
+  scanFindings?: ScanFinding[];
+  permissionAnalysis?: PermissionAnalysis | null;
+  resubmissionOfVersionId?: string | null;
 }
+
+/**
+ * Input type for submitting a plugin version: the plugin fields, used when the
+ * plugin is new, and the version fields. The plugin and resubmission links are
+ * resolved on submission.
+ */
+export type SubmitPluginVersionDto = CreatePluginDto &
+  Omit<CreatePluginVersionDto, 'pluginId' | 'resubmissionOfVersionId'>;
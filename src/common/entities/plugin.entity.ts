@@ -23,6 +23,9 @@ export interface Plugin {
   /** Developer or organization name that created this plugin. */
   author: string;
 
+  /** Developer or organization account that owns this package (null for legacy plugins). */
+  ownerDeveloperId?: string | null;
+
   /** Storage key reference for the plugin icon asset. */
   iconKey?: string | null;
 
@@ -41,6 +44,24 @@ export interface Plugin {
   /** URL to the plugin's documentation or source repository. */
   sourceUrl?: string | null;
 
+  /** Downloads of all versions. */
+  totalDownloads?: number;
+
+  /** Average user rating (0-5), null until rated. */
+  ratingAverage?: number | null;
+
+  /** Number of user ratings. */
+  ratingCount?: number;
+
+  /** Whether the store has verified the plugin's author. */
+  verified?: boolean;
+
+  /** Whether the store features the plugin. */
+  featured?: boolean;
+
+  /** When a version of the plugin was last published. */
+  lastUpdatedAt?: Date | null;
+
   /** Timestamp when this plugin record was first created. */
   createdAt: Date;
 
@@ -49,6 +70,21 @@ export interface Plugin {
 
   /** Optimistic locking version to prevent concurrent modification conflicts. */
   version?: number;
+
+  /** When the owner last unpublished the plugin. */
+  unpublishedAt?: Date | null;
+
+  /** Whether the plugin was deleted; it stays restorable until purged. */
+  isDeleted?: boolean;
+
+  /** When the plugin was deleted. */
+  deletedAt?: Date | null;
+
+  /** Admin who deleted the plugin. */
+  deletedBy?: string | null;
+
+  /** Status the plugin returns to when restored. */
+  statusBeforeDeletion?: PluginStatus | null;
 }
 
 /**
@@ -59,6 +95,7 @@ export interface CreatePluginDto {
   name: string;
   description?: string;
   author: string;
+  ownerDeveloperId?: string;
   iconKey?: string;
   category?: string;
   tags?: string;
@@ -77,4 +114,10 @@ export interface UpdatePluginDto {
   sourceUrl?: string | null;
   status?: PluginStatus;
   latestVersionId?: string | null;
+  ownerDeveloperId?: string | null;
+  unpublishedAt?: Date | null;
+  isDeleted?: boolean;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+  statusBeforeDeletion?: PluginStatus | null;
 }
@@ -0,0 +1,49 @@
+import { ReviewCommentAuthorRole } from '../enums/review-comment-author.enum';
+
+/**
+ * A comment in a review thread on a plugin version.
+ *
+ * Table: review_comments
+ *
+ * A thread is a root comment, optionally anchored to a file and line in the
+ * package, plus the replies that point to it through parentId.
+ */
+export interface ReviewComment {
+  /** Primary key - UUID identifier for this comment. */
+  id: string;
+
+  /** Version the thread belongs to. */
+  versionId: string;
+
+  /** Root comment of the thread; null for the root itself. */
+  parentId: string | null;
+
+  /** Auth token subject of the author. */
+  authorId: string;
+
+  authorRole: ReviewCommentAuthorRole;
+
+  body: string;
+
+  /** Path inside the archive the thread is about (roots only). */
+  file: string | null;
+
+  /** 1-based line in that file (roots only). */
+  line: number | null;
+
+  /** Timestamp when the comment was written. */
+  createdAt: Date;
+}
+
+/**
+ * Input type for writing a review comment.
+ */
+export interface CreateReviewCommentDto {
+  versionId: string;
+  parentId?: string | null;
+  authorId: string;
+  authorRole: ReviewCommentAuthorRole;
+  body: string;
+  file?: string | null;
+  line?: number | null;
+}
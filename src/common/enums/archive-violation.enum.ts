@@ -0,0 +1,47 @@
+/**
+ * Reasons a .synx archive is rejected before extraction.
+ * Each code identifies one kind of violation so clients can act on it.
+ */
+export enum ArchiveViolationCode {
+  /** The upload is not a readable ZIP archive. */
+  INVALID_ARCHIVE = 'INVALID_ARCHIVE',
+
+  /** The archive has more entries than allowed. */
+  TOO_MANY_ENTRIES = 'TOO_MANY_ENTRIES',
+
+  /** The entries' combined uncompressed size exceeds the limit. */
+  TOTAL_SIZE_EXCEEDED = 'TOTAL_SIZE_EXCEEDED',
+
+  /** A single entry's uncompressed size exceeds the limit. */
+  ENTRY_SIZE_EXCEEDED = 'ENTRY_SIZE_EXCEEDED',
+
+  /** An entry holds more data than the size declared in its header. */
+  ENTRY_SIZE_MISMATCH = 'ENTRY_SIZE_MISMATCH',
+
+  /** An entry, or the archive as a whole, expands suspiciously far. */
+  COMPRESSION_RATIO_EXCEEDED = 'COMPRESSION_RATIO_EXCEEDED',
+
+  /** An entry is nested in more directories than allowed. */
+  PATH_TOO_DEEP = 'PATH_TOO_DEEP',
+
+  /** An entry is a symbolic link. */
+  SYMLINK_ENTRY = 'SYMLINK_ENTRY',
+
+  /** Two entries share a name (compared case-insensitively). */
+  DUPLICATE_ENTRY = 'DUPLICATE_ENTRY',
+
+  /** An entry path contains a ".." segment. */
+  PATH_TRAVERSAL = 'PATH_TRAVERSAL',
+
+  /** An entry path is absolute (leading slash, drive letter or UNC prefix). */
+  ABSOLUTE_PATH = 'ABSOLUTE_PATH',
+
+  /** An entry path uses backslashes as separators. */
+  BACKSLASH_PATH = 'BACKSLASH_PATH',
+
+  /** A file's type is not on the allowed list. */
+  DISALLOWED_FILE_TYPE = 'DISALLOWED_FILE_TYPE',
+
+  /** An entry name is not valid UTF-8. */
+  INVALID_FILENAME_ENCODING = 'INVALID_FILENAME_ENCODING',
+}
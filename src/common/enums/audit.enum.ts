@@ -0,0 +1,75 @@
+/**
+ * State-changing actions recorded in the audit log.
+ */
+export enum AuditAction {
+  // Plugin versions
+  VERSION_SUBMITTED = 'VERSION_SUBMITTED',
+  VERSION_APPROVED = 'VERSION_APPROVED',
+  VERSION_PUBLISHED = 'VERSION_PUBLISHED',
+  VERSION_REJECTED = 'VERSION_REJECTED',
+  VERSION_CHANGES_REQUESTED = 'VERSION_CHANGES_REQUESTED',
+  VERSION_FLAGGED = 'VERSION_FLAGGED',
+  VERSION_UNFLAGGED = 'VERSION_UNFLAGGED',
+  VERSION_DEPRECATED = 'VERSION_DEPRECATED',
+  VERSION_YANKED = 'VERSION_YANKED',
+  VERSION_CLAIMED = 'VERSION_CLAIMED',
+  VERSION_ASSIGNED = 'VERSION_ASSIGNED',
+  VERSION_CLAIM_RELEASED = 'VERSION_CLAIM_RELEASED',
+  REVIEW_COMMENT_ADDED = 'REVIEW_COMMENT_ADDED',
+
+  // Plugins
+  PLUGIN_UNPUBLISHED = 'PLUGIN_UNPUBLISHED',
+  PLUGIN_RELISTED = 'PLUGIN_RELISTED',
+  PLUGIN_DELETED = 'PLUGIN_DELETED',
+  PLUGIN_RESTORED = 'PLUGIN_RESTORED',
+  PLUGIN_PURGED = 'PLUGIN_PURGED',
+
+  // Accounts and ownership
+  ACCOUNT_UPDATED = 'ACCOUNT_UPDATED',
+  ORGANIZATION_CREATED = 'ORGANIZATION_CREATED',
+  ORGANIZATION_MEMBER_ADDED = 'ORGANIZATION_MEMBER_ADDED',
+  NAMESPACE_CLAIMED = 'NAMESPACE_CLAIMED',
+  NAMESPACE_CLAIM_REVIEWED = 'NAMESPACE_CLAIM_REVIEWED',
+  OWNERSHIP_TRANSFER_REQUESTED = 'OWNERSHIP_TRANSFER_REQUESTED',
+  OWNERSHIP_TRANSFER_REVIEWED = 'OWNERSHIP_TRANSFER_REVIEWED',
+
+  // Credentials
+  API_KEY_CREATED = 'API_KEY_CREATED',
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+  SIGNING_KEY_REGISTERED = 'SIGNING_KEY_REGISTERED',
+  SIGNING_KEY_REVOKED = 'SIGNING_KEY_REVOKED',
+  OAUTH_CLIENT_CREATED = 'OAUTH_CLIENT_CREATED',
+  OAUTH_CLIENT_UPDATED = 'OAUTH_CLIENT_UPDATED',
+  OAUTH_CLIENT_DISABLED = 'OAUTH_CLIENT_DISABLED',
+
+  // Blocklist
+  BLOCKLIST_ENTRY_ADDED = 'BLOCKLIST_ENTRY_ADDED',
+  BLOCKLIST_ENTRY_REMOVED = 'BLOCKLIST_ENTRY_REMOVED',
+}
+
+/**
+ * Kind of record an audited action changed.
+ */
+export enum AuditEntityType {
+  PLUGIN = 'PLUGIN',
+  PLUGIN_VERSION = 'PLUGIN_VERSION',
+  REVIEW_COMMENT = 'REVIEW_COMMENT',
+  DEVELOPER = 'DEVELOPER',
+  NAMESPACE_CLAIM = 'NAMESPACE_CLAIM',
+  OWNERSHIP_TRANSFER = 'OWNERSHIP_TRANSFER',
+  API_KEY = 'API_KEY',
+  SIGNING_KEY = 'SIGNING_KEY',
+  OAUTH_CLIENT = 'OAUTH_CLIENT',
+  BLOCKLIST_ENTRY = 'BLOCKLIST_ENTRY',
+}
+
+/**
+ * Who performed an audited action.
+ */
+export enum AuditActorRole {
+  ADMIN = 'admin',
+  DEVELOPER = 'developer',
+
+  /** The store itself (e.g. flagging a submission that matches the blocklist). */
+  SYSTEM = 'system',
+}
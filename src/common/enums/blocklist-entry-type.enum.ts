@@ -0,0 +1,13 @@
+/**
+ * What a blocklist entry matches.
+ */
+export enum BlocklistEntryType {
+  /** SHA-256 of a whole .synx artifact. */
+  ARTIFACT_HASH = 'ARTIFACT_HASH',
+
+  /** SHA-256 of a single file inside an archive (e.g. a known-malicious plugin.js). */
+  FILE_HASH = 'FILE_HASH',
+
+  /** A network domain; also matches its subdomains. */
+  DOMAIN = 'DOMAIN',
+}
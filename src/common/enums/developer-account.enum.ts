@@ -0,0 +1,46 @@
+/**
+ * Kind of developer account.
+ */
+export enum DeveloperType {
+  /** A single developer, linked to an auth token subject. */
+  INDIVIDUAL = 'INDIVIDUAL',
+
+  /** An organization whose members publish on its behalf. */
+  ORGANIZATION = 'ORGANIZATION',
+}
+
+/**
+ * Role of a developer within an organization.
+ */
+export enum OrganizationRole {
+  /** Can add members and request ownership transfers for the organization. */
+  OWNER = 'OWNER',
+
+  /** Can publish packages owned by the organization. */
+  MEMBER = 'MEMBER',
+}
+
+/**
+ * Review status shared by namespace claims and ownership transfers.
+ */
+export enum OwnershipRequestStatus {
+  /** Awaiting administrator review. */
+  PENDING = 'PENDING',
+
+  /** Approved by an administrator and in effect. */
+  APPROVED = 'APPROVED',
+
+  /** Rejected by an administrator. */
+  REJECTED = 'REJECTED',
+}
+
+/**
+ * Possible admin decisions on ownership requests.
+ */
+export enum OwnershipDecision {
+  /** Approve the request. */
+  APPROVE = 'APPROVE',
+
+  /** Reject the request. */
+  REJECT = 'REJECT',
+}
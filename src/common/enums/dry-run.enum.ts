@@ -0,0 +1,55 @@
+/**
+ * Overall result of a plugin dry run.
+ */
+export enum DryRunStatus {
+  /** Every phase ran; individual phases may still have failed or timed out. */
+  COMPLETED = 'COMPLETED',
+
+  /** The worker ran past its overall time budget and was terminated. */
+  TIMED_OUT = 'TIMED_OUT',
+
+  /** The worker ran out of heap and was terminated. */
+  MEMORY_EXCEEDED = 'MEMORY_EXCEEDED',
+
+  /** The dry run could not be carried out. */
+  FAILED = 'FAILED',
+}
+
+/**
+ * Outcome of one phase of a dry run (loading the plugin or invoking one intent).
+ */
+export enum DryRunPhaseOutcome {
+  OK = 'OK',
+
+  /** The code threw or returned a rejected promise. */
+  ERROR = 'ERROR',
+
+  /** The code ran past the phase time limit. */
+  TIMEOUT = 'TIMEOUT',
+
+  /** The code returned a promise that had not settled when the phase ended. */
+  PENDING = 'PENDING',
+
+  /** The plugin has no handler for the intent. */
+  SKIPPED = 'SKIPPED',
+}
+
+/**
+ * Kind of behaviour recorded during a dry run.
+ */
+export enum DryRunEventType {
+  /** A call into the stubbed Synapse host API (or require()). */
+  API_CALL = 'API_CALL',
+
+  /** An attempted network request; all of them are blocked. */
+  NETWORK = 'NETWORK',
+
+  /** A timer was scheduled. */
+  TIMER = 'TIMER',
+
+  /** Code was generated from a string with eval() or the Function constructor. */
+  DYNAMIC_CODE = 'DYNAMIC_CODE',
+
+  /** An error was thrown or a promise rejected. */
+  ERROR = 'ERROR',
+}
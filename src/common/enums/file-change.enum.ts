@@ -0,0 +1,8 @@
+/**
+ * How a file differs between two versions of a plugin.
+ */
+export enum FileChangeType {
+  ADDED = 'ADDED',
+  REMOVED = 'REMOVED',
+  MODIFIED = 'MODIFIED',
+}
@@ -0,0 +1,10 @@
+/**
+ * Kind of mismatch between a manifest's permissions and what the code does.
+ */
+export enum PermissionFindingType {
+  /** The code uses a capability no declared permission covers. */
+  UNDECLARED_CAPABILITY = 'UNDECLARED_CAPABILITY',
+
+  /** A declared permission is never exercised by the code. */
+  UNUSED_PERMISSION = 'UNUSED_PERMISSION',
+}
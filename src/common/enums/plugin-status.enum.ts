@@ -15,6 +15,9 @@ export enum PluginStatus {
   /** Plugin was rejected during review due to security or policy violations. */
   REJECTED = 'REJECTED',
 
-  /** Plugin has been deleted by an administrator. */
+  /** Taken off the store by its owner; existing installs are told it is delisted. The owner can relist it. */
+  UNPUBLISHED = 'UNPUBLISHED',
+
+  /** Plugin has been deleted by an administrator; it can be restored until it is purged. */
   DELETED = 'DELETED',
 }
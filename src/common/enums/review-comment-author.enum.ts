@@ -0,0 +1,10 @@
+/**
+ * Side of the review a comment was written from.
+ */
+export enum ReviewCommentAuthorRole {
+  /** An admin reviewing the version. */
+  REVIEWER = 'REVIEWER',
+
+  /** The developer (or an organization member) who owns the plugin. */
+  DEVELOPER = 'DEVELOPER',
+}
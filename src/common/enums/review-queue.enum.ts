@@ -0,0 +1,23 @@
+/**
+ * Fields the admin review queue can be sorted by.
+ */
+export enum ReviewQueueSort {
+  /** Submission time; ascending puts the oldest submissions first. */
+  AGE = 'age',
+
+  /** Computed review risk score; versions without a score sort last. */
+  RISK_SCORE = 'riskScore',
+
+  STATUS = 'status',
+
+  /** Flagged versions first when descending. */
+  FLAGGED = 'flagged',
+}
+
+/**
+ * Sort direction.
+ */
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
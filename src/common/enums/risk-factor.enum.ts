@@ -0,0 +1,19 @@
+/**
+ * Signals that contribute to a version's review risk score.
+ */
+export enum RiskFactorType {
+  /** Static analysis findings, weighted by severity. */
+  SCAN_FINDINGS = 'SCAN_FINDINGS',
+
+  /** Number and breadth of declared permissions, plus capabilities used without declaring them. */
+  PERMISSIONS = 'PERMISSIONS',
+
+  /** The publishing account is new or has nothing published yet. */
+  NEW_DEVELOPER = 'NEW_DEVELOPER',
+
+  /** Number and breadth of the OAuth scopes registered for the plugin. */
+  OAUTH_SCOPES = 'OAUTH_SCOPES',
+
+  /** How much of the package changed since the previous published version. */
+  DIFF_SIZE = 'DIFF_SIZE',
+}
@@ -0,0 +1,14 @@
+/**
+ * Roles that can be granted to an authenticated caller.
+ * Roles are read from the bearer token and enforced by the global RolesGuard.
+ */
+export enum Role {
+  /** Marketplace administrator - reviews, flags and deletes plugins. */
+  ADMIN = 'admin',
+
+  /** Plugin developer - submits plugins and manages their OAuth credentials. */
+  DEVELOPER = 'developer',
+
+  /** The Synapse host application - fetches OAuth credentials at runtime. */
+  HOST_APP = 'host-app',
+}
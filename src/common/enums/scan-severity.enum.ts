@@ -0,0 +1,16 @@
+/**
+ * Severity of a static analysis finding, most severe first.
+ */
+export enum ScanSeverity {
+  /** Blocks publication unless an admin overrides it with a reason. */
+  CRITICAL = 'CRITICAL',
+
+  HIGH = 'HIGH',
+
+  MEDIUM = 'MEDIUM',
+
+  LOW = 'LOW',
+
+  /** Informational only, e.g. minified code that is hard to review. */
+  INFO = 'INFO',
+}
@@ -0,0 +1,10 @@
+/**
+ * Who produced a package signature.
+ */
+export enum SignatureRole {
+  /** Signed by the publishing developer with a registered key. */
+  DEVELOPER = 'DEVELOPER',
+
+  /** Counter-signed by the store when the version was published. */
+  STORE = 'STORE',
+}
@@ -0,0 +1,19 @@
+/**
+ * Orders the store listing can be sorted in.
+ */
+export enum StorePluginSort {
+  /** Most downloaded first, across all versions. */
+  DOWNLOADS = 'downloads',
+
+  /** Highest rated first; unrated plugins sort last. */
+  RATING = 'rating',
+
+  /** Most recently published version first. */
+  RECENT = 'recent',
+
+  /** Alphabetically by name. */
+  NAME = 'name',
+
+  /** Best search match first; the default with a search, and RECENT without one. */
+  RELEVANCE = 'relevance',
+}
@@ -14,10 +14,35 @@ export enum VersionStatus {
   /** Rejected by admin. */
   REJECTED = 'REJECTED',
 
+  /** Sent back to the developer with review comments; a new version can be submitted in response. */
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+
   /** Flagged for security violations. */
   FLAGGED = 'FLAGGED',
+
+  /** Published and still installable, but discouraged; carries a deprecation message. */
+  DEPRECATED = 'DEPRECATED',
+
+  /** Pulled from the store: kept in the version history but never picked as latest or compatible. */
+  YANKED = 'YANKED',
 }
 
+/**
+ * Statuses of versions waiting for a review decision.
+ */
+export const AWAITING_REVIEW_VERSION_STATUSES: readonly VersionStatus[] = [
+  VersionStatus.SUBMITTED,
+  VersionStatus.PENDING_REVIEW,
+];
+
+/**
+ * Statuses of versions that can be installed and picked as a plugin's latest version.
+ */
+export const INSTALLABLE_VERSION_STATUSES: readonly VersionStatus[] = [
+  VersionStatus.PUBLISHED,
+  VersionStatus.DEPRECATED,
+];
+
 /**
  * Possible review decisions for admin actions.
  */
@@ -27,4 +52,7 @@ export enum ReviewDecision {
 
   /** Reject the plugin version. */
   REJECT = 'REJECT',
+
+  /** Send the version back to the developer; requires at least one review comment. */
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
 }
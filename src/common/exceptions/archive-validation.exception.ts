@@ -0,0 +1,30 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+import { ArchiveViolationCode } from '../enums/archive-violation.enum';
+
+/**
+ * A single problem found while inspecting a .synx archive.
+ */
+export interface ArchiveViolation {
+  code: ArchiveViolationCode;
+  message: string;
+  /** Offending entry name; omitted for archive-wide violations. */
+  entry?: string;
+}
+
+/**
+ * Exception thrown when a .synx archive breaks the archive limits.
+ * The response carries every violation found, not just the first one.
+ */
+export class ArchiveValidationException extends PluginStoreException {
+  constructor(public readonly violations: ArchiveViolation[]) {
+    const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : '';
+    super(
+      {
+        message: `${violations[0]?.message ?? 'Invalid archive'}${more}`,
+        violations,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * Exception thrown when a package matches the malware blocklist.
+ * The response lists what matched (never the admin's reason for the entry).
+ */
+export class BlocklistedPackageException extends PluginStoreException {
+  constructor(packageId: string, public readonly matches: string[]) {
+    super(
+      {
+        message: `Package '${packageId}' matches the store's malware blocklist`,
+        matches,
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
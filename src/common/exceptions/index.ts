@@ -4,3 +4,12 @@ export * from './version-conflict.exception';
 export * from './invalid-version.exception';
 export * from './invalid-transition.exception';
 export * from './request-timeout.exception';
+export * from './package-ownership.exception';
+export * from './namespace-conflict.exception';
+export * from './manifest-validation.exception';
+export * from './archive-validation.exception';
+export * from './package-signature.exception';
+export * from './scan-findings.exception';
+export * from './blocklisted-package.exception';
+export * from './package-reserved.exception';
+export * from './invalid-cursor.exception';
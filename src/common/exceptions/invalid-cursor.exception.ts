@@ -0,0 +1,12 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * Exception thrown when a pagination cursor was tampered with, was issued
+ * for another list or query, or is combined with offset paging.
+ */
+export class InvalidCursorException extends PluginStoreException {
+  constructor(message = 'Invalid pagination cursor') {
+    super(message, HttpStatus.BAD_REQUEST);
+  }
+}
@@ -1,11 +1,22 @@
 import { HttpStatus } from '@nestjs/common';
 import { PluginStoreException } from './plugin-store.exception';
 
+/**
+ * The status change that was refused.
+ */
+export interface TransitionDetails {
+  entity: 'plugin' | 'version';
+  id: string;
+  from: string;
+  to: string;
+}
+
 /**
  * Exception thrown when an invalid status transition is attempted.
+ * When the refused change is given, the response carries it next to the message.
  */
 export class InvalidTransitionException extends PluginStoreException {
-  constructor(message: string) {
-    super(message, HttpStatus.BAD_REQUEST);
+  constructor(message: string, public readonly details?: TransitionDetails) {
+    super(details ? { message, ...details } : message, HttpStatus.BAD_REQUEST);
   }
 }
@@ -0,0 +1,48 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * A single manifest problem, addressed by a JSON pointer into manifest.json
+ * (e.g. "/triggers/voiceIntents/0"; "" is the manifest root).
+ */
+export interface ManifestValidationError {
+  pointer: string;
+  message: string;
+  /** JSON Schema keyword that failed (e.g. "required", "pattern"). */
+  keyword: string;
+}
+
+/**
+ * Exception thrown when manifest.json does not match its manifest schema.
+ * The response carries every error found, not just the first one.
+ */
+export class ManifestValidationException extends PluginStoreException {
+  constructor(
+    public readonly errors: ManifestValidationError[],
+    manifestVersion?: number,
+  ) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    super(
+      {
+        message: `manifest.json ${ManifestValidationException.describe(errors[0])}${more}`,
+        manifestVersion: manifestVersion ?? null,
+        errors,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  /**
+   * Summarizes an error for the top-level message. Errors about a named field
+   * already mention it; everything else is prefixed with its pointer.
+   */
+  private static describe(error?: ManifestValidationError): string {
+    if (!error) {
+      return 'is invalid';
+    }
+    if (!error.pointer || error.keyword === 'required' || error.keyword === 'additionalProperties') {
+      return error.message;
+    }
+    return `${error.pointer} ${error.message}`;
+  }
+}
@@ -0,0 +1,14 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * Exception thrown when a namespace claim overlaps a namespace owned by someone else.
+ */
+export class NamespaceConflictException extends PluginStoreException {
+  constructor(namespace: string, conflictingNamespace: string) {
+    super(
+      `Namespace '${namespace}' overlaps '${conflictingNamespace}', which is owned by another developer`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
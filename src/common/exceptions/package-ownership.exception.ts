@@ -0,0 +1,11 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * Exception thrown when a caller does not own the package or namespace they are publishing to.
+ */
+export class PackageOwnershipException extends PluginStoreException {
+  constructor(packageId: string, reason: string) {
+    super(`You are not allowed to publish '${packageId}': ${reason}`, HttpStatus.FORBIDDEN);
+  }
+}
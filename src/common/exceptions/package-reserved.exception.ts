@@ -0,0 +1,14 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * Exception thrown when submitting to a deleted plugin whose packageId is still reserved.
+ */
+export class PackageReservedException extends PluginStoreException {
+  constructor(packageId: string, reservedUntil: Date) {
+    super(
+      `Plugin ${packageId} was deleted; its package ID is reserved until ${reservedUntil.toISOString()}`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+
+/**
+ * Exception thrown when a package signature is missing, malformed or does not verify.
+ */
+export class PackageSignatureException extends PluginStoreException {
+  constructor(packageId: string, reason: string) {
+    super(`Signature check failed for '${packageId}': ${reason}`, HttpStatus.BAD_REQUEST);
+  }
+}
@@ -2,9 +2,15 @@ import { HttpException, HttpStatus } from '@nestjs/common';
 
 /**
  * Base exception for all plugin store errors.
+ *
+ * Subclasses may pass an object instead of a message to return structured
+ * details; it must contain a `message` field.
  */
 export class PluginStoreException extends HttpException {
-  constructor(message: string, statusCode: HttpStatus = HttpStatus.INTERNAL_SERVER_ERROR) {
-    super(message, statusCode);
+  constructor(
+    response: string | { message: string; [key: string]: any },
+    statusCode: HttpStatus = HttpStatus.INTERNAL_SERVER_ERROR,
+  ) {
+    super(response, statusCode);
   }
 }
@@ -0,0 +1,21 @@
+import { HttpStatus } from '@nestjs/common';
+import { PluginStoreException } from './plugin-store.exception';
+import { ScanFinding } from '../entities/plugin-version.entity';
+
+/**
+ * Exception thrown when publishing a version with critical scan findings
+ * without an override. The response carries the blocking findings.
+ */
+export class ScanFindingsException extends PluginStoreException {
+  constructor(public readonly findings: ScanFinding[]) {
+    super(
+      {
+        message:
+          `Version has ${findings.length} critical static analysis finding(s); ` +
+          'an admin must provide scanOverrideReason to publish it',
+        findings,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
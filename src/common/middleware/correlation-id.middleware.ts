@@ -1,5 +1,6 @@
 import { Injectable, NestMiddleware, Logger } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
+import { RequestContext } from './request-context';
 
 /**
  * Extension to Express Request to include correlation ID.
@@ -14,6 +15,7 @@ declare global {
 
 /**
  * Middleware to add correlation ID to all requests for tracing.
+ * The rest of the request runs inside a RequestContext carrying the ID.
  */
 @Injectable()
 export class CorrelationIdMiddleware implements NestMiddleware {
@@ -30,6 +32,6 @@ export class CorrelationIdMiddleware implements NestMiddleware {
 
     this.logger.debug(`Processing request ${req.method} ${req.url} - Correlation ID: ${correlationId}`);
 
-    next();
+    RequestContext.run({ correlationId: req.correlationId }, () => next());
   }
 }
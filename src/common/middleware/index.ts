@@ -1 +1,2 @@
 export * from './correlation-id.middleware';
+export * from './request-context';
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request values available anywhere in the request's async call chain.
+ */
+export interface RequestContextStore {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+/**
+ * Request context set up by CorrelationIdMiddleware, so services can tag
+ * what they record (e.g. audit log entries) with the request's correlation
+ * ID without it being passed down through every call.
+ */
+export const RequestContext = {
+  run<T>(store: RequestContextStore, callback: () => T): T {
+    return storage.run(store, callback);
+  },
+
+  /** The current request's correlation ID; undefined outside a request. */
+  correlationId(): string | undefined {
+    return storage.getStore()?.correlationId;
+  },
+};
@@ -0,0 +1,86 @@
+import {
+  KeysetColumn,
+  decodePageCursor,
+  encodePageCursor,
+  keysetFilter,
+  queryFingerprint,
+  toKeysetPage,
+} from './page-cursor.util';
+import { InvalidCursorException } from '../exceptions/invalid-cursor.exception';
+
+describe('page cursors', () => {
+  const cursor = { scope: 'store-plugins', query: queryFingerprint({ sort: 'name' }), after: ['Tasks', 'p-1'], page: 2 };
+
+  it('should decode a cursor it encoded', () => {
+    const token = encodePageCursor(cursor, 'secret');
+
+    expect(decodePageCursor(token, 'secret', 'store-plugins', cursor.query)).toEqual(cursor);
+  });
+
+  it('should refuse a cursor signed with another key, issued for another list or query, or malformed', () => {
+    const token = encodePageCursor(cursor, 'secret');
+
+    expect(() => decodePageCursor(token, 'other-secret', 'store-plugins', cursor.query)).toThrow(
+      InvalidCursorException,
+    );
+    expect(() => decodePageCursor(token, 'secret', 'audit-log', cursor.query)).toThrow(InvalidCursorException);
+    expect(() => decodePageCursor(token, 'secret', 'store-plugins', queryFingerprint({ sort: 'rating' }))).toThrow(
+      InvalidCursorException,
+    );
+    expect(() => decodePageCursor('garbage', 'secret', 'store-plugins', cursor.query)).toThrow(InvalidCursorException);
+  });
+
+  it('should fingerprint queries regardless of key order and omitted filters', () => {
+    expect(queryFingerprint({ a: 1, b: 'x', c: undefined })).toBe(queryFingerprint({ b: 'x', a: 1, d: null }));
+    expect(queryFingerprint({ a: 1 })).not.toBe(queryFingerprint({ a: 2 }));
+  });
+});
+
+describe('keysetFilter', () => {
+  const columns: KeysetColumn[] = [
+    { column: 'rating_average', ascending: false, nullable: true },
+    { column: 'name', ascending: true },
+    { column: 'id', ascending: true },
+  ];
+
+  it('should match rows after the key, with nulls last', () => {
+    expect(keysetFilter(columns, [4.5, 'Tasks, Notes', 'p-1'])).toBe(
+      'rating_average.lt."4.5",rating_average.is.null,' +
+        'and(rating_average.eq."4.5",or(name.gt."Tasks, Notes",and(name.eq."Tasks, Notes",id.gt."p-1")))',
+    );
+  });
+
+  it('should only look at later nulls after a null key', () => {
+    expect(keysetFilter(columns, [null, 'Tasks', 'p-1'])).toBe(
+      'and(rating_average.is.null,or(name.gt."Tasks",and(name.eq."Tasks",id.gt."p-1")))',
+    );
+  });
+
+  it('should escape quotes in values', () => {
+    expect(keysetFilter([{ column: 'id', ascending: true }], ['a"b\\c'])).toBe('id.gt."a\\"b\\\\c"');
+  });
+});
+
+describe('toKeysetPage', () => {
+  const columns: KeysetColumn[] = [
+    { column: 'created_at', ascending: false },
+    { column: 'id', ascending: true },
+  ];
+  const rows = [
+    { id: 'a', created_at: '2024-01-03T00:00:00.000001+00:00' },
+    { id: 'b', created_at: '2024-01-02T00:00:00.000001+00:00' },
+    { id: 'c', created_at: '2024-01-01T00:00:00.000001+00:00' },
+  ];
+
+  it('should drop the extra row and return the key of the last row kept', () => {
+    expect(toKeysetPage(rows, columns, 2, (row) => row.id)).toEqual({
+      items: ['a', 'b'],
+      nextKey: ['2024-01-02T00:00:00.000001+00:00', 'b'],
+    });
+  });
+
+  it('should return no key on the last page or without a limit', () => {
+    expect(toKeysetPage(rows, columns, 3, (row) => row.id).nextKey).toBeNull();
+    expect(toKeysetPage(rows, columns, undefined, (row) => row.id)).toEqual({ items: ['a', 'b', 'c'], nextKey: null });
+  });
+});
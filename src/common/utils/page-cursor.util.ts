@@ -0,0 +1,175 @@
+import * as crypto from 'crypto';
+import { InvalidCursorException } from '../exceptions/invalid-cursor.exception';
+
+/**
+ * Cursor pagination for lists whose rows change while clients page through
+ * them.
+ *
+ * A cursor holds the sort key of the last row a page returned, and the next
+ * page starts after that key rather than at an offset, so rows added or
+ * removed in between do not shift it. Cursors are HMAC-signed and tied to
+ * the list and the filters they were issued for; clients treat them as
+ * opaque strings.
+ */
+
+/** A sort column value as the database returned it, so timestamps keep their microseconds. */
+export type KeysetValue = string | number | boolean | null;
+
+/** A column a cursor-paged list is ordered by. Nulls sort last. */
+export interface KeysetColumn {
+  column: string;
+  ascending: boolean;
+  nullable?: boolean;
+}
+
+/** Where the next page of a list starts. */
+export interface PageCursor {
+  /** The list the cursor was issued for, e.g. 'store-plugins'. */
+  scope: string;
+  /** queryFingerprint() of the filters and sort the cursor was issued for. */
+  query: string;
+  /** Sort key of the last row returned. */
+  after: KeysetValue[];
+  /** 0-based index of the page the cursor leads to. */
+  page: number;
+}
+
+/**
+ * Where a page starts and how many rows it holds. Without a key the page
+ * starts at the first row; without a limit every remaining row is returned.
+ */
+export interface KeysetPageRequest {
+  after?: KeysetValue[];
+  limit?: number;
+}
+
+/**
+ * The rows of a page, and the sort key of its last row when more rows follow.
+ */
+export interface KeysetPage<T> {
+  items: T[];
+  nextKey: KeysetValue[] | null;
+}
+
+/**
+ * A page of a list and the cursor of the next page, null on the last page.
+ */
+export interface CursorPage<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+/** Response header carrying the next cursor of lists returned as plain arrays. */
+export const NEXT_CURSOR_HEADER = 'X-Next-Cursor';
+
+/**
+ * A short, stable digest of the filters and sort of a list query. Undefined
+ * and null values are left out, so omitting a filter and passing null match.
+ */
+export function queryFingerprint(query: Record<string, unknown>): string {
+  const entries = Object.keys(query)
+    .filter((key) => query[key] !== undefined && query[key] !== null)
+    .sort()
+    .map((key) => [key, query[key]]);
+  return crypto.createHash('sha256').update(JSON.stringify(entries)).digest('base64url').slice(0, 22);
+}
+
+/**
+ * Encodes and signs a cursor.
+ */
+export function encodePageCursor(cursor: PageCursor, secret: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({ s: cursor.scope, q: cursor.query, a: cursor.after, p: cursor.page }),
+  ).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verifies and decodes a cursor issued by encodePageCursor().
+ *
+ * @throws InvalidCursorException if the cursor is malformed, its signature
+ *   does not match, or it was issued for another list or query
+ */
+export function decodePageCursor(token: string, secret: string, scope: string, query: string): PageCursor {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0 || !signatureMatches(signature, sign(payload, secret))) {
+    throw new InvalidCursorException();
+  }
+
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorException();
+  }
+  if (!Array.isArray(decoded?.a) || !Number.isInteger(decoded.p) || decoded.p < 0) {
+    throw new InvalidCursorException();
+  }
+  if (decoded.s !== scope || decoded.q !== query) {
+    throw new InvalidCursorException('Cursor was issued for a different list or filters');
+  }
+
+  return { scope: decoded.s, query: decoded.q, after: decoded.a, page: decoded.p };
+}
+
+/**
+ * A PostgREST filter, for query.or(), matching the rows that sort after
+ * `key` in the order of `columns`. The last column must be unique and not
+ * null, so that every row has a distinct key.
+ */
+export function keysetFilter(columns: KeysetColumn[], key: KeysetValue[]): string {
+  return keysetBranches(columns, key).join(',');
+}
+
+/**
+ * Maps the rows fetched for a page, fetching one row more than `limit` to
+ * tell whether another page follows. Without a limit every row is returned.
+ */
+export function toKeysetPage<T>(
+  rows: any[],
+  columns: KeysetColumn[],
+  limit: number | undefined,
+  map: (row: any) => T,
+): KeysetPage<T> {
+  const more = limit !== undefined && rows.length > limit;
+  const pageRows = more ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+  return {
+    items: pageRows.map(map),
+    nextKey: more ? columns.map(({ column }) => last[column] ?? null) : null,
+  };
+}
+
+function keysetBranches(columns: KeysetColumn[], key: KeysetValue[]): string[] {
+  const [{ column, ascending, nullable }, ...restColumns] = columns;
+  const [value, ...restKey] = key;
+  const branches: string[] = [];
+
+  if (value !== null) {
+    branches.push(`${column}.${ascending ? 'gt' : 'lt'}.${literal(value)}`);
+    if (nullable) {
+      branches.push(`${column}.is.null`);
+    }
+  }
+  if (restColumns.length > 0) {
+    const equal = value === null ? `${column}.is.null` : `${column}.eq.${literal(value)}`;
+    const after = keysetBranches(restColumns, restKey);
+    branches.push(`and(${equal},${after.length === 1 ? after[0] : `or(${after.join(',')})`})`);
+  }
+  return branches;
+}
+
+/** Quotes a value so that commas, dots and parentheses in it are not read as filter syntax. */
+function literal(value: string | number | boolean): string {
+  return `"${String(value).replace(/["\\]/g, '\\$&')}"`;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function signatureMatches(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -1,4 +1,23 @@
 import { registerAs } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+/**
+ * The HMAC key for pagination cursors. Production instances must share one,
+ * so startup fails without it; elsewhere a random key is used, and cursors
+ * only work against the process that issued them until it restarts.
+ */
+function paginationCursorSecret(): string {
+  const secret = process.env.PAGINATION_CURSOR_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'PAGINATION_CURSOR_SECRET environment variable is required in production. Generate with: openssl rand -hex 32',
+    );
+  }
+  return crypto.randomBytes(32).toString('hex');
+}
 
 /**
  * General application configuration.
@@ -20,5 +39,13 @@ export const appConfig = registerAs('app', () => ({
   pagination: {
     defaultPageSize: 20,
     maxPageSize: 100,
+    // HMAC key for pagination cursors (PAGINATION_CURSOR_SECRET)
+    cursorSecret: paginationCursorSecret(),
+  },
+
+  // Store search suggestions
+  storeSuggestions: {
+    // How often pending plugin changes are applied to the suggestions; 0 disables refreshing
+    refreshIntervalSeconds: parseInt(process.env.STORE_SUGGESTIONS_REFRESH_SECONDS || '30', 10),
   },
 }));
@@ -0,0 +1,31 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Configuration for bearer token authentication.
+ *
+ * Tokens are verified locally against either a shared secret (HS*) or a
+ * PEM-encoded public key (RS* / ES*), so no round-trip to the identity
+ * provider is needed per request.
+ */
+export const authConfig = registerAs('auth', () => ({
+  jwt: {
+    // Expected signing algorithm - tokens signed with any other algorithm are rejected
+    algorithm: process.env.AUTH_JWT_ALGORITHM || 'HS256',
+
+    // Shared secret for HMAC algorithms (e.g. the Supabase JWT secret)
+    secret: process.env.AUTH_JWT_SECRET,
+
+    // PEM public key for RSA / ECDSA algorithms (literal "\n" sequences are expanded)
+    publicKey: process.env.AUTH_JWT_PUBLIC_KEY?.replace(/\\n/g, '\n'),
+
+    // Optional issuer and audience checks
+    issuer: process.env.AUTH_JWT_ISSUER,
+    audience: process.env.AUTH_JWT_AUDIENCE,
+
+    // Dotted path to the roles claim (e.g. "app_metadata.roles")
+    rolesClaim: process.env.AUTH_JWT_ROLES_CLAIM || 'roles',
+
+    // Allowed clock skew when checking exp / nbf, in seconds
+    clockToleranceSeconds: parseInt(process.env.AUTH_JWT_CLOCK_TOLERANCE_SECONDS || '30', 10),
+  },
+}));
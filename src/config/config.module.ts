@@ -2,6 +2,12 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { appConfig } from './app.config';
 import { supabaseConfig } from './supabase.config';
+import { authConfig } from './auth.config';
+import { packageConfig } from './package.config';
+import { signingConfig } from './signing.config';
+import { sandboxConfig } from './sandbox.config';
+import { reviewConfig } from './review.config';
+import { retentionConfig } from './retention.config';
 
 /**
  * Configuration module that loads all environment-based settings.
@@ -10,7 +16,16 @@ import { supabaseConfig } from './supabase.config';
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, supabaseConfig],
+      load: [
+        appConfig,
+        supabaseConfig,
+        authConfig,
+        packageConfig,
+        signingConfig,
+        sandboxConfig,
+        reviewConfig,
+        retentionConfig,
+      ],
       envFilePath: ['.env.local', '.env'],
     }),
   ],
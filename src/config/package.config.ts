@@ -0,0 +1,28 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Limits applied to uploaded .synx archives.
+ *
+ * Every limit is checked against the ZIP central directory before any entry
+ * is decompressed, so a malicious archive is rejected without inflating it.
+ */
+export const packageConfig = registerAs('package', () => ({
+  // Maximum number of entries (files and directories) in an archive
+  maxEntries: parseInt(process.env.PACKAGE_MAX_ENTRIES || '500', 10),
+
+  // Maximum uncompressed size of all entries combined, in MB
+  maxTotalUncompressedMb: parseInt(process.env.PACKAGE_MAX_TOTAL_UNCOMPRESSED_MB || '100', 10),
+
+  // Maximum uncompressed size of a single entry, in MB
+  maxEntryUncompressedMb: parseInt(process.env.PACKAGE_MAX_ENTRY_UNCOMPRESSED_MB || '25', 10),
+
+  // Maximum ratio of uncompressed to compressed size, per entry and for the whole archive
+  maxCompressionRatio: parseInt(process.env.PACKAGE_MAX_COMPRESSION_RATIO || '100', 10),
+
+  // Entries smaller than this are exempt from the per-entry ratio check, in KB
+  // (small, highly repetitive files legitimately compress very well)
+  compressionRatioMinEntryKb: parseInt(process.env.PACKAGE_COMPRESSION_RATIO_MIN_ENTRY_KB || '1024', 10),
+
+  // Maximum number of directories an entry may be nested in
+  maxPathDepth: parseInt(process.env.PACKAGE_MAX_PATH_DEPTH || '8', 10),
+}));
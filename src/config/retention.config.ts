@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Configuration for deleted plugins.
+ *
+ * Deleting a plugin hides it from the store and keeps its packageId reserved;
+ * admins can restore it until the retention window ends, after which the
+ * purge job removes its artifacts, icon and records for good.
+ */
+export const retentionConfig = registerAs('retention', () => ({
+  // Days a deleted plugin can be restored before it is purged
+  deletedPluginRetentionDays: parseInt(process.env.DELETED_PLUGIN_RETENTION_DAYS || '30', 10),
+
+  // How often the purge job runs; 0 disables it
+  purgeIntervalMinutes: parseInt(process.env.PLUGIN_PURGE_INTERVAL_MINUTES || '60', 10),
+}));
@@ -0,0 +1,25 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Configuration for review claims and approval policies.
+ *
+ * Most versions are published by a single approving reviewer. Versions of
+ * plugins with OAuth clients, or declaring a sensitive permission, need
+ * sensitiveApprovals distinct approvers instead.
+ */
+export const reviewConfig = registerAs('review', () => ({
+  // How long a claim on a queued version lasts before anyone can take it over
+  claimTtlMinutes: parseInt(process.env.REVIEW_CLAIM_TTL_MINUTES || '60', 10),
+
+  // Distinct approvers needed to publish any version
+  requiredApprovals: parseInt(process.env.REVIEW_REQUIRED_APPROVALS || '1', 10),
+
+  // Distinct approvers needed when the plugin has OAuth clients or a sensitive permission
+  sensitiveApprovals: parseInt(process.env.REVIEW_SENSITIVE_APPROVALS || '2', 10),
+
+  // Comma-separated permissions; a family (e.g. "network") also covers its scoped forms
+  sensitivePermissions: (process.env.REVIEW_SENSITIVE_PERMISSIONS || 'network,clipboard:read')
+    .split(',')
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0),
+}));
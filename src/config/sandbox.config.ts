@@ -0,0 +1,21 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Configuration for the sandboxed dry run of submitted plugins.
+ *
+ * Each submission's entry point is loaded in a worker thread and exercised
+ * once per declared intent; these limits bound what a plugin can consume.
+ */
+export const sandboxConfig = registerAs('sandbox', () => ({
+  // Run the dry run at all (disable on hosts where worker threads are unavailable)
+  enabled: process.env.DRY_RUN_ENABLED !== 'false',
+
+  // CPU time allowed for each phase (loading the plugin, each intent handler)
+  phaseTimeoutMs: parseInt(process.env.DRY_RUN_PHASE_TIMEOUT_MS || '1000', 10),
+
+  // V8 heap limit of the worker thread running the plugin
+  maxMemoryMb: parseInt(process.env.DRY_RUN_MAX_MEMORY_MB || '64', 10),
+
+  // Events recorded per phase; further events are counted but not stored
+  maxEventsPerPhase: parseInt(process.env.DRY_RUN_MAX_EVENTS_PER_PHASE || '100', 10),
+}));
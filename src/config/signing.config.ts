@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Configuration for Ed25519 package signing.
+ *
+ * Developers sign packages with keys they register; the store counter-signs
+ * published artifacts with its own key so hosts can verify provenance offline.
+ */
+export const signingConfig = registerAs('signing', () => ({
+  // PKCS#8 PEM Ed25519 private key used to counter-sign published artifacts
+  // (literal "\n" sequences are expanded). Counter-signing is skipped when unset.
+  storePrivateKey: process.env.STORE_SIGNING_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+
+  // Reject submissions that carry no developer signature
+  requireDeveloperSignature: process.env.PACKAGE_REQUIRE_SIGNATURE === 'true',
+}));
@@ -1,16 +1,29 @@
 import {
   Controller,
+  Get,
   Post,
+  Param,
   UseInterceptors,
   UploadedFile,
   UsePipes,
   ValidationPipe,
   Body,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiConsumes, ApiBody, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
 import { DeveloperService } from './developer.service';
 import { PluginDetailResponse } from '../common/dto/plugin-detail-response.dto';
+import { PluginStatisticsResponse } from '../common/dto/plugin-statistics-response.dto';
+import { ReviewCommentReplyRequestDto } from '../common/dto/review-comment-request.dto';
+import { ReviewThreadResponse } from '../common/dto/review-comment-response.dto';
+import { PluginVersionResponse } from '../common/dto/plugin-version-response.dto';
+import { PluginVersionFilesResponse } from '../common/dto/plugin-version-files-response.dto';
+import { PluginResponse } from '../common/dto/plugin-response.dto';
+import { DeprecateVersionRequestDto, YankVersionRequestDto } from '../common/dto/version-lifecycle-request.dto';
+import { Role } from '../common/enums/role.enum';
+import { Roles, CurrentUser, AuthenticatedUser, AllowApiKey } from '../auth';
 
 /**
  * Developer API controller for plugin submissions.
@@ -18,10 +31,16 @@ import { PluginDetailResponse } from '../common/dto/plugin-detail-response.dto';
  *
  * Base path: /api/v1/dev
  *
+ * All endpoints require a bearer token carrying the 'developer' role, or a
+ * developer API key (see /api/v1/dev/api-keys) with the matching scope.
+ *
  * Note: OAuth credential management is handled by the OAuth Credentials Vault
  * at /api/v1/oauth/credentials.
  */
 @ApiTags('Developer')
+@ApiBearerAuth()
+@Roles(Role.DEVELOPER)
+@AllowApiKey()
 @Controller('dev')
 @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
 export class DeveloperController {
@@ -35,6 +54,12 @@ export class DeveloperController {
    * - plugin.js (Required): The JavaScript code
    * - icon.png (Optional): 128x128px icon
    * - README.md (Optional): Documentation
+   *
+   * The caller must own the package, or the approved namespace it falls under.
+   * API keys need a submit scope covering the packageId (e.g. submit:com.acme.*).
+   *
+   * The package may be signed with a registered Ed25519 key, either with a
+   * signature.json file in the archive or with the signature and signingKeyId fields.
    */
   @Post('plugins/submit')
   @ApiOperation({
@@ -56,6 +81,14 @@ export class DeveloperController {
           type: 'string',
           description: 'Package identifier (e.g., com.synapse.tictic)',
         },
+        signature: {
+          type: 'string',
+          description: 'Detached Ed25519 signature (base64), if signature.json is not in the package',
+        },
+        signingKeyId: {
+          type: 'string',
+          description: 'ID of the registered signing key that made the detached signature',
+        },
       },
       required: ['file', 'packageId'],
     },
@@ -64,7 +97,172 @@ export class DeveloperController {
   async submitPluginSynx(
     @UploadedFile() file: Express.Multer.File,
     @Body('packageId') packageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body('signature') signature?: string,
+    @Body('signingKeyId') signingKeyId?: string,
   ): Promise<PluginDetailResponse> {
-    return this.developerService.submitPluginSynx(file, packageId);
+    return this.developerService.submitPluginSynx(file, packageId, user, {
+      signature,
+      keyId: signingKeyId,
+    });
+  }
+
+  /**
+   * Retrieves statistics for a plugin owned by the caller.
+   * API keys need the read:analytics scope.
+   */
+  @Get('plugins/:packageId/statistics')
+  @ApiOperation({
+    summary: 'Get statistics for an owned plugin',
+    description: 'Returns download and version statistics for a plugin owned by the caller, regardless of its status.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  async getPluginStatistics(
+    @Param('packageId') packageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginStatisticsResponse> {
+    return this.developerService.getPluginStatistics(packageId, user);
+  }
+
+  /**
+   * Retrieves the file inventory of a version of an owned plugin, whatever its status.
+   * API keys need a submit scope covering the packageId.
+   */
+  @Get('plugins/:packageId/versions/:version/files')
+  @ApiOperation({
+    summary: 'Get version files',
+    description:
+      'Returns every file in the version\'s .synx package with its size, SHA-256 and MIME type, including versions that are not installable from the store.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  @ApiParam({ name: 'version', description: 'Version string (e.g. 1.2.0)' })
+  async getVersionFiles(
+    @Param('packageId') packageId: string,
+    @Param('version') version: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginVersionFilesResponse> {
+    return this.developerService.getVersionFiles(packageId, version, user);
+  }
+
+  /**
+   * Lists the review threads on a version of an owned plugin.
+   * API keys need a submit scope covering the packageId.
+   */
+  @Get('plugins/:packageId/versions/:version/comments')
+  @ApiOperation({
+    summary: 'List review comments',
+    description:
+      'Returns the review threads on a version, including the threads of the earlier versions it was resubmitted in response to. A version sent back with CHANGES_REQUESTED is answered by submitting a new version.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  @ApiParam({ name: 'version', description: 'Version string (e.g. 1.2.0)' })
+  async getReviewComments(
+    @Param('packageId') packageId: string,
+    @Param('version') version: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewThreadResponse[]> {
+    return this.developerService.getReviewComments(packageId, version, user);
+  }
+
+  /**
+   * Replies to a review thread on a version of an owned plugin.
+   * API keys need a submit scope covering the packageId.
+   */
+  @Post('plugins/:packageId/comments/:commentId/replies')
+  @ApiOperation({
+    summary: 'Reply to review thread',
+    description: 'Adds a developer reply to the thread the comment belongs to and returns the whole thread.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  @ApiParam({ name: 'commentId', description: 'ID of any comment in the thread' })
+  async replyToReviewComment(
+    @Param('packageId') packageId: string,
+    @Param('commentId') commentId: string,
+    @Body() dto: ReviewCommentReplyRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReviewThreadResponse> {
+    return this.developerService.replyToReviewComment(packageId, commentId, dto, user);
+  }
+
+  /**
+   * Takes an owned plugin off the store.
+   * API keys need a manage scope covering the packageId.
+   */
+  @Post('plugins/:packageId/unpublish')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unpublish plugin',
+    description:
+      'Hides a published plugin from the store listing and detail endpoints. Existing installs are told it is delisted by the update check.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  async unpublishPlugin(
+    @Param('packageId') packageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginResponse> {
+    return this.developerService.unpublishPlugin(packageId, user);
+  }
+
+  /**
+   * Puts an unpublished plugin back on the store.
+   * API keys need a manage scope covering the packageId.
+   */
+  @Post('plugins/:packageId/relist')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Relist plugin',
+    description:
+      'Lists an unpublished plugin again without review. If versions submitted since unpublishing are awaiting review, the plugin returns to PENDING_REVIEW and is listed once one of them is published.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  async relistPlugin(
+    @Param('packageId') packageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginResponse> {
+    return this.developerService.relistPlugin(packageId, user);
+  }
+
+  /**
+   * Deprecates a published version of an owned plugin.
+   * API keys need a manage scope covering the packageId.
+   */
+  @Post('plugins/:packageId/versions/:version/deprecate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Deprecate version',
+    description:
+      'Marks a published version DEPRECATED. It stays installable and can remain the latest version; the message is shown with it in the store.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  @ApiParam({ name: 'version', description: 'Version string (e.g. 1.2.0)' })
+  async deprecateVersion(
+    @Param('packageId') packageId: string,
+    @Param('version') version: string,
+    @Body() dto: DeprecateVersionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginVersionResponse> {
+    return this.developerService.deprecateVersion(packageId, version, dto, user);
+  }
+
+  /**
+   * Yanks a published or deprecated version of an owned plugin.
+   * API keys need a manage scope covering the packageId.
+   */
+  @Post('plugins/:packageId/versions/:version/yank')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Yank version',
+    description:
+      'Marks a published or deprecated version YANKED. It stays in the version history but is no longer picked as the latest or a compatible version.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of an owned plugin' })
+  @ApiParam({ name: 'version', description: 'Version string (e.g. 1.2.0)' })
+  async yankVersion(
+    @Param('packageId') packageId: string,
+    @Param('version') version: string,
+    @Body() dto: YankVersionRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PluginVersionResponse> {
+    return this.developerService.yankVersion(packageId, version, dto, user);
   }
 }
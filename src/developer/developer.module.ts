@@ -1,9 +1,14 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
 import { DeveloperService } from './developer.service';
 import { DeveloperController } from './developer.controller';
 import { PluginsModule } from '../plugins/plugins.module';
+import { DevelopersModule } from '../developers/developers.module';
+import { ManifestModule } from '../manifest/manifest.module';
+import { SigningKeysModule } from '../signing-keys/signing-keys.module';
+import { ScannerModule } from '../scanner/scanner.module';
+import { BlocklistModule } from '../blocklist/blocklist.module';
 
 /**
  * Developer module - handles developer plugin submission operations.
@@ -12,10 +17,21 @@ import { PluginsModule } from '../plugins/plugins.module';
   imports: [
     ConfigModule,
     PluginsModule,
-    MulterModule.register({
-      limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB
-      },
+    DevelopersModule,
+    ManifestModule,
+    SigningKeysModule,
+    ScannerModule,
+    BlocklistModule,
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          // MAX_UPLOAD_SIZE_MB; larger uploads are rejected with 413 while streaming
+          fileSize: configService.get('supabase').maxUploadSizeMb * 1024 * 1024,
+          files: 1,
+        },
+      }),
     }),
   ],
   controllers: [DeveloperController],
@@ -1,8 +1,27 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
 import { PluginsService } from '../plugins/plugins.service';
+import { PluginReviewService } from '../plugins/plugin-review.service';
+import { ReviewCommentsService } from '../plugins/review-comments.service';
 import { SynxPackageService } from '../storage/synx-package.service';
 import { StorageService } from '../storage/storage.service';
+import { ManifestSchemaService } from '../manifest/manifest-schema.service';
 import { PluginDetailResponse } from '../common/dto/plugin-detail-response.dto';
+import { PluginStatisticsResponse } from '../common/dto/plugin-statistics-response.dto';
+import { ReviewCommentReplyRequestDto } from '../common/dto/review-comment-request.dto';
+import { ReviewThreadResponse } from '../common/dto/review-comment-response.dto';
+import { PluginVersionResponse } from '../common/dto/plugin-version-response.dto';
+import { PluginVersionFilesResponse } from '../common/dto/plugin-version-files-response.dto';
+import { PluginResponse } from '../common/dto/plugin-response.dto';
+import { DeprecateVersionRequestDto, YankVersionRequestDto } from '../common/dto/version-lifecycle-request.dto';
+import { DevelopersService } from '../developers/developers.service';
+import { SigningKeysService, DetachedSignature } from '../signing-keys/signing-keys.service';
+import { CodeScanner } from '../scanner/code-scanner.service';
+import { PermissionAnalyzer } from '../scanner/permission-analyzer.service';
+import { BlocklistService } from '../blocklist/blocklist.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import { VersionStatus } from '../common/enums/version-status.enum';
+import { AuthenticatedUser, ApiKeyScopes } from '../auth';
 
 // Extend Express namespace for Multer types
 declare global {
@@ -33,8 +52,17 @@ export class DeveloperService {
 
   constructor(
     private readonly pluginsService: PluginsService,
+    private readonly pluginReviewService: PluginReviewService,
     private readonly synxPackageService: SynxPackageService,
     private readonly storageService: StorageService,
+    private readonly developersService: DevelopersService,
+    private readonly manifestSchemaService: ManifestSchemaService,
+    private readonly signingKeysService: SigningKeysService,
+    private readonly codeScanner: CodeScanner,
+    private readonly permissionAnalyzer: PermissionAnalyzer,
+    private readonly blocklistService: BlocklistService,
+    private readonly reviewCommentsService: ReviewCommentsService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -42,11 +70,15 @@ export class DeveloperService {
    *
    * @param file The .synx file
    * @param packageId Package identifier
+   * @param user Authenticated developer submitting the package
+   * @param detachedSignature Signature sent as form fields instead of signature.json
    * @returns Plugin detail response
    */
   async submitPluginSynx(
     file: Express.Multer.File,
     packageId: string,
+    user: AuthenticatedUser,
+    detachedSignature: Partial<DetachedSignature> = {},
   ): Promise<PluginDetailResponse> {
     this.logger.log(`Received .synx submission: ${file.originalname} (${file.size} bytes)`);
 
@@ -57,22 +89,56 @@ export class DeveloperService {
       artifactUploadResult: null,
     };
 
+    if (user.apiKey && !ApiKeyScopes.allowsSubmit(user.apiKey.scopes, packageId)) {
+      throw new ForbiddenException(`API key is not scoped to submit '${packageId}'`);
+    }
+
+    // Reject callers that do not own the package or its namespace before touching storage
+    const owner = await this.developersService.resolvePublishingOwner(user, packageId);
+
     try {
       // 1. Extract and validate the .synx package
       const pkg = await this.synxPackageService.extractPackage(file.buffer);
       this.logger.log(
-        `Extracted .synx package: manifest=${pkg.manifest.name}, jsCode=${pkg.jsCode.length} bytes`,
+        `Extracted .synx package: manifest=${pkg.manifest.name}, jsCode=${pkg.jsCode.length} bytes, files=${pkg.files.length}`,
       );
 
-      // 2. Get metadata from manifest
+      // 2. Reject archives and files matching blocklisted hashes before anything is stored
+      const checksumSha256 = await this.storageService.calculateChecksum(file.buffer);
+      await this.blocklistService.assertPackageAllowed(packageId, checksumSha256, pkg.files);
+
+      // 3. Cross-check the manifest against the submission and take metadata from it.
+      // The author falls back to the publishing account's display name, never a placeholder;
+      // an undeclared minAppVersion keeps the default of 1.0.0.
       const manifest = pkg.manifest;
-      const version = manifest.version || '1.0.0';
-      const name = manifest.name || packageId;
-      const description = manifest.description || '';
-      const author = manifest.author || 'Unknown';
-      const minAppVersion = manifest.minAppVersion || '1.0.0';
+      this.manifestSchemaService.assertValidSubmission(manifest, packageId);
+
+      const version: string = manifest.version;
+      const name: string = manifest.name;
+      const description: string = manifest.description || '';
+      const author: string = this.resolveAuthorName(manifest.author) || owner.displayName;
+      const minAppVersion: string = manifest.minAppVersion || '1.0.0';
 
-      // 3. Upload icon if present
+      // 4. Verify the developer signature against the owner's registered keys
+      const signature = await this.signingKeysService.verifyPackageSignature(
+        packageId,
+        version,
+        owner.ownerId,
+        pkg.files,
+        pkg.signatureFile,
+        detachedSignature,
+      );
+
+      // 5. Run static analysis on the entry point and every bundled module, and compare their
+      // behaviour with the declared permissions; findings are shown to reviewers
+      const scanFindings = this.codeScanner.scanFiles(pkg.scripts);
+      const permissionAnalysis = this.permissionAnalyzer.analyzeFiles(pkg.scripts, manifest.permissions || []);
+      this.logger.log(
+        `Static analysis of ${pkg.scripts.size} JavaScript files: ${scanFindings.length} findings, ` +
+          `${permissionAnalysis?.findings.length ?? 0} permission findings`,
+      );
+
+      // 6. Upload icon if present
       if (pkg.iconData && pkg.iconName) {
         const iconHash = await this.storageService.calculateChecksum(pkg.iconData);
         const iconKey = await this.storageService.uploadIcon(pkg.iconData, pkg.iconName, iconHash);
@@ -80,7 +146,7 @@ export class DeveloperService {
         this.logger.log(`Uploaded icon: ${pkg.iconName} with key: ${iconKey}`);
       }
 
-      // 4. Upload artifact to storage and create database records
+      // 7. Upload artifact to storage and create database records
       const uploadResult = await this.storageService.uploadArtifact(
         file.buffer,
         file.mimetype,
@@ -90,30 +156,52 @@ export class DeveloperService {
       state.artifactUploadResult = uploadResult;
       this.logger.log(`Uploaded artifact to TEMP storage: ${uploadResult.tempPath}`);
 
-      // 5. Create plugin and version records
-      const response = await this.pluginsService.submitPlugin(
+      // 8. Create plugin and version records
+      const response = await this.pluginsService.submitPlugin({
         packageId,
         name,
         description,
         author,
-        state.uploadedIconKey || undefined,
-        undefined, // category
-        undefined, // tags
-        undefined, // sourceUrl
+        ownerDeveloperId: owner.ownerId,
+        iconKey: state.uploadedIconKey || undefined,
         version,
         manifest,
         minAppVersion,
-        undefined, // releaseNotes
-        uploadResult.storagePath,
-        uploadResult.bucket,
-        uploadResult.tempPath,
-        uploadResult.fileSizeBytes,
-        uploadResult.checksumSha256,
-      );
+        readme: pkg.readme,
+        storagePath: uploadResult.storagePath,
+        storageBucket: uploadResult.bucket,
+        tempStoragePath: uploadResult.tempPath,
+        fileSizeBytes: uploadResult.fileSizeBytes,
+        checksumSha256: uploadResult.checksumSha256,
+        files: pkg.files,
+        signatures: signature ? [signature] : [],
+        scanFindings,
+        permissionAnalysis,
+      });
 
-      // Clear state after successful submission
+      // Clear state after successful submission; the records now own the uploads
       this.clearState(state);
 
+      await this.auditService.record({
+        actorId: user.id,
+        actorRole: AuditActorRole.DEVELOPER,
+        action: AuditAction.VERSION_SUBMITTED,
+        entityType: AuditEntityType.PLUGIN_VERSION,
+        entityId: response.versionId,
+        entityVersion: version,
+        newStatus: VersionStatus.SUBMITTED,
+        metadata: { packageId, ownerId: owner.ownerId, checksumSha256, apiKeyId: user.apiKey?.id ?? null },
+      });
+
+      // 9. Flag the version if its code references a blocked domain
+      await this.pluginReviewService.screenVersion(response.versionId);
+
+      // 10. Score the version's review risk so the queue can be prioritized
+      await this.pluginReviewService.assessRisk(response.versionId, owner.ownerId, owner.createdAt);
+
+      // 11. Load the plugin in the sandbox in the background; reviewers see the report in the queue
+      this.pluginReviewService.scheduleDryRun(response.versionId, pkg.entryPoint, pkg.jsCode, manifest);
+
       this.logger.log(`Successfully submitted plugin ${packageId} version ${version}`);
       return response;
     } catch (error) {
@@ -123,6 +211,143 @@ export class DeveloperService {
     }
   }
 
+  /**
+   * Retrieves statistics for a plugin owned by the caller.
+   *
+   * @param packageId Package identifier
+   * @param user Authenticated developer
+   * @returns Plugin statistics
+   */
+  async getPluginStatistics(
+    packageId: string,
+    user: AuthenticatedUser,
+  ): Promise<PluginStatisticsResponse> {
+    if (user.apiKey && !ApiKeyScopes.has(user.apiKey.scopes, ApiKeyScopes.READ_ANALYTICS)) {
+      throw new ForbiddenException(`API key is missing the ${ApiKeyScopes.READ_ANALYTICS} scope`);
+    }
+
+    await this.developersService.assertOwnsPackage(user, packageId);
+    return this.pluginsService.getPluginStatistics(packageId);
+  }
+
+  /**
+   * Retrieves the file inventory of a version of a plugin owned by the caller.
+   * API keys need a submit scope covering the packageId.
+   *
+   * @param version Version string (e.g. "1.2.0")
+   */
+  async getVersionFiles(
+    packageId: string,
+    version: string,
+    user: AuthenticatedUser,
+  ): Promise<PluginVersionFilesResponse> {
+    await this.assertCanSubmitPackage(packageId, user);
+    return this.pluginsService.getPackageVersionFiles(packageId, version);
+  }
+
+  /**
+   * Lists the review threads on a version of a plugin owned by the caller.
+   * API keys need a submit scope covering the packageId.
+   *
+   * @param version Version string (e.g. "1.2.0")
+   */
+  async getReviewComments(
+    packageId: string,
+    version: string,
+    user: AuthenticatedUser,
+  ): Promise<ReviewThreadResponse[]> {
+    await this.assertCanSubmitPackage(packageId, user);
+    return this.reviewCommentsService.getThreadsForPackage(packageId, version);
+  }
+
+  /**
+   * Replies to a review thread on a version of a plugin owned by the caller.
+   * API keys need a submit scope covering the packageId.
+   */
+  async replyToReviewComment(
+    packageId: string,
+    commentId: string,
+    dto: ReviewCommentReplyRequestDto,
+    user: AuthenticatedUser,
+  ): Promise<ReviewThreadResponse> {
+    await this.assertCanSubmitPackage(packageId, user);
+    return this.reviewCommentsService.replyForPackage(packageId, commentId, dto, user.id);
+  }
+
+  /**
+   * Takes a plugin owned by the caller off the store.
+   * API keys need a manage scope covering the packageId.
+   */
+  async unpublishPlugin(packageId: string, user: AuthenticatedUser): Promise<PluginResponse> {
+    await this.assertCanManagePackage(packageId, user);
+    return this.pluginsService.unpublishPlugin(packageId, user.id);
+  }
+
+  /**
+   * Puts an unpublished plugin owned by the caller back on the store.
+   * API keys need a manage scope covering the packageId.
+   */
+  async relistPlugin(packageId: string, user: AuthenticatedUser): Promise<PluginResponse> {
+    await this.assertCanManagePackage(packageId, user);
+    return this.pluginsService.relistPlugin(packageId, user.id);
+  }
+
+  /**
+   * Deprecates a published version of a plugin owned by the caller.
+   * API keys need a manage scope covering the packageId.
+   */
+  async deprecateVersion(
+    packageId: string,
+    version: string,
+    dto: DeprecateVersionRequestDto,
+    user: AuthenticatedUser,
+  ): Promise<PluginVersionResponse> {
+    await this.assertCanManagePackage(packageId, user);
+    return this.pluginsService.deprecateVersion(packageId, version, dto.message, user.id, AuditActorRole.DEVELOPER);
+  }
+
+  /**
+   * Yanks a published or deprecated version of a plugin owned by the caller.
+   * API keys need a manage scope covering the packageId.
+   */
+  async yankVersion(
+    packageId: string,
+    version: string,
+    dto: YankVersionRequestDto,
+    user: AuthenticatedUser,
+  ): Promise<PluginVersionResponse> {
+    await this.assertCanManagePackage(packageId, user);
+    return this.pluginsService.yankVersion(packageId, version, dto.reason, user.id, AuditActorRole.DEVELOPER);
+  }
+
+  /**
+   * Reviews are answered by resubmitting, so the same access as submitting applies.
+   */
+  private async assertCanSubmitPackage(packageId: string, user: AuthenticatedUser): Promise<void> {
+    if (user.apiKey && !ApiKeyScopes.allowsSubmit(user.apiKey.scopes, packageId)) {
+      throw new ForbiddenException(`API key is not scoped to submit '${packageId}'`);
+    }
+    await this.developersService.assertOwnsPackage(user, packageId);
+  }
+
+  /**
+   * Unpublishing, relisting, deprecating and yanking affect existing installs,
+   * so API keys need a manage scope; a key for publishing from CI is not enough.
+   */
+  private async assertCanManagePackage(packageId: string, user: AuthenticatedUser): Promise<void> {
+    if (user.apiKey && !ApiKeyScopes.allowsManage(user.apiKey.scopes, packageId)) {
+      throw new ForbiddenException(`API key is not scoped to manage '${packageId}'`);
+    }
+    await this.developersService.assertOwnsPackage(user, packageId);
+  }
+
+  /**
+   * Reads the author name from either manifest form ("Name" or { name: "Name" }).
+   */
+  private resolveAuthorName(author: string | { name?: string } | undefined): string | undefined {
+    return typeof author === 'string' ? author : author?.name;
+  }
+
   /**
    * Cleanup method for compensating transaction.
    * Removes uploaded files if database operations fail.
@@ -0,0 +1,156 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Param,
+  Body,
+  UsePipes,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { DevelopersService } from './developers.service';
+import { PluginsService } from '../plugins/plugins.service';
+import { PluginResponse } from '../common/dto/plugin-response.dto';
+import {
+  DeveloperResponse,
+  NamespaceClaimResponse,
+  OwnershipTransferResponse,
+} from '../common/dto/developer-response.dto';
+import {
+  UpdateDeveloperProfileRequestDto,
+  CreateOrganizationRequestDto,
+  AddOrganizationMemberRequestDto,
+  ClaimNamespaceRequestDto,
+  RequestOwnershipTransferRequestDto,
+} from '../common/dto/developer-request.dto';
+import { Role } from '../common/enums/role.enum';
+import { Roles, CurrentUser, AuthenticatedUser } from '../auth';
+
+/**
+ * Developer API controller for accounts, organizations and package ownership.
+ *
+ * Base path: /api/v1/dev
+ *
+ * All endpoints require a bearer token carrying the 'developer' role.
+ */
+@ApiTags('Developer')
+@ApiBearerAuth()
+@Roles(Role.DEVELOPER)
+@Controller('dev')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class DeveloperAccountController {
+  constructor(
+    private readonly developersService: DevelopersService,
+    private readonly pluginsService: PluginsService,
+  ) {}
+
+  @Get('account')
+  @ApiOperation({
+    summary: 'Get developer account',
+    description: 'Returns the caller\'s developer account, creating it on first use.',
+  })
+  async getAccount(@CurrentUser() user: AuthenticatedUser): Promise<DeveloperResponse> {
+    return this.developersService.getAccount(user);
+  }
+
+  @Put('account')
+  @ApiOperation({
+    summary: 'Update developer profile',
+    description: 'Updates the display name (used as the default plugin author) and contact email.',
+  })
+  async updateAccount(
+    @Body() dto: UpdateDeveloperProfileRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<DeveloperResponse> {
+    return this.developersService.updateProfile(user, dto);
+  }
+
+  @Post('organizations')
+  @ApiOperation({
+    summary: 'Create organization',
+    description: 'Creates an organization account that can own plugins and namespaces. The caller becomes its owner.',
+  })
+  async createOrganization(
+    @Body() dto: CreateOrganizationRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<DeveloperResponse> {
+    return this.developersService.createOrganization(user, dto);
+  }
+
+  @Post('organizations/:organizationId/members')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Add organization member',
+    description: 'Adds a developer to an organization. Only organization owners may add members.',
+  })
+  @ApiParam({ name: 'organizationId', description: 'Organization account ID' })
+  async addOrganizationMember(
+    @Param('organizationId') organizationId: string,
+    @Body() dto: AddOrganizationMemberRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.developersService.addOrganizationMember(user, organizationId, dto.developerId);
+  }
+
+  @Get('namespaces')
+  @ApiOperation({
+    summary: 'List namespace claims',
+    description: 'Lists namespace claims held by the caller and their organizations.',
+  })
+  async listNamespaceClaims(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<NamespaceClaimResponse[]> {
+    return this.developersService.listNamespaceClaimsForUser(user);
+  }
+
+  @Post('namespaces')
+  @ApiOperation({
+    summary: 'Claim namespace',
+    description:
+      'Files a claim on a reverse-domain namespace (e.g. com.acme.*). Once approved by an admin, only the claiming account can publish packages inside it.',
+  })
+  async claimNamespace(
+    @Body() dto: ClaimNamespaceRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<NamespaceClaimResponse> {
+    return this.developersService.claimNamespace(user, dto);
+  }
+
+  @Get('plugins')
+  @ApiOperation({
+    summary: 'List owned plugins',
+    description: 'Lists all plugins owned by the caller and their organizations, regardless of status.',
+  })
+  async listOwnedPlugins(@CurrentUser() user: AuthenticatedUser): Promise<PluginResponse[]> {
+    const accountIds = await this.developersService.getAccountIds(user);
+    return this.pluginsService.listPluginsByOwners(accountIds);
+  }
+
+  @Post('plugins/:packageId/transfer')
+  @ApiOperation({
+    summary: 'Request ownership transfer',
+    description: 'Requests that a plugin be moved to another developer or organization. Takes effect after admin approval.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID of the plugin to transfer' })
+  async requestOwnershipTransfer(
+    @Param('packageId') packageId: string,
+    @Body() dto: RequestOwnershipTransferRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<OwnershipTransferResponse> {
+    return this.developersService.requestOwnershipTransfer(user, packageId, dto);
+  }
+
+  @Get('ownership-transfers')
+  @ApiOperation({
+    summary: 'List ownership transfers',
+    description: 'Lists ownership transfers sent from or to the caller\'s accounts.',
+  })
+  async listOwnershipTransfers(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<OwnershipTransferResponse[]> {
+    return this.developersService.listOwnershipTransfersForUser(user);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DevelopersService } from './developers.service';
+import { DevelopersRepository } from './developers.repository';
+import { NamespaceClaimsRepository } from './namespace-claims.repository';
+import { OwnershipTransfersRepository } from './ownership-transfers.repository';
+import { DeveloperAccountController } from './developer-account.controller';
+import { PluginsModule } from '../plugins/plugins.module';
+
+/**
+ * Developers module - developer accounts, organizations, namespace claims and package ownership.
+ */
+@Module({
+  imports: [ConfigModule, PluginsModule],
+  controllers: [DeveloperAccountController],
+  providers: [
+    DevelopersService,
+    DevelopersRepository,
+    NamespaceClaimsRepository,
+    OwnershipTransfersRepository,
+  ],
+  exports: [DevelopersService],
+})
+export class DevelopersModule {}
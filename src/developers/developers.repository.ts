@@ -0,0 +1,200 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import {
+  Developer,
+  CreateDeveloperDto,
+  UpdateDeveloperDto,
+  OrganizationMembership,
+} from '../common/entities/developer.entity';
+import { DeveloperType, OrganizationRole } from '../common/enums/developer-account.enum';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for Developer accounts and organization memberships using Supabase.
+ */
+@Injectable()
+export class DevelopersRepository {
+  private readonly logger = new Logger(DevelopersRepository.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find a developer account by ID.
+   */
+  async findById(id: string): Promise<Developer | null> {
+    const { data, error } = await this.supabase
+      .from('developers')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find the individual developer account linked to an auth token subject.
+   */
+  async findByUserId(userId: string): Promise<Developer | null> {
+    const { data, error } = await this.supabase
+      .from('developers')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Create a new developer or organization account.
+   */
+  async create(dto: CreateDeveloperDto): Promise<Developer> {
+    const newDeveloper = {
+      id: crypto.randomUUID(),
+      user_id: dto.type === DeveloperType.INDIVIDUAL ? dto.userId : null,
+      type: dto.type,
+      display_name: dto.displayName,
+      email: dto.email || null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await this.supabase
+      .from('developers')
+      .insert(newDeveloper)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create developer: ${error.message}`);
+    }
+
+    this.logger.log(`Created ${dto.type} developer account ${data.id}`);
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Update an existing developer account.
+   */
+  async update(id: string, dto: UpdateDeveloperDto): Promise<Developer> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (dto.displayName !== undefined) updateData.display_name = dto.displayName;
+    if (dto.email !== undefined) updateData.email = dto.email;
+
+    const { data, error } = await this.supabase
+      .from('developers')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update developer: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find all organization memberships of a developer.
+   */
+  async findMembershipsByDeveloperId(developerId: string): Promise<OrganizationMembership[]> {
+    const { data } = await this.supabase
+      .from('developer_organization_members')
+      .select('*')
+      .eq('developer_id', developerId);
+
+    return (data || []).map((item) => this.mapToMembership(item));
+  }
+
+  /**
+   * Find a single membership of a developer in an organization.
+   */
+  async findMembership(
+    organizationId: string,
+    developerId: string,
+  ): Promise<OrganizationMembership | null> {
+    const { data, error } = await this.supabase
+      .from('developer_organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('developer_id', developerId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToMembership(data);
+  }
+
+  /**
+   * Add a developer to an organization.
+   */
+  async addMembership(
+    organizationId: string,
+    developerId: string,
+    role: OrganizationRole,
+  ): Promise<OrganizationMembership> {
+    const { data, error } = await this.supabase
+      .from('developer_organization_members')
+      .upsert({
+        organization_id: organizationId,
+        developer_id: developerId,
+        role,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add organization member: ${error.message}`);
+    }
+
+    return this.mapToMembership(data);
+  }
+
+  /**
+   * Map database row to Developer entity.
+   */
+  private mapToEntity(data: any): Developer {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      type: data.type as DeveloperType,
+      displayName: data.display_name,
+      email: data.email,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+    };
+  }
+
+  /**
+   * Map database row to OrganizationMembership entity.
+   */
+  private mapToMembership(data: any): OrganizationMembership {
+    return {
+      organizationId: data.organization_id,
+      developerId: data.developer_id,
+      role: data.role as OrganizationRole,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
@@ -0,0 +1,307 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DevelopersService } from './developers.service';
+import { DevelopersRepository } from './developers.repository';
+import { NamespaceClaimsRepository } from './namespace-claims.repository';
+import { OwnershipTransfersRepository } from './ownership-transfers.repository';
+import { PluginsRepository } from '../plugins/plugins.repository';
+import { Developer, NamespaceClaim, OwnershipTransfer } from '../common/entities/developer.entity';
+import { Plugin } from '../common/entities/plugin.entity';
+import {
+  DeveloperType,
+  OrganizationRole,
+  OwnershipDecision,
+  OwnershipRequestStatus,
+} from '../common/enums/developer-account.enum';
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { Role } from '../common/enums/role.enum';
+import { PackageOwnershipException, NamespaceConflictException } from '../common/exceptions';
+import { AuthenticatedUser } from '../auth';
+import { AuditService } from '../audit/audit.service';
+
+describe('DevelopersService', () => {
+  let service: DevelopersService;
+  let developersRepository: jest.Mocked<DevelopersRepository>;
+  let claimsRepository: jest.Mocked<NamespaceClaimsRepository>;
+  let transfersRepository: jest.Mocked<OwnershipTransfersRepository>;
+  let pluginsRepository: jest.Mocked<PluginsRepository>;
+
+  const user: AuthenticatedUser = {
+    id: 'user-1',
+    roles: [Role.DEVELOPER],
+    email: 'dev@acme.com',
+    claims: {},
+  };
+
+  const developer: Developer = {
+    id: 'dev-1',
+    userId: 'user-1',
+    type: DeveloperType.INDIVIDUAL,
+    displayName: 'Acme Dev',
+    email: 'dev@acme.com',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const organization: Developer = {
+    id: 'org-1',
+    userId: null,
+    type: DeveloperType.ORGANIZATION,
+    displayName: 'Acme Inc.',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const plugin: Plugin = {
+    id: 'plugin-1',
+    packageId: 'com.acme.tasks',
+    name: 'Tasks',
+    author: 'Acme Inc.',
+    ownerDeveloperId: 'org-1',
+    status: PluginStatus.PUBLISHED,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const approvedClaim = (developerId: string, namespace: string): NamespaceClaim => ({
+    id: `claim-${namespace}`,
+    developerId,
+    namespace,
+    status: OwnershipRequestStatus.APPROVED,
+    requestedBy: 'someone',
+    createdAt: new Date('2024-01-01'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DevelopersService,
+        {
+          provide: DevelopersRepository,
+          useValue: {
+            findById: jest.fn(),
+            findByUserId: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            findMembershipsByDeveloperId: jest.fn(),
+            findMembership: jest.fn(),
+            addMembership: jest.fn(),
+          },
+        },
+        {
+          provide: NamespaceClaimsRepository,
+          useValue: {
+            findById: jest.fn(),
+            findByStatus: jest.fn(),
+            findByDeveloperIds: jest.fn(),
+            findApprovedByNamespaces: jest.fn().mockResolvedValue([]),
+            findApprovedUnderNamespace: jest.fn().mockResolvedValue([]),
+            create: jest.fn(),
+            updateStatus: jest.fn(),
+          },
+        },
+        {
+          provide: OwnershipTransfersRepository,
+          useValue: {
+            findById: jest.fn(),
+            findPendingByPluginId: jest.fn(),
+            findByStatus: jest.fn(),
+            findByDeveloperIds: jest.fn(),
+            create: jest.fn(),
+            updateStatus: jest.fn(),
+          },
+        },
+        {
+          provide: PluginsRepository,
+          useValue: {
+            findByPackageId: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DevelopersService>(DevelopersService);
+    developersRepository = module.get(DevelopersRepository);
+    claimsRepository = module.get(NamespaceClaimsRepository);
+    transfersRepository = module.get(OwnershipTransfersRepository);
+    pluginsRepository = module.get(PluginsRepository);
+
+    developersRepository.findByUserId.mockResolvedValue(developer);
+    developersRepository.findMembershipsByDeveloperId.mockResolvedValue([
+      {
+        organizationId: 'org-1',
+        developerId: 'dev-1',
+        role: OrganizationRole.MEMBER,
+        createdAt: new Date('2024-01-01'),
+      },
+    ]);
+    developersRepository.findById.mockImplementation(async (id) =>
+      [developer, organization].find((d) => d.id === id) || null,
+    );
+  });
+
+  describe('getOrCreateForUser', () => {
+    it('should provision an individual account on first use', async () => {
+      developersRepository.findByUserId.mockResolvedValue(null);
+      developersRepository.create.mockResolvedValue(developer);
+
+      await service.getOrCreateForUser(user);
+
+      expect(developersRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        type: DeveloperType.INDIVIDUAL,
+        displayName: 'dev@acme.com',
+        email: 'dev@acme.com',
+      });
+    });
+  });
+
+  describe('resolvePublishingOwner', () => {
+    it('should allow members of the owning organization to publish new versions', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(plugin);
+
+      const owner = await service.resolvePublishingOwner(user, 'com.acme.tasks');
+
+      expect(owner).toEqual({ ownerId: 'org-1', displayName: 'Acme Inc.', createdAt: organization.createdAt });
+    });
+
+    it('should reject versions for a plugin owned by someone else', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...plugin, ownerDeveloperId: 'dev-other' });
+
+      await expect(service.resolvePublishingOwner(user, 'com.acme.tasks')).rejects.toThrow(
+        PackageOwnershipException,
+      );
+    });
+
+    it('should reject versions for a legacy plugin without an owner', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...plugin, ownerDeveloperId: null });
+
+      await expect(service.resolvePublishingOwner(user, 'com.acme.tasks')).rejects.toThrow(
+        PackageOwnershipException,
+      );
+    });
+
+    it('should assign new packages to the owner of the most specific namespace claim', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(null);
+      claimsRepository.findApprovedByNamespaces.mockResolvedValue([
+        approvedClaim('dev-1', 'com.acme'),
+        approvedClaim('org-1', 'com.acme.tools'),
+      ]);
+
+      const owner = await service.resolvePublishingOwner(user, 'com.acme.tools.timer');
+
+      expect(claimsRepository.findApprovedByNamespaces).toHaveBeenCalledWith([
+        'com.acme.tools.timer',
+        'com.acme.tools',
+        'com.acme',
+        'com',
+      ]);
+      expect(owner.ownerId).toBe('org-1');
+    });
+
+    it('should reject new packages inside a namespace claimed by someone else', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(null);
+      claimsRepository.findApprovedByNamespaces.mockResolvedValue([
+        approvedClaim('dev-other', 'com.acme'),
+      ]);
+
+      await expect(service.resolvePublishingOwner(user, 'com.acme.timer')).rejects.toThrow(
+        PackageOwnershipException,
+      );
+    });
+
+    it('should assign unclaimed new packages to the caller', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(null);
+
+      const owner = await service.resolvePublishingOwner(user, 'io.example.timer');
+
+      expect(owner).toEqual({ ownerId: 'dev-1', displayName: 'Acme Dev', createdAt: developer.createdAt });
+    });
+  });
+
+  describe('claimNamespace', () => {
+    it('should file a pending claim without the wildcard suffix', async () => {
+      claimsRepository.create.mockResolvedValue({
+        ...approvedClaim('org-1', 'com.acme'),
+        status: OwnershipRequestStatus.PENDING,
+      });
+
+      await service.claimNamespace(user, { namespace: 'com.acme.*', organizationId: 'org-1' });
+
+      expect(claimsRepository.create).toHaveBeenCalledWith('org-1', 'com.acme', 'user-1');
+    });
+
+    it('should reject claims nested under a namespace owned by someone else', async () => {
+      claimsRepository.findApprovedByNamespaces.mockResolvedValue([
+        approvedClaim('dev-other', 'com.acme'),
+      ]);
+
+      await expect(
+        service.claimNamespace(user, { namespace: 'com.acme.tools' }),
+      ).rejects.toThrow(NamespaceConflictException);
+      expect(claimsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject claims enclosing a namespace owned by someone else', async () => {
+      claimsRepository.findApprovedUnderNamespace.mockResolvedValue([
+        approvedClaim('dev-other', 'com.acme.tools'),
+      ]);
+
+      await expect(service.claimNamespace(user, { namespace: 'com.acme' })).rejects.toThrow(
+        NamespaceConflictException,
+      );
+    });
+  });
+
+  describe('reviewOwnershipTransfer', () => {
+    const transfer: OwnershipTransfer = {
+      id: 'transfer-1',
+      pluginId: 'plugin-1',
+      fromDeveloperId: 'org-1',
+      toDeveloperId: 'dev-1',
+      requestedBy: 'user-1',
+      status: OwnershipRequestStatus.PENDING,
+      createdAt: new Date('2024-01-01'),
+    };
+
+    it('should move the plugin to the new owner on approval', async () => {
+      transfersRepository.findById.mockResolvedValue(transfer);
+      transfersRepository.updateStatus.mockResolvedValue({
+        ...transfer,
+        status: OwnershipRequestStatus.APPROVED,
+      });
+
+      const result = await service.reviewOwnershipTransfer(
+        'transfer-1',
+        { decision: OwnershipDecision.APPROVE },
+        'admin-1',
+      );
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', { ownerDeveloperId: 'dev-1' });
+      expect(result.status).toBe(OwnershipRequestStatus.APPROVED);
+    });
+
+    it('should leave the plugin untouched on rejection', async () => {
+      transfersRepository.findById.mockResolvedValue(transfer);
+      transfersRepository.updateStatus.mockResolvedValue({
+        ...transfer,
+        status: OwnershipRequestStatus.REJECTED,
+      });
+
+      await service.reviewOwnershipTransfer(
+        'transfer-1',
+        { decision: OwnershipDecision.REJECT, note: 'Not authorized by the organization' },
+        'admin-1',
+      );
+
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+      expect(transfersRepository.updateStatus).toHaveBeenCalledWith(
+        'transfer-1',
+        OwnershipRequestStatus.REJECTED,
+        'admin-1',
+        'Not authorized by the organization',
+      );
+    });
+  });
+});
@@ -0,0 +1,625 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { DevelopersRepository } from './developers.repository';
+import { NamespaceClaimsRepository } from './namespace-claims.repository';
+import { OwnershipTransfersRepository } from './ownership-transfers.repository';
+import { PluginsRepository } from '../plugins/plugins.repository';
+import { AuditService } from '../audit/audit.service';
+import {
+  Developer,
+  NamespaceClaim,
+  OwnershipTransfer,
+} from '../common/entities/developer.entity';
+import {
+  DeveloperType,
+  OrganizationRole,
+  OwnershipDecision,
+  OwnershipRequestStatus,
+} from '../common/enums/developer-account.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import {
+  DeveloperResponse,
+  NamespaceClaimResponse,
+  OwnershipTransferResponse,
+} from '../common/dto/developer-response.dto';
+import {
+  UpdateDeveloperProfileRequestDto,
+  CreateOrganizationRequestDto,
+  ClaimNamespaceRequestDto,
+  RequestOwnershipTransferRequestDto,
+  OwnershipDecisionRequestDto,
+} from '../common/dto/developer-request.dto';
+import {
+  ResourceNotFoundException,
+  PackageOwnershipException,
+  NamespaceConflictException,
+} from '../common/exceptions';
+import { AuthenticatedUser } from '../auth';
+
+/**
+ * Account that a submission will be published under.
+ */
+export interface PublishingOwner {
+  /** Developer or organization account that owns (or will own) the package. */
+  ownerId: string;
+
+  /** Display name of the owning account, used as the default plugin author. */
+  displayName: string;
+
+  /** When the owning account was created. */
+  createdAt: Date;
+}
+
+/**
+ * Service for developer accounts, organizations and package ownership.
+ *
+ * Ownership rules:
+ * - every developer gets an individual account on first use, keyed by the token subject
+ * - an existing plugin can only receive versions from its owner (or members of the owning organization)
+ * - a new packageId inside an approved namespace claim belongs to the claim's owner
+ * - a new packageId outside any claim is owned by the submitting developer
+ * - moving a plugin to another owner requires an admin-approved transfer
+ */
+@Injectable()
+export class DevelopersService {
+  private readonly logger = new Logger(DevelopersService.name);
+
+  constructor(
+    private readonly developersRepository: DevelopersRepository,
+    private readonly namespaceClaimsRepository: NamespaceClaimsRepository,
+    private readonly transfersRepository: OwnershipTransfersRepository,
+    private readonly pluginsRepository: PluginsRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Returns the caller's individual developer account, creating it on first use.
+   */
+  async getOrCreateForUser(user: AuthenticatedUser): Promise<Developer> {
+    const existing = await this.developersRepository.findByUserId(user.id);
+    if (existing) {
+      return existing;
+    }
+
+    return this.developersRepository.create({
+      userId: user.id,
+      type: DeveloperType.INDIVIDUAL,
+      displayName: user.email || user.id,
+      email: user.email || null,
+    });
+  }
+
+  /**
+   * Returns the caller's account details.
+   */
+  async getAccount(user: AuthenticatedUser): Promise<DeveloperResponse> {
+    const developer = await this.getOrCreateForUser(user);
+    return this.toDeveloperResponse(developer);
+  }
+
+  /**
+   * Updates the caller's display name and contact email.
+   */
+  async updateProfile(
+    user: AuthenticatedUser,
+    dto: UpdateDeveloperProfileRequestDto,
+  ): Promise<DeveloperResponse> {
+    const developer = await this.getOrCreateForUser(user);
+    const updated = await this.developersRepository.update(developer.id, {
+      displayName: dto.displayName,
+      email: dto.email,
+    });
+
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.ACCOUNT_UPDATED,
+      entityType: AuditEntityType.DEVELOPER,
+      entityId: developer.id,
+      metadata: { fields: Object.keys(dto) },
+    });
+    return this.toDeveloperResponse(updated);
+  }
+
+  /**
+   * Creates an organization account with the caller as its owner.
+   */
+  async createOrganization(
+    user: AuthenticatedUser,
+    dto: CreateOrganizationRequestDto,
+  ): Promise<DeveloperResponse> {
+    const developer = await this.getOrCreateForUser(user);
+    const organization = await this.developersRepository.create({
+      type: DeveloperType.ORGANIZATION,
+      displayName: dto.displayName,
+      email: dto.email || null,
+    });
+    await this.developersRepository.addMembership(
+      organization.id,
+      developer.id,
+      OrganizationRole.OWNER,
+    );
+
+    this.logger.log(`Developer ${developer.id} created organization ${organization.id}`);
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.ORGANIZATION_CREATED,
+      entityType: AuditEntityType.DEVELOPER,
+      entityId: organization.id,
+      metadata: { ownerDeveloperId: developer.id },
+    });
+    return this.toDeveloperResponse(organization);
+  }
+
+  /**
+   * Adds a developer to an organization. Only organization owners may add members.
+   */
+  async addOrganizationMember(
+    user: AuthenticatedUser,
+    organizationId: string,
+    memberDeveloperId: string,
+  ): Promise<void> {
+    const developer = await this.getOrCreateForUser(user);
+    const membership = await this.developersRepository.findMembership(organizationId, developer.id);
+    if (!membership || membership.role !== OrganizationRole.OWNER) {
+      throw new ForbiddenException('Only organization owners can add members');
+    }
+
+    const member = await this.developersRepository.findById(memberDeveloperId);
+    if (!member || member.type !== DeveloperType.INDIVIDUAL) {
+      throw new ResourceNotFoundException('Developer', 'id', memberDeveloperId);
+    }
+
+    await this.developersRepository.addMembership(
+      organizationId,
+      memberDeveloperId,
+      OrganizationRole.MEMBER,
+    );
+
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.ORGANIZATION_MEMBER_ADDED,
+      entityType: AuditEntityType.DEVELOPER,
+      entityId: organizationId,
+      metadata: { memberDeveloperId, role: OrganizationRole.MEMBER },
+    });
+  }
+
+  /**
+   * Returns the IDs of every account the caller can publish as:
+   * their own account followed by the organizations they belong to.
+   */
+  async getAccountIds(user: AuthenticatedUser): Promise<string[]> {
+    const developer = await this.getOrCreateForUser(user);
+    const memberships = await this.developersRepository.findMembershipsByDeveloperId(developer.id);
+    return [developer.id, ...memberships.map((m) => m.organizationId)];
+  }
+
+  /**
+   * Files a namespace claim for the caller or one of their organizations.
+   * The claim stays PENDING until an admin approves it.
+   */
+  async claimNamespace(
+    user: AuthenticatedUser,
+    dto: ClaimNamespaceRequestDto,
+  ): Promise<NamespaceClaimResponse> {
+    const namespace = this.normalizeNamespace(dto.namespace);
+    const accountIds = await this.getAccountIds(user);
+
+    const ownerId = dto.organizationId || accountIds[0];
+    if (!accountIds.includes(ownerId)) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+
+    await this.assertNoConflictingClaim(namespace, ownerId);
+
+    const claim = await this.namespaceClaimsRepository.create(ownerId, namespace, user.id);
+    this.logger.log(`Namespace claim ${claim.id} filed for ${namespace}.* by ${user.id}`);
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.NAMESPACE_CLAIMED,
+      entityType: AuditEntityType.NAMESPACE_CLAIM,
+      entityId: claim.id,
+      newStatus: claim.status,
+      metadata: { namespace, developerId: ownerId },
+    });
+    return this.toNamespaceClaimResponse(claim);
+  }
+
+  /**
+   * Lists the namespace claims held by the caller and their organizations.
+   */
+  async listNamespaceClaimsForUser(user: AuthenticatedUser): Promise<NamespaceClaimResponse[]> {
+    const accountIds = await this.getAccountIds(user);
+    const claims = await this.namespaceClaimsRepository.findByDeveloperIds(accountIds);
+    return claims.map((c) => this.toNamespaceClaimResponse(c));
+  }
+
+  /**
+   * Determines which account a submission for the given packageId is published under,
+   * rejecting it when the caller does not own the package or its namespace.
+   */
+  async resolvePublishingOwner(
+    user: AuthenticatedUser,
+    packageId: string,
+  ): Promise<PublishingOwner> {
+    const accountIds = await this.getAccountIds(user);
+
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (plugin) {
+      if (!plugin.ownerDeveloperId) {
+        throw new PackageOwnershipException(
+          packageId,
+          'the package has no registered owner; request an ownership transfer first',
+        );
+      }
+      if (!accountIds.includes(plugin.ownerDeveloperId)) {
+        throw new PackageOwnershipException(packageId, 'the package is owned by another developer');
+      }
+      return this.toPublishingOwner(plugin.ownerDeveloperId);
+    }
+
+    const claim = await this.findGoverningClaim(packageId);
+    if (claim) {
+      if (!accountIds.includes(claim.developerId)) {
+        throw new PackageOwnershipException(
+          packageId,
+          `the namespace '${claim.namespace}.*' is owned by another developer`,
+        );
+      }
+      return this.toPublishingOwner(claim.developerId);
+    }
+
+    return this.toPublishingOwner(accountIds[0]);
+  }
+
+  /**
+   * Ensures the caller or one of their organizations owns an existing plugin.
+   */
+  async assertOwnsPackage(user: AuthenticatedUser, packageId: string): Promise<void> {
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (!plugin) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+
+    const accountIds = await this.getAccountIds(user);
+    if (!plugin.ownerDeveloperId || !accountIds.includes(plugin.ownerDeveloperId)) {
+      throw new ForbiddenException(`You do not own '${packageId}'`);
+    }
+  }
+
+  /**
+   * Requests that a plugin be moved to another account.
+   *
+   * The current owner (or a member of the owning organization) may hand a plugin over.
+   * For legacy plugins without an owner, a developer may request the plugin for one of
+   * their own accounts. Either way the transfer only takes effect after admin approval.
+   */
+  async requestOwnershipTransfer(
+    user: AuthenticatedUser,
+    packageId: string,
+    dto: RequestOwnershipTransferRequestDto,
+  ): Promise<OwnershipTransferResponse> {
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (!plugin) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+
+    const accountIds = await this.getAccountIds(user);
+    if (plugin.ownerDeveloperId) {
+      if (!accountIds.includes(plugin.ownerDeveloperId)) {
+        throw new PackageOwnershipException(packageId, 'only the current owner can transfer it');
+      }
+    } else if (!accountIds.includes(dto.toDeveloperId)) {
+      throw new PackageOwnershipException(
+        packageId,
+        'unowned packages can only be requested for your own accounts',
+      );
+    }
+
+    if (plugin.ownerDeveloperId === dto.toDeveloperId) {
+      throw new BadRequestException('The package is already owned by this account');
+    }
+
+    const target = await this.developersRepository.findById(dto.toDeveloperId);
+    if (!target) {
+      throw new ResourceNotFoundException('Developer', 'id', dto.toDeveloperId);
+    }
+
+    const pending = await this.transfersRepository.findPendingByPluginId(plugin.id);
+    if (pending) {
+      throw new ConflictException(`An ownership transfer for '${packageId}' is already pending`);
+    }
+
+    const transfer = await this.transfersRepository.create({
+      pluginId: plugin.id,
+      fromDeveloperId: plugin.ownerDeveloperId || null,
+      toDeveloperId: dto.toDeveloperId,
+      requestedBy: user.id,
+      reason: dto.reason || null,
+    });
+
+    this.logger.log(`Ownership transfer ${transfer.id} requested for ${packageId} by ${user.id}`);
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.OWNERSHIP_TRANSFER_REQUESTED,
+      entityType: AuditEntityType.OWNERSHIP_TRANSFER,
+      entityId: transfer.id,
+      newStatus: transfer.status,
+      reason: transfer.reason,
+      metadata: { packageId, fromDeveloperId: transfer.fromDeveloperId, toDeveloperId: transfer.toDeveloperId },
+    });
+    return this.toOwnershipTransferResponse(transfer);
+  }
+
+  /**
+   * Lists ownership transfers sent from or to the caller's accounts.
+   */
+  async listOwnershipTransfersForUser(
+    user: AuthenticatedUser,
+  ): Promise<OwnershipTransferResponse[]> {
+    const accountIds = await this.getAccountIds(user);
+    const transfers = await this.transfersRepository.findByDeveloperIds(accountIds);
+    return transfers.map((t) => this.toOwnershipTransferResponse(t));
+  }
+
+  /**
+   * Lists namespace claims with the given status (admin).
+   */
+  async listNamespaceClaims(
+    status: OwnershipRequestStatus = OwnershipRequestStatus.PENDING,
+  ): Promise<NamespaceClaimResponse[]> {
+    const claims = await this.namespaceClaimsRepository.findByStatus(status);
+    return claims.map((c) => this.toNamespaceClaimResponse(c));
+  }
+
+  /**
+   * Approves or rejects a pending namespace claim (admin).
+   */
+  async reviewNamespaceClaim(
+    claimId: string,
+    dto: OwnershipDecisionRequestDto,
+    reviewedBy: string,
+  ): Promise<NamespaceClaimResponse> {
+    const claim = await this.namespaceClaimsRepository.findById(claimId);
+    if (!claim) {
+      throw new ResourceNotFoundException('Namespace claim', 'id', claimId);
+    }
+    if (claim.status !== OwnershipRequestStatus.PENDING) {
+      throw new BadRequestException(`Namespace claim is already ${claim.status}`);
+    }
+
+    if (dto.decision === OwnershipDecision.APPROVE) {
+      // Re-check: another claim may have been approved since this one was filed
+      await this.assertNoConflictingClaim(claim.namespace, claim.developerId);
+      const approved = await this.namespaceClaimsRepository.updateStatus(
+        claimId,
+        OwnershipRequestStatus.APPROVED,
+        reviewedBy,
+        null,
+      );
+      this.logger.log(`Namespace claim ${claimId} (${claim.namespace}.*) approved by ${reviewedBy}`);
+      await this.auditNamespaceClaimReview(claim, approved, reviewedBy);
+      return this.toNamespaceClaimResponse(approved);
+    }
+
+    const rejected = await this.namespaceClaimsRepository.updateStatus(
+      claimId,
+      OwnershipRequestStatus.REJECTED,
+      reviewedBy,
+      dto.note || null,
+    );
+    this.logger.log(`Namespace claim ${claimId} (${claim.namespace}.*) rejected by ${reviewedBy}`);
+    await this.auditNamespaceClaimReview(claim, rejected, reviewedBy);
+    return this.toNamespaceClaimResponse(rejected);
+  }
+
+  /**
+   * Lists ownership transfers with the given status (admin).
+   */
+  async listOwnershipTransfers(
+    status: OwnershipRequestStatus = OwnershipRequestStatus.PENDING,
+  ): Promise<OwnershipTransferResponse[]> {
+    const transfers = await this.transfersRepository.findByStatus(status);
+    return transfers.map((t) => this.toOwnershipTransferResponse(t));
+  }
+
+  /**
+   * Approves or rejects a pending ownership transfer (admin).
+   * Approval moves the plugin to the target account.
+   */
+  async reviewOwnershipTransfer(
+    transferId: string,
+    dto: OwnershipDecisionRequestDto,
+    reviewedBy: string,
+  ): Promise<OwnershipTransferResponse> {
+    const transfer = await this.transfersRepository.findById(transferId);
+    if (!transfer) {
+      throw new ResourceNotFoundException('Ownership transfer', 'id', transferId);
+    }
+    if (transfer.status !== OwnershipRequestStatus.PENDING) {
+      throw new BadRequestException(`Ownership transfer is already ${transfer.status}`);
+    }
+
+    if (dto.decision === OwnershipDecision.REJECT) {
+      const rejected = await this.transfersRepository.updateStatus(
+        transferId,
+        OwnershipRequestStatus.REJECTED,
+        reviewedBy,
+        dto.note || null,
+      );
+      this.logger.log(`Ownership transfer ${transferId} rejected by ${reviewedBy}`);
+      await this.auditOwnershipTransferReview(transfer, rejected, reviewedBy);
+      return this.toOwnershipTransferResponse(rejected);
+    }
+
+    await this.pluginsRepository.update(transfer.pluginId, {
+      ownerDeveloperId: transfer.toDeveloperId,
+    });
+    const approved = await this.transfersRepository.updateStatus(
+      transferId,
+      OwnershipRequestStatus.APPROVED,
+      reviewedBy,
+      dto.note || null,
+    );
+
+    this.logger.log(
+      `Plugin ${transfer.pluginId} transferred to ${transfer.toDeveloperId} (approved by ${reviewedBy})`,
+    );
+    await this.auditOwnershipTransferReview(transfer, approved, reviewedBy);
+    return this.toOwnershipTransferResponse(approved);
+  }
+
+  private async auditNamespaceClaimReview(
+    claim: NamespaceClaim,
+    reviewed: NamespaceClaim,
+    reviewedBy: string,
+  ): Promise<void> {
+    await this.auditService.record({
+      actorId: reviewedBy,
+      actorRole: AuditActorRole.ADMIN,
+      action: AuditAction.NAMESPACE_CLAIM_REVIEWED,
+      entityType: AuditEntityType.NAMESPACE_CLAIM,
+      entityId: claim.id,
+      oldStatus: claim.status,
+      newStatus: reviewed.status,
+      reason: reviewed.rejectionReason,
+      metadata: { namespace: claim.namespace, developerId: claim.developerId },
+    });
+  }
+
+  private async auditOwnershipTransferReview(
+    transfer: OwnershipTransfer,
+    reviewed: OwnershipTransfer,
+    reviewedBy: string,
+  ): Promise<void> {
+    await this.auditService.record({
+      actorId: reviewedBy,
+      actorRole: AuditActorRole.ADMIN,
+      action: AuditAction.OWNERSHIP_TRANSFER_REVIEWED,
+      entityType: AuditEntityType.OWNERSHIP_TRANSFER,
+      entityId: transfer.id,
+      oldStatus: transfer.status,
+      newStatus: reviewed.status,
+      reason: reviewed.reviewNote,
+      metadata: {
+        pluginId: transfer.pluginId,
+        fromDeveloperId: transfer.fromDeveloperId,
+        toDeveloperId: transfer.toDeveloperId,
+      },
+    });
+  }
+
+  /**
+   * Strips an optional trailing wildcard ("com.acme.*" -> "com.acme").
+   */
+  private normalizeNamespace(namespace: string): string {
+    return namespace.endsWith('.*') ? namespace.slice(0, -2) : namespace;
+  }
+
+  /**
+   * Returns every dotted prefix of a packageId, longest first
+   * ("com.acme.tools.x" -> ["com.acme.tools.x", "com.acme.tools", "com.acme", "com"]).
+   */
+  private namespacePrefixes(packageId: string): string[] {
+    const segments = packageId.split('.');
+    const prefixes: string[] = [];
+    for (let i = segments.length; i > 0; i--) {
+      prefixes.push(segments.slice(0, i).join('.'));
+    }
+    return prefixes;
+  }
+
+  /**
+   * Finds the most specific approved claim covering a packageId.
+   */
+  private async findGoverningClaim(packageId: string): Promise<NamespaceClaim | null> {
+    const prefixes = this.namespacePrefixes(packageId);
+    const claims = await this.namespaceClaimsRepository.findApprovedByNamespaces(prefixes);
+    if (claims.length === 0) {
+      return null;
+    }
+
+    return claims.reduce((best, c) => (c.namespace.length > best.namespace.length ? c : best));
+  }
+
+  /**
+   * Rejects a namespace that contains, or is contained by, a namespace approved for another account.
+   */
+  private async assertNoConflictingClaim(namespace: string, ownerId: string): Promise<void> {
+    const enclosing = await this.namespaceClaimsRepository.findApprovedByNamespaces(
+      this.namespacePrefixes(namespace),
+    );
+    const nested = await this.namespaceClaimsRepository.findApprovedUnderNamespace(namespace);
+
+    const conflict = [...enclosing, ...nested].find((c) => c.developerId !== ownerId);
+    if (conflict) {
+      throw new NamespaceConflictException(namespace, conflict.namespace);
+    }
+  }
+
+  private async toPublishingOwner(ownerId: string): Promise<PublishingOwner> {
+    const owner = await this.developersRepository.findById(ownerId);
+    if (!owner) {
+      throw new ResourceNotFoundException('Developer', 'id', ownerId);
+    }
+    return { ownerId: owner.id, displayName: owner.displayName, createdAt: owner.createdAt };
+  }
+
+  private async toDeveloperResponse(developer: Developer): Promise<DeveloperResponse> {
+    const organizationIds =
+      developer.type === DeveloperType.INDIVIDUAL
+        ? (await this.developersRepository.findMembershipsByDeveloperId(developer.id)).map(
+            (m) => m.organizationId,
+          )
+        : [];
+
+    return new DeveloperResponse(
+      developer.id,
+      developer.type,
+      developer.displayName,
+      developer.email || null,
+      organizationIds,
+      developer.createdAt,
+    );
+  }
+
+  private toNamespaceClaimResponse(claim: NamespaceClaim): NamespaceClaimResponse {
+    return new NamespaceClaimResponse(
+      claim.id,
+      claim.developerId,
+      claim.namespace,
+      claim.status,
+      claim.requestedBy,
+      claim.reviewedBy || null,
+      claim.reviewedAt || null,
+      claim.rejectionReason || null,
+      claim.createdAt,
+    );
+  }
+
+  private toOwnershipTransferResponse(transfer: OwnershipTransfer): OwnershipTransferResponse {
+    return new OwnershipTransferResponse(
+      transfer.id,
+      transfer.pluginId,
+      transfer.fromDeveloperId || null,
+      transfer.toDeveloperId,
+      transfer.requestedBy,
+      transfer.reason || null,
+      transfer.status,
+      transfer.reviewedBy || null,
+      transfer.reviewedAt || null,
+      transfer.reviewNote || null,
+      transfer.createdAt,
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import { NamespaceClaim } from '../common/entities/developer.entity';
+import { OwnershipRequestStatus } from '../common/enums/developer-account.enum';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for NamespaceClaim entity using Supabase.
+ */
+@Injectable()
+export class NamespaceClaimsRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find a claim by ID.
+   */
+  async findById(id: string): Promise<NamespaceClaim | null> {
+    const { data, error } = await this.supabase
+      .from('namespace_claims')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find all claims with a specific status, oldest first.
+   */
+  async findByStatus(status: OwnershipRequestStatus): Promise<NamespaceClaim[]> {
+    const { data } = await this.supabase
+      .from('namespace_claims')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: true });
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Find all claims held by any of the given accounts.
+   */
+  async findByDeveloperIds(developerIds: string[]): Promise<NamespaceClaim[]> {
+    if (developerIds.length === 0) {
+      return [];
+    }
+
+    const { data } = await this.supabase
+      .from('namespace_claims')
+      .select('*')
+      .in('developer_id', developerIds)
+      .order('created_at', { ascending: false });
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Find approved claims on any of the given namespaces.
+   */
+  async findApprovedByNamespaces(namespaces: string[]): Promise<NamespaceClaim[]> {
+    if (namespaces.length === 0) {
+      return [];
+    }
+
+    const { data } = await this.supabase
+      .from('namespace_claims')
+      .select('*')
+      .eq('status', OwnershipRequestStatus.APPROVED)
+      .in('namespace', namespaces);
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Find approved claims nested under a namespace (e.g. "com.acme.tools" under "com.acme").
+   */
+  async findApprovedUnderNamespace(namespace: string): Promise<NamespaceClaim[]> {
+    const { data } = await this.supabase
+      .from('namespace_claims')
+      .select('*')
+      .eq('status', OwnershipRequestStatus.APPROVED)
+      .like('namespace', `${namespace}.%`);
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Create a new pending claim.
+   */
+  async create(developerId: string, namespace: string, requestedBy: string): Promise<NamespaceClaim> {
+    const { data, error } = await this.supabase
+      .from('namespace_claims')
+      .insert({
+        id: crypto.randomUUID(),
+        developer_id: developerId,
+        namespace,
+        status: OwnershipRequestStatus.PENDING,
+        requested_by: requestedBy,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create namespace claim: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Record an admin decision on a claim.
+   */
+  async updateStatus(
+    id: string,
+    status: OwnershipRequestStatus,
+    reviewedBy: string,
+    rejectionReason: string | null,
+  ): Promise<NamespaceClaim> {
+    const { data, error } = await this.supabase
+      .from('namespace_claims')
+      .update({
+        status,
+        reviewed_by: reviewedBy,
+        reviewed_at: new Date().toISOString(),
+        rejection_reason: rejectionReason,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update namespace claim: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Map database row to NamespaceClaim entity.
+   */
+  private mapToEntity(data: any): NamespaceClaim {
+    return {
+      id: data.id,
+      developerId: data.developer_id,
+      namespace: data.namespace,
+      status: data.status as OwnershipRequestStatus,
+      requestedBy: data.requested_by,
+      reviewedBy: data.reviewed_by,
+      reviewedAt: data.reviewed_at ? new Date(data.reviewed_at) : null,
+      rejectionReason: data.rejection_reason,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
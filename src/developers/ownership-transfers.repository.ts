@@ -0,0 +1,162 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import { OwnershipTransfer } from '../common/entities/developer.entity';
+import { OwnershipRequestStatus } from '../common/enums/developer-account.enum';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for OwnershipTransfer entity using Supabase.
+ */
+@Injectable()
+export class OwnershipTransfersRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find a transfer by ID.
+   */
+  async findById(id: string): Promise<OwnershipTransfer | null> {
+    const { data, error } = await this.supabase
+      .from('plugin_ownership_transfers')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find the pending transfer for a plugin, if any.
+   */
+  async findPendingByPluginId(pluginId: string): Promise<OwnershipTransfer | null> {
+    const { data, error } = await this.supabase
+      .from('plugin_ownership_transfers')
+      .select('*')
+      .eq('plugin_id', pluginId)
+      .eq('status', OwnershipRequestStatus.PENDING)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find all transfers with a specific status, oldest first.
+   */
+  async findByStatus(status: OwnershipRequestStatus): Promise<OwnershipTransfer[]> {
+    const { data } = await this.supabase
+      .from('plugin_ownership_transfers')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: true });
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Find all transfers sent from or to any of the given accounts.
+   */
+  async findByDeveloperIds(developerIds: string[]): Promise<OwnershipTransfer[]> {
+    if (developerIds.length === 0) {
+      return [];
+    }
+
+    const ids = developerIds.join(',');
+    const { data } = await this.supabase
+      .from('plugin_ownership_transfers')
+      .select('*')
+      .or(`from_developer_id.in.(${ids}),to_developer_id.in.(${ids})`)
+      .order('created_at', { ascending: false });
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Create a new pending transfer.
+   */
+  async create(
+    transfer: Pick<OwnershipTransfer, 'pluginId' | 'fromDeveloperId' | 'toDeveloperId' | 'requestedBy' | 'reason'>,
+  ): Promise<OwnershipTransfer> {
+    const { data, error } = await this.supabase
+      .from('plugin_ownership_transfers')
+      .insert({
+        id: crypto.randomUUID(),
+        plugin_id: transfer.pluginId,
+        from_developer_id: transfer.fromDeveloperId || null,
+        to_developer_id: transfer.toDeveloperId,
+        requested_by: transfer.requestedBy,
+        reason: transfer.reason || null,
+        status: OwnershipRequestStatus.PENDING,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create ownership transfer: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Record an admin decision on a transfer.
+   */
+  async updateStatus(
+    id: string,
+    status: OwnershipRequestStatus,
+    reviewedBy: string,
+    reviewNote: string | null,
+  ): Promise<OwnershipTransfer> {
+    const { data, error } = await this.supabase
+      .from('plugin_ownership_transfers')
+      .update({
+        status,
+        reviewed_by: reviewedBy,
+        reviewed_at: new Date().toISOString(),
+        review_note: reviewNote,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update ownership transfer: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Map database row to OwnershipTransfer entity.
+   */
+  private mapToEntity(data: any): OwnershipTransfer {
+    return {
+      id: data.id,
+      pluginId: data.plugin_id,
+      fromDeveloperId: data.from_developer_id,
+      toDeveloperId: data.to_developer_id,
+      requestedBy: data.requested_by,
+      reason: data.reason,
+      status: data.status as OwnershipRequestStatus,
+      reviewedBy: data.reviewed_by,
+      reviewedAt: data.reviewed_at ? new Date(data.reviewed_at) : null,
+      reviewNote: data.review_note,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
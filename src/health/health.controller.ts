@@ -7,12 +7,14 @@ import {
 } from '@nestjs/terminus';
 
 import { DatabaseHealthService } from './database-health.service';
+import { Public } from '../common/guards/public.guard';
 
 /**
  * Health check controller for monitoring application status.
  * Provides endpoints for liveness and readiness probes.
  */
 @ApiTags('Health')
+@Public()
 @Controller('health')
 export class HealthController {
   constructor(
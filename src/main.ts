@@ -6,6 +6,7 @@ import compression from "compression";
 import { AppModule } from "./app.module";
 import { GlobalExceptionFilter } from "./common/interceptors/global-exception.filter";
 import { LoggingInterceptor } from "./common/interceptors/logging.interceptor";
+import { NEXT_CURSOR_HEADER } from "./common/utils/page-cursor.util";
 
 /**
  * Bootstrap the NestJS application.
@@ -42,6 +43,7 @@ async function bootstrap() {
     app.enableCors({
         origin: process.env.CORS_ORIGIN || "*",
         methods: "GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS",
+        exposedHeaders: [NEXT_CURSOR_HEADER],
         credentials: true,
     });
 
@@ -0,0 +1,47 @@
+import { Controller, Get, Param, ParseIntPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam } from '@nestjs/swagger';
+import { ManifestSchemaService } from './manifest-schema.service';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { Public } from '../common/guards/public.guard';
+
+/**
+ * Public API serving the manifest.json JSON Schemas, so developer tooling
+ * can validate manifests locally before uploading.
+ *
+ * Base path: /api/v1/store/manifest-schema
+ */
+@ApiTags('Store')
+@Public()
+@Controller('store/manifest-schema')
+export class ManifestSchemaController {
+  constructor(private readonly manifestSchemaService: ManifestSchemaService) {}
+
+  /**
+   * Returns the JSON Schema for the newest manifest version.
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get latest manifest schema',
+    description: 'Returns the JSON Schema (draft-07) for the newest supported manifestVersion.',
+  })
+  getLatestSchema(): object {
+    return this.getSchema(this.manifestSchemaService.getLatestVersion());
+  }
+
+  /**
+   * Returns the JSON Schema for a specific manifest version.
+   */
+  @Get(':manifestVersion')
+  @ApiOperation({
+    summary: 'Get manifest schema by version',
+    description: 'Returns the JSON Schema (draft-07) for the given manifestVersion.',
+  })
+  @ApiParam({ name: 'manifestVersion', description: 'Manifest schema version (e.g. 1, 2)' })
+  getSchema(@Param('manifestVersion', ParseIntPipe) manifestVersion: number): object {
+    const schema = this.manifestSchemaService.getSchema(manifestVersion);
+    if (!schema) {
+      throw new ResourceNotFoundException('Manifest schema', 'manifestVersion', String(manifestVersion));
+    }
+    return schema;
+  }
+}
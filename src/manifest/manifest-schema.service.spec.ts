@@ -0,0 +1,152 @@
+import { ManifestSchemaService } from './manifest-schema.service';
+import { ManifestValidationException } from '../common/exceptions/manifest-validation.exception';
+
+describe('ManifestSchemaService', () => {
+  let service: ManifestSchemaService;
+
+  const validV2Manifest = {
+    manifestVersion: 2,
+    packageId: 'com.acme.tasks',
+    name: 'Task Manager',
+    version: '1.2.0',
+    minAppVersion: '1.0.0',
+    author: { name: 'Acme', email: 'dev@acme.com' },
+    entryPoint: 'plugin.js',
+    icon: 'icon.png',
+    permissions: ['storage:read', 'network:https://api.acme.com'],
+    capabilities: { transientStorage: true },
+    triggers: { voiceIntents: ['create_task'], screenshotIntents: ['analyze_screenshot'] },
+  };
+
+  beforeEach(() => {
+    service = new ManifestSchemaService();
+  });
+
+  it('should serve every supported schema version', () => {
+    expect(service.getSupportedVersions()).toEqual([1, 2]);
+    expect(service.getLatestVersion()).toBe(2);
+    expect(service.getSchema(1)).toHaveProperty('$id', 'urn:synapse:plugin-manifest:1');
+    expect(service.getSchema(99)).toBeNull();
+  });
+
+  describe('manifestVersion 1', () => {
+    it('should accept legacy manifests without manifestVersion', () => {
+      expect(
+        service.validate({ name: 'Legacy', version: '1.0', author: 'Someone', category: 'misc' }),
+      ).toEqual([]);
+    });
+
+    it('should accept the author object form', () => {
+      expect(
+        service.validate({ name: 'Legacy', version: '1.0.0', author: { name: 'Someone' } }),
+      ).toEqual([]);
+    });
+
+    it('should point at missing fields rather than the manifest root', () => {
+      expect(service.validate({ version: '1.0.0' })).toEqual([
+        { pointer: '/name', message: "missing required field: 'name'", keyword: 'required' },
+      ]);
+    });
+
+    it('should report nested errors with JSON pointers', () => {
+      const errors = service.validate({
+        name: 'Plugin',
+        version: '1.0.0',
+        author: { email: 'dev@acme.com' },
+        permissions: ['storage:read', 42],
+        capabilities: { persistentStorage: 'yes' },
+      });
+
+      expect(errors.map((e) => e.pointer)).toEqual([
+        '/author/name',
+        '/permissions/1',
+        '/capabilities/persistentStorage',
+      ]);
+    });
+  });
+
+  describe('manifestVersion 2', () => {
+    it('should accept a complete manifest', () => {
+      expect(service.validate(validV2Manifest)).toEqual([]);
+    });
+
+    it('should require the stricter v2 fields', () => {
+      const errors = service.validate({ manifestVersion: 2, name: 'Plugin', version: '1.0.0' });
+
+      expect(errors.map((e) => e.pointer)).toEqual([
+        '/packageId',
+        '/minAppVersion',
+        '/author',
+        '/entryPoint',
+      ]);
+    });
+
+    it('should reject unknown fields, string authors and plain-http network permissions', () => {
+      const errors = service.validate({
+        ...validV2Manifest,
+        author: 'Acme',
+        permissions: ['network:http://api.acme.com'],
+        homepage: 'https://acme.com',
+      });
+
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ pointer: '/homepage', keyword: 'additionalProperties' }),
+          expect.objectContaining({ pointer: '/author', keyword: 'type' }),
+          expect.objectContaining({ pointer: '/permissions/0', keyword: 'pattern' }),
+        ]),
+      );
+    });
+  });
+
+  describe('validateSubmission', () => {
+    it('should accept a manifest consistent with the submission', () => {
+      expect(service.validateSubmission(validV2Manifest, 'com.acme.tasks')).toEqual([]);
+    });
+
+    it('should report identifier mismatches and malformed versions together', () => {
+      const errors = service.validateSubmission(
+        { ...validV2Manifest, version: '1.2', minAppVersion: 'latest' },
+        'com.acme.other',
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({ pointer: '/packageId', keyword: 'packageIdMatch' }),
+        expect.objectContaining({ pointer: '/version', keyword: 'semver' }),
+        expect.objectContaining({ pointer: '/minAppVersion', keyword: 'semver' }),
+      ]);
+    });
+
+    it('should accept a manifest without minAppVersion', () => {
+      expect(
+        service.validateSubmission({ name: 'Legacy', version: '1.0.0' }, 'com.acme.legacy'),
+      ).toEqual([]);
+    });
+
+    it('should throw when the manifest disagrees with the submission', () => {
+      expect(() => service.assertValidSubmission(validV2Manifest, 'com.acme.other')).toThrow(
+        "manifest.json /packageId 'com.acme.tasks' does not match the submitted packageId 'com.acme.other'",
+      );
+    });
+  });
+
+  it('should reject unsupported manifest versions', () => {
+    expect(service.validate({ manifestVersion: 7, name: 'Plugin', version: '1.0.0' })).toEqual([
+      expect.objectContaining({ pointer: '/manifestVersion' }),
+    ]);
+  });
+
+  it('should throw a ManifestValidationException listing all errors', () => {
+    expect(() => service.assertValid({ manifestVersion: 2 })).toThrow(ManifestValidationException);
+
+    try {
+      service.assertValid({ manifestVersion: 2 });
+    } catch (error) {
+      expect(error.getResponse()).toMatchObject({
+        message: "manifest.json missing required field: 'packageId' (and 5 more)",
+        manifestVersion: 2,
+      });
+      expect(error.errors).toHaveLength(6);
+    }
+  });
+});
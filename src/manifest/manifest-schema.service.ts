@@ -0,0 +1,201 @@
+import { Injectable, Logger } from '@nestjs/common';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { MANIFEST_SCHEMAS, DEFAULT_MANIFEST_VERSION } from './schemas';
+import { SemVer } from '../common/utils/semver.util';
+import {
+  ManifestValidationError,
+  ManifestValidationException,
+} from '../common/exceptions/manifest-validation.exception';
+
+/**
+ * Service for the versioned manifest.json schemas.
+ *
+ * The schema is chosen by the manifest's `manifestVersion` field (defaulting to 1),
+ * and every violation is reported with a JSON pointer into the manifest.
+ */
+@Injectable()
+export class ManifestSchemaService {
+  private readonly logger = new Logger(ManifestSchemaService.name);
+  private readonly validators = new Map<number, ValidateFunction>();
+
+  constructor() {
+    const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+    for (const [version, schema] of Object.entries(MANIFEST_SCHEMAS)) {
+      this.validators.set(Number(version), ajv.compile(schema));
+    }
+    this.logger.log(`Loaded manifest schemas: v${this.getSupportedVersions().join(', v')}`);
+  }
+
+  /**
+   * Returns the supported manifest versions in ascending order.
+   */
+  getSupportedVersions(): number[] {
+    return [...this.validators.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * Returns the newest manifest version.
+   */
+  getLatestVersion(): number {
+    const versions = this.getSupportedVersions();
+    return versions[versions.length - 1];
+  }
+
+  /**
+   * Returns the JSON Schema document for a manifest version, or null if unsupported.
+   */
+  getSchema(manifestVersion: number): object | null {
+    return MANIFEST_SCHEMAS[manifestVersion] || null;
+  }
+
+  /**
+   * Validates a parsed manifest against the schema for its manifestVersion.
+   *
+   * @returns All errors found; empty when the manifest is valid
+   */
+  validate(manifest: unknown): ManifestValidationError[] {
+    if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+      return [{ pointer: '', message: 'must be a JSON object', keyword: 'type' }];
+    }
+
+    const manifestVersion = this.resolveManifestVersion(manifest as Record<string, any>);
+    const validator = this.validators.get(manifestVersion);
+    if (!validator) {
+      return [
+        {
+          pointer: '/manifestVersion',
+          message: `is not supported; supported versions are ${this.getSupportedVersions().join(', ')}`,
+          keyword: 'enum',
+        },
+      ];
+    }
+
+    if (validator(manifest)) {
+      return [];
+    }
+
+    return (validator.errors || []).map((error) => this.toValidationError(error));
+  }
+
+  /**
+   * Validates a parsed manifest and throws if it is invalid.
+   *
+   * @throws ManifestValidationException listing every error
+   */
+  assertValid(manifest: unknown): void {
+    const errors = this.validate(manifest);
+    if (errors.length > 0) {
+      const declared = (manifest as Record<string, any>)?.manifestVersion;
+      throw new ManifestValidationException(
+        errors,
+        typeof declared === 'number' ? declared : DEFAULT_MANIFEST_VERSION,
+      );
+    }
+  }
+
+  /**
+   * Cross-checks a schema-valid manifest against the submission it arrived with.
+   *
+   * Checks that:
+   * - `packageId`, when declared, matches the submitted packageId
+   * - `version` is a semantic version
+   * - `minAppVersion`, when declared, is a semantic version
+   *
+   * @returns All errors found; empty when the manifest is consistent
+   */
+  validateSubmission(manifest: Record<string, any>, packageId: string): ManifestValidationError[] {
+    const errors: ManifestValidationError[] = [];
+
+    if (manifest.packageId !== undefined && manifest.packageId !== packageId) {
+      errors.push({
+        pointer: '/packageId',
+        message: `'${manifest.packageId}' does not match the submitted packageId '${packageId}'`,
+        keyword: 'packageIdMatch',
+      });
+    }
+
+    if (!this.isSemVer(manifest.version)) {
+      errors.push({
+        pointer: '/version',
+        message: `'${manifest.version}' is not a valid semantic version`,
+        keyword: 'semver',
+      });
+    }
+
+    if (manifest.minAppVersion !== undefined && !this.isSemVer(manifest.minAppVersion)) {
+      errors.push({
+        pointer: '/minAppVersion',
+        message: `'${manifest.minAppVersion}' is not a valid semantic version`,
+        keyword: 'semver',
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Cross-checks a manifest against its submission and throws if they disagree.
+   *
+   * @throws ManifestValidationException listing every error
+   */
+  assertValidSubmission(manifest: Record<string, any>, packageId: string): void {
+    const errors = this.validateSubmission(manifest, packageId);
+    if (errors.length > 0) {
+      throw new ManifestValidationException(errors, this.resolveManifestVersion(manifest));
+    }
+  }
+
+  private isSemVer(value: unknown): boolean {
+    if (typeof value !== 'string') {
+      return false;
+    }
+    try {
+      SemVer.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private resolveManifestVersion(manifest: Record<string, any>): number {
+    return manifest.manifestVersion === undefined ? DEFAULT_MANIFEST_VERSION : manifest.manifestVersion;
+  }
+
+  /**
+   * Converts an Ajv error into a pointer-addressed error. Errors about a missing or
+   * unknown property point at that property rather than its parent object.
+   */
+  private toValidationError(error: ErrorObject): ManifestValidationError {
+    switch (error.keyword) {
+      case 'required': {
+        const field = (error.params as { missingProperty: string }).missingProperty;
+        return {
+          pointer: `${error.instancePath}/${this.escapePointerSegment(field)}`,
+          message: `missing required field: '${field}'`,
+          keyword: error.keyword,
+        };
+      }
+      case 'additionalProperties': {
+        const field = (error.params as { additionalProperty: string }).additionalProperty;
+        return {
+          pointer: `${error.instancePath}/${this.escapePointerSegment(field)}`,
+          message: `unknown field: '${field}'`,
+          keyword: error.keyword,
+        };
+      }
+      default:
+        return {
+          pointer: error.instancePath,
+          message: error.message || 'is invalid',
+          keyword: error.keyword,
+        };
+    }
+  }
+
+  /**
+   * Escapes a property name for use in a JSON pointer (RFC 6901).
+   */
+  private escapePointerSegment(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ManifestSchemaService } from './manifest-schema.service';
+import { ManifestSchemaController } from './manifest-schema.controller';
+
+/**
+ * Manifest module - versioned manifest.json schemas and validation.
+ */
+@Module({
+  controllers: [ManifestSchemaController],
+  providers: [ManifestSchemaService],
+  exports: [ManifestSchemaService],
+})
+export class ManifestModule {}
@@ -0,0 +1,16 @@
+import { MANIFEST_SCHEMA_V1 } from './manifest-v1.schema';
+import { MANIFEST_SCHEMA_V2 } from './manifest-v2.schema';
+
+export { MANIFEST_SCHEMA_V1, MANIFEST_SCHEMA_V2 };
+
+/**
+ * All published manifest schemas, keyed by manifestVersion.
+ * Add new versions here; existing versions must never change once published.
+ */
+export const MANIFEST_SCHEMAS: Record<number, object> = {
+  1: MANIFEST_SCHEMA_V1,
+  2: MANIFEST_SCHEMA_V2,
+};
+
+/** manifestVersion assumed for manifests that do not declare one. */
+export const DEFAULT_MANIFEST_VERSION = 1;
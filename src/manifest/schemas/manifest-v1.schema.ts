@@ -0,0 +1,101 @@
+/**
+ * Manifest schema, version 1.
+ *
+ * The original manifest format. Manifests without a `manifestVersion` field are
+ * validated against this schema, so only `name` and `version` are required and
+ * unknown top-level fields are tolerated.
+ */
+export const MANIFEST_SCHEMA_V1 = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'urn:synapse:plugin-manifest:1',
+  title: 'Synapse plugin manifest (manifestVersion 1)',
+  type: 'object',
+  required: ['name', 'version'],
+  properties: {
+    manifestVersion: {
+      const: 1,
+    },
+    packageId: {
+      type: 'string',
+      pattern: '^[a-z][a-z0-9_]*(\\.[a-z][a-z0-9_]*)+$',
+      maxLength: 255,
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 255,
+    },
+    description: {
+      type: 'string',
+      maxLength: 5000,
+    },
+    version: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 50,
+    },
+    minAppVersion: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 20,
+    },
+    author: {
+      type: ['string', 'object'],
+      minLength: 1,
+      maxLength: 255,
+      required: ['name'],
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 255 },
+        email: { type: 'string', pattern: '^[^\\s@]+@[^\\s@]+$', maxLength: 255 },
+        url: { type: 'string', pattern: '^https?://', maxLength: 500 },
+      },
+      additionalProperties: false,
+    },
+    entryPoint: {
+      type: 'string',
+      pattern: '^[^/\\\\].*\\.js$',
+      maxLength: 255,
+    },
+    icon: {
+      type: 'string',
+      pattern: '^[^/\\\\].*\\.(png|jpg|jpeg|svg)$',
+      maxLength: 255,
+    },
+    permissions: {
+      type: 'array',
+      uniqueItems: true,
+      items: {
+        type: 'string',
+        pattern: '^[a-z][a-z-]*(:\\S+)?$',
+        maxLength: 500,
+      },
+    },
+    capabilities: {
+      type: 'object',
+      properties: {
+        transientStorage: { type: 'boolean' },
+        persistentStorage: { type: 'boolean' },
+      },
+      additionalProperties: { type: 'boolean' },
+    },
+    triggers: {
+      type: 'object',
+      properties: {
+        voiceIntents: { $ref: '#/definitions/intentList' },
+        screenshotIntents: { $ref: '#/definitions/intentList' },
+      },
+      additionalProperties: false,
+    },
+  },
+  definitions: {
+    intentList: {
+      type: 'array',
+      uniqueItems: true,
+      items: {
+        type: 'string',
+        pattern: '^[a-z][a-z0-9_]*$',
+        maxLength: 100,
+      },
+    },
+  },
+} as const;
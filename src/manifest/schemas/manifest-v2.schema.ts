@@ -0,0 +1,104 @@
+/**
+ * Manifest schema, version 2.
+ *
+ * Differences from version 1:
+ * - `manifestVersion`, `packageId`, `minAppVersion`, `author` and `entryPoint` are required
+ * - `version` and `minAppVersion` must be semantic versions
+ * - `author` must use the object form
+ * - permissions are restricted to known families, and network permissions must use https
+ * - unknown top-level fields are rejected
+ */
+export const MANIFEST_SCHEMA_V2 = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'urn:synapse:plugin-manifest:2',
+  title: 'Synapse plugin manifest (manifestVersion 2)',
+  type: 'object',
+  required: ['manifestVersion', 'packageId', 'name', 'version', 'minAppVersion', 'author', 'entryPoint'],
+  properties: {
+    manifestVersion: {
+      const: 2,
+    },
+    packageId: {
+      type: 'string',
+      pattern: '^[a-z][a-z0-9_]*(\\.[a-z][a-z0-9_]*)+$',
+      maxLength: 255,
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 255,
+    },
+    description: {
+      type: 'string',
+      maxLength: 5000,
+    },
+    version: {
+      $ref: '#/definitions/semver',
+    },
+    minAppVersion: {
+      $ref: '#/definitions/semver',
+    },
+    author: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 255 },
+        email: { type: 'string', pattern: '^[^\\s@]+@[^\\s@]+$', maxLength: 255 },
+        url: { type: 'string', pattern: '^https://', maxLength: 500 },
+      },
+      additionalProperties: false,
+    },
+    entryPoint: {
+      type: 'string',
+      pattern: '^[^/\\\\].*\\.js$',
+      maxLength: 255,
+    },
+    icon: {
+      type: 'string',
+      pattern: '^[^/\\\\].*\\.(png|jpg|jpeg|svg)$',
+      maxLength: 255,
+    },
+    permissions: {
+      type: 'array',
+      uniqueItems: true,
+      items: {
+        type: 'string',
+        pattern: '^(storage:(read|write)|network:https://[^\\s/]+(/\\S*)?|clipboard:(read|write)|notifications)$',
+        maxLength: 500,
+      },
+    },
+    capabilities: {
+      type: 'object',
+      properties: {
+        transientStorage: { type: 'boolean' },
+        persistentStorage: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    triggers: {
+      type: 'object',
+      properties: {
+        voiceIntents: { $ref: '#/definitions/intentList' },
+        screenshotIntents: { $ref: '#/definitions/intentList' },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+  definitions: {
+    semver: {
+      type: 'string',
+      pattern: '^(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)(-[0-9A-Za-z-]+(\\.[0-9A-Za-z-]+)*)?(\\+[0-9A-Za-z-]+(\\.[0-9A-Za-z-]+)*)?$',
+      maxLength: 50,
+    },
+    intentList: {
+      type: 'array',
+      uniqueItems: true,
+      items: {
+        type: 'string',
+        pattern: '^[a-z][a-z0-9_]*$',
+        maxLength: 100,
+      },
+    },
+  },
+} as const;
@@ -18,6 +18,7 @@ import {
 import { Response } from 'express';
 import { Logger } from '@nestjs/common';
 import { isProviderSupported } from './oauth-provider.enum';
+import { Public } from '../common/guards/public.guard';
 
 /**
  * OAuth Callback Controller
@@ -26,6 +27,7 @@ import { isProviderSupported } from './oauth-provider.enum';
  * This is a stateless passthrough - no tokens are stored.
  */
 @ApiTags('OAuth Callback')
+@Public()
 @Controller('oauth/callback')
 export class OAuthCallbackController {
     private readonly logger = new Logger(OAuthCallbackController.name);
@@ -191,7 +191,7 @@ export class OAuthClientsRepository {
         const { data } = await this.supabase
             .from("plugin_oauth_clients")
             .select("*")
-            .eq("created_by", createdBy)
+            .eq("owner_developer_id", createdBy)
             .order("created_at", { ascending: false });
 
         return (data || []).map((item) => this.mapToEntity(item));
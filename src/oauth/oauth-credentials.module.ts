@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { OAuthModule } from './oauth.module';
+import { OAuthCredentialsController } from './oauth.controller';
+import { DevelopersModule } from '../developers/developers.module';
+
+/**
+ * OAuth credentials management for developers.
+ *
+ * Kept apart from OAuthModule, which PluginsModule imports, because checking
+ * plugin ownership needs DevelopersModule, which imports PluginsModule.
+ */
+@Module({
+  imports: [OAuthModule, DevelopersModule],
+  controllers: [OAuthCredentialsController],
+})
+export class OAuthCredentialsModule {}
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { OAuthCredentialsController } from './oauth.controller';
+import { OAuthClientsRepository } from './oauth-clients.repository';
+import { OAuthRedirectService } from './oauth-redirect.service';
+import { OAuthProvider } from './oauth-provider.enum';
+import { VaultService } from '../vault/vault.service';
+import { AuditService } from '../audit/audit.service';
+import { DevelopersService } from '../developers/developers.service';
+import { Role } from '../common/enums/role.enum';
+import { AuthenticatedUser } from '../auth';
+
+describe('OAuthCredentialsController', () => {
+  let controller: OAuthCredentialsController;
+  let oauthClientsRepository: jest.Mocked<OAuthClientsRepository>;
+  let developersService: jest.Mocked<DevelopersService>;
+
+  const user: AuthenticatedUser = {
+    id: 'user-1',
+    roles: [Role.DEVELOPER],
+    claims: {},
+  };
+
+  const body = {
+    package_id: 'com.acme.tasks',
+    provider: OAuthProvider.GOOGLE,
+    client_id: 'client-1',
+    client_secret: 'secret',
+    scopes: ['openid'],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OAuthCredentialsController],
+      providers: [
+        {
+          provide: OAuthClientsRepository,
+          useValue: {
+            create: jest.fn().mockResolvedValue({
+              id: 'oauth-1',
+              package_id: body.package_id,
+              provider: body.provider,
+              clientId: body.client_id,
+              scopes: body.scopes,
+              isActive: true,
+              createdAt: new Date('2024-01-01'),
+            }),
+          },
+        },
+        { provide: VaultService, useValue: {} },
+        { provide: OAuthRedirectService, useValue: {} },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: DevelopersService, useValue: { assertOwnsPackage: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get(OAuthCredentialsController);
+    oauthClientsRepository = module.get(OAuthClientsRepository);
+    developersService = module.get(DevelopersService);
+  });
+
+  describe('submitCredentials', () => {
+    it('should store credentials for an owned plugin without returning the secret', async () => {
+      const result = await controller.submitCredentials(body, user);
+
+      expect(developersService.assertOwnsPackage).toHaveBeenCalledWith(user, 'com.acme.tasks');
+      expect(oauthClientsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ package_id: 'com.acme.tasks', createdBy: 'user-1' }),
+      );
+      expect(result).not.toHaveProperty('client_secret');
+    });
+
+    it('should not store credentials for a plugin the caller does not own', async () => {
+      developersService.assertOwnsPackage.mockRejectedValue(
+        new ForbiddenException("You do not own 'com.acme.tasks'"),
+      );
+
+      await expect(controller.submitCredentials(body, user)).rejects.toThrow(ForbiddenException);
+      expect(oauthClientsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
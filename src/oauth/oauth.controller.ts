@@ -9,6 +9,7 @@ import {
     Body,
     HttpCode,
     HttpStatus,
+    ForbiddenException,
 } from "@nestjs/common";
 import {
     ApiTags,
@@ -16,49 +17,65 @@ import {
     ApiParam,
     ApiQuery,
     ApiResponse,
+    ApiBearerAuth,
 } from "@nestjs/swagger";
 import { OAuthClientsRepository } from "./oauth-clients.repository";
 import { VaultService } from "../vault/vault.service";
 import { OAuthRedirectService } from "./oauth-redirect.service";
 import { OAuthProvider } from "./oauth-provider.enum";
+import { AuditService } from "../audit/audit.service";
+import { DevelopersService } from "../developers/developers.service";
 import { ResourceNotFoundException } from "../common/exceptions/resource-not-found.exception";
+import { Role } from "../common/enums/role.enum";
+import { AuditAction, AuditActorRole, AuditEntityType } from "../common/enums/audit.enum";
+import { Roles, CurrentUser, AuthenticatedUser } from "../auth";
 
 /**
  * OAuth Credentials Vault Controller
  *
  * Manages OAuth client credentials for plugins.
  * The Synapse host app fetches these credentials to run its own OAuth flow.
+ *
+ * Developers manage their own credentials (ownership is taken from the token);
+ * only callers with the 'host-app' role can fetch decrypted secrets.
  */
 @ApiTags("OAuth Credentials Vault")
+@ApiBearerAuth()
 @Controller("oauth/credentials")
 export class OAuthCredentialsController {
     constructor(
         private readonly oauthClientsRepository: OAuthClientsRepository,
         private readonly vaultService: VaultService,
         private readonly oauthRedirectService: OAuthRedirectService,
+        private readonly auditService: AuditService,
+        private readonly developersService: DevelopersService,
     ) { }
 
     /**
      * Submit OAuth credentials for a plugin.
      *
-     * Developers submit their OAuth client credentials through this endpoint.
+     * Developers submit their OAuth client credentials through this endpoint
+     * for plugins they or one of their organizations own.
      * Secrets are encrypted before storage.
      */
     @ApiOperation({
         summary: "Submit OAuth credentials for a plugin",
         description: `Register OAuth client credentials (client_id, client_secret) for a plugin
-                 to authenticate with a specific provider. Secrets are encrypted at rest.`,
+                 to authenticate with a specific provider. The caller must own the plugin.
+                 Secrets are encrypted at rest.`,
     })
     @ApiResponse({
         status: 201,
         description: "OAuth credentials stored successfully",
     })
     @ApiResponse({ status: 400, description: "Invalid request" })
+    @ApiResponse({ status: 403, description: "The caller does not own the plugin" })
     @ApiResponse({
         status: 409,
         description: "Credentials already exist for this plugin/provider",
     })
     @Post()
+    @Roles(Role.DEVELOPER)
     @HttpCode(HttpStatus.CREATED)
     async submitCredentials(
         @Body()
@@ -68,19 +85,26 @@ export class OAuthCredentialsController {
             client_id: string;
             client_secret: string;
             scopes?: string[];
-            owner_developer_id: string;
             metadata?: Record<string, unknown>;
         },
+        @CurrentUser() user: AuthenticatedUser,
     ) {
+        await this.developersService.assertOwnsPackage(user, body.package_id);
+
         const result = await this.oauthClientsRepository.create({
             package_id: body.package_id,
             provider: body.provider,
             clientId: body.client_id,
             clientSecret: body.client_secret,
             scopes: body.scopes || [],
-            createdBy: body.owner_developer_id,
+            createdBy: user.id,
             extras: body.metadata || {},
         });
+        await this.audit(AuditAction.OAUTH_CLIENT_CREATED, result.id, user, {
+            package_id: result.package_id,
+            provider: result.provider,
+            scopes: result.scopes,
+        });
 
         // Return without the secret
         return {
@@ -136,10 +160,21 @@ export class OAuthCredentialsController {
      */
     @ApiOperation({
         summary: "Get OAuth credentials by developer",
-        description: "Retrieve all OAuth credentials submitted by a developer.",
+        description:
+            "Retrieve all OAuth credentials submitted by a developer. Developers may only list their own credentials.",
     })
     @Get("developer/:developerId")
-    async listByDeveloper(@Param("developerId") developerId: string) {
+    @Roles(Role.DEVELOPER, Role.ADMIN)
+    async listByDeveloper(
+        @Param("developerId") developerId: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        if (developerId !== user.id && !user.roles.includes(Role.ADMIN)) {
+            throw new ForbiddenException(
+                "Developers may only list their own OAuth credentials",
+            );
+        }
+
         const credentials =
             await this.oauthClientsRepository.findByCreatedBy(developerId);
         return {
@@ -162,7 +197,7 @@ export class OAuthCredentialsController {
      *
      * This endpoint is called by the Synapse host app to retrieve
      * decrypted credentials before initiating the OAuth flow.
-     * Requires proper internal service authorization.
+     * Requires a token carrying the 'host-app' role.
      */
     @ApiOperation({
         summary: "Fetch credentials for OAuth (internal)",
@@ -182,6 +217,7 @@ export class OAuthCredentialsController {
     @ApiResponse({ status: 404, description: "Credentials not found" })
     @ApiResponse({ status: 410, description: "Credentials are disabled" })
     @Get(":package_id/:provider")
+    @Roles(Role.HOST_APP)
     async fetchForOAuth(
         @Param("package_id") package_id: string,
         @Param("provider") provider: OAuthProvider,
@@ -222,6 +258,7 @@ export class OAuthCredentialsController {
         description: "Credentials updated successfully",
     })
     @Put(":id")
+    @Roles(Role.DEVELOPER)
     async update(
         @Param("id") id: string,
         @Body()
@@ -232,7 +269,10 @@ export class OAuthCredentialsController {
             metadata?: Record<string, unknown>;
             is_active?: boolean;
         },
+        @CurrentUser() user: AuthenticatedUser,
     ) {
+        await this.assertOwnership(id, user);
+
         const updated = await this.oauthClientsRepository.update(id, {
             clientId: body.client_id,
             clientSecret: body.client_secret,
@@ -240,6 +280,12 @@ export class OAuthCredentialsController {
             isActive: body.is_active,
             extras: body.metadata,
         });
+        // Only which fields changed; the client secret never reaches the audit log
+        await this.audit(AuditAction.OAUTH_CLIENT_UPDATED, id, user, {
+            package_id: updated.package_id,
+            provider: updated.provider,
+            fields: Object.keys(body),
+        });
 
         return {
             id: updated.id,
@@ -266,8 +312,53 @@ export class OAuthCredentialsController {
         description: "Credentials disabled successfully",
     })
     @Delete(":id")
+    @Roles(Role.DEVELOPER)
     @HttpCode(HttpStatus.NO_CONTENT)
-    async disable(@Param("id") id: string): Promise<void> {
+    async disable(
+        @Param("id") id: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ): Promise<void> {
+        await this.assertOwnership(id, user);
         await this.oauthClientsRepository.deactivate(id);
+        await this.audit(AuditAction.OAUTH_CLIENT_DISABLED, id, user);
+    }
+
+    /**
+     * Record a change to a credential record in the audit log.
+     */
+    private async audit(
+        action: AuditAction,
+        id: string,
+        user: AuthenticatedUser,
+        metadata: Record<string, unknown> | null = null,
+    ): Promise<void> {
+        await this.auditService.record({
+            actorId: user.id,
+            actorRole: AuditActorRole.DEVELOPER,
+            action,
+            entityType: AuditEntityType.OAUTH_CLIENT,
+            entityId: id,
+            metadata,
+        });
+    }
+
+    /**
+     * Ensure the caller owns the credential record.
+     */
+    private async assertOwnership(
+        id: string,
+        user: AuthenticatedUser,
+    ): Promise<void> {
+        const existing = await this.oauthClientsRepository.findById(id);
+
+        if (!existing) {
+            throw new ResourceNotFoundException("OAuth client", "id", id);
+        }
+
+        if (existing.createdBy !== user.id) {
+            throw new ForbiddenException(
+                "You do not own these OAuth credentials",
+            );
+        }
     }
 }
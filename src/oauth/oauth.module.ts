@@ -1,7 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { VaultModule } from '../vault/vault.module';
-import { OAuthCredentialsController } from './oauth.controller';
 import { OAuthCallbackController } from './oauth-callback.controller';
 import { OAuthClientsRepository } from './oauth-clients.repository';
 import { OAuthRedirectService } from './oauth-redirect.service';
@@ -14,7 +13,7 @@ import { OAuthRedirectService } from './oauth-redirect.service';
  */
 @Module({
   imports: [ConfigModule, VaultModule],
-  controllers: [OAuthCredentialsController, OAuthCallbackController],
+  controllers: [OAuthCallbackController],
   providers: [OAuthClientsRepository, OAuthRedirectService],
   exports: [OAuthClientsRepository, OAuthRedirectService],
 })
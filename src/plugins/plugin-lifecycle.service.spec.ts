@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PluginLifecycleService } from './plugin-lifecycle.service';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { derivePluginState } from './plugin-lifecycle';
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { VersionStatus } from '../common/enums/version-status.enum';
+import { InvalidTransitionException } from '../common/exceptions';
+import { Plugin } from '../common/entities/plugin.entity';
+import { PluginVersion } from '../common/entities/plugin-version.entity';
+
+describe('PluginLifecycleService', () => {
+  let service: PluginLifecycleService;
+  let pluginsRepository: { findById: jest.Mock; update: jest.Mock };
+  let versionsRepository: { findByPluginIdOrderByCreatedAtDesc: jest.Mock; update: jest.Mock };
+
+  const plugin: Plugin = {
+    id: 'plugin-1',
+    packageId: 'com.acme.tasks',
+    name: 'Tasks',
+    author: 'Acme Inc.',
+    status: PluginStatus.PENDING_REVIEW,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const version = (
+    id: string,
+    status: VersionStatus,
+    createdAt = '2024-01-01',
+    number = '1.0.0',
+  ): PluginVersion => ({
+    id,
+    pluginId: 'plugin-1',
+    version: number,
+    manifest: {},
+    minAppVersion: '1.0.0',
+    status,
+    createdAt: new Date(createdAt),
+    downloadCount: 0,
+    isFlagged: false,
+    files: [],
+    signatures: [],
+    scanFindings: [],
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PluginLifecycleService,
+        {
+          provide: PluginsRepository,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(plugin),
+            update: jest.fn(async (id: string, dto: Partial<Plugin>) => ({ ...plugin, ...dto })),
+          },
+        },
+        {
+          provide: PluginVersionsRepository,
+          useValue: {
+            findByPluginIdOrderByCreatedAtDesc: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PluginLifecycleService>(PluginLifecycleService);
+    pluginsRepository = module.get(PluginsRepository);
+    versionsRepository = module.get(PluginVersionsRepository);
+  });
+
+  describe('transitionVersion', () => {
+    it('should publish the version and then the plugin', async () => {
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        version('version-1', VersionStatus.PUBLISHED),
+      ]);
+
+      await service.transitionVersion(
+        version('version-1', VersionStatus.PENDING_REVIEW),
+        VersionStatus.PUBLISHED,
+        'admin-1',
+      );
+
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', { status: VersionStatus.PUBLISHED });
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.PUBLISHED,
+        latestVersionId: 'version-1',
+      });
+    });
+
+    it('should refuse a transition the lifecycle does not allow, with its details', async () => {
+      const rejected = version('version-1', VersionStatus.REJECTED);
+
+      const error = await service.transitionVersion(rejected, VersionStatus.PUBLISHED, 'admin-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidTransitionException);
+      expect(error.getResponse()).toMatchObject({
+        entity: 'version',
+        id: 'version-1',
+        from: VersionStatus.REJECTED,
+        to: VersionStatus.PUBLISHED,
+      });
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep an unpublished plugin off the store', async () => {
+      pluginsRepository.findById.mockResolvedValue({ ...plugin, status: PluginStatus.UNPUBLISHED });
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        version('version-1', VersionStatus.PUBLISHED),
+      ]);
+
+      await service.transitionVersion(
+        version('version-1', VersionStatus.PENDING_REVIEW),
+        VersionStatus.PUBLISHED,
+        'admin-1',
+      );
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', { latestVersionId: 'version-1' });
+    });
+  });
+
+  describe('derivePluginState', () => {
+    it('should pick the newest installable version as latest', () => {
+      const state = derivePluginState(plugin, [
+        version('version-3', VersionStatus.PENDING_REVIEW, '2024-03-01'),
+        version('version-2', VersionStatus.YANKED, '2024-02-01'),
+        version('version-1', VersionStatus.DEPRECATED, '2024-01-01'),
+      ]);
+
+      expect(state).toEqual({ status: PluginStatus.PUBLISHED, latestVersionId: 'version-1' });
+    });
+
+    it('should pick the highest installable version, not the most recently created', () => {
+      const state = derivePluginState(plugin, [
+        version('version-3', VersionStatus.PUBLISHED, '2024-03-01', '1.4.1'),
+        version('version-2', VersionStatus.PUBLISHED, '2024-02-01', '2.0.0'),
+        version('version-1', VersionStatus.DEPRECATED, '2024-01-01', '1.4.0'),
+      ]);
+
+      expect(state).toEqual({ status: PluginStatus.PUBLISHED, latestVersionId: 'version-2' });
+    });
+
+    it('should hold a relisted plugin for review until its new version is decided', () => {
+      const relisted = { ...plugin, unpublishedAt: new Date('2024-02-01') };
+
+      const state = derivePluginState(relisted, [
+        version('version-2', VersionStatus.SUBMITTED, '2024-03-01'),
+        version('version-1', VersionStatus.PUBLISHED, '2024-01-01'),
+      ]);
+
+      expect(state).toEqual({ status: PluginStatus.PENDING_REVIEW, latestVersionId: 'version-1' });
+    });
+
+    it('should reject a plugin none of whose versions can be installed or reviewed', () => {
+      const state = derivePluginState(plugin, [
+        version('version-2', VersionStatus.FLAGGED),
+        version('version-1', VersionStatus.REJECTED),
+      ]);
+
+      expect(state).toEqual({ status: PluginStatus.REJECTED, latestVersionId: null });
+    });
+  });
+});
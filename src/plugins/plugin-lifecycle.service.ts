@@ -0,0 +1,108 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { assertPluginTransition, assertVersionTransition, derivePluginState } from './plugin-lifecycle';
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { VersionStatus } from '../common/enums/version-status.enum';
+import { Plugin, UpdatePluginDto } from '../common/entities/plugin.entity';
+import { PluginVersion } from '../common/entities/plugin-version.entity';
+
+/**
+ * Makes every plugin and version status change.
+ *
+ * Changes are checked against the lifecycle in plugin-lifecycle.ts before
+ * they are stored. After a version changes status, the
+ * plugin's status and latest version are recomputed from all its versions,
+ * so a plugin is never left pointing at a version that is no longer
+ * installable.
+ */
+@Injectable()
+export class PluginLifecycleService {
+  private readonly logger = new Logger(PluginLifecycleService.name);
+
+  constructor(
+    private readonly pluginsRepository: PluginsRepository,
+    private readonly versionsRepository: PluginVersionsRepository,
+  ) {}
+
+  /**
+   * Moves a version to another status, storing `changes` with it, then
+   * recomputes its plugin.
+   *
+   * @throws InvalidTransitionException if the version cannot move to `to`
+   */
+  async transitionVersion(
+    version: PluginVersion,
+    to: VersionStatus,
+    actorId: string | null,
+    changes: Partial<PluginVersion> = {},
+  ): Promise<{ version: PluginVersion; plugin: Plugin | null }> {
+    assertVersionTransition(version, to);
+
+    const updated = await this.versionsRepository.update(version.id, { ...changes, status: to });
+    this.logger.debug(`Version ${version.id} moved from ${version.status} to ${to} (actor: ${actorId ?? 'system'})`);
+
+    const plugin = await this.syncPlugin(version.pluginId, actorId);
+    return { version: updated, plugin };
+  }
+
+  /**
+   * Moves a plugin to another status, storing `changes` with it.
+   *
+   * @throws InvalidTransitionException if the plugin cannot move to `to`
+   */
+  async transitionPlugin(
+    plugin: Plugin,
+    to: PluginStatus,
+    actorId: string | null,
+    changes: UpdatePluginDto = {},
+  ): Promise<Plugin> {
+    assertPluginTransition(plugin, to);
+
+    const updated = await this.pluginsRepository.update(plugin.id, { ...changes, status: to });
+    this.logPluginTransition(plugin, to, actorId);
+    return updated;
+  }
+
+  /**
+   * Recomputes a plugin's status and latest version from its versions (see
+   * derivePluginState()). Unpublished and deleted plugins keep their status
+   * until they are relisted or restored, but their latest version is kept
+   * current. Nothing is stored when nothing changed.
+   *
+   * @returns The plugin as stored, or null if it does not exist
+   */
+  async syncPlugin(pluginId: string, actorId: string | null): Promise<Plugin | null> {
+    const plugin = await this.pluginsRepository.findById(pluginId);
+    if (!plugin) {
+      return null;
+    }
+
+    const versions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(pluginId);
+    const derived = derivePluginState(plugin, versions);
+    const status =
+      plugin.isDeleted || plugin.status === PluginStatus.UNPUBLISHED ? plugin.status : derived.status;
+    const statusChanged = status !== plugin.status;
+    if (!statusChanged && derived.latestVersionId === (plugin.latestVersionId ?? null)) {
+      return plugin;
+    }
+    if (statusChanged) {
+      assertPluginTransition(plugin, status);
+    }
+
+    const updated = await this.pluginsRepository.update(plugin.id, {
+      status: statusChanged ? status : undefined,
+      latestVersionId: derived.latestVersionId,
+      // A plugin relisted while a new version awaited review is listed once it is published
+      unpublishedAt: statusChanged && status === PluginStatus.PUBLISHED && plugin.unpublishedAt ? null : undefined,
+    });
+    if (statusChanged) {
+      this.logPluginTransition(plugin, status, actorId);
+    }
+    return updated;
+  }
+
+  private logPluginTransition(plugin: Plugin, to: PluginStatus, actorId: string | null): void {
+    this.logger.debug(`Plugin ${plugin.packageId} moved from ${plugin.status} to ${to} (actor: ${actorId ?? 'system'})`);
+  }
+}
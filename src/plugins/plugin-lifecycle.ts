@@ -0,0 +1,166 @@
+/**
+ * The plugin and version status lifecycles: which statuses each status can
+ * move to, and the plugin status its versions imply. PluginLifecycleService
+ * applies these rules to every status change.
+ */
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import {
+  VersionStatus,
+  AWAITING_REVIEW_VERSION_STATUSES,
+  INSTALLABLE_VERSION_STATUSES,
+} from '../common/enums/version-status.enum';
+import { InvalidTransitionException } from '../common/exceptions';
+import { Plugin } from '../common/entities/plugin.entity';
+import { PluginVersion } from '../common/entities/plugin-version.entity';
+import { SemVer } from '../common/utils/semver.util';
+
+/** Statuses a plugin can move to from each status. */
+export const PLUGIN_TRANSITIONS: Readonly<Record<PluginStatus, readonly PluginStatus[]>> = {
+  [PluginStatus.SUBMITTED]: [
+    PluginStatus.PENDING_REVIEW,
+    PluginStatus.PUBLISHED,
+    PluginStatus.REJECTED,
+    PluginStatus.DELETED,
+  ],
+  [PluginStatus.PENDING_REVIEW]: [PluginStatus.PUBLISHED, PluginStatus.REJECTED, PluginStatus.DELETED],
+  [PluginStatus.PUBLISHED]: [
+    PluginStatus.PENDING_REVIEW,
+    PluginStatus.REJECTED,
+    PluginStatus.UNPUBLISHED,
+    PluginStatus.DELETED,
+  ],
+  [PluginStatus.REJECTED]: [PluginStatus.PENDING_REVIEW, PluginStatus.PUBLISHED, PluginStatus.DELETED],
+  [PluginStatus.UNPUBLISHED]: [PluginStatus.PUBLISHED, PluginStatus.PENDING_REVIEW, PluginStatus.DELETED],
+  // Restoring returns a plugin to the status it had before deletion
+  [PluginStatus.DELETED]: [
+    PluginStatus.SUBMITTED,
+    PluginStatus.PENDING_REVIEW,
+    PluginStatus.PUBLISHED,
+    PluginStatus.REJECTED,
+    PluginStatus.UNPUBLISHED,
+  ],
+};
+
+/**
+ * Statuses a version can move to from each status. Any version not yet flagged
+ * can be flagged.
+ */
+export const VERSION_TRANSITIONS: Readonly<Record<VersionStatus, readonly VersionStatus[]>> = {
+  [VersionStatus.SUBMITTED]: [
+    VersionStatus.PENDING_REVIEW,
+    VersionStatus.PUBLISHED,
+    VersionStatus.REJECTED,
+    VersionStatus.CHANGES_REQUESTED,
+    VersionStatus.FLAGGED,
+  ],
+  [VersionStatus.PENDING_REVIEW]: [
+    VersionStatus.PUBLISHED,
+    VersionStatus.REJECTED,
+    VersionStatus.CHANGES_REQUESTED,
+    VersionStatus.FLAGGED,
+  ],
+  [VersionStatus.PUBLISHED]: [VersionStatus.DEPRECATED, VersionStatus.YANKED, VersionStatus.FLAGGED],
+  [VersionStatus.DEPRECATED]: [VersionStatus.YANKED, VersionStatus.FLAGGED],
+  // Changes are made in a new version, never by re-reviewing a decided one
+  [VersionStatus.REJECTED]: [VersionStatus.FLAGGED],
+  [VersionStatus.CHANGES_REQUESTED]: [VersionStatus.FLAGGED],
+  [VersionStatus.YANKED]: [VersionStatus.FLAGGED],
+  // Unflagging returns a version to the status it had before it was flagged
+  [VersionStatus.FLAGGED]: [
+    VersionStatus.SUBMITTED,
+    VersionStatus.PENDING_REVIEW,
+    VersionStatus.PUBLISHED,
+    VersionStatus.DEPRECATED,
+    VersionStatus.REJECTED,
+    VersionStatus.CHANGES_REQUESTED,
+    VersionStatus.YANKED,
+  ],
+};
+
+/**
+ * Whether a plugin can move from one status to another.
+ */
+export function canTransitionPlugin(from: PluginStatus, to: PluginStatus): boolean {
+  return PLUGIN_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether a version can move from one status to another.
+ */
+export function canTransitionVersion(from: VersionStatus, to: VersionStatus): boolean {
+  return VERSION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * @throws InvalidTransitionException if the plugin cannot move to `to`
+ */
+export function assertPluginTransition(plugin: Plugin, to: PluginStatus): void {
+  if (!canTransitionPlugin(plugin.status, to)) {
+    throw new InvalidTransitionException(`Plugin ${plugin.packageId} cannot move from ${plugin.status} to ${to}`, {
+      entity: 'plugin',
+      id: plugin.id,
+      from: plugin.status,
+      to,
+    });
+  }
+}
+
+/**
+ * @throws InvalidTransitionException if the version cannot move to `to`
+ */
+export function assertVersionTransition(version: PluginVersion, to: VersionStatus): void {
+  if (!canTransitionVersion(version.status, to)) {
+    throw new InvalidTransitionException(`Version ${version.version} cannot move from ${version.status} to ${to}`, {
+      entity: 'version',
+      id: version.id,
+      from: version.status,
+      to,
+    });
+  }
+}
+
+/**
+ * The plugin status and latest version its versions imply, ignoring whether
+ * it is unpublished or deleted:
+ *
+ * - PUBLISHED with the highest installable version (by semantic version,
+ *   the newest of equal ones) as latest, unless the
+ *   plugin was relisted while versions submitted after it was unpublished
+ *   still await review;
+ * - otherwise PENDING_REVIEW while a version awaits review or changes;
+ * - otherwise REJECTED (every version rejected, flagged or yanked);
+ * - a plugin without versions keeps its status.
+ *
+ * @param versions The plugin's versions, newest first
+ */
+export function derivePluginState(
+  plugin: Plugin,
+  versions: PluginVersion[],
+): { status: PluginStatus; latestVersionId: string | null } {
+  const latest = versions
+    .filter((v) => INSTALLABLE_VERSION_STATUSES.includes(v.status))
+    .reduce<PluginVersion | undefined>(
+      (best, v) => (!best || SemVer.parse(v.version).compareTo(SemVer.parse(best.version)) > 0 ? v : best),
+      undefined,
+    );
+  const awaitingReview = versions.filter((v) => AWAITING_REVIEW_VERSION_STATUSES.includes(v.status));
+  const unpublishedAt = plugin.unpublishedAt?.getTime();
+  const heldForReview =
+    unpublishedAt !== undefined && awaitingReview.some((v) => v.createdAt.getTime() > unpublishedAt);
+
+  let status: PluginStatus;
+  if (latest && !heldForReview) {
+    status = PluginStatus.PUBLISHED;
+  } else if (
+    heldForReview ||
+    awaitingReview.length > 0 ||
+    versions.some((v) => v.status === VersionStatus.CHANGES_REQUESTED)
+  ) {
+    status = PluginStatus.PENDING_REVIEW;
+  } else if (versions.length > 0) {
+    status = PluginStatus.REJECTED;
+  } else {
+    status = plugin.status;
+  }
+  return { status, latestVersionId: latest?.id ?? null };
+}
@@ -0,0 +1,61 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PluginsService } from './plugins.service';
+
+/**
+ * Runs the purge of deleted plugins whose retention window has ended, every
+ * `purgeIntervalMinutes` (see the `retention` config). Runs never overlap;
+ * a run that is still going when the next is due makes that one a no-op.
+ */
+@Injectable()
+export class PluginRetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PluginRetentionService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly pluginsService: PluginsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalMinutes: number = this.configService.get('retention').purgeIntervalMinutes;
+    if (intervalMinutes <= 0) {
+      this.logger.log('Purging of deleted plugins is disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.purge(), intervalMinutes * 60 * 1000);
+    // The schedule alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Purges the deleted plugins past retention, unless a purge is already running.
+   * Failures are logged, never thrown.
+   */
+  async purge(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const purged = await this.pluginsService.purgeExpiredPlugins();
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} deleted plugins past retention`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to purge deleted plugins: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
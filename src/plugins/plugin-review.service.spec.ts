@@ -0,0 +1,970 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PluginReviewService } from './plugin-review.service';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { StorageService } from '../storage/storage.service';
+import { StoreSigner } from '../signing/store-signer.service';
+import { PluginDryRunner } from '../sandbox/plugin-dry-runner.service';
+import { BlocklistService } from '../blocklist/blocklist.service';
+import { RiskScorer } from '../risk/risk-scorer.service';
+import { OAuthClientsRepository } from '../oauth/oauth-clients.repository';
+import { ReviewCommentsRepository } from './review-comments.repository';
+import { ReviewPolicy } from './review-policy.service';
+import { PluginLifecycleService } from './plugin-lifecycle.service';
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { ReviewDecision, VersionStatus } from '../common/enums/version-status.enum';
+import { ScanSeverity } from '../common/enums/scan-severity.enum';
+import { BlocklistEntryType } from '../common/enums/blocklist-entry-type.enum';
+import { DryRunEventType, DryRunPhaseOutcome, DryRunStatus } from '../common/enums/dry-run.enum';
+import { RiskFactorType } from '../common/enums/risk-factor.enum';
+import { ReviewQueueSort, SortOrder } from '../common/enums/review-queue.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import {
+  BlocklistedPackageException,
+  InvalidCursorException,
+  InvalidTransitionException,
+  ScanFindingsException,
+} from '../common/exceptions';
+import { Plugin } from '../common/entities/plugin.entity';
+import { DryRunReport, PluginVersion, ScanFinding } from '../common/entities/plugin-version.entity';
+import { AuditService } from '../audit/audit.service';
+
+describe('PluginReviewService', () => {
+  let service: PluginReviewService;
+  let pluginsRepository: jest.Mocked<PluginsRepository>;
+  let versionsRepository: jest.Mocked<PluginVersionsRepository>;
+  let dryRunner: { enabled: boolean; run: jest.Mock };
+  let blocklistService: jest.Mocked<BlocklistService>;
+  let oauthClientsRepository: { findByPluginId: jest.Mock };
+  let commentsRepository: { countThreadsByVersionId: jest.Mock };
+  let auditService: { record: jest.Mock; isKnownAdmin: jest.Mock };
+
+  const plugin: Plugin = {
+    id: 'plugin-1',
+    packageId: 'com.acme.tasks',
+    name: 'Tasks',
+    author: 'Acme Inc.',
+    status: PluginStatus.PENDING_REVIEW,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const finding = (severity: ScanSeverity): ScanFinding => ({
+    ruleId: severity === ScanSeverity.CRITICAL ? 'no-eval' : 'encoded-payload',
+    severity,
+    message: 'finding',
+    file: 'plugin.js',
+    line: 1,
+    column: 0,
+  });
+
+  const version = (scanFindings: ScanFinding[]): PluginVersion => ({
+    id: 'version-1',
+    pluginId: 'plugin-1',
+    version: '1.0.0',
+    manifest: {},
+    minAppVersion: '1.0.0',
+    status: VersionStatus.PENDING_REVIEW,
+    checksumSha256: 'abc123',
+    createdAt: new Date('2024-01-01'),
+    downloadCount: 0,
+    isFlagged: false,
+    files: [],
+    signatures: [],
+    scanFindings,
+  });
+
+  const dryRunReport: DryRunReport = {
+    status: DryRunStatus.COMPLETED,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    durationMs: 42,
+    phases: [
+      {
+        name: 'load',
+        outcome: DryRunPhaseOutcome.OK,
+        durationMs: 3,
+        events: [{ type: DryRunEventType.NETWORK, name: 'fetch', detail: 'https://evil.example' }],
+        droppedEvents: 0,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PluginReviewService,
+        {
+          provide: PluginsRepository,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(plugin),
+            findByOwnerDeveloperIds: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: PluginVersionsRepository,
+          useValue: {
+            findById: jest.fn(),
+            findVersionsInReviewQueue: jest.fn(),
+            findPublishedVersions: jest.fn().mockResolvedValue([]),
+            findByPluginIdOrderByCreatedAtDesc: jest.fn().mockResolvedValue([]),
+            findByStatus: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            claim: jest.fn(),
+            addApproval: jest.fn(),
+          },
+        },
+        {
+          provide: StorageService,
+          useValue: { moveArtifact: jest.fn(), deleteArtifact: jest.fn() },
+        },
+        {
+          provide: StoreSigner,
+          useValue: { countersign: jest.fn().mockReturnValue(null) },
+        },
+        {
+          provide: PluginDryRunner,
+          useValue: { enabled: true, run: jest.fn().mockResolvedValue(dryRunReport) },
+        },
+        {
+          provide: BlocklistService,
+          useValue: {
+            addEntry: jest.fn(),
+            findVersionMatches: jest.fn().mockResolvedValue([]),
+            matchVersion: jest.fn().mockReturnValue([]),
+          },
+        },
+        RiskScorer,
+        {
+          provide: OAuthClientsRepository,
+          useValue: { findByPluginId: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: ReviewCommentsRepository,
+          useValue: { countThreadsByVersionId: jest.fn().mockResolvedValue(0) },
+        },
+        ReviewPolicy,
+        PluginLifecycleService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'app.pagination'
+                ? { defaultPageSize: 20, maxPageSize: 100, cursorSecret: 'test-secret' }
+                : {
+                    claimTtlMinutes: 60,
+                    requiredApprovals: 1,
+                    sensitiveApprovals: 2,
+                    sensitivePermissions: ['network', 'clipboard:read'],
+                  },
+            ),
+          },
+        },
+        { provide: AuditService, useValue: { record: jest.fn(), isKnownAdmin: jest.fn().mockResolvedValue(true) } },
+      ],
+    }).compile();
+
+    service = module.get<PluginReviewService>(PluginReviewService);
+    pluginsRepository = module.get(PluginsRepository);
+    versionsRepository = module.get(PluginVersionsRepository);
+    dryRunner = module.get(PluginDryRunner);
+    blocklistService = module.get(BlocklistService);
+    oauthClientsRepository = module.get(OAuthClientsRepository);
+    commentsRepository = module.get(ReviewCommentsRepository);
+    auditService = module.get(AuditService);
+
+    // Approvals are appended to the version as currently stored
+    versionsRepository.addApproval.mockImplementation(async (id, approval) => {
+      const current = await versionsRepository.findById(id);
+      return current && { ...current, approvals: [...(current.approvals || []), approval] };
+    });
+  });
+
+  describe('getReviewQueue', () => {
+    it('should show reviewers the scan findings', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({
+        items: [version([finding(ScanSeverity.CRITICAL)])],
+        nextKey: null,
+      });
+
+      const {
+        data: [item],
+      } = await service.getReviewQueue();
+
+      expect(item.scanFindings).toEqual([
+        {
+          ruleId: 'no-eval',
+          severity: ScanSeverity.CRITICAL,
+          message: 'finding',
+          file: 'plugin.js',
+          line: 1,
+          column: 0,
+        },
+      ]);
+    });
+
+    it('should show reviewers the dry run report once it has finished', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({
+        items: [
+          { ...version([]), dryRunReport },
+          version([]),
+        ],
+        nextKey: null,
+      });
+
+      const {
+        data: [finished, pending],
+      } = await service.getReviewQueue();
+
+      expect(finished.dryRunReport).toEqual({
+        status: DryRunStatus.COMPLETED,
+        error: null,
+        startedAt: '2024-01-01T00:00:00.000Z',
+        durationMs: 42,
+        phases: [
+          {
+            name: 'load',
+            outcome: DryRunPhaseOutcome.OK,
+            durationMs: 3,
+            events: [{ type: DryRunEventType.NETWORK, name: 'fetch', detail: 'https://evil.example' }],
+            droppedEvents: 0,
+          },
+        ],
+      });
+      expect(pending.dryRunReport).toBeNull();
+    });
+
+    it('should show reviewers the risk score and its factors', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({
+        items: [
+          {
+            ...version([]),
+            riskScore: 20,
+            riskFactors: [{ factor: RiskFactorType.DIFF_SIZE, points: 20, detail: 'whole package is new' }],
+          },
+          version([]),
+        ],
+        nextKey: null,
+      });
+
+      const {
+        data: [scored, unscored],
+      } = await service.getReviewQueue();
+
+      expect(scored.riskScore).toBe(20);
+      expect(scored.riskFactors).toEqual([
+        { factor: RiskFactorType.DIFF_SIZE, points: 20, detail: 'whole package is new' },
+      ]);
+      expect(unscored.riskScore).toBeNull();
+      expect(unscored.riskFactors).toEqual([]);
+    });
+
+    it('should return the oldest submissions first by default', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({ items: [], nextKey: null });
+
+      await service.getReviewQueue();
+
+      expect(versionsRepository.findVersionsInReviewQueue).toHaveBeenCalledWith(
+        {
+          statuses: undefined,
+          flagged: undefined,
+          minRiskScore: undefined,
+          maxRiskScore: undefined,
+          submittedBefore: undefined,
+          submittedAfter: undefined,
+          sort: ReviewQueueSort.AGE,
+          ascending: true,
+        },
+        { after: undefined, limit: undefined },
+      );
+    });
+
+    it('should sort by risk score highest first and pass the filters on', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({ items: [], nextKey: null });
+      const before = Date.now();
+
+      await service.getReviewQueue({
+        sort: ReviewQueueSort.RISK_SCORE,
+        status: VersionStatus.SUBMITTED,
+        flagged: false,
+        minRiskScore: 50,
+        minAgeHours: 24,
+      });
+
+      const filter = versionsRepository.findVersionsInReviewQueue.mock.calls[0][0];
+      expect(filter).toEqual(
+        expect.objectContaining({
+          statuses: [VersionStatus.SUBMITTED],
+          flagged: false,
+          minRiskScore: 50,
+          submittedAfter: undefined,
+          sort: ReviewQueueSort.RISK_SCORE,
+          ascending: false,
+        }),
+      );
+      expect(filter?.submittedBefore?.getTime()).toBeGreaterThanOrEqual(before - 24 * 60 * 60 * 1000);
+      expect(filter?.submittedBefore?.getTime()).toBeLessThanOrEqual(Date.now() - 24 * 60 * 60 * 1000);
+    });
+
+    it('should honour an explicit sort order', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({ items: [], nextKey: null });
+
+      await service.getReviewQueue({ sort: ReviewQueueSort.RISK_SCORE, order: SortOrder.ASC });
+
+      expect(versionsRepository.findVersionsInReviewQueue).toHaveBeenCalledWith(
+        expect.objectContaining({ sort: ReviewQueueSort.RISK_SCORE, ascending: true }),
+        expect.anything(),
+      );
+    });
+
+    it('should return a page and a cursor that continues after its last version', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({
+        items: [version([])],
+        nextKey: ['2024-01-01T00:00:00.123456+00:00', 'version-1'],
+      });
+
+      const first = await service.getReviewQueue({ flagged: true, pageSize: 1 });
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({ items: [], nextKey: null });
+      const second = await service.getReviewQueue({ flagged: true, pageSize: 1, cursor: first.nextCursor as string });
+
+      expect(versionsRepository.findVersionsInReviewQueue.mock.calls[0][1]).toEqual({ after: undefined, limit: 1 });
+      expect(versionsRepository.findVersionsInReviewQueue.mock.calls[1][1]).toEqual({
+        after: ['2024-01-01T00:00:00.123456+00:00', 'version-1'],
+        limit: 1,
+      });
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should refuse a cursor issued for other filters or altered by the client', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({ items: [version([])], nextKey: ['a', 'b'] });
+      const { nextCursor } = await service.getReviewQueue({ pageSize: 1 });
+      const [payload, signature] = (nextCursor as string).split('.');
+      const altered = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), p: 5 }),
+      ).toString('base64url');
+
+      await expect(service.getReviewQueue({ flagged: true, cursor: nextCursor as string })).rejects.toThrow(
+        InvalidCursorException,
+      );
+      await expect(service.getReviewQueue({ cursor: `${altered}.${signature}` })).rejects.toThrow(
+        InvalidCursorException,
+      );
+    });
+  });
+
+  describe('assessRisk', () => {
+    const file = (path: string, sha256: string) => ({ path, size: 100, sha256, mimeType: 'application/javascript' });
+
+    it('should score the version against the previous published version and the OAuth scopes', async () => {
+      const submitted = {
+        ...version([finding(ScanSeverity.HIGH)]),
+        files: [file('plugin.js', 'new')],
+      };
+      const previous = {
+        ...version([]),
+        id: 'version-0',
+        status: VersionStatus.PUBLISHED,
+        files: [file('plugin.js', 'old')],
+      };
+      versionsRepository.findById.mockResolvedValue(submitted);
+      versionsRepository.findPublishedVersions.mockResolvedValue([previous]);
+      pluginsRepository.findByOwnerDeveloperIds.mockResolvedValue([{ ...plugin, status: PluginStatus.PUBLISHED }]);
+      oauthClientsRepository.findByPluginId.mockResolvedValue([
+        { scopes: ['read', 'write'], isActive: true },
+        { scopes: ['full'], isActive: false },
+      ]);
+
+      await service.assessRisk('version-1', 'dev-1', new Date('2020-01-01'));
+
+      expect(pluginsRepository.findByOwnerDeveloperIds).toHaveBeenCalledWith(['dev-1']);
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', {
+        riskScore: 38,
+        riskFactors: [
+          { factor: RiskFactorType.DIFF_SIZE, points: 20, detail: expect.stringContaining('1 changed') },
+          { factor: RiskFactorType.SCAN_FINDINGS, points: 10, detail: '1 HIGH finding' },
+          { factor: RiskFactorType.OAUTH_SCOPES, points: 8, detail: expect.stringContaining('2 OAuth scopes') },
+        ],
+      });
+    });
+
+    it('should leave the version unscored when scoring fails', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      oauthClientsRepository.findByPluginId.mockRejectedValue(new Error('connection reset'));
+
+      await expect(service.assessRisk('version-1', 'dev-1', new Date())).resolves.toBeUndefined();
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduleDryRun', () => {
+    it('should store the report on the version', async () => {
+      versionsRepository.update.mockResolvedValue({ ...version([]), dryRunReport });
+
+      service.scheduleDryRun('version-1', 'plugin.js', 'synapse.ping();', { triggers: { voiceIntents: ['ping'] } });
+      await new Promise(setImmediate);
+
+      expect(dryRunner.run).toHaveBeenCalledWith('plugin.js', 'synapse.ping();', { triggers: { voiceIntents: ['ping'] } });
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', { dryRunReport });
+    });
+
+    it('should do nothing when dry runs are disabled', () => {
+      dryRunner.enabled = false;
+
+      service.scheduleDryRun('version-1', 'plugin.js', 'synapse.ping();', {});
+
+      expect(dryRunner.run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addBlocklistEntry', () => {
+    it('should flag the published and deprecated versions that match the new entry', async () => {
+      const entry = {
+        id: 'entry-1',
+        type: BlocklistEntryType.DOMAIN,
+        value: 'evil.example',
+        reason: 'C2 server',
+        createdBy: 'admin-1',
+        createdAt: new Date('2024-01-01'),
+      };
+      const clean = { ...version([]), id: 'version-2', status: VersionStatus.PUBLISHED };
+      const infected = { ...version([]), status: VersionStatus.DEPRECATED };
+      blocklistService.addEntry.mockResolvedValue(entry);
+      versionsRepository.findByStatus.mockImplementation(async (status) =>
+        status === VersionStatus.PUBLISHED ? [clean] : status === VersionStatus.DEPRECATED ? [infected] : [],
+      );
+      versionsRepository.findById.mockResolvedValue(infected);
+      blocklistService.matchVersion.mockImplementation((v) =>
+        v === infected ? ['Code contacts evil.example, which is under blocked domain evil.example'] : [],
+      );
+
+      const result = await service.addBlocklistEntry(
+        { type: BlocklistEntryType.DOMAIN, value: 'evil.example', reason: 'C2 server' },
+        'admin-1',
+      );
+
+      expect(versionsRepository.findByStatus).toHaveBeenCalledWith(VersionStatus.PUBLISHED);
+      expect(versionsRepository.findByStatus).toHaveBeenCalledWith(VersionStatus.DEPRECATED);
+      expect(result).toEqual({ entry, flaggedVersionIds: ['version-1'] });
+      expect(versionsRepository.update).toHaveBeenCalledTimes(1);
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', {
+        isFlagged: true,
+        flagReason:
+          'Matches the malware blocklist: Code contacts evil.example, which is under blocked domain evil.example',
+        statusBeforeFlag: VersionStatus.DEPRECATED,
+        status: VersionStatus.FLAGGED,
+      });
+    });
+  });
+
+  describe('submitReviewDecision', () => {
+    it('should flag instead of publishing versions that match the blocklist', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      blocklistService.findVersionMatches.mockResolvedValue(['Artifact SHA-256 abc123 is blocklisted']);
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1'),
+      ).rejects.toThrow(BlocklistedPackageException);
+      expect(versionsRepository.update).toHaveBeenCalledTimes(1);
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({ status: VersionStatus.FLAGGED }),
+      );
+    });
+
+    it('should block publication on critical findings', async () => {
+      versionsRepository.findById.mockResolvedValue(version([finding(ScanSeverity.CRITICAL)]));
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1'),
+      ).rejects.toThrow(ScanFindingsException);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a blank override reason', async () => {
+      versionsRepository.findById.mockResolvedValue(version([finding(ScanSeverity.CRITICAL)]));
+
+      await expect(
+        service.submitReviewDecision(
+          'version-1',
+          { decision: ReviewDecision.PUBLISH, scanOverrideReason: '   ' },
+          'admin-1',
+        ),
+      ).rejects.toThrow(ScanFindingsException);
+    });
+
+    it('should publish over critical findings with an override and record it', async () => {
+      versionsRepository.findById.mockResolvedValue(version([finding(ScanSeverity.CRITICAL)]));
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...version([]), status: VersionStatus.PUBLISHED },
+      ]);
+
+      await service.submitReviewDecision(
+        'version-1',
+        { decision: ReviewDecision.PUBLISH, scanOverrideReason: 'eval only runs bundled templates' },
+        'admin-1',
+      );
+
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({
+          status: VersionStatus.PUBLISHED,
+          scanOverrideReason: 'eval only runs bundled templates',
+          scanOverriddenBy: 'admin-1',
+        }),
+      );
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        latestVersionId: 'version-1',
+        status: PluginStatus.PUBLISHED,
+      });
+    });
+
+    it('should publish without an override when no finding is critical', async () => {
+      versionsRepository.findById.mockResolvedValue(version([finding(ScanSeverity.HIGH)]));
+
+      await service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1');
+
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({ status: VersionStatus.PUBLISHED, scanOverrideReason: null }),
+      );
+    });
+
+    it('should allow rejecting versions with critical findings', async () => {
+      versionsRepository.findById.mockResolvedValue(version([finding(ScanSeverity.CRITICAL)]));
+
+      await service.submitReviewDecision(
+        'version-1',
+        { decision: ReviewDecision.REJECT, rejectionReason: 'Uses eval' },
+        'admin-1',
+      );
+
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({ status: VersionStatus.REJECTED }),
+      );
+    });
+
+    it('should request changes and keep the artifact for the resubmission', async () => {
+      versionsRepository.findById.mockResolvedValue({ ...version([]), tempStoragePath: 'temp/tasks.synx' });
+      commentsRepository.countThreadsByVersionId.mockResolvedValue(2);
+
+      await service.submitReviewDecision(
+        'version-1',
+        { decision: ReviewDecision.CHANGES_REQUESTED, rejectionReason: 'See the comments on plugin.js' },
+        'admin-1',
+      );
+
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', {
+        status: VersionStatus.CHANGES_REQUESTED,
+        reviewedAt: expect.any(Date),
+        reviewedBy: 'admin-1',
+        rejectionReason: 'See the comments on plugin.js',
+        claimedBy: null,
+        claimExpiresAt: null,
+      });
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not request changes without a review comment', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.CHANGES_REQUESTED }, 'admin-1'),
+      ).rejects.toThrow(InvalidTransitionException);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not review a version that was sent back for changes again', async () => {
+      versionsRepository.findById.mockResolvedValue({ ...version([]), status: VersionStatus.CHANGES_REQUESTED });
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1'),
+      ).rejects.toThrow(InvalidTransitionException);
+    });
+
+    it('should not let a reviewer decide on a version claimed by someone else', async () => {
+      versionsRepository.findById.mockResolvedValue({
+        ...version([]),
+        claimedBy: 'admin-2',
+        claimExpiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an expired claim', async () => {
+      versionsRepository.findById.mockResolvedValue({
+        ...version([]),
+        claimedBy: 'admin-2',
+        claimExpiresAt: new Date(Date.now() - 60 * 1000),
+      });
+
+      const result = await service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1');
+
+      expect(result.status).toBe(VersionStatus.PUBLISHED);
+    });
+  });
+
+  describe('approval policy', () => {
+    const sensitive = (overrides: Partial<PluginVersion> = {}): PluginVersion => ({
+      ...version([]),
+      manifest: { permissions: ['network:https://api.acme.com'] },
+      ...overrides,
+    });
+
+    it('should record the first approval of a sensitive version without publishing it', async () => {
+      versionsRepository.findById.mockResolvedValue(
+        sensitive({ claimedBy: 'admin-1', claimExpiresAt: new Date(Date.now() + 60 * 1000) }),
+      );
+
+      const result = await service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1');
+
+      expect(result).toEqual({
+        versionId: 'version-1',
+        status: VersionStatus.PENDING_REVIEW,
+        approvals: [{ approvedBy: 'admin-1', approvedAt: expect.any(String) }],
+        requiredApprovals: 2,
+        approvalReasons: ['Requests sensitive permissions: network:https://api.acme.com'],
+      });
+      expect(versionsRepository.addApproval).toHaveBeenCalledWith('version-1', {
+        approvedBy: 'admin-1',
+        approvedAt: expect.any(String),
+      });
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should count an approval recorded concurrently by another reviewer', async () => {
+      const concurrent = { approvedBy: 'admin-2', approvedAt: '2024-01-02T00:00:00.000Z' };
+      versionsRepository.findById.mockResolvedValue(sensitive());
+      versionsRepository.addApproval.mockImplementation(async (id, approval) => ({
+        ...sensitive(),
+        approvals: [concurrent, approval],
+      }));
+
+      const result = await service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1');
+
+      expect(result.status).toBe(VersionStatus.PUBLISHED);
+      expect(result.approvals.map((a) => a.approvedBy)).toEqual(['admin-2', 'admin-1']);
+    });
+
+    it('should not record an approval once the version has changed', async () => {
+      versionsRepository.findById.mockResolvedValue(sensitive());
+      versionsRepository.addApproval.mockResolvedValue(null);
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should publish once a second, distinct reviewer approves', async () => {
+      const first = { approvedBy: 'admin-1', approvedAt: '2024-01-02T00:00:00.000Z' };
+      versionsRepository.findById.mockResolvedValue(sensitive({ approvals: [first] }));
+
+      const result = await service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-2');
+
+      expect(result.status).toBe(VersionStatus.PUBLISHED);
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({
+          status: VersionStatus.PUBLISHED,
+          approvals: [first, { approvedBy: 'admin-2', approvedAt: expect.any(String) }],
+        }),
+      );
+    });
+
+    it('should not count the same reviewer twice', async () => {
+      versionsRepository.findById.mockResolvedValue(
+        sensitive({ approvals: [{ approvedBy: 'admin-1', approvedAt: '2024-01-02T00:00:00.000Z' }] }),
+      );
+
+      await expect(
+        service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(versionsRepository.addApproval).not.toHaveBeenCalled();
+    });
+
+    it('should require two approvers for plugins with active OAuth clients', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      oauthClientsRepository.findByPluginId.mockResolvedValue([
+        { provider: 'github', scopes: ['repo'], isActive: true },
+        { provider: 'slack', scopes: [], isActive: false },
+      ]);
+
+      const result = await service.submitReviewDecision('version-1', { decision: ReviewDecision.PUBLISH }, 'admin-1');
+
+      expect(result.requiredApprovals).toBe(2);
+      expect(result.approvalReasons).toEqual(['Uses OAuth providers: github']);
+      expect(result.status).toBe(VersionStatus.PENDING_REVIEW);
+    });
+  });
+
+  describe('flagVersion', () => {
+    const published = { ...version([]), status: VersionStatus.PUBLISHED };
+    const older = { ...published, id: 'version-0', version: '0.9.0', createdAt: new Date('2023-12-01') };
+
+    it('should keep the plugin published on its newest remaining version', async () => {
+      pluginsRepository.findById.mockResolvedValue({
+        ...plugin,
+        status: PluginStatus.PUBLISHED,
+        latestVersionId: 'version-1',
+      });
+      versionsRepository.findById.mockResolvedValue(published);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...published, status: VersionStatus.FLAGGED },
+        older,
+      ]);
+
+      await service.flagVersion('version-1', 'Malware', 'admin-1');
+
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({ status: VersionStatus.FLAGGED, statusBeforeFlag: VersionStatus.PUBLISHED }),
+      );
+      expect(pluginsRepository.update).toHaveBeenCalledTimes(1);
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', { latestVersionId: 'version-0' });
+    });
+
+    it('should reject the plugin when its only version is flagged', async () => {
+      pluginsRepository.findById.mockResolvedValue({
+        ...plugin,
+        status: PluginStatus.PUBLISHED,
+        latestVersionId: 'version-1',
+      });
+      versionsRepository.findById.mockResolvedValue(published);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...published, status: VersionStatus.FLAGGED },
+      ]);
+
+      await service.flagVersion('version-1', 'Malware', 'admin-1');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.REJECTED,
+        latestVersionId: null,
+      });
+    });
+
+    it('should not flag a version twice', async () => {
+      versionsRepository.findById.mockResolvedValue({ ...published, status: VersionStatus.FLAGGED });
+
+      await expect(service.flagVersion('version-1', 'Malware', 'admin-1')).rejects.toThrow(
+        InvalidTransitionException,
+      );
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('audit log', () => {
+    it('should record the decision with the old and new status and the reason', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+
+      await service.submitReviewDecision(
+        'version-1',
+        { decision: ReviewDecision.REJECT, rejectionReason: 'Uses eval' },
+        'admin-1',
+      );
+
+      expect(auditService.record).toHaveBeenCalledWith({
+        actorId: 'admin-1',
+        actorRole: AuditActorRole.ADMIN,
+        action: AuditAction.VERSION_REJECTED,
+        entityType: AuditEntityType.PLUGIN_VERSION,
+        entityId: 'version-1',
+        entityVersion: '1.0.0',
+        oldStatus: VersionStatus.PENDING_REVIEW,
+        newStatus: VersionStatus.REJECTED,
+        reason: 'Uses eval',
+        metadata: { packageId: 'com.acme.tasks' },
+      });
+    });
+
+    it('should record blocklist flags as system actions', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      blocklistService.findVersionMatches.mockResolvedValue(['Artifact SHA-256 abc123 is blocklisted']);
+
+      await service.screenVersion('version-1');
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 'blocklist',
+          actorRole: AuditActorRole.SYSTEM,
+          action: AuditAction.VERSION_FLAGGED,
+          newStatus: VersionStatus.FLAGGED,
+        }),
+      );
+    });
+
+    it('should not fail a submission when blocklist screening fails', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      blocklistService.findVersionMatches.mockRejectedValue(new Error('connection reset'));
+
+      await expect(service.screenVersion('version-1')).resolves.toEqual([]);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should record who unflagged a version', async () => {
+      versionsRepository.findById.mockResolvedValue({
+        ...version([]),
+        status: VersionStatus.FLAGGED,
+        isFlagged: true,
+        flagReason: 'False positive',
+      });
+
+      await service.unflagVersion('version-1', 'admin-2');
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 'admin-2',
+          action: AuditAction.VERSION_UNFLAGGED,
+          oldStatus: VersionStatus.FLAGGED,
+          metadata: { flagReason: 'False positive' },
+        }),
+      );
+    });
+
+    it('should return an unflagged version to its status before flagging', async () => {
+      const flagged = {
+        ...version([]),
+        status: VersionStatus.FLAGGED,
+        isFlagged: true,
+        flagReason: 'False positive',
+        statusBeforeFlag: VersionStatus.PUBLISHED,
+      };
+      pluginsRepository.findById.mockResolvedValue({ ...plugin, status: PluginStatus.REJECTED, latestVersionId: null });
+      versionsRepository.findById.mockResolvedValue(flagged);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...flagged, status: VersionStatus.PUBLISHED },
+      ]);
+
+      await service.unflagVersion('version-1', 'admin-2');
+
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', {
+        status: VersionStatus.PUBLISHED,
+        isFlagged: false,
+        flagReason: null,
+        statusBeforeFlag: null,
+      });
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.PUBLISHED,
+        latestVersionId: 'version-1',
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.VERSION_UNFLAGGED, newStatus: VersionStatus.PUBLISHED }),
+      );
+    });
+
+    it('should return a version flagged without a recorded status to review', async () => {
+      versionsRepository.findById.mockResolvedValue({
+        ...version([]),
+        status: VersionStatus.FLAGGED,
+        isFlagged: true,
+        statusBeforeFlag: null,
+      });
+
+      await service.unflagVersion('version-1', 'admin-2');
+
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({ status: VersionStatus.PENDING_REVIEW, isFlagged: false }),
+      );
+    });
+
+    it('should not unflag a version that is not flagged', async () => {
+      versionsRepository.findById.mockResolvedValue({ ...version([]), status: VersionStatus.PUBLISHED });
+
+      await expect(service.unflagVersion('version-1', 'admin-2')).rejects.toThrow(InvalidTransitionException);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claims', () => {
+    it('should claim a queued version for the configured time', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      versionsRepository.claim.mockImplementation(async (id, claimedBy, expiresAt) => ({
+        ...version([]),
+        claimedBy,
+        claimExpiresAt: expiresAt,
+      }));
+      const before = Date.now();
+
+      const claim = await service.claimVersion('version-1', 'admin-1');
+
+      expect(claim.claimedBy).toBe('admin-1');
+      expect(claim.claimExpiresAt.getTime()).toBeGreaterThanOrEqual(before + 60 * 60 * 1000);
+    });
+
+    it('should report who holds the claim when claiming fails', async () => {
+      const claimExpiresAt = new Date(Date.now() + 60 * 1000);
+      versionsRepository.findById
+        .mockResolvedValueOnce(version([]))
+        .mockResolvedValueOnce({ ...version([]), claimedBy: 'admin-2', claimExpiresAt });
+      versionsRepository.claim.mockResolvedValue(null);
+
+      await expect(service.claimVersion('version-1', 'admin-1')).rejects.toThrow(
+        `Version version-1 is claimed by admin-2 until ${claimExpiresAt.toISOString()}`,
+      );
+    });
+
+    it('should only claim versions awaiting review', async () => {
+      versionsRepository.findById.mockResolvedValue({ ...version([]), status: VersionStatus.PUBLISHED });
+
+      await expect(service.claimVersion('version-1', 'admin-1')).rejects.toThrow(InvalidTransitionException);
+      expect(versionsRepository.claim).not.toHaveBeenCalled();
+    });
+
+    it('should assign a version to a known reviewer', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+
+      const claim = await service.assignVersion('version-1', 'admin-2', 'admin-1');
+
+      expect(auditService.isKnownAdmin).toHaveBeenCalledWith('admin-2');
+      expect(claim.claimedBy).toBe('admin-2');
+      expect(versionsRepository.update).toHaveBeenCalledWith(
+        'version-1',
+        expect.objectContaining({ claimedBy: 'admin-2' }),
+      );
+    });
+
+    it('should not assign a version to an unknown user or a non-admin', async () => {
+      versionsRepository.findById.mockResolvedValue(version([]));
+      auditService.isKnownAdmin.mockResolvedValue(false);
+
+      await expect(service.assignVersion('version-1', 'dev-1', 'admin-1')).rejects.toThrow(BadRequestException);
+      expect(versionsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should not release another reviewer's live claim", async () => {
+      versionsRepository.findById.mockResolvedValue({
+        ...version([]),
+        claimedBy: 'admin-2',
+        claimExpiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      await expect(service.releaseClaim('version-1', 'admin-1')).rejects.toThrow(ConflictException);
+    });
+
+    it('should show the assignee in the review queue while the claim is live', async () => {
+      versionsRepository.findVersionsInReviewQueue.mockResolvedValue({
+        items: [
+          { ...version([]), claimedBy: 'admin-2', claimExpiresAt: new Date(Date.now() + 60 * 1000) },
+          { ...version([]), claimedBy: 'admin-3', claimExpiresAt: new Date(Date.now() - 60 * 1000) },
+        ],
+        nextKey: null,
+      });
+
+      const {
+        data: [claimed, expired],
+      } = await service.getReviewQueue();
+
+      expect(claimed.claimedBy).toBe('admin-2');
+      expect(expired.claimedBy).toBeNull();
+      expect(expired.requiredApprovals).toBe(1);
+    });
+  });
+});
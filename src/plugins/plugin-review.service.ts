@@ -1,14 +1,73 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PluginsRepository } from './plugins.repository';
-import { PluginVersionsRepository } from './plugin-versions.repository';
+import { PluginVersionsRepository, ReviewQueueFilter } from './plugin-versions.repository';
+import { ReviewCommentsRepository } from './review-comments.repository';
+import { ApprovalRequirement, ReviewPolicy } from './review-policy.service';
+import { PluginLifecycleService } from './plugin-lifecycle.service';
+import { canTransitionVersion } from './plugin-lifecycle';
 import { StorageService } from '../storage/storage.service';
+import { StoreSigner } from '../signing/store-signer.service';
+import { PluginDryRunner } from '../sandbox/plugin-dry-runner.service';
+import { BlocklistService } from '../blocklist/blocklist.service';
+import { RiskScorer } from '../risk/risk-scorer.service';
+import { OAuthClientsRepository } from '../oauth/oauth-clients.repository';
+import { AuditService, AuditEvent } from '../audit/audit.service';
 import { PluginStatus } from '../common/enums/plugin-status.enum';
-import { VersionStatus, ReviewDecision } from '../common/enums/version-status.enum';
-import { PluginReviewItem } from '../common/dto';
+import {
+  VersionStatus,
+  ReviewDecision,
+  AWAITING_REVIEW_VERSION_STATUSES,
+  INSTALLABLE_VERSION_STATUSES,
+} from '../common/enums/version-status.enum';
+import { SignatureRole } from '../common/enums/signature-role.enum';
+import { ScanSeverity } from '../common/enums/scan-severity.enum';
+import { ReviewQueueSort, SortOrder } from '../common/enums/review-queue.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import {
+  PluginReviewItem,
+  ScanFindingResponse,
+  PermissionAnalysisResponse,
+  PermissionFindingResponse,
+  DryRunReportResponse,
+  DryRunPhaseResponse,
+  DryRunEventResponse,
+  AddBlocklistEntryRequestDto,
+  BlocklistEntryAddedResponse,
+  RiskFactorResponse,
+  ReviewQueueQueryDto,
+  ReviewClaimResponse,
+  ReviewApprovalResponse,
+  ReviewDecisionResponse,
+} from '../common/dto';
 import { ReviewDecisionRequestDto } from '../common/dto';
-import { ResourceNotFoundException, InvalidTransitionException } from '../common/exceptions';
+import {
+  ResourceNotFoundException,
+  InvalidTransitionException,
+  ScanFindingsException,
+  BlocklistedPackageException,
+} from '../common/exceptions';
 import { Plugin } from '../common/entities/plugin.entity';
-import { PluginVersion } from '../common/entities/plugin-version.entity';
+import {
+  DryRunReport,
+  PluginVersion,
+  ReviewApproval,
+  ScanFinding,
+} from '../common/entities/plugin-version.entity';
+import { CursorPage, decodePageCursor, encodePageCursor, queryFingerprint } from '../common/utils/page-cursor.util';
+
+/** Cursor scope of the review queue. */
+const REVIEW_QUEUE_CURSOR = 'review-queue';
+
+/** Recorded as the flagger when a submission is flagged by the blocklist. */
+const BLOCKLIST_REVIEWER = 'blocklist';
+
+/** The status each review decision moves a version to. */
+const DECISION_STATUSES: Readonly<Record<ReviewDecision, VersionStatus>> = {
+  [ReviewDecision.PUBLISH]: VersionStatus.PUBLISHED,
+  [ReviewDecision.REJECT]: VersionStatus.REJECTED,
+  [ReviewDecision.CHANGES_REQUESTED]: VersionStatus.CHANGES_REQUESTED,
+};
 
 /**
  * Service for plugin review and security vetting operations.
@@ -22,21 +81,58 @@ export class PluginReviewService {
     private readonly pluginsRepository: PluginsRepository,
     private readonly versionsRepository: PluginVersionsRepository,
     private readonly storageService: StorageService,
+    private readonly storeSigner: StoreSigner,
+    private readonly dryRunner: PluginDryRunner,
+    private readonly blocklistService: BlocklistService,
+    private readonly riskScorer: RiskScorer,
+    private readonly oauthClientsRepository: OAuthClientsRepository,
+    private readonly commentsRepository: ReviewCommentsRepository,
+    private readonly reviewPolicy: ReviewPolicy,
+    private readonly lifecycle: PluginLifecycleService,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
-   * Retrieves all plugin versions currently in the review queue.
+   * Retrieves the plugin versions in the review queue, oldest first unless
+   * the query sorts them otherwise: all of them, or a page when a page size
+   * or the cursor of the previous page is given.
+   *
+   * @throws InvalidCursorException if the cursor is invalid or was issued for
+   *   other filters or a different sort
    */
-  async getReviewQueue(): Promise<PluginReviewItem[]> {
+  async getReviewQueue(query: ReviewQueueQueryDto = {}): Promise<CursorPage<PluginReviewItem>> {
     this.logger.debug('Fetching review queue');
 
-    const versions = await this.versionsRepository.findVersionsInReviewQueue();
+    const filter = this.toReviewQueueFilter(query);
+    // Ages rather than the times they resolve to, which move on between pages
+    const fingerprint = queryFingerprint({
+      ...filter,
+      submittedBefore: undefined,
+      submittedAfter: undefined,
+      minAgeHours: query.minAgeHours,
+      maxAgeHours: query.maxAgeHours,
+    });
+    const pagination = this.configService.get('app.pagination');
+    const cursor = query.cursor
+      ? decodePageCursor(query.cursor, pagination.cursorSecret, REVIEW_QUEUE_CURSOR, fingerprint)
+      : null;
+    const paged = cursor !== null || query.pageSize !== undefined;
+    const { items: versions, nextKey } = await this.versionsRepository.findVersionsInReviewQueue(filter, {
+      after: cursor?.after,
+      limit: paged ? Math.min(query.pageSize ?? pagination.defaultPageSize, pagination.maxPageSize) : undefined,
+    });
 
     // Map to review items, fetching parent plugin info
     const result: PluginReviewItem[] = [];
 
     for (const version of versions) {
       const plugin = await this.pluginsRepository.findById(version.pluginId);
+      if (plugin?.isDeleted) {
+        continue;
+      }
+      const requirement = await this.getApprovalRequirement(version);
+      const claimed = this.hasLiveClaim(version);
       result.push(
         new PluginReviewItem(
           version.id,
@@ -50,19 +146,196 @@ export class PluginReviewService {
           version.status,
           version.isFlagged,
           version.flagReason || null,
+          version.scanFindings.map(
+            (f) => new ScanFindingResponse(f.ruleId, f.severity, f.message, f.file, f.line, f.column),
+          ),
+          version.permissionAnalysis
+            ? new PermissionAnalysisResponse(
+                version.permissionAnalysis.detected,
+                version.permissionAnalysis.findings.map(
+                  (f) =>
+                    new PermissionFindingResponse(
+                      f.type,
+                      f.permission,
+                      f.message,
+                      f.file ?? null,
+                      f.line ?? null,
+                      f.column ?? null,
+                    ),
+                ),
+              )
+            : null,
+          this.toDryRunReportResponse(version.dryRunReport),
+          version.riskScore ?? null,
+          (version.riskFactors || []).map((f) => new RiskFactorResponse(f.factor, f.points, f.detail)),
+          version.resubmissionOfVersionId ?? null,
+          claimed ? version.claimedBy ?? null : null,
+          claimed ? version.claimExpiresAt ?? null : null,
+          this.toApprovalResponses(version.approvals),
+          requirement.required,
+          requirement.reasons,
         ),
       );
     }
 
-    return result;
+    return {
+      data: result,
+      nextCursor: nextKey
+        ? encodePageCursor(
+            { scope: REVIEW_QUEUE_CURSOR, query: fingerprint, after: nextKey, page: (cursor?.page ?? 0) + 1 },
+            pagination.cursorSecret,
+          )
+        : null,
+    };
+  }
+
+  /**
+   * Claims a queued version for the caller for the configured claim TTL.
+   * Claiming a version the caller already holds extends the claim.
+   *
+   * @throws ConflictException if another reviewer holds an unexpired claim
+   */
+  async claimVersion(versionId: string, reviewerId: string): Promise<ReviewClaimResponse> {
+    const version = await this.getVersionForReview(versionId);
+    this.assertAwaitingReview(version);
+
+    const claimed = await this.versionsRepository.claim(versionId, reviewerId, this.claimExpiry());
+    if (!claimed) {
+      const current = await this.getVersionForReview(versionId);
+      throw this.claimConflict(current);
+    }
+
+    this.logger.log(`Version ${versionId} claimed by ${reviewerId} until ${claimed.claimExpiresAt?.toISOString()}`);
+    await this.auditVersion(AuditAction.VERSION_CLAIMED, version, reviewerId, {
+      metadata: { claimExpiresAt: claimed.claimExpiresAt?.toISOString() },
+    });
+    return new ReviewClaimResponse(versionId, reviewerId, claimed.claimExpiresAt as Date);
+  }
+
+  /**
+   * Assigns a queued version to a reviewer, replacing any claim on it. The
+   * assignee must be an admin who has acted in the store before, so a claim
+   * cannot be handed to a mistyped ID or a non-reviewer.
+   *
+   * @throws BadRequestException if the assignee is not a known admin
+   */
+  async assignVersion(versionId: string, assigneeId: string, assignedBy: string): Promise<ReviewClaimResponse> {
+    const version = await this.getVersionForReview(versionId);
+    this.assertAwaitingReview(version);
+    if (assigneeId !== assignedBy && !(await this.auditService.isKnownAdmin(assigneeId))) {
+      throw new BadRequestException(`${assigneeId} is not a known reviewer; only admins can be assigned versions`);
+    }
+
+    const claimExpiresAt = this.claimExpiry();
+    await this.versionsRepository.update(versionId, { claimedBy: assigneeId, claimExpiresAt });
+
+    this.logger.log(`Version ${versionId} assigned to ${assigneeId} by ${assignedBy}`);
+    await this.auditVersion(AuditAction.VERSION_ASSIGNED, version, assignedBy, {
+      metadata: { assigneeId, claimExpiresAt: claimExpiresAt.toISOString() },
+    });
+    return new ReviewClaimResponse(versionId, assigneeId, claimExpiresAt);
+  }
+
+  /**
+   * Releases the caller's claim on a version. Expired claims can be released by anyone.
+   *
+   * @throws ConflictException if another reviewer holds an unexpired claim
+   */
+  async releaseClaim(versionId: string, reviewerId: string): Promise<void> {
+    const version = await this.getVersionForReview(versionId);
+    if (this.isClaimedByOther(version, reviewerId)) {
+      throw this.claimConflict(version);
+    }
+
+    await this.versionsRepository.update(versionId, { claimedBy: null, claimExpiresAt: null });
+    this.logger.log(`Released review claim on version ${versionId}`);
+    await this.auditVersion(AuditAction.VERSION_CLAIM_RELEASED, version, reviewerId, {
+      metadata: { claimedBy: version.claimedBy ?? null },
+    });
+  }
+
+  /**
+   * Computes and stores the review risk score of a newly submitted version.
+   * Failures are logged, never thrown, so they cannot fail the submission;
+   * the version then stays unscored.
+   *
+   * @param ownerId Account the version is published under
+   * @param ownerCreatedAt When that account was created
+   */
+  async assessRisk(versionId: string, ownerId: string, ownerCreatedAt: Date): Promise<void> {
+    try {
+      const version = await this.getVersionForReview(versionId);
+      const [ownerPlugins, publishedVersions, oauthClients] = await Promise.all([
+        this.pluginsRepository.findByOwnerDeveloperIds([ownerId]),
+        this.versionsRepository.findPublishedVersions(version.pluginId),
+        this.oauthClientsRepository.findByPluginId(version.pluginId),
+      ]);
+      const previous = publishedVersions.find((v) => v.id !== version.id);
+
+      const assessment = this.riskScorer.score({
+        scanFindings: version.scanFindings,
+        permissions: version.manifest.permissions || [],
+        permissionAnalysis: version.permissionAnalysis,
+        ownerCreatedAt,
+        ownerPublishedPlugins: ownerPlugins.filter((p) => p.status === PluginStatus.PUBLISHED).length,
+        oauthScopes: oauthClients.filter((c) => c.isActive).flatMap((c) => c.scopes),
+        files: version.files,
+        previousFiles: previous ? previous.files : null,
+      });
+
+      await this.versionsRepository.update(versionId, {
+        riskScore: assessment.score,
+        riskFactors: assessment.factors,
+      });
+      this.logger.log(`Scored version ${versionId} at risk ${assessment.score}`);
+    } catch (error) {
+      this.logger.error(`Failed to score risk of version ${versionId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Starts the sandboxed dry run of a newly submitted version in the
+   * background; the report is stored on the version when it finishes.
+   * Failures are logged, never thrown, so they cannot fail the submission.
+   */
+  scheduleDryRun(
+    versionId: string,
+    entryPoint: string,
+    jsCode: string,
+    manifest: Record<string, any>,
+  ): void {
+    if (!this.dryRunner.enabled) {
+      return;
+    }
+
+    this.logger.debug(`Scheduling dry run of version ${versionId}`);
+    this.dryRunner
+      .run(entryPoint, jsCode, manifest)
+      .then((report) => this.versionsRepository.update(versionId, { dryRunReport: report }))
+      .then((updated) =>
+        this.logger.log(`Stored dry run report for version ${versionId}: ${updated.dryRunReport?.status}`),
+      )
+      .catch((error) =>
+        this.logger.error(`Failed to store dry run report for version ${versionId}: ${error.message}`),
+      );
   }
 
   /**
    * Submits a review decision for a plugin version.
+   * Requesting changes needs at least one review thread on the version, so
+   * the developer knows what to change. A version claimed by another
+   * reviewer cannot be decided on until the claim is released or expires.
+   *
+   * PUBLISH is recorded as an approval; the version is published once the
+   * approval policy's number of distinct reviewers have approved it.
    */
-  async submitReviewDecision(versionId: string, decision: ReviewDecisionRequestDto): Promise<void> {
+  async submitReviewDecision(
+    versionId: string,
+    decision: ReviewDecisionRequestDto,
+    reviewedBy: string,
+  ): Promise<ReviewDecisionResponse> {
     this.logger.log(
-      `Processing review decision for version ${versionId}: ${decision.decision} by ${decision.reviewedBy}`,
+      `Processing review decision for version ${versionId}: ${decision.decision} by ${reviewedBy}`,
     );
 
     const version = await this.getVersionForReview(versionId);
@@ -71,37 +344,128 @@ export class PluginReviewService {
     if (!plugin) {
       throw new ResourceNotFoundException('Plugin', 'id', version.pluginId);
     }
+    if (plugin.isDeleted) {
+      throw new InvalidTransitionException(`Plugin ${plugin.packageId} is deleted; restore it before reviewing`);
+    }
 
     // Validate state transition
     if (!this.isValidTransition(version.status, decision.decision)) {
       throw new InvalidTransitionException(
         `Version status is ${version.status}, cannot transition to ${decision.decision}`,
+        { entity: 'version', id: version.id, from: version.status, to: DECISION_STATUSES[decision.decision] },
       );
     }
 
-    // Perform automated safety check before allowing publication
+    if (this.isClaimedByOther(version, reviewedBy)) {
+      throw this.claimConflict(version);
+    }
+
+    if (
+      decision.decision === ReviewDecision.CHANGES_REQUESTED &&
+      (await this.commentsRepository.countThreadsByVersionId(versionId)) === 0
+    ) {
+      throw new InvalidTransitionException('Add at least one review comment before requesting changes');
+    }
+
+    // Versions matching the blocklist (which may have grown since submission) are flagged instead
     if (decision.decision === ReviewDecision.PUBLISH) {
-      if (!this.performAutomatedSafetyCheck(version)) {
-        throw new InvalidTransitionException(
-          'Automated safety check failed. Please review the code for security issues.',
+      const matches = await this.flagIfBlocklisted(version, reviewedBy);
+      if (matches.length > 0) {
+        throw new BlocklistedPackageException(plugin.packageId, matches);
+      }
+    }
+
+    // Critical static analysis findings block publication unless an admin overrides them with a reason
+    let scanOverrideReason: string | null = null;
+    if (decision.decision === ReviewDecision.PUBLISH) {
+      const blocking = this.performAutomatedSafetyCheck(version);
+      if (blocking.length > 0) {
+        scanOverrideReason = decision.scanOverrideReason?.trim() || null;
+        if (!scanOverrideReason) {
+          throw new ScanFindingsException(blocking);
+        }
+        this.logger.warn(
+          `Publishing version ${versionId} despite ${blocking.length} critical findings, overridden by ${reviewedBy}: ${scanOverrideReason}`,
         );
       }
     }
 
+    const requirement = await this.getApprovalRequirement(version);
+    const approvals = version.approvals || [];
+    const response = (status: VersionStatus, recorded: ReviewApproval[] = approvals) =>
+      new ReviewDecisionResponse(
+        versionId,
+        status,
+        this.toApprovalResponses(recorded),
+        requirement.required,
+        requirement.reasons,
+      );
+
     // Update version status based on decision
     switch (decision.decision) {
-      case ReviewDecision.PUBLISH:
-        await this.handlePublishDecision(version, plugin, decision.reviewedBy);
-        break;
+      case ReviewDecision.PUBLISH: {
+        if (approvals.some((a) => a.approvedBy === reviewedBy)) {
+          throw new ConflictException(
+            `${reviewedBy} has already approved this version; it needs approval from another reviewer`,
+          );
+        }
+        // Appended atomically, so concurrent approvals by other reviewers are all counted;
+        // the claim is released so the next approver can claim it
+        const approved = await this.versionsRepository.addApproval(version.id, {
+          approvedBy: reviewedBy,
+          approvedAt: new Date().toISOString(),
+        });
+        if (!approved) {
+          throw new ConflictException(
+            `Version ${version.version} was reviewed or approved by ${reviewedBy} meanwhile; reload it and try again`,
+          );
+        }
+        const recorded = approved.approvals || [];
+
+        if (recorded.length < requirement.required) {
+          this.logger.log(
+            `Recorded approval ${recorded.length}/${requirement.required} of version ${versionId} by ${reviewedBy}`,
+          );
+          await this.auditVersion(AuditAction.VERSION_APPROVED, version, reviewedBy, {
+            reason: scanOverrideReason,
+            metadata: { approvals: recorded.length, requiredApprovals: requirement.required },
+          });
+          return response(version.status, recorded);
+        }
+
+        await this.handlePublishDecision(version, plugin, reviewedBy, scanOverrideReason, recorded);
+        await this.auditVersion(AuditAction.VERSION_PUBLISHED, version, reviewedBy, {
+          newStatus: VersionStatus.PUBLISHED,
+          reason: scanOverrideReason,
+          metadata: { packageId: plugin.packageId, approvedBy: recorded.map((a) => a.approvedBy) },
+        });
+        return response(VersionStatus.PUBLISHED, recorded);
+      }
 
       case ReviewDecision.REJECT:
-        await this.handleRejectDecision(version, plugin, decision);
-        break;
+        await this.handleRejectDecision(version, plugin, decision, reviewedBy);
+        await this.auditVersion(AuditAction.VERSION_REJECTED, version, reviewedBy, {
+          newStatus: VersionStatus.REJECTED,
+          reason: decision.rejectionReason,
+          metadata: { packageId: plugin.packageId },
+        });
+        return response(VersionStatus.REJECTED);
+
+      case ReviewDecision.CHANGES_REQUESTED:
+        await this.handleChangesRequestedDecision(version, plugin, decision, reviewedBy);
+        await this.auditVersion(AuditAction.VERSION_CHANGES_REQUESTED, version, reviewedBy, {
+          newStatus: VersionStatus.CHANGES_REQUESTED,
+          reason: decision.rejectionReason,
+          metadata: { packageId: plugin.packageId },
+        });
+        return response(VersionStatus.CHANGES_REQUESTED);
     }
   }
 
   /**
    * Flags a plugin version for security violations.
+   *
+   * @throws InvalidTransitionException if the version is already flagged
    */
   async flagVersion(versionId: string, reason: string, flaggedBy: string): Promise<void> {
     this.logger.warn(`Flagging version ${versionId} for security: ${reason} by ${flaggedBy}`);
@@ -113,72 +477,109 @@ export class PluginReviewService {
       throw new ResourceNotFoundException('Plugin', 'id', version.pluginId);
     }
 
-    await this.versionsRepository.update(versionId, {
+    // The plugin falls back to its newest remaining installable version, if any
+    await this.lifecycle.transitionVersion(version, VersionStatus.FLAGGED, flaggedBy, {
       isFlagged: true,
       flagReason: reason,
-      status: VersionStatus.FLAGGED,
+      statusBeforeFlag: version.status,
     });
 
-    // Clear the latest version reference if this was the published version
-    if (versionId === plugin.latestVersionId) {
-      await this.pluginsRepository.update(plugin.id, {
-        latestVersionId: null,
-        status: PluginStatus.REJECTED,
-      });
+    await this.auditVersion(AuditAction.VERSION_FLAGGED, version, flaggedBy, {
+      newStatus: VersionStatus.FLAGGED,
+      reason,
+      metadata: { packageId: plugin.packageId },
+    });
+  }
+
+  /**
+   * Checks a newly submitted version against the blocklist and flags it on a
+   * match (e.g. its code references a blocked domain). Failures are logged,
+   * never thrown, so they cannot fail the submission; the version then goes
+   * to review unscreened.
+   *
+   * @returns A description of each match
+   */
+  async screenVersion(versionId: string): Promise<string[]> {
+    try {
+      const version = await this.getVersionForReview(versionId);
+      return await this.flagIfBlocklisted(version, BLOCKLIST_REVIEWER);
+    } catch (error) {
+      this.logger.error(`Failed to screen version ${versionId} against the blocklist: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Adds a blocklist entry and flags every installable (published or deprecated)
+   * version that matches it.
+   */
+  async addBlocklistEntry(
+    dto: AddBlocklistEntryRequestDto,
+    addedBy: string,
+  ): Promise<BlocklistEntryAddedResponse> {
+    const entry = await this.blocklistService.addEntry(dto, addedBy);
+
+    const flaggedVersionIds: string[] = [];
+    const installable = await Promise.all(
+      INSTALLABLE_VERSION_STATUSES.map((status) => this.versionsRepository.findByStatus(status)),
+    );
+    for (const version of installable.flat()) {
+      const matches = this.blocklistService.matchVersion(version, [entry]);
+      if (matches.length > 0) {
+        await this.flagVersion(version.id, this.blocklistFlagReason(matches), addedBy);
+        flaggedVersionIds.push(version.id);
+      }
+    }
+
+    if (flaggedVersionIds.length > 0) {
+      this.logger.warn(`Blocklist entry ${entry.id} flagged ${flaggedVersionIds.length} published versions`);
     }
+    return new BlocklistEntryAddedResponse(entry, flaggedVersionIds);
   }
 
   /**
-   * Unflags a previously flagged version.
+   * Unflags a flagged version, returning it to the status it had before it
+   * was flagged; its plugin is then recomputed, so an unflagged published
+   * version can become the latest again. Versions flagged before that status
+   * was recorded return to review.
+   *
+   * @throws InvalidTransitionException if the version is not flagged
    */
-  async unflagVersion(versionId: string): Promise<void> {
-    this.logger.log(`Unflagging version ${versionId}`);
+  async unflagVersion(versionId: string, unflaggedBy: string): Promise<void> {
+    this.logger.log(`Unflagging version ${versionId} by ${unflaggedBy}`);
 
     const version = await this.getVersionForReview(versionId);
-    await this.versionsRepository.update(versionId, {
+    if (version.status !== VersionStatus.FLAGGED) {
+      throw new InvalidTransitionException(`Version ${version.version} is not flagged`);
+    }
+
+    const status = version.statusBeforeFlag ?? VersionStatus.PENDING_REVIEW;
+    await this.lifecycle.transitionVersion(version, status, unflaggedBy, {
       isFlagged: false,
       flagReason: null,
+      statusBeforeFlag: null,
+    });
+    await this.auditVersion(AuditAction.VERSION_UNFLAGGED, version, unflaggedBy, {
+      newStatus: status,
+      metadata: { flagReason: version.flagReason ?? null },
     });
   }
 
   /**
-   * Performs automated safety checks on a plugin version.
-   * Currently a placeholder that always passes.
+   * Returns the version's static analysis findings that block publication.
+   * Findings are recorded by CodeScanner when the version is submitted.
    */
-  performAutomatedSafetyCheck(version: PluginVersion): boolean {
+  performAutomatedSafetyCheck(version: PluginVersion): ScanFinding[] {
     this.logger.debug(`Performing automated safety check on version ${version.id}`);
-
-    // ============================================================
-    // CURRENT: Placeholder implementation - always passes
-    // ============================================================
-
-    // ============================================================
-    // FUTURE: Extensible security checks (architected for addition)
-    // ============================================================
-
-    // 1. Regex-based dangerous code pattern detection
-    // 2. Domain blacklist validation
-    // 3. Code size validation
-    // 4. Obfuscation detection
-
-    return true;
+    return version.scanFindings.filter((f) => f.severity === ScanSeverity.CRITICAL);
   }
 
   /**
    * Validates that a review decision is valid for the current version status.
+   * Only versions awaiting review can be decided on; changes are made in a new version.
    */
   isValidTransition(currentStatus: VersionStatus, decision: ReviewDecision): boolean {
-    switch (currentStatus) {
-      case VersionStatus.SUBMITTED:
-      case VersionStatus.PENDING_REVIEW:
-        return true; // Can publish or reject
-      case VersionStatus.PUBLISHED:
-      case VersionStatus.REJECTED:
-      case VersionStatus.FLAGGED:
-        return false; // Cannot re-review
-      default:
-        return false;
-    }
+    return canTransitionVersion(currentStatus, DECISION_STATUSES[decision]);
   }
 
   /**
@@ -194,10 +595,135 @@ export class PluginReviewService {
 
   // ===== Private helper methods =====
 
+  /**
+   * Flags the version if it matches the blocklist.
+   *
+   * @returns A description of each match
+   */
+  private async flagIfBlocklisted(version: PluginVersion, flaggedBy: string): Promise<string[]> {
+    const matches = await this.blocklistService.findVersionMatches(version);
+    if (matches.length > 0) {
+      await this.flagVersion(version.id, this.blocklistFlagReason(matches), flaggedBy);
+    }
+    return matches;
+  }
+
+  /**
+   * How many distinct approvers the version needs under the review policy.
+   */
+  private async getApprovalRequirement(version: PluginVersion): Promise<ApprovalRequirement> {
+    const oauthClients = await this.oauthClientsRepository.findByPluginId(version.pluginId);
+    return this.reviewPolicy.requiredApprovals(
+      version.manifest.permissions || [],
+      oauthClients.filter((c) => c.isActive).map((c) => c.provider),
+    );
+  }
+
+  /**
+   * Records a review action on a version in the audit log. Blocklist flags
+   * are recorded as system actions.
+   */
+  private async auditVersion(
+    action: AuditAction,
+    version: PluginVersion,
+    actorId: string,
+    details: Pick<AuditEvent, 'newStatus' | 'reason' | 'metadata'> = {},
+  ): Promise<void> {
+    await this.auditService.record({
+      actorId,
+      actorRole: actorId === BLOCKLIST_REVIEWER ? AuditActorRole.SYSTEM : AuditActorRole.ADMIN,
+      action,
+      entityType: AuditEntityType.PLUGIN_VERSION,
+      entityId: version.id,
+      entityVersion: version.version,
+      oldStatus: version.status,
+      newStatus: details.newStatus ?? version.status,
+      reason: details.reason ?? null,
+      metadata: details.metadata ?? null,
+    });
+  }
+
+  private hasLiveClaim(version: PluginVersion, now = new Date()): boolean {
+    return !!version.claimedBy && !!version.claimExpiresAt && version.claimExpiresAt > now;
+  }
+
+  private isClaimedByOther(version: PluginVersion, reviewerId: string): boolean {
+    return this.hasLiveClaim(version) && version.claimedBy !== reviewerId;
+  }
+
+  private claimConflict(version: PluginVersion): ConflictException {
+    return new ConflictException(
+      `Version ${version.id} is claimed by ${version.claimedBy} until ${version.claimExpiresAt?.toISOString()}`,
+    );
+  }
+
+  private claimExpiry(): Date {
+    return new Date(Date.now() + this.configService.get('review').claimTtlMinutes * 60 * 1000);
+  }
+
+  private assertAwaitingReview(version: PluginVersion): void {
+    if (!AWAITING_REVIEW_VERSION_STATUSES.includes(version.status)) {
+      throw new InvalidTransitionException(
+        `Version status is ${version.status}; only versions awaiting review can be claimed`,
+      );
+    }
+  }
+
+  private toApprovalResponses(approvals: ReviewApproval[] | undefined): ReviewApprovalResponse[] {
+    return (approvals || []).map((a) => new ReviewApprovalResponse(a.approvedBy, a.approvedAt));
+  }
+
+  private toReviewQueueFilter(query: ReviewQueueQueryDto): ReviewQueueFilter {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+    const sort = query.sort || ReviewQueueSort.AGE;
+    const order =
+      query.order ||
+      (sort === ReviewQueueSort.RISK_SCORE || sort === ReviewQueueSort.FLAGGED ? SortOrder.DESC : SortOrder.ASC);
+
+    return {
+      statuses: query.status ? [query.status] : undefined,
+      flagged: query.flagged,
+      minRiskScore: query.minRiskScore,
+      maxRiskScore: query.maxRiskScore,
+      submittedBefore: query.minAgeHours !== undefined ? hoursAgo(query.minAgeHours) : undefined,
+      submittedAfter: query.maxAgeHours !== undefined ? hoursAgo(query.maxAgeHours) : undefined,
+      sort,
+      ascending: order === SortOrder.ASC,
+    };
+  }
+
+  private blocklistFlagReason(matches: string[]): string {
+    return `Matches the malware blocklist: ${matches.join('; ')}`;
+  }
+
+  private toDryRunReportResponse(report: DryRunReport | null | undefined): DryRunReportResponse | null {
+    if (!report) {
+      return null;
+    }
+    return new DryRunReportResponse(
+      report.status,
+      report.error ?? null,
+      report.startedAt,
+      report.durationMs,
+      report.phases.map(
+        (phase) =>
+          new DryRunPhaseResponse(
+            phase.name,
+            phase.outcome,
+            phase.durationMs,
+            phase.events.map((e) => new DryRunEventResponse(e.type, e.name, e.detail ?? null)),
+            phase.droppedEvents,
+          ),
+      ),
+    );
+  }
+
   private async handlePublishDecision(
     version: PluginVersion,
     plugin: Plugin,
     reviewedBy: string,
+    scanOverrideReason: string | null,
+    approvals: ReviewApproval[],
   ): Promise<void> {
     // Move artifact from temp to permanent storage
     if (version.tempStoragePath) {
@@ -223,28 +749,51 @@ export class PluginReviewService {
       }
     }
 
-    // Update version status
-    await this.versionsRepository.update(version.id, {
-      status: VersionStatus.PUBLISHED,
+    // Publish the version, counter-signing the artifact and its developer signature; the
+    // plugin points at it as latest, but an unpublished plugin stays off the store until
+    // its owner relists it
+    await this.lifecycle.transitionVersion(version, VersionStatus.PUBLISHED, reviewedBy, {
       reviewedAt: new Date(),
       reviewedBy,
       rejectionReason: null,
       publishedAt: new Date(),
-    });
-
-    // Update parent plugin to point to this version as latest
-    await this.pluginsRepository.update(plugin.id, {
-      latestVersionId: version.id,
-      status: PluginStatus.PUBLISHED,
+      signatures: this.countersign(version, plugin),
+      scanOverrideReason,
+      scanOverriddenBy: scanOverrideReason ? reviewedBy : null,
+      approvals,
+      claimedBy: null,
+      claimExpiresAt: null,
     });
 
     this.logger.log(`Published version ${version.version} of plugin ${plugin.packageId}`);
   }
 
+  /**
+   * Returns the version's signatures with a fresh store counter-signature,
+   * replacing any earlier one (e.g. from a previous publication).
+   */
+  private countersign(version: PluginVersion, plugin: Plugin): PluginVersion['signatures'] {
+    const signatures = version.signatures.filter((s) => s.role !== SignatureRole.STORE);
+    if (!version.checksumSha256) {
+      this.logger.warn(`Version ${version.id} has no checksum; skipping store counter-signature`);
+      return signatures;
+    }
+
+    const developerSignature = signatures.find((s) => s.role === SignatureRole.DEVELOPER);
+    const storeSignature = this.storeSigner.countersign(
+      plugin.packageId,
+      version.version,
+      version.checksumSha256,
+      developerSignature?.signature || null,
+    );
+    return storeSignature ? [...signatures, storeSignature] : signatures;
+  }
+
   private async handleRejectDecision(
     version: PluginVersion,
     plugin: Plugin,
     decision: ReviewDecisionRequestDto,
+    reviewedBy: string,
   ): Promise<void> {
     // Delete artifact from temp storage
     if (version.tempStoragePath) {
@@ -257,33 +806,36 @@ export class PluginReviewService {
       }
     }
 
-    // Update version status
-    await this.versionsRepository.update(version.id, {
-      status: VersionStatus.REJECTED,
+    // A plugin whose versions have all been turned down becomes REJECTED
+    await this.lifecycle.transitionVersion(version, VersionStatus.REJECTED, reviewedBy, {
       reviewedAt: new Date(),
-      reviewedBy: decision.reviewedBy,
+      reviewedBy,
       rejectionReason: decision.rejectionReason,
       tempStoragePath: null,
+      claimedBy: null,
+      claimExpiresAt: null,
     });
 
-    // If this was the latest version, clear the reference
-    if (version.id === plugin.latestVersionId) {
-      // Try to find another published version
-      const publishedVersions = await this.versionsRepository.findPublishedVersions(plugin.id);
-      if (publishedVersions.length === 0) {
-        await this.pluginsRepository.update(plugin.id, {
-          latestVersionId: null,
-          status: PluginStatus.REJECTED,
-        });
-      } else {
-        await this.pluginsRepository.update(plugin.id, {
-          latestVersionId: publishedVersions[0].id,
-        });
-      }
-    }
-
     this.logger.log(
       `Rejected version ${version.version} of plugin ${plugin.packageId}. Reason: ${decision.rejectionReason}`,
     );
   }
+
+  private async handleChangesRequestedDecision(
+    version: PluginVersion,
+    plugin: Plugin,
+    decision: ReviewDecisionRequestDto,
+    reviewedBy: string,
+  ): Promise<void> {
+    // The artifact stays in temp storage so the resubmission can be diffed against it
+    await this.lifecycle.transitionVersion(version, VersionStatus.CHANGES_REQUESTED, reviewedBy, {
+      reviewedAt: new Date(),
+      reviewedBy,
+      rejectionReason: decision.rejectionReason ?? null,
+      claimedBy: null,
+      claimExpiresAt: null,
+    });
+
+    this.logger.log(`Requested changes to version ${version.version} of plugin ${plugin.packageId}`);
+  }
 }
@@ -4,10 +4,50 @@ import { ConfigService } from '@nestjs/config';
 import {
   PluginVersion,
   CreatePluginVersionDto,
+  ReviewApproval,
 } from '../common/entities/plugin-version.entity';
-import { VersionStatus } from '../common/enums/version-status.enum';
+import { VersionStatus, INSTALLABLE_VERSION_STATUSES } from '../common/enums/version-status.enum';
+import { ReviewQueueSort } from '../common/enums/review-queue.enum';
+import {
+  KeysetColumn,
+  KeysetPage,
+  KeysetPageRequest,
+  keysetFilter,
+  toKeysetPage,
+} from '../common/utils/page-cursor.util';
 import * as crypto from 'crypto';
 
+/**
+ * Sorting and filtering for the review queue.
+ */
+export interface ReviewQueueFilter {
+  /** SUBMITTED and PENDING_REVIEW when omitted. */
+  statuses?: VersionStatus[];
+  flagged?: boolean;
+  minRiskScore?: number;
+  maxRiskScore?: number;
+  submittedBefore?: Date;
+  submittedAfter?: Date;
+  sort?: ReviewQueueSort;
+  ascending?: boolean;
+}
+
+const REVIEW_QUEUE_SORT_COLUMNS: Record<ReviewQueueSort, string> = {
+  [ReviewQueueSort.AGE]: 'created_at',
+  [ReviewQueueSort.RISK_SCORE]: 'risk_score',
+  [ReviewQueueSort.STATUS]: 'status',
+  [ReviewQueueSort.FLAGGED]: 'is_flagged',
+};
+
+/** Sort columns that may be null; nulls sort last. */
+const NULLABLE_REVIEW_QUEUE_SORT_COLUMNS: ReviewQueueSort[] = [ReviewQueueSort.RISK_SCORE];
+
+/** Order of a plugin's versions when paged: newest first, ties by ID. */
+const PLUGIN_VERSION_PAGE_COLUMNS: KeysetColumn[] = [
+  { column: 'created_at', ascending: false },
+  { column: 'id', ascending: true },
+];
+
 /**
  * Repository for PluginVersion entity using Supabase.
  * Provides data access methods for plugin version operations.
@@ -37,6 +77,29 @@ export class PluginVersionsRepository {
     return (data || []).map((item) => this.mapToEntity(item));
   }
 
+  /**
+   * Find a page of the versions of a plugin, newest first.
+   */
+  async findPageByPluginId(pluginId: string, page: KeysetPageRequest = {}): Promise<KeysetPage<PluginVersion>> {
+    let query = this.supabase.from('plugin_versions').select('*').eq('plugin_id', pluginId);
+    if (page.after) {
+      query = query.or(keysetFilter(PLUGIN_VERSION_PAGE_COLUMNS, page.after));
+    }
+    for (const { column, ascending } of PLUGIN_VERSION_PAGE_COLUMNS) {
+      query = query.order(column, { ascending });
+    }
+    if (page.limit !== undefined) {
+      query = query.limit(page.limit + 1);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list plugin versions: ${error.message}`);
+    }
+
+    return toKeysetPage(data || [], PLUGIN_VERSION_PAGE_COLUMNS, page.limit, (item) => this.mapToEntity(item));
+  }
+
   /**
    * Find a specific version by plugin ID and version string.
    */
@@ -86,27 +149,49 @@ export class PluginVersionsRepository {
   }
 
   /**
-   * Find versions in the review queue (SUBMITTED or PENDING_REVIEW).
+   * Find versions in the review queue (SUBMITTED or PENDING_REVIEW), oldest first
+   * unless the filter sorts otherwise. Unscored versions sort after scored ones.
    */
-  async findVersionsInReviewQueue(): Promise<PluginVersion[]> {
-    const { data } = await this.supabase
+  async findVersionsInReviewQueue(
+    filter: ReviewQueueFilter = {},
+    page: KeysetPageRequest = {},
+  ): Promise<KeysetPage<PluginVersion>> {
+    let query = this.supabase
       .from('plugin_versions')
       .select('*')
-      .in('status', [VersionStatus.SUBMITTED, VersionStatus.PENDING_REVIEW])
-      .order('created_at', { ascending: true });
+      .in('status', filter.statuses || [VersionStatus.SUBMITTED, VersionStatus.PENDING_REVIEW]);
 
-    return (data || []).map((item) => this.mapToEntity(item));
+    if (filter.flagged !== undefined) query = query.eq('is_flagged', filter.flagged);
+    if (filter.minRiskScore !== undefined) query = query.gte('risk_score', filter.minRiskScore);
+    if (filter.maxRiskScore !== undefined) query = query.lte('risk_score', filter.maxRiskScore);
+    if (filter.submittedBefore) query = query.lte('created_at', filter.submittedBefore.toISOString());
+    if (filter.submittedAfter) query = query.gte('created_at', filter.submittedAfter.toISOString());
+
+    const columns = this.reviewQueueColumns(filter);
+    if (page.after) {
+      query = query.or(keysetFilter(columns, page.after));
+    }
+    for (const { column, ascending } of columns) {
+      query = query.order(column, { ascending, nullsFirst: false });
+    }
+    if (page.limit !== undefined) {
+      query = query.limit(page.limit + 1);
+    }
+
+    const { data } = await query;
+
+    return toKeysetPage(data || [], columns, page.limit, (item) => this.mapToEntity(item));
   }
 
   /**
-   * Find the latest published version for a plugin.
+   * Find the installable (published or deprecated) versions of a plugin, newest first.
    */
   async findPublishedVersions(pluginId: string): Promise<PluginVersion[]> {
     const { data } = await this.supabase
       .from('plugin_versions')
       .select('*')
       .eq('plugin_id', pluginId)
-      .eq('status', VersionStatus.PUBLISHED)
+      .in('status', [...INSTALLABLE_VERSION_STATUSES])
       .order('created_at', { ascending: false });
 
     return (data || []).map((item) => this.mapToEntity(item));
@@ -114,7 +199,8 @@ export class PluginVersionsRepository {
 
   /**
    * Find the latest compatible version for a given plugin and app version.
-   * Returns the newest published version where min_app_version <= requested_app_version.
+   * Returns the newest installable version where min_app_version <= requested_app_version;
+   * yanked versions are never returned.
    */
   async findLatestCompatibleVersion(
     pluginId: string,
@@ -182,8 +268,14 @@ export class PluginVersionsRepository {
       file_size_bytes: dto.fileSizeBytes || null,
       checksum_sha256: dto.checksumSha256 || null,
       manifest: dto.manifest,
+      files: dto.files || [],
+      signatures: dto.signatures || [],
+      scan_findings: dto.scanFindings || [],
+      permission_analysis: dto.permissionAnalysis || null,
+      resubmission_of: dto.resubmissionOfVersionId || null,
       min_app_version: dto.minAppVersion,
       release_notes: dto.releaseNotes || null,
+      readme: dto.readme || null,
       status: VersionStatus.SUBMITTED,
       download_count: 0,
       is_flagged: false,
@@ -220,6 +312,20 @@ export class PluginVersionsRepository {
     if (updates.downloadCount !== undefined) updateData.download_count = updates.downloadCount;
     if (updates.isFlagged !== undefined) updateData.is_flagged = updates.isFlagged;
     if (updates.flagReason !== undefined) updateData.flag_reason = updates.flagReason;
+    if (updates.statusBeforeFlag !== undefined) updateData.status_before_flag = updates.statusBeforeFlag;
+    if (updates.signatures !== undefined) updateData.signatures = updates.signatures;
+    if (updates.scanOverrideReason !== undefined) updateData.scan_override_reason = updates.scanOverrideReason;
+    if (updates.scanOverriddenBy !== undefined) updateData.scan_overridden_by = updates.scanOverriddenBy;
+    if (updates.dryRunReport !== undefined) updateData.dry_run_report = updates.dryRunReport;
+    if (updates.riskScore !== undefined) updateData.risk_score = updates.riskScore;
+    if (updates.riskFactors !== undefined) updateData.risk_factors = updates.riskFactors;
+    if (updates.claimedBy !== undefined) updateData.claimed_by = updates.claimedBy;
+    if (updates.claimExpiresAt !== undefined) updateData.claim_expires_at = updates.claimExpiresAt?.toISOString() ?? null;
+    if (updates.approvals !== undefined) updateData.approvals = updates.approvals;
+    if (updates.deprecationMessage !== undefined) updateData.deprecation_message = updates.deprecationMessage;
+    if (updates.deprecatedAt !== undefined) updateData.deprecated_at = updates.deprecatedAt?.toISOString() ?? null;
+    if (updates.yankReason !== undefined) updateData.yank_reason = updates.yankReason;
+    if (updates.yankedAt !== undefined) updateData.yanked_at = updates.yankedAt?.toISOString() ?? null;
 
     const { data, error } = await this.supabase
       .from('plugin_versions')
@@ -235,6 +341,49 @@ export class PluginVersionsRepository {
     return this.mapToEntity(data);
   }
 
+  /**
+   * Claim a version for review unless another reviewer holds an unexpired
+   * claim. The check and the update are one statement, so two reviewers
+   * claiming at once cannot both succeed.
+   *
+   * @returns The claimed version, or null if someone else holds the claim
+   */
+  async claim(id: string, claimedBy: string, expiresAt: Date, now = new Date()): Promise<PluginVersion | null> {
+    const { data, error } = await this.supabase
+      .from('plugin_versions')
+      .update({ claimed_by: claimedBy, claim_expires_at: expiresAt.toISOString() })
+      .eq('id', id)
+      .or(`claimed_by.is.null,claimed_by.eq."${claimedBy}",claim_expires_at.lt.${now.toISOString()}`)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to claim plugin version: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? this.mapToEntity(data[0]) : null;
+  }
+
+  /**
+   * Append a reviewer's approval to a version awaiting review and release its
+   * claim (record_version_approval()). The check and the append are one
+   * statement, so two reviewers approving at once both count.
+   *
+   * @returns The updated version, or null if the version is no longer awaiting
+   *   review or the reviewer has already approved it
+   */
+  async addApproval(id: string, approval: ReviewApproval): Promise<PluginVersion | null> {
+    const { data, error } = await this.supabase.rpc('record_version_approval', {
+      p_version_id: id,
+      p_approval: approval,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record approval: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? this.mapToEntity(data[0]) : null;
+  }
+
   /**
    * Find a version by ID.
    */
@@ -291,6 +440,27 @@ export class PluginVersionsRepository {
     this.logger.log(`Deleted all plugin versions for plugin ID: ${pluginId}`);
   }
 
+  /**
+   * The review queue order: the sort column, then oldest first (ties and the
+   * default order), then the version ID.
+   */
+  private reviewQueueColumns(filter: ReviewQueueFilter): KeysetColumn[] {
+    const sort = filter.sort || ReviewQueueSort.AGE;
+    const columns: KeysetColumn[] = [];
+    if (sort !== ReviewQueueSort.AGE) {
+      columns.push({
+        column: REVIEW_QUEUE_SORT_COLUMNS[sort],
+        ascending: filter.ascending ?? true,
+        nullable: NULLABLE_REVIEW_QUEUE_SORT_COLUMNS.includes(sort),
+      });
+    }
+    columns.push(
+      { column: 'created_at', ascending: sort === ReviewQueueSort.AGE ? filter.ascending ?? true : true },
+      { column: 'id', ascending: true },
+    );
+    return columns;
+  }
+
   /**
    * Map database row to PluginVersion entity.
    */
@@ -307,6 +477,7 @@ export class PluginVersionsRepository {
       manifest: data.manifest || {},
       minAppVersion: data.min_app_version,
       releaseNotes: data.release_notes,
+      readme: data.readme,
       status: data.status as VersionStatus,
       rejectionReason: data.rejection_reason,
       reviewedBy: data.reviewed_by,
@@ -316,6 +487,24 @@ export class PluginVersionsRepository {
       downloadCount: data.download_count || 0,
       isFlagged: data.is_flagged || false,
       flagReason: data.flag_reason,
+      statusBeforeFlag: data.status_before_flag as VersionStatus | null,
+      files: data.files || [],
+      signatures: data.signatures || [],
+      scanFindings: data.scan_findings || [],
+      scanOverrideReason: data.scan_override_reason,
+      scanOverriddenBy: data.scan_overridden_by,
+      permissionAnalysis: data.permission_analysis,
+      dryRunReport: data.dry_run_report,
+      riskScore: data.risk_score,
+      riskFactors: data.risk_factors || [],
+      resubmissionOfVersionId: data.resubmission_of,
+      claimedBy: data.claimed_by,
+      claimExpiresAt: data.claim_expires_at ? new Date(data.claim_expires_at) : null,
+      approvals: data.approvals || [],
+      deprecationMessage: data.deprecation_message,
+      deprecatedAt: data.deprecated_at ? new Date(data.deprecated_at) : null,
+      yankReason: data.yank_reason,
+      yankedAt: data.yanked_at ? new Date(data.yanked_at) : null,
     };
   }
 }
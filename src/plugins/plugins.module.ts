@@ -1,12 +1,24 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
 import { PluginsService } from './plugins.service';
 import { PluginReviewService } from './plugin-review.service';
+import { VersionDiffService } from './version-diff.service';
+import { ReviewCommentsService } from './review-comments.service';
+import { ReviewPolicy } from './review-policy.service';
+import { PluginRetentionService } from './plugin-retention.service';
+import { StoreSuggestionsRefreshService } from './store-suggestions-refresh.service';
+import { PluginLifecycleService } from './plugin-lifecycle.service';
 import { PluginsRepository } from './plugins.repository';
 import { PluginVersionsRepository } from './plugin-versions.repository';
+import { ReviewCommentsRepository } from './review-comments.repository';
 import { StoreController } from './store.controller';
 import { StorageModule } from '../storage/storage.module';
+import { SigningModule } from '../signing/signing.module';
+import { SandboxModule } from '../sandbox/sandbox.module';
+import { BlocklistModule } from '../blocklist/blocklist.module';
+import { RiskModule } from '../risk/risk.module';
+import { OAuthModule } from '../oauth/oauth.module';
 
 /**
  * Plugins module - handles core plugin functionality.
@@ -15,19 +27,45 @@ import { StorageModule } from '../storage/storage.module';
   imports: [
     ConfigModule,
     StorageModule,
-    MulterModule.register({
-      limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB
-      },
+    SigningModule,
+    SandboxModule,
+    BlocklistModule,
+    RiskModule,
+    OAuthModule,
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          // MAX_UPLOAD_SIZE_MB; larger uploads are rejected with 413 while streaming
+          fileSize: configService.get('supabase').maxUploadSizeMb * 1024 * 1024,
+          files: 1,
+        },
+      }),
     }),
   ],
   controllers: [StoreController],
   providers: [
     PluginsService,
     PluginReviewService,
+    VersionDiffService,
+    ReviewCommentsService,
+    ReviewPolicy,
+    PluginRetentionService,
+    StoreSuggestionsRefreshService,
+    PluginLifecycleService,
     PluginsRepository,
     PluginVersionsRepository,
+    ReviewCommentsRepository,
+  ],
+  exports: [
+    PluginsService,
+    PluginReviewService,
+    VersionDiffService,
+    ReviewCommentsService,
+    ReviewPolicy,
+    PluginLifecycleService,
+    PluginsRepository,
   ],
-  exports: [PluginsService, PluginReviewService],
 })
 export class PluginsModule {}
@@ -3,7 +3,92 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { ConfigService } from '@nestjs/config';
 import { Plugin, CreatePluginDto, UpdatePluginDto } from '../common/entities/plugin.entity';
 import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { StorePluginSort } from '../common/enums/store-plugin-sort.enum';
 import { ResourceNotFoundException } from '../common/exceptions/resource-not-found.exception';
+import { KeysetColumn, KeysetValue, keysetFilter, toKeysetPage } from '../common/utils/page-cursor.util';
+
+/**
+ * Filters for the store listing; every given filter must match.
+ */
+export interface StorePluginFilter {
+  category?: string;
+  /** Words matched by prefix against the search document, or the name with a typo. */
+  search?: string;
+  /** Lower-case tags the plugin must all have. */
+  tags?: string[];
+  author?: string;
+  verified?: boolean;
+  featured?: boolean;
+  /** Only plugins with an installable version that runs on this app version. */
+  appVersion?: string;
+}
+
+/**
+ * Where a store page starts: after the sort key of the previous page's last
+ * plugin, or at an offset.
+ */
+export interface StorePageRequest {
+  limit: number;
+  offset?: number;
+  after?: KeysetValue[];
+}
+
+/**
+ * A store search suggestion and its number of published plugins.
+ */
+export interface StoreSuggestion {
+  kind: 'name' | 'category' | 'tag' | 'author';
+  value: string;
+  count: number;
+}
+
+/**
+ * How a plugin matched a store search; the name and snippet are HTML-escaped
+ * with the matched words in `<mark>`.
+ */
+export interface StorePluginMatch {
+  rank: number;
+  nameHighlight: string;
+  snippet: string | null;
+}
+
+/**
+ * A page of published plugins, the number of plugins matching the filter and
+ * the sort key of the page's last plugin when more follow. Pages sorted by
+ * relevance carry each plugin's search match, by plugin ID.
+ */
+export interface StorePluginPage {
+  plugins: Plugin[];
+  total: number;
+  nextKey: KeysetValue[] | null;
+  matches?: Map<string, StorePluginMatch>;
+}
+
+/**
+ * Number of matching plugins per category and tag value.
+ */
+export interface StorePluginFacetCount {
+  facet: 'category' | 'tag';
+  value: string;
+  count: number;
+}
+
+/**
+ * Columns each store sort orders by, in order; ties fall back to the plugin ID.
+ * Relevance is ranked by search_plugins().
+ */
+const STORE_SORT_COLUMNS: Record<Exclude<StorePluginSort, StorePluginSort.RELEVANCE>, KeysetColumn[]> = {
+  [StorePluginSort.DOWNLOADS]: [{ column: 'total_downloads', ascending: false, nullable: true }],
+  [StorePluginSort.RATING]: [
+    { column: 'rating_average', ascending: false, nullable: true },
+    { column: 'rating_count', ascending: false, nullable: true },
+  ],
+  [StorePluginSort.RECENT]: [
+    { column: 'last_updated_at', ascending: false, nullable: true },
+    { column: 'created_at', ascending: false, nullable: true },
+  ],
+  [StorePluginSort.NAME]: [{ column: 'name', ascending: true }],
+};
 
 /**
  * Repository for Plugin entity using Supabase.
@@ -65,41 +150,116 @@ export class PluginsRepository {
   }
 
   /**
-   * Find all plugins in a specific category with PUBLISHED status.
+   * Find a page of published plugins matching the store listing filter.
+   * Filtering, sorting and paging happen in the database (store_plugins()).
+   * Relevance sorting needs a search.
    */
-  async findByCategoryAndStatus(category: string, status: PluginStatus): Promise<Plugin[]> {
-    const { data } = await this.supabase
-      .from('plugins')
-      .select('*')
-      .eq('category', category)
-      .eq('status', status)
-      .order('created_at', { ascending: false });
+  async findStorePage(
+    filter: StorePluginFilter,
+    sort: StorePluginSort,
+    page: StorePageRequest,
+  ): Promise<StorePluginPage> {
+    if (sort === StorePluginSort.RELEVANCE) {
+      return this.findStoreSearchPage(filter, page);
+    }
 
-    return (data || []).map((item) => this.mapToEntity(item));
+    const columns = [...STORE_SORT_COLUMNS[sort], { column: 'id', ascending: true }];
+    const params = this.toStoreFilterParams(filter);
+    // Past a cursor the page query only sees the remaining plugins, so the total is counted apart
+    let query = this.supabase.rpc('store_plugins', params, { count: page.after ? undefined : 'exact' });
+    if (page.after) {
+      query = query.or(keysetFilter(columns, page.after));
+    }
+    for (const { column, ascending } of columns) {
+      query = query.order(column, { ascending, nullsFirst: false });
+    }
+
+    const offset = page.after ? 0 : page.offset ?? 0;
+    const [{ data, count, error }, total] = await Promise.all([
+      query.range(offset, offset + page.limit),
+      page.after ? this.countStorePlugins(params) : undefined,
+    ]);
+    if (error) {
+      throw new Error(`Failed to list store plugins: ${error.message}`);
+    }
+
+    const { items, nextKey } = toKeysetPage(data || [], columns, page.limit, (item) => this.mapToEntity(item));
+    return { plugins: items, total: total ?? count ?? 0, nextKey };
   }
 
   /**
-   * Search for published plugins by name or description containing the search term.
+   * Count the published plugins matching the store listing filter per
+   * category and tag (store_plugin_facets()).
    */
-  async searchPublishedPlugins(searchTerm: string, status: PluginStatus): Promise<Plugin[]> {
+  async countStoreFacets(filter: StorePluginFilter): Promise<StorePluginFacetCount[]> {
+    const { data, error } = await this.supabase.rpc('store_plugin_facets', this.toStoreFilterParams(filter));
+    if (error) {
+      throw new Error(`Failed to count store facets: ${error.message}`);
+    }
+
+    return (data || []).map((item: any) => ({
+      facet: item.facet,
+      value: item.value,
+      count: Number(item.plugin_count),
+    }));
+  }
+
+  /**
+   * Find up to `limit` suggestions of each kind for a search prefix, from the
+   * precomputed store_suggestions index (store_suggest()).
+   */
+  async findStoreSuggestions(query: string, limit: number): Promise<StoreSuggestion[]> {
+    const { data, error } = await this.supabase.rpc('store_suggest', { p_query: query, p_limit: limit });
+    if (error) {
+      throw new Error(`Failed to find store suggestions: ${error.message}`);
+    }
+
+    return (data || []).map((item: any) => ({
+      kind: item.kind,
+      value: item.value,
+      count: Number(item.plugin_count),
+    }));
+  }
+
+  /**
+   * Rebuild the store_suggestions index if plugin changes are pending
+   * (refresh_store_suggestions()).
+   *
+   * @returns Whether the index was rebuilt
+   */
+  async refreshStoreSuggestions(): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('refresh_store_suggestions');
+    if (error) {
+      throw new Error(`Failed to refresh store suggestions: ${error.message}`);
+    }
+    return data === true;
+  }
+
+  /**
+   * Find all plugins by author.
+   */
+  async findByAuthor(author: string): Promise<Plugin[]> {
     const { data } = await this.supabase
       .from('plugins')
       .select('*')
-      .eq('status', status)
-      .or(`name.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`)
+      .eq('author', author)
       .order('created_at', { ascending: false });
 
     return (data || []).map((item) => this.mapToEntity(item));
   }
 
   /**
-   * Find all plugins by author.
+   * Find all plugins owned by any of the given developer or organization accounts.
    */
-  async findByAuthor(author: string): Promise<Plugin[]> {
+  async findByOwnerDeveloperIds(ownerDeveloperIds: string[]): Promise<Plugin[]> {
+    if (ownerDeveloperIds.length === 0) {
+      return [];
+    }
+
     const { data } = await this.supabase
       .from('plugins')
       .select('*')
-      .eq('author', author)
+      .in('owner_developer_id', ownerDeveloperIds)
       .order('created_at', { ascending: false });
 
     return (data || []).map((item) => this.mapToEntity(item));
@@ -134,6 +294,28 @@ export class PluginsRepository {
     return this.mapToEntity(data);
   }
 
+  /**
+   * Find deleted plugins, oldest deletion first, optionally only those deleted before a cutoff.
+   */
+  async findDeleted(deletedBefore?: Date): Promise<Plugin[]> {
+    let query = this.supabase
+      .from('plugins')
+      .select('*')
+      .eq('is_deleted', true);
+
+    if (deletedBefore) {
+      query = query.lt('deleted_at', deletedBefore.toISOString());
+    }
+
+    const { data, error } = await query.order('deleted_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch deleted plugins: ${error.message}`);
+    }
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
   /**
    * Create a new plugin.
    */
@@ -144,6 +326,7 @@ export class PluginsRepository {
       name: dto.name,
       description: dto.description || null,
       author: dto.author,
+      owner_developer_id: dto.ownerDeveloperId || null,
       icon_key: dto.iconKey || null,
       status: PluginStatus.SUBMITTED,
       category: dto.category || null,
@@ -182,6 +365,12 @@ export class PluginsRepository {
     if (dto.sourceUrl !== undefined) updateData.source_url = dto.sourceUrl;
     if (dto.status !== undefined) updateData.status = dto.status;
     if (dto.latestVersionId !== undefined) updateData.latest_version_id = dto.latestVersionId;
+    if (dto.ownerDeveloperId !== undefined) updateData.owner_developer_id = dto.ownerDeveloperId;
+    if (dto.unpublishedAt !== undefined) updateData.unpublished_at = dto.unpublishedAt ? dto.unpublishedAt.toISOString() : null;
+    if (dto.isDeleted !== undefined) updateData.is_deleted = dto.isDeleted;
+    if (dto.deletedAt !== undefined) updateData.deleted_at = dto.deletedAt ? dto.deletedAt.toISOString() : null;
+    if (dto.deletedBy !== undefined) updateData.deleted_by = dto.deletedBy;
+    if (dto.statusBeforeDeletion !== undefined) updateData.status_before_deletion = dto.statusBeforeDeletion;
 
     const { data, error } = await this.supabase
       .from('plugins')
@@ -246,6 +435,70 @@ export class PluginsRepository {
     this.logger.log(`Deleted plugin with package ID: ${packageId}`);
   }
 
+  /**
+   * A page of search matches, best first (search_plugins()). The sort key is
+   * the rank and plugin ID.
+   */
+  private async findStoreSearchPage(filter: StorePluginFilter, page: StorePageRequest): Promise<StorePluginPage> {
+    if (!filter.search) {
+      throw new Error('Relevance sorting needs a search');
+    }
+
+    const params = this.toStoreFilterParams(filter);
+    const [afterRank, afterId] = page.after ?? [null, null];
+    const { data, error } = await this.supabase.rpc('search_plugins', {
+      ...params,
+      p_offset: page.after ? 0 : page.offset ?? 0,
+      p_limit: page.limit + 1,
+      p_after_rank: afterRank,
+      p_after_id: afterId,
+    });
+    if (error) {
+      throw new Error(`Failed to search store plugins: ${error.message}`);
+    }
+
+    const rows: any[] = data || [];
+    // Every row carries the total; past the last match there is no row to read it from
+    const total = rows.length > 0 ? Number(rows[0].total_count) : await this.countStorePlugins(params);
+    const kept = rows.slice(0, page.limit);
+    const last = kept[kept.length - 1];
+    const matches = new Map<string, StorePluginMatch>();
+    for (const row of kept) {
+      matches.set(row.plugin.id, {
+        rank: row.search_rank,
+        nameHighlight: row.name_highlight,
+        snippet: row.snippet ?? null,
+      });
+    }
+
+    return {
+      plugins: kept.map((row) => this.mapToEntity(row.plugin)),
+      total,
+      nextKey: rows.length > page.limit ? [last.search_rank, last.plugin.id] : null,
+      matches,
+    };
+  }
+
+  private async countStorePlugins(params: Record<string, unknown>): Promise<number> {
+    const { count, error } = await this.supabase.rpc('store_plugins', params, { count: 'exact' }).range(0, 0);
+    if (error) {
+      throw new Error(`Failed to count store plugins: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+
+  private toStoreFilterParams(filter: StorePluginFilter): Record<string, unknown> {
+    return {
+      p_category: filter.category ?? null,
+      p_search: filter.search ?? null,
+      p_tags: filter.tags?.length ? filter.tags : null,
+      p_author: filter.author ?? null,
+      p_verified: filter.verified ?? null,
+      p_featured: filter.featured ?? null,
+      p_app_version: filter.appVersion ?? null,
+    };
+  }
+
   /**
    * Map database row to Plugin entity.
    */
@@ -256,15 +509,29 @@ export class PluginsRepository {
       name: data.name,
       description: data.description,
       author: data.author,
+      ownerDeveloperId: data.owner_developer_id,
       iconKey: data.icon_key,
       status: data.status as PluginStatus,
       latestVersionId: data.latest_version_id,
       category: data.category,
       tags: data.tags,
       sourceUrl: data.source_url,
+      totalDownloads: Number(data.total_downloads ?? 0),
+      // DECIMAL columns arrive as strings
+      ratingAverage:
+        data.rating_average === null || data.rating_average === undefined ? null : Number(data.rating_average),
+      ratingCount: data.rating_count ?? 0,
+      verified: !!data.verified,
+      featured: !!data.featured,
+      lastUpdatedAt: data.last_updated_at ? new Date(data.last_updated_at) : null,
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
       version: data.version,
+      unpublishedAt: data.unpublished_at ? new Date(data.unpublished_at) : null,
+      isDeleted: !!data.is_deleted,
+      deletedAt: data.deleted_at ? new Date(data.deleted_at) : null,
+      deletedBy: data.deleted_by,
+      statusBeforeDeletion: data.status_before_deletion as PluginStatus | null,
     };
   }
 }
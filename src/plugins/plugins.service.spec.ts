@@ -3,12 +3,25 @@ import { ConfigService } from '@nestjs/config';
 import { PluginsService } from './plugins.service';
 import { PluginsRepository } from './plugins.repository';
 import { PluginVersionsRepository } from './plugin-versions.repository';
+import { PluginLifecycleService } from './plugin-lifecycle.service';
 import { StorageService } from '../storage/storage.service';
 import { PluginStatus } from '../common/enums/plugin-status.enum';
-import { ResourceNotFoundException, VersionConflictException } from '../common/exceptions';
+import {
+  ResourceNotFoundException,
+  VersionConflictException,
+  PackageOwnershipException,
+  PackageReservedException,
+  InvalidTransitionException,
+  InvalidCursorException,
+} from '../common/exceptions';
 import { Plugin, CreatePluginDto } from '../common/entities/plugin.entity';
 import { PluginVersion } from '../common/entities/plugin-version.entity';
 import { VersionStatus } from '../common/enums/version-status.enum';
+import { SignatureRole } from '../common/enums/signature-role.enum';
+import { PermissionFindingType } from '../common/enums/permission-finding.enum';
+import { AuditService } from '../audit/audit.service';
+import { AuditActorRole } from '../common/enums/audit.enum';
+import { StorePluginSort } from '../common/enums/store-plugin-sort.enum';
 
 describe('PluginsService', () => {
   let service: PluginsService;
@@ -54,26 +67,49 @@ describe('PluginsService', () => {
     tempStoragePath: null,
     createdAt: new Date('2024-01-01'),
     flagReason: null,
+    files: [
+      { path: 'manifest.json', size: 120, sha256: 'aa11', mimeType: 'application/json' },
+      { path: 'lib/utils.js', size: 2048, sha256: 'bb22', mimeType: 'text/javascript' },
+    ],
+    signatures: [],
+    scanFindings: [],
+  };
+
+  const deletedPlugin: Plugin = {
+    ...mockPlugin,
+    status: PluginStatus.DELETED,
+    isDeleted: true,
+    deletedAt: new Date('2024-03-01T00:00:00.000Z'),
+    deletedBy: 'admin-1',
+    statusBeforeDeletion: PluginStatus.PUBLISHED,
   };
 
   beforeEach(async () => {
     const mockPluginsRepository = {
       findByPackageId: jest.fn(),
       findByStatus: jest.fn(),
-      searchPublishedPlugins: jest.fn(),
-      findByCategoryAndStatus: jest.fn(),
+      findStorePage: jest.fn(),
+      countStoreFacets: jest.fn().mockResolvedValue([]),
+      findStoreSuggestions: jest.fn(),
+      findById: jest.fn(),
+      findDeleted: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      delete: jest.fn(),
     };
 
     const mockVersionsRepository = {
       findById: jest.fn(),
       findByPluginIdAndVersion: jest.fn(),
       findByPluginIdOrderByCreatedAtDesc: jest.fn(),
+      findPageByPluginId: jest.fn(),
       findLatestCompatibleVersion: jest.fn(),
       create: jest.fn(),
       incrementDownloadCount: jest.fn(),
       countByPluginIdAndStatus: jest.fn(),
+      findPublishedVersions: jest.fn(),
+      update: jest.fn(),
+      deleteByPluginId: jest.fn(),
     };
 
     const mockStorageService = {
@@ -88,7 +124,10 @@ describe('PluginsService', () => {
     const mockConfigService = {
       get: jest.fn((key: string) => {
         if (key === 'app.pagination') {
-          return { defaultPageSize: 20, maxPageSize: 100 };
+          return { defaultPageSize: 20, maxPageSize: 100, cursorSecret: 'test-secret' };
+        }
+        if (key === 'retention') {
+          return { deletedPluginRetentionDays: 30, purgeIntervalMinutes: 60 };
         }
         return null;
       }),
@@ -97,6 +136,7 @@ describe('PluginsService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PluginsService,
+        PluginLifecycleService,
         {
           provide: PluginsRepository,
           useValue: mockPluginsRepository,
@@ -113,6 +153,7 @@ describe('PluginsService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        { provide: AuditService, useValue: { record: jest.fn() } },
       ],
     }).compile();
 
@@ -128,50 +169,179 @@ describe('PluginsService', () => {
   });
 
   describe('listPublishedPlugins', () => {
-    it('should return paginated published plugins', async () => {
+    it('should return a page of published plugins, most recently published first', async () => {
       const plugins = [mockPlugin, { ...mockPlugin, id: 'plugin-2', packageId: 'com.example.plugin2' }];
-      pluginsRepository.findByStatus.mockResolvedValue(plugins);
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins, total: 12, nextKey: null });
 
-      const result = await service.listPublishedPlugins(undefined, undefined, 0, 10);
+      const result = await service.listPublishedPlugins({ page: 1, pageSize: 10 });
 
       expect(result).toEqual({
         data: expect.any(Array),
-        total: 2,
-        page: 0,
+        total: 12,
+        page: 1,
         pageSize: 10,
-        totalPages: 1,
+        totalPages: 2,
+        facets: { categories: [], tags: [] },
+        nextCursor: null,
+      });
+      expect(result.data).toHaveLength(2);
+      expect(pluginsRepository.findStorePage).toHaveBeenCalledWith({}, StorePluginSort.RECENT, {
+        limit: 10,
+        offset: 10,
+        after: undefined,
+      });
+    });
+
+    it('should combine the filters and pass the sort to the database', async () => {
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 1, nextKey: null });
+
+      await service.listPublishedPlugins({
+        category: 'productivity',
+        search: ' test ',
+        tags: ['tasks', 'sync'],
+        author: 'Test Author',
+        verified: true,
+        featured: false,
+        minAppVersion: '1.2.0',
+        sort: StorePluginSort.RATING,
+      });
+
+      const filter = {
+        category: 'productivity',
+        search: 'test',
+        tags: ['tasks', 'sync'],
+        author: 'Test Author',
+        verified: true,
+        featured: false,
+        appVersion: '1.2.0',
+      };
+      expect(pluginsRepository.findStorePage).toHaveBeenCalledWith(filter, StorePluginSort.RATING, {
+        limit: 20,
+        offset: 0,
+        after: undefined,
       });
-      expect(pluginsRepository.findByStatus).toHaveBeenCalledWith(PluginStatus.PUBLISHED);
+      expect(pluginsRepository.countStoreFacets).toHaveBeenCalledWith(filter);
     });
 
-    it('should search plugins when search term is provided', async () => {
-      const plugins = [mockPlugin];
-      pluginsRepository.searchPublishedPlugins.mockResolvedValue(plugins);
+    it('should rank search results by relevance and return how each plugin matched', async () => {
+      const matches = new Map([
+        ['plugin-1', { rank: 0.83, nameHighlight: '<mark>Test</mark> Plugin', snippet: 'A <mark>test</mark> plugin' }],
+      ]);
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 1, nextKey: null, matches });
 
-      const result = await service.listPublishedPlugins(undefined, 'test', 0, 10);
+      const result = await service.listPublishedPlugins({ search: 'test' });
 
-      expect(result.total).toBe(1);
-      expect(pluginsRepository.searchPublishedPlugins).toHaveBeenCalledWith('test', PluginStatus.PUBLISHED);
+      expect(pluginsRepository.findStorePage).toHaveBeenCalledWith(
+        { search: 'test' },
+        StorePluginSort.RELEVANCE,
+        expect.anything(),
+      );
+      expect(result.data[0].search).toEqual({
+        rank: 0.83,
+        nameHighlight: '<mark>Test</mark> Plugin',
+        snippet: 'A <mark>test</mark> plugin',
+      });
     });
 
-    it('should filter by category when category is provided', async () => {
-      const plugins = [mockPlugin];
-      pluginsRepository.findByCategoryAndStatus.mockResolvedValue(plugins);
+    it('should list the most recently published first when sorted by relevance without a search', async () => {
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 1, nextKey: null });
 
-      const result = await service.listPublishedPlugins('productivity', undefined, 0, 10);
+      const result = await service.listPublishedPlugins({ sort: StorePluginSort.RELEVANCE });
 
-      expect(result.total).toBe(1);
-      expect(pluginsRepository.findByCategoryAndStatus).toHaveBeenCalledWith('productivity', PluginStatus.PUBLISHED);
+      expect(pluginsRepository.findStorePage).toHaveBeenCalledWith({}, StorePluginSort.RECENT, expect.anything());
+      expect(result.data[0].search).toBeUndefined();
+    });
+
+    it('should group the facet counts by category and tag', async () => {
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 1, nextKey: null });
+      pluginsRepository.countStoreFacets.mockResolvedValue([
+        { facet: 'category', value: 'productivity', count: 3 },
+        { facet: 'category', value: 'social', count: 1 },
+        { facet: 'tag', value: 'tasks', count: 2 },
+      ]);
+
+      const result = await service.listPublishedPlugins({ category: 'productivity' });
+
+      expect(result.facets).toEqual({
+        categories: [
+          { value: 'productivity', count: 3 },
+          { value: 'social', count: 1 },
+        ],
+        tags: [{ value: 'tasks', count: 2 }],
+      });
     });
 
     it('should cap page size at maxPageSize', async () => {
-      const plugins = Array(150).fill(mockPlugin);
-      pluginsRepository.findByStatus.mockResolvedValue(plugins);
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [], total: 150, nextKey: null });
 
-      const result = await service.listPublishedPlugins(undefined, undefined, 0, 200);
+      const result = await service.listPublishedPlugins({ pageSize: 200 });
 
       expect(result.pageSize).toBe(100); // maxPageSize
-      expect(result.data.length).toBe(100);
+      expect(pluginsRepository.findStorePage).toHaveBeenCalledWith(
+        {},
+        StorePluginSort.RECENT,
+        expect.objectContaining({ limit: 100 }),
+      );
+    });
+
+    it('should continue after the last plugin of the previous page with its cursor', async () => {
+      const nextKey = [42, 'plugin-2'];
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 30, nextKey });
+      const first = await service.listPublishedPlugins({ category: 'productivity', sort: StorePluginSort.DOWNLOADS });
+
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 31, nextKey: null });
+      const second = await service.listPublishedPlugins({
+        category: 'productivity',
+        sort: StorePluginSort.DOWNLOADS,
+        cursor: first.nextCursor as string,
+      });
+
+      expect(first.nextCursor).toEqual(expect.any(String));
+      expect(pluginsRepository.findStorePage).toHaveBeenLastCalledWith(
+        { category: 'productivity' },
+        StorePluginSort.DOWNLOADS,
+        { limit: 20, offset: 20, after: nextKey },
+      );
+      expect(second.page).toBe(1);
+      expect(second.total).toBe(31);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should refuse a cursor for another sort, or together with a page number', async () => {
+      pluginsRepository.findStorePage.mockResolvedValue({ plugins: [mockPlugin], total: 30, nextKey: [1, 'plugin-1'] });
+      const { nextCursor } = await service.listPublishedPlugins({ sort: StorePluginSort.DOWNLOADS });
+
+      await expect(
+        service.listPublishedPlugins({ sort: StorePluginSort.NAME, cursor: nextCursor as string }),
+      ).rejects.toThrow(InvalidCursorException);
+      await expect(
+        service.listPublishedPlugins({ sort: StorePluginSort.DOWNLOADS, cursor: nextCursor as string, page: 1 }),
+      ).rejects.toThrow(InvalidCursorException);
+      await expect(service.listPublishedPlugins({ cursor: 'not-a-cursor' })).rejects.toThrow(InvalidCursorException);
+    });
+  });
+
+  describe('suggest', () => {
+    it('should group the suggestions by kind, five of each by default', async () => {
+      pluginsRepository.findStoreSuggestions.mockResolvedValue([
+        { kind: 'author', value: 'Taskforce Labs', count: 2 },
+        { kind: 'name', value: 'Tasks', count: 1 },
+        { kind: 'tag', value: 'tasks', count: 4 },
+        { kind: 'tag', value: 'task-sync', count: 1 },
+      ]);
+
+      const result = await service.suggest({ q: ' tas ' });
+
+      expect(pluginsRepository.findStoreSuggestions).toHaveBeenCalledWith('tas', 5);
+      expect(result).toEqual({
+        names: [{ value: 'Tasks', count: 1 }],
+        categories: [],
+        tags: [
+          { value: 'tasks', count: 4 },
+          { value: 'task-sync', count: 1 },
+        ],
+        authors: [{ value: 'Taskforce Labs', count: 2 }],
+      });
     });
   });
 
@@ -191,6 +361,57 @@ describe('PluginsService', () => {
       expect(versionsRepository.incrementDownloadCount).toHaveBeenCalledWith('version-1');
     });
 
+    it('should expose the version signatures with their public keys', async () => {
+      const signature = {
+        role: SignatureRole.DEVELOPER,
+        keyId: 'dev-key',
+        algorithm: 'Ed25519',
+        publicKey: 'cHVibGljLWtleQ==',
+        signature: 'c2lnbmF0dXJl',
+      };
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findById.mockResolvedValue({ ...mockVersion, signatures: [signature] });
+      storageService.getSignedUrl.mockResolvedValue({ signedUrl: 'https://signed-url', expiresAt: 0 });
+
+      const result = await service.getPluginByPackageId('com.example.plugin');
+
+      expect(result.signatures).toEqual([signature]);
+    });
+
+    it('should expose the permission analysis to the host app', async () => {
+      const permissionAnalysis = {
+        detected: ['network:https://evil.example'],
+        findings: [
+          {
+            type: PermissionFindingType.UNDECLARED_CAPABILITY,
+            permission: 'network:https://evil.example',
+            message: 'Connects to https://evil.example without a matching network permission',
+            file: 'plugin.js',
+            line: 3,
+            column: 8,
+          },
+          {
+            type: PermissionFindingType.UNUSED_PERMISSION,
+            permission: 'storage:write',
+            message: "Permission 'storage:write' is declared but never used",
+          },
+        ],
+      };
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findById.mockResolvedValue({ ...mockVersion, permissionAnalysis });
+      storageService.getSignedUrl.mockResolvedValue({ signedUrl: 'https://signed-url', expiresAt: 0 });
+
+      const result = await service.getPluginByPackageId('com.example.plugin');
+
+      expect(result.permissionAnalysis).toEqual({
+        detected: ['network:https://evil.example'],
+        findings: [
+          permissionAnalysis.findings[0],
+          { ...permissionAnalysis.findings[1], file: null, line: null, column: null },
+        ],
+      });
+    });
+
     it('should return compatible version when app version is specified', async () => {
       pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
       versionsRepository.findLatestCompatibleVersion.mockResolvedValue(mockVersion);
@@ -243,25 +464,15 @@ describe('PluginsService', () => {
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
       });
 
-      const result = await service.submitPlugin(
-        'com.example.newplugin',
-        'New Plugin',
-        'Description',
-        'Author',
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        '1.0.0',
-        { name: 'New Plugin', version: '1.0.0' },
-        '1.0.0',
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-      );
+      const result = await service.submitPlugin({
+        packageId: 'com.example.newplugin',
+        name: 'New Plugin',
+        description: 'Description',
+        author: 'Author',
+        version: '1.0.0',
+        manifest: { name: 'New Plugin', version: '1.0.0' },
+        minAppVersion: '1.0.0',
+      });
 
       expect(pluginsRepository.create).toHaveBeenCalled();
       expect(versionsRepository.create).toHaveBeenCalled();
@@ -271,34 +482,55 @@ describe('PluginsService', () => {
     it('should create new version for existing plugin', async () => {
       pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
       versionsRepository.findByPluginIdAndVersion.mockResolvedValue(null);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([mockVersion]);
       versionsRepository.create.mockResolvedValue(mockVersion);
       storageService.getSignedUrl.mockResolvedValue({
         signedUrl: 'https://signed-url',
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
       });
 
-      await service.submitPlugin(
-        'com.example.plugin',
-        'Test Plugin',
-        'Description',
-        'Author',
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        '2.0.0',
-        { name: 'Test Plugin', version: '2.0.0' },
-        '1.0.0',
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-        undefined,
-      );
+      await service.submitPlugin({
+        packageId: 'com.example.plugin',
+        name: 'Test Plugin',
+        description: 'Description',
+        author: 'Author',
+        version: '2.0.0',
+        manifest: { name: 'Test Plugin', version: '2.0.0' },
+        minAppVersion: '1.0.0',
+      });
 
       expect(pluginsRepository.create).not.toHaveBeenCalled();
-      expect(versionsRepository.create).toHaveBeenCalled();
+      expect(versionsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ version: '2.0.0', resubmissionOfVersionId: null }),
+      );
+    });
+
+    it('should link a version submitted after changes were requested to the sent-back version', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue(null);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...mockVersion, id: 'version-2', version: '1.1.0', status: VersionStatus.CHANGES_REQUESTED },
+        mockVersion,
+      ]);
+      versionsRepository.create.mockResolvedValue(mockVersion);
+      storageService.getSignedUrl.mockResolvedValue({
+        signedUrl: 'https://signed-url',
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      });
+
+      await service.submitPlugin({
+        packageId: 'com.example.plugin',
+        name: 'Test Plugin',
+        description: 'Description',
+        author: 'Author',
+        version: '1.1.1',
+        manifest: { name: 'Test Plugin', version: '1.1.1' },
+        minAppVersion: '1.0.0',
+      });
+
+      expect(versionsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ version: '1.1.1', resubmissionOfVersionId: 'version-2' }),
+      );
     });
 
     it('should throw VersionConflictException when version already exists', async () => {
@@ -306,38 +538,78 @@ describe('PluginsService', () => {
       versionsRepository.findByPluginIdAndVersion.mockResolvedValue(mockVersion);
 
       await expect(
-        service.submitPlugin(
-          'com.example.plugin',
-          'Test Plugin',
-          'Description',
-          'Author',
-          undefined,
-          undefined,
-          undefined,
-          undefined,
-          '1.0.0',
-          { name: 'Test Plugin', version: '1.0.0' },
-          '1.0.0',
-          undefined,
-          undefined,
-          undefined,
-          undefined,
-          undefined,
-          undefined,
-        ),
+        service.submitPlugin({
+          packageId: 'com.example.plugin',
+          name: 'Test Plugin',
+          description: 'Description',
+          author: 'Author',
+          version: '1.0.0',
+          manifest: { name: 'Test Plugin', version: '1.0.0' },
+          minAppVersion: '1.0.0',
+        }),
       ).rejects.toThrow(VersionConflictException);
     });
+
+    it('should throw PackageOwnershipException when the plugin has a different owner', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...mockPlugin, ownerDeveloperId: 'dev-owner' });
+
+      await expect(
+        service.submitPlugin({
+          packageId: 'com.example.plugin',
+          name: 'Test Plugin',
+          description: 'Description',
+          author: 'Author',
+          ownerDeveloperId: 'dev-intruder',
+          version: '2.0.0',
+          manifest: { name: 'Test Plugin', version: '2.0.0' },
+          minAppVersion: '1.0.0',
+        }),
+      ).rejects.toThrow(PackageOwnershipException);
+      expect(versionsRepository.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getPluginVersions', () => {
+    it('should hide the versions of a deleted plugin', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(deletedPlugin);
+
+      await expect(service.getPluginVersions('com.example.plugin')).rejects.toThrow(ResourceNotFoundException);
+    });
+
     it('should return all versions for a plugin', async () => {
       pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
-      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([mockVersion]);
+      versionsRepository.findPageByPluginId.mockResolvedValue({ items: [mockVersion], nextKey: null });
 
       const result = await service.getPluginVersions('com.example.plugin');
 
-      expect(result).toHaveLength(1);
-      expect(result[0].version).toBe('1.0.0');
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].version).toBe('1.0.0');
+      expect(result.nextCursor).toBeNull();
+      expect(versionsRepository.findPageByPluginId).toHaveBeenCalledWith('plugin-1', {
+        after: undefined,
+        limit: undefined,
+      });
+    });
+
+    it('should return a page of versions and a cursor bound to the plugin', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findPageByPluginId.mockResolvedValue({
+        items: [mockVersion],
+        nextKey: ['2024-01-01T00:00:00+00:00', 'version-1'],
+      });
+
+      const { nextCursor } = await service.getPluginVersions('com.example.plugin', { pageSize: 1 });
+      await service.getPluginVersions('com.example.plugin', { cursor: nextCursor as string });
+
+      expect(versionsRepository.findPageByPluginId).toHaveBeenLastCalledWith('plugin-1', {
+        after: ['2024-01-01T00:00:00+00:00', 'version-1'],
+        limit: 20,
+      });
+
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...mockPlugin, id: 'plugin-2' });
+      await expect(
+        service.getPluginVersions('com.example.plugin2', { cursor: nextCursor as string }),
+      ).rejects.toThrow(InvalidCursorException);
     });
 
     it('should throw ResourceNotFoundException when plugin not found', async () => {
@@ -366,6 +638,62 @@ describe('PluginsService', () => {
         service.getVersionById('nonexistent'),
       ).rejects.toThrow(ResourceNotFoundException);
     });
+
+    it('should throw ResourceNotFoundException when the plugin is deleted', async () => {
+      versionsRepository.findById.mockResolvedValue(mockVersion);
+      pluginsRepository.findById.mockResolvedValue(deletedPlugin);
+
+      await expect(service.getVersionById('version-1')).rejects.toThrow(ResourceNotFoundException);
+    });
+  });
+
+  describe('getVersionFiles', () => {
+    it('should return the file inventory with totals', async () => {
+      versionsRepository.findById.mockResolvedValue(mockVersion);
+      pluginsRepository.findById.mockResolvedValue(mockPlugin);
+
+      const result = await service.getVersionFiles('version-1');
+
+      expect(result.versionId).toBe('version-1');
+      expect(result.totalFiles).toBe(2);
+      expect(result.totalSizeBytes).toBe(2168);
+      expect(result.files[1]).toEqual({
+        path: 'lib/utils.js',
+        size: 2048,
+        sha256: 'bb22',
+        mimeType: 'text/javascript',
+      });
+    });
+
+    it('should throw ResourceNotFoundException when version not found', async () => {
+      versionsRepository.findById.mockResolvedValue(null);
+
+      await expect(service.getVersionFiles('nonexistent')).rejects.toThrow(ResourceNotFoundException);
+    });
+
+    it('should not list the files of flagged or unreviewed versions', async () => {
+      pluginsRepository.findById.mockResolvedValue(mockPlugin);
+
+      for (const status of [VersionStatus.FLAGGED, VersionStatus.PENDING_REVIEW, VersionStatus.REJECTED]) {
+        versionsRepository.findById.mockResolvedValue({ ...mockVersion, status });
+        await expect(service.getVersionFiles('version-1')).rejects.toThrow(ResourceNotFoundException);
+      }
+    });
+
+    it('should not list the files of an unpublished plugin', async () => {
+      versionsRepository.findById.mockResolvedValue(mockVersion);
+      pluginsRepository.findById.mockResolvedValue({ ...mockPlugin, status: PluginStatus.UNPUBLISHED });
+
+      await expect(service.getVersionFiles('version-1')).rejects.toThrow(ResourceNotFoundException);
+    });
+
+    it('should list the files of a flagged version for review', async () => {
+      versionsRepository.findById.mockResolvedValue({ ...mockVersion, status: VersionStatus.FLAGGED });
+
+      const result = await service.getVersionFilesForReview('version-1');
+
+      expect(result.totalFiles).toBe(2);
+    });
   });
 
   describe('getPluginStatistics', () => {
@@ -400,4 +728,386 @@ describe('PluginsService', () => {
       expect(versionsRepository.incrementDownloadCount).toHaveBeenCalledWith('version-1');
     });
   });
+
+  describe('deletePlugin', () => {
+    it('should hide the plugin and remember its status instead of removing it', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      pluginsRepository.update.mockResolvedValue(deletedPlugin);
+
+      await service.deletePlugin('com.example.plugin', 'admin-1');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.DELETED,
+        isDeleted: true,
+        deletedAt: expect.any(Date),
+        deletedBy: 'admin-1',
+        statusBeforeDeletion: PluginStatus.PUBLISHED,
+      });
+      expect(pluginsRepository.delete).not.toHaveBeenCalled();
+      expect(storageService.deleteArtifact).not.toHaveBeenCalled();
+    });
+
+    it('should throw InvalidTransitionException when the plugin is already deleted', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(deletedPlugin);
+
+      await expect(service.deletePlugin('com.example.plugin', 'admin-1')).rejects.toThrow(
+        InvalidTransitionException,
+      );
+    });
+
+    it('should keep the packageId reserved until the plugin is purged', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(deletedPlugin);
+
+      const submit = service.submitPlugin({
+        packageId: 'com.example.plugin',
+        name: 'Test Plugin',
+        description: 'Description',
+        author: 'Author',
+        version: '2.0.0',
+        manifest: { name: 'Test Plugin', version: '2.0.0' },
+        minAppVersion: '1.0.0',
+      });
+
+      await expect(submit).rejects.toThrow(PackageReservedException);
+      await expect(submit).rejects.toThrow('2024-03-31T00:00:00.000Z');
+      expect(versionsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restorePlugin', () => {
+    it('should restore the status the plugin had before deletion when it has no versions', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({
+        ...deletedPlugin,
+        statusBeforeDeletion: PluginStatus.PENDING_REVIEW,
+      });
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([]);
+      pluginsRepository.update.mockResolvedValue({ ...mockPlugin, status: PluginStatus.PENDING_REVIEW });
+
+      const result = await service.restorePlugin('com.example.plugin', 'admin-2');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.PENDING_REVIEW,
+        latestVersionId: null,
+        isDeleted: false,
+        deletedAt: null,
+        deletedBy: null,
+        statusBeforeDeletion: null,
+      });
+      expect(result.status).toBe(PluginStatus.PENDING_REVIEW);
+    });
+
+    it('should recompute the status from versions flagged while the plugin was deleted', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...deletedPlugin, latestVersionId: null });
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...mockVersion, status: VersionStatus.FLAGGED, isFlagged: true },
+      ]);
+      pluginsRepository.update.mockResolvedValue({ ...mockPlugin, status: PluginStatus.REJECTED });
+
+      await service.restorePlugin('com.example.plugin', 'admin-2');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith(
+        'plugin-1',
+        expect.objectContaining({ status: PluginStatus.REJECTED, latestVersionId: null, isDeleted: false }),
+      );
+    });
+
+    it('should keep a plugin its owner had unpublished off the store', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({
+        ...deletedPlugin,
+        statusBeforeDeletion: PluginStatus.UNPUBLISHED,
+      });
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([mockVersion]);
+      pluginsRepository.update.mockResolvedValue({ ...mockPlugin, status: PluginStatus.UNPUBLISHED });
+
+      await service.restorePlugin('com.example.plugin', 'admin-2');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith(
+        'plugin-1',
+        expect.objectContaining({ status: PluginStatus.UNPUBLISHED, latestVersionId: 'version-1' }),
+      );
+    });
+
+    it('should throw InvalidTransitionException when the plugin is not deleted', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+
+      await expect(service.restorePlugin('com.example.plugin', 'admin-2')).rejects.toThrow(
+        InvalidTransitionException,
+      );
+    });
+  });
+
+  describe('purgeExpiredPlugins', () => {
+    it('should remove the storage and records of plugins past retention', async () => {
+      pluginsRepository.findDeleted.mockResolvedValue([deletedPlugin]);
+      pluginsRepository.findById.mockResolvedValue(deletedPlugin);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([mockVersion]);
+
+      const purged = await service.purgeExpiredPlugins(new Date('2024-04-01T00:00:00.000Z'));
+
+      expect(purged).toBe(1);
+      expect(pluginsRepository.findDeleted).toHaveBeenCalledWith(new Date('2024-03-02T00:00:00.000Z'));
+      expect(storageService.deleteArtifact).toHaveBeenCalledWith('path/to/plugin.zip', 'artifacts');
+      expect(storageService.deleteArtifact).toHaveBeenCalledWith('icon-key', 'icons');
+      expect(versionsRepository.deleteByPluginId).toHaveBeenCalledWith('plugin-1');
+      expect(pluginsRepository.delete).toHaveBeenCalledWith('plugin-1');
+    });
+
+    it('should skip a plugin restored after it was selected', async () => {
+      pluginsRepository.findDeleted.mockResolvedValue([deletedPlugin]);
+      pluginsRepository.findById.mockResolvedValue(mockPlugin);
+
+      const purged = await service.purgeExpiredPlugins(new Date('2024-04-01T00:00:00.000Z'));
+
+      expect(purged).toBe(0);
+      expect(pluginsRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deprecateVersion', () => {
+    it('should keep the version installable and surface the message', async () => {
+      const deprecated = {
+        ...mockVersion,
+        status: VersionStatus.DEPRECATED,
+        deprecationMessage: 'Use 2.x instead',
+      };
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue(mockVersion);
+      versionsRepository.update.mockResolvedValue(deprecated);
+
+      const result = await service.deprecateVersion(
+        'com.example.plugin',
+        '1.0.0',
+        ' Use 2.x instead ',
+        'dev-1',
+        AuditActorRole.DEVELOPER,
+      );
+
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', {
+        status: VersionStatus.DEPRECATED,
+        deprecationMessage: 'Use 2.x instead',
+        deprecatedAt: expect.any(Date),
+      });
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+      expect(result.deprecationMessage).toBe('Use 2.x instead');
+    });
+
+    it('should throw InvalidTransitionException for versions that are not published', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue({
+        ...mockVersion,
+        status: VersionStatus.PENDING_REVIEW,
+      });
+
+      await expect(
+        service.deprecateVersion('com.example.plugin', '1.0.0', 'Old', 'admin-1', AuditActorRole.ADMIN),
+      ).rejects.toThrow(InvalidTransitionException);
+    });
+
+    it('should return the deprecation message with the plugin detail', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findById.mockResolvedValue({
+        ...mockVersion,
+        status: VersionStatus.DEPRECATED,
+        deprecationMessage: 'Use 2.x instead',
+      });
+      versionsRepository.incrementDownloadCount.mockResolvedValue(undefined);
+      storageService.getSignedUrl.mockResolvedValue({ signedUrl: 'https://signed-url', expiresAt: 0 });
+
+      const result = await service.getPluginByPackageId('com.example.plugin');
+
+      expect(result.deprecationMessage).toBe('Use 2.x instead');
+    });
+  });
+
+  describe('yankVersion', () => {
+    const previous = { ...mockVersion, id: 'version-0', version: '0.9.0', status: VersionStatus.DEPRECATED };
+
+    it('should fall back to the newest remaining installable version as latest', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue(mockVersion);
+      versionsRepository.update.mockResolvedValue({
+        ...mockVersion,
+        status: VersionStatus.YANKED,
+        yankReason: 'Crashes on start',
+      });
+      pluginsRepository.findById.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...mockVersion, status: VersionStatus.YANKED },
+        previous,
+      ]);
+
+      const result = await service.yankVersion(
+        'com.example.plugin',
+        '1.0.0',
+        'Crashes on start',
+        'admin-1',
+        AuditActorRole.ADMIN,
+      );
+
+      expect(versionsRepository.update).toHaveBeenCalledWith('version-1', {
+        status: VersionStatus.YANKED,
+        yankReason: 'Crashes on start',
+        yankedAt: expect.any(Date),
+      });
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', { latestVersionId: 'version-0' });
+      expect(result.yankReason).toBe('Crashes on start');
+      expect(result.deprecationMessage).toBeNull();
+    });
+
+    it('should clear the latest version and reject the plugin when no installable version remains', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue(mockVersion);
+      versionsRepository.update.mockResolvedValue({ ...mockVersion, status: VersionStatus.YANKED });
+      pluginsRepository.findById.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...mockVersion, status: VersionStatus.YANKED },
+      ]);
+
+      await service.yankVersion('com.example.plugin', '1.0.0', 'Broken', 'dev-1', AuditActorRole.DEVELOPER);
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.REJECTED,
+        latestVersionId: null,
+      });
+    });
+
+    it('should leave the latest version alone when yanking an older one', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue(previous);
+      versionsRepository.update.mockResolvedValue({ ...previous, status: VersionStatus.YANKED });
+      pluginsRepository.findById.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        mockVersion,
+        { ...previous, status: VersionStatus.YANKED },
+      ]);
+
+      await service.yankVersion('com.example.plugin', '0.9.0', 'Broken', 'dev-1', AuditActorRole.DEVELOPER);
+
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw InvalidTransitionException for a version that is already yanked', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue({ ...mockVersion, status: VersionStatus.YANKED });
+
+      await expect(
+        service.yankVersion('com.example.plugin', '1.0.0', 'Broken', 'admin-1', AuditActorRole.ADMIN),
+      ).rejects.toThrow(InvalidTransitionException);
+    });
+  });
+
+  describe('unpublishPlugin', () => {
+    it('should take a published plugin off the store', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+      pluginsRepository.update.mockResolvedValue({ ...mockPlugin, status: PluginStatus.UNPUBLISHED });
+
+      const result = await service.unpublishPlugin('com.example.plugin', 'dev-1');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.UNPUBLISHED,
+        unpublishedAt: expect.any(Date),
+      });
+      expect(result.status).toBe(PluginStatus.UNPUBLISHED);
+    });
+
+    it('should throw InvalidTransitionException for a plugin that is not published', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...mockPlugin, status: PluginStatus.PENDING_REVIEW });
+
+      await expect(service.unpublishPlugin('com.example.plugin', 'dev-1')).rejects.toThrow(
+        InvalidTransitionException,
+      );
+      expect(pluginsRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relistPlugin', () => {
+    const unpublishedPlugin: Plugin = {
+      ...mockPlugin,
+      status: PluginStatus.UNPUBLISHED,
+      unpublishedAt: new Date('2024-02-01'),
+    };
+
+    it('should relist without review when no versions were added', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(unpublishedPlugin);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([mockVersion]);
+      pluginsRepository.update.mockResolvedValue(mockPlugin);
+
+      await service.relistPlugin('com.example.plugin', 'dev-1');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.PUBLISHED,
+        latestVersionId: 'version-1',
+        unpublishedAt: null,
+      });
+    });
+
+    it('should hold the plugin for review while a newer version awaits review', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(unpublishedPlugin);
+      versionsRepository.findByPluginIdOrderByCreatedAtDesc.mockResolvedValue([
+        { ...mockVersion, id: 'version-2', version: '1.1.0', status: VersionStatus.PENDING_REVIEW, createdAt: new Date('2024-02-02') },
+        mockVersion,
+      ]);
+      pluginsRepository.update.mockResolvedValue({ ...mockPlugin, status: PluginStatus.PENDING_REVIEW });
+
+      await service.relistPlugin('com.example.plugin', 'dev-1');
+
+      expect(pluginsRepository.update).toHaveBeenCalledWith('plugin-1', {
+        status: PluginStatus.PENDING_REVIEW,
+        latestVersionId: 'version-1',
+      });
+    });
+
+    it('should throw InvalidTransitionException for a plugin that is not unpublished', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue(mockPlugin);
+
+      await expect(service.relistPlugin('com.example.plugin', 'dev-1')).rejects.toThrow(InvalidTransitionException);
+    });
+  });
+
+  describe('checkForUpdate', () => {
+    const newer = { ...mockVersion, id: 'version-2', version: '1.1.0' };
+
+    it('should offer a newer version', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...mockPlugin, latestVersionId: 'version-2' });
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue(mockVersion);
+      versionsRepository.findById.mockResolvedValue(newer);
+
+      const result = await service.checkForUpdate('com.example.plugin', '1.0.0');
+
+      expect(result).toMatchObject({
+        delisted: false,
+        installedVersion: '1.0.0',
+        latestVersion: '1.1.0',
+        updateAvailable: true,
+      });
+    });
+
+    it('should tell installs of an unpublished plugin that it is delisted', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...mockPlugin, status: PluginStatus.UNPUBLISHED });
+      versionsRepository.findByPluginIdAndVersion.mockResolvedValue({
+        ...mockVersion,
+        status: VersionStatus.YANKED,
+        yankReason: 'Crashes on start',
+      });
+
+      const result = await service.checkForUpdate('com.example.plugin', '1.0.0');
+
+      expect(result).toMatchObject({
+        delisted: true,
+        installedVersionStatus: VersionStatus.YANKED,
+        yankReason: 'Crashes on start',
+        latestVersion: null,
+        updateAvailable: false,
+      });
+      expect(versionsRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should throw ResourceNotFoundException for plugins that were never listed', async () => {
+      pluginsRepository.findByPackageId.mockResolvedValue({ ...mockPlugin, status: PluginStatus.PENDING_REVIEW });
+
+      await expect(service.checkForUpdate('com.example.plugin', '1.0.0')).rejects.toThrow(
+        ResourceNotFoundException,
+      );
+    });
+  });
 });
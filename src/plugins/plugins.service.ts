@@ -2,21 +2,61 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
   PluginResponse,
+  PluginSearchMatchResponse,
   PluginDetailResponse,
   PluginVersionResponse,
+  PluginVersionFileResponse,
+  PluginVersionFilesResponse,
+  PackageSignatureResponse,
+  PermissionAnalysisResponse,
+  PermissionFindingResponse,
   PluginStatisticsResponse,
-  PaginatedResponse,
+  StorePluginPageResponse,
+  StorePluginFacetsResponse,
+  StoreSuggestionsResponse,
+  FacetCountResponse,
+  StorePluginsQueryDto,
+  StoreSuggestQueryDto,
+  CursorPageQueryDto,
+  DeletedPluginResponse,
+  PluginUpdateCheckResponse,
 } from '../common/dto';
 import { Plugin, CreatePluginDto } from '../common/entities/plugin.entity';
-import { PluginVersion } from '../common/entities/plugin-version.entity';
+import {
+  PermissionAnalysis,
+  PluginVersion,
+  SubmitPluginVersionDto,
+} from '../common/entities/plugin-version.entity';
 import { PluginStatus } from '../common/enums/plugin-status.enum';
-import { PluginsRepository } from './plugins.repository';
+import {
+  VersionStatus,
+  AWAITING_REVIEW_VERSION_STATUSES,
+  INSTALLABLE_VERSION_STATUSES,
+} from '../common/enums/version-status.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import { StorePluginSort } from '../common/enums/store-plugin-sort.enum';
+import {
+  PluginsRepository,
+  StorePluginFacetCount,
+  StorePluginFilter,
+  StorePluginMatch,
+  StoreSuggestion,
+} from './plugins.repository';
 import { PluginVersionsRepository } from './plugin-versions.repository';
 import { StorageService } from '../storage/storage.service';
+import { AuditService } from '../audit/audit.service';
+import { PluginLifecycleService } from './plugin-lifecycle.service';
+import { derivePluginState } from './plugin-lifecycle';
+import { SemVer } from '../common/utils/semver.util';
+import { CursorPage, decodePageCursor, encodePageCursor, queryFingerprint } from '../common/utils/page-cursor.util';
 import {
   ResourceNotFoundException,
   InvalidVersionException,
   VersionConflictException,
+  PackageOwnershipException,
+  PackageReservedException,
+  InvalidTransitionException,
+  InvalidCursorException,
 } from '../common/exceptions';
 
 // Extend Express namespace for Multer types
@@ -38,6 +78,18 @@ declare global {
   }
 }
 
+/** Recorded as the actor when the purge job removes a deleted plugin. */
+const PURGE_ACTOR = 'retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Store suggestions of each kind when the request does not say. */
+const DEFAULT_STORE_SUGGESTIONS = 5;
+
+/** Cursor scopes of the lists this service pages. */
+const STORE_PLUGINS_CURSOR = 'store-plugins';
+const PLUGIN_VERSIONS_CURSOR = 'plugin-versions';
+
 /**
  * Core service for plugin management operations.
  * Handles plugin submission, retrieval, and version compatibility logic.
@@ -47,56 +99,97 @@ export class PluginsService {
   private readonly logger = new Logger(PluginsService.name);
   private readonly defaultPageSize: number;
   private readonly maxPageSize: number;
+  private readonly cursorSecret: string;
+  private readonly retentionDays: number;
 
   constructor(
     private readonly pluginsRepository: PluginsRepository,
     private readonly versionsRepository: PluginVersionsRepository,
     private readonly storageService: StorageService,
+    private readonly lifecycle: PluginLifecycleService,
     private readonly configService: ConfigService,
+    private readonly auditService: AuditService,
   ) {
     const paginationConfig = this.configService.get('app.pagination');
     this.defaultPageSize = paginationConfig.defaultPageSize;
     this.maxPageSize = paginationConfig.maxPageSize;
+    this.cursorSecret = paginationConfig.cursorSecret;
+    this.retentionDays = this.configService.get('retention').deletedPluginRetentionDays;
   }
 
   /**
-   * Retrieves all published plugins, optionally filtered by category and search term.
-   * Returns paginated results.
+   * Lists a page of published plugins matching every given filter, with the
+   * match counts per category and tag. Filtering, sorting and paging happen
+   * in the database.
+   *
+   * A page is selected by number or by the cursor of the previous page. A
+   * cursor page starts after the last plugin the previous page returned, so
+   * plugins published in between do not shift it.
+   *
+   * @throws InvalidCursorException if the cursor is invalid, was issued for
+   *   other filters or a different sort, or is combined with a page number
    */
-  async listPublishedPlugins(
-    category: string | undefined,
-    search: string | undefined,
-    page = 0,
-    pageSize = this.defaultPageSize,
-  ): Promise<PaginatedResponse<PluginResponse>> {
-    this.logger.debug(`Listing published plugins - category: ${category}, search: ${search}`);
-
-    // Cap page size
-    const actualPageSize = Math.min(pageSize, this.maxPageSize);
-    const start = page * actualPageSize;
-
-    let plugins: Plugin[];
-
-    if (search && search.trim().length > 0) {
-      plugins = await this.pluginsRepository.searchPublishedPlugins(search, PluginStatus.PUBLISHED);
-    } else if (category && category.trim().length > 0) {
-      plugins = await this.pluginsRepository.findByCategoryAndStatus(category, PluginStatus.PUBLISHED);
-    } else {
-      plugins = await this.pluginsRepository.findByStatus(PluginStatus.PUBLISHED);
+  async listPublishedPlugins(query: StorePluginsQueryDto = {}): Promise<StorePluginPageResponse> {
+    if (query.cursor && query.page !== undefined) {
+      throw new InvalidCursorException('Use either cursor or page, not both');
     }
+    const pageSize = Math.min(query.pageSize ?? this.defaultPageSize, this.maxPageSize);
+    const filter: StorePluginFilter = {
+      category: query.category?.trim() || undefined,
+      search: query.search?.trim() || undefined,
+      tags: query.tags?.length ? query.tags : undefined,
+      author: query.author?.trim() || undefined,
+      verified: query.verified,
+      featured: query.featured,
+      appVersion: query.minAppVersion,
+    };
+    const sort = this.resolveStoreSort(query.sort, !!filter.search);
+    const fingerprint = queryFingerprint({ ...filter, sort });
+    const cursor = query.cursor
+      ? decodePageCursor(query.cursor, this.cursorSecret, STORE_PLUGINS_CURSOR, fingerprint)
+      : null;
+    const page = cursor?.page ?? query.page ?? 0;
+    this.logger.debug(`Listing published plugins: ${JSON.stringify(filter)}`);
 
-    // Apply pagination
-    const paginatedPlugins = plugins.slice(start, start + actualPageSize);
-    const totalCount = plugins.length;
-    const totalPages = Math.ceil(totalCount / actualPageSize);
+    const [{ plugins, total, nextKey, matches }, facets] = await Promise.all([
+      this.pluginsRepository.findStorePage(filter, sort, {
+        limit: pageSize,
+        offset: page * pageSize,
+        after: cursor?.after,
+      }),
+      this.pluginsRepository.countStoreFacets(filter),
+    ]);
 
-    return {
-      data: paginatedPlugins.map((p) => this.toPluginResponse(p)),
-      total: totalCount,
+    return new StorePluginPageResponse(
+      plugins.map((p) => this.toPluginResponse(p, matches?.get(p.id))),
+      total,
       page,
-      pageSize: actualPageSize,
-      totalPages,
-    };
+      pageSize,
+      Math.ceil(total / pageSize),
+      this.toFacetsResponse(facets),
+      nextKey
+        ? encodePageCursor(
+            { scope: STORE_PLUGINS_CURSOR, query: fingerprint, after: nextKey, page: page + 1 },
+            this.cursorSecret,
+          )
+        : null,
+    );
+  }
+
+  /**
+   * Suggests plugin names, categories, tags and authors for a partly typed
+   * search, with their plugin counts. Served from an index the database
+   * refreshes when plugins are published, unpublished or edited.
+   */
+  async suggest(query: StoreSuggestQueryDto): Promise<StoreSuggestionsResponse> {
+    const suggestions = await this.pluginsRepository.findStoreSuggestions(
+      query.q.trim(),
+      query.limit ?? DEFAULT_STORE_SUGGESTIONS,
+    );
+
+    const kind = (name: StoreSuggestion['kind']) =>
+      suggestions.filter((s) => s.kind === name).map((s) => new FacetCountResponse(s.value, s.count));
+    return new StoreSuggestionsResponse(kind('name'), kind('category'), kind('tag'), kind('author'));
   }
 
   /**
@@ -153,29 +246,38 @@ export class PluginsService {
 
   /**
    * Submits a new plugin or a new version of an existing plugin.
+   *
+   * When `ownerDeveloperId` is given, new plugins are created under that owner
+   * and versions can only be added to plugins it already owns. `files` is the
+   * archive inventory and `signatures` the verified developer signature
+   * recorded with the version. A version submitted while the plugin's latest
+   * version has changes requested is linked to it as a resubmission, so its
+   * review threads carry over. The package README is stored with the version
+   * and searched once the version is the plugin's latest.
    */
-  async submitPlugin(
-    packageId: string,
-    name: string,
-    description: string,
-    author: string,
-    iconKey: string | undefined,
-    category: string | undefined,
-    tags: string | undefined,
-    sourceUrl: string | undefined,
-    version: string,
-    manifest: Record<string, any>,
-    minAppVersion: string,
-    releaseNotes: string | undefined,
-    storagePath: string | undefined,
-    storageBucket: string | undefined,
-    tempStoragePath: string | undefined,
-    fileSizeBytes: number | undefined,
-    checksumSha256: string | undefined,
-  ): Promise<PluginDetailResponse> {
+  async submitPlugin(submission: SubmitPluginVersionDto): Promise<PluginDetailResponse> {
+    const {
+      packageId,
+      name,
+      description,
+      author,
+      ownerDeveloperId,
+      iconKey,
+      category,
+      tags,
+      sourceUrl,
+      version,
+      ...versionFields
+    } = submission;
     this.logger.log(`Submitting plugin ${packageId} version ${version}`);
 
     let plugin = await this.pluginsRepository.findByPackageId(packageId);
+    let resubmissionOfVersionId: string | null = null;
+
+    // A deleted plugin keeps its packageId until it is purged
+    if (plugin?.isDeleted) {
+      throw new PackageReservedException(packageId, this.purgeAfter(plugin) as Date);
+    }
 
     if (!plugin) {
       // Create new plugin
@@ -184,6 +286,7 @@ export class PluginsService {
         name,
         description,
         author,
+        ownerDeveloperId,
         iconKey,
         category,
         tags,
@@ -192,6 +295,11 @@ export class PluginsService {
       plugin = await this.pluginsRepository.create(createDto);
       this.logger.log(`Created new plugin ${packageId}`);
     } else {
+      // Never attach a version to a plugin owned by someone else
+      if (ownerDeveloperId && plugin.ownerDeveloperId !== ownerDeveloperId) {
+        throw new PackageOwnershipException(packageId, 'the package is owned by another developer');
+      }
+
       // Check if this version already exists
       const existing = await this.versionsRepository.findByPluginIdAndVersion(
         plugin.id,
@@ -201,28 +309,24 @@ export class PluginsService {
         this.logger.warn(`Version ${version} already exists for plugin ${packageId}`);
         throw new VersionConflictException(packageId, version);
       }
+
+      const [latest] = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
+      if (latest?.status === VersionStatus.CHANGES_REQUESTED) {
+        resubmissionOfVersionId = latest.id;
+        this.logger.log(`Version ${version} of plugin ${packageId} resubmits version ${latest.version}`);
+      }
     }
 
     // Create the new version
     const versionData = await this.versionsRepository.create({
+      ...versionFields,
       pluginId: plugin.id,
       version,
-      manifest,
-      minAppVersion,
-      releaseNotes,
-      storagePath,
-      storageBucket,
-      tempStoragePath,
-      fileSizeBytes,
-      checksumSha256,
+      resubmissionOfVersionId,
     });
 
-    // Update plugin status to PENDING_REVIEW if it was SUBMITTED
-    if (plugin.status === PluginStatus.SUBMITTED) {
-      plugin = await this.pluginsRepository.update(plugin.id, {
-        status: PluginStatus.PENDING_REVIEW,
-      });
-    }
+    // A new plugin, or one whose versions were all rejected, now awaits review
+    plugin = (await this.lifecycle.syncPlugin(plugin.id, ownerDeveloperId ?? null)) ?? plugin;
 
     this.logger.log(`Successfully submitted version ${version} of plugin ${packageId}`);
 
@@ -269,41 +373,67 @@ export class PluginsService {
   //   this.logger.log(`Uploaded artifact to TEMP storage: ${uploadResult.tempPath}`);
 
   //   // Create database records
-  //   return await this.submitPlugin(
+  //   return await this.submitPlugin({
   //     packageId,
   //     name,
   //     description,
   //     author,
-  //     undefined, // iconKey - will be set separately if needed
-  //     undefined, // category
-  //     undefined, // tags
-  //     undefined, // sourceUrl
   //     version,
   //     manifest,
   //     minAppVersion,
-  //     undefined, // releaseNotes
-  //     uploadResult.storagePath,
-  //     uploadResult.bucket,
-  //     uploadResult.tempPath,
-  //     uploadResult.fileSizeBytes,
-  //     uploadResult.checksumSha256,
-  //   );
+  //     storagePath: uploadResult.storagePath,
+  //     storageBucket: uploadResult.bucket,
+  //     tempStoragePath: uploadResult.tempPath,
+  //     fileSizeBytes: uploadResult.fileSizeBytes,
+  //     checksumSha256: uploadResult.checksumSha256,
+  //   });
   // }
 
   /**
-   * Retrieves all versions of a plugin.
+   * Retrieves all plugins owned by the given developer or organization accounts,
+   * regardless of status.
    */
-  async getPluginVersions(packageId: string): Promise<PluginVersionResponse[]> {
+  async listPluginsByOwners(ownerDeveloperIds: string[]): Promise<PluginResponse[]> {
+    const plugins = await this.pluginsRepository.findByOwnerDeveloperIds(ownerDeveloperIds);
+    return plugins.map((p) => this.toPluginResponse(p));
+  }
+
+  /**
+   * Retrieves the versions of a plugin, newest first: all of them, or a page
+   * when a page size or the cursor of the previous page is given.
+   *
+   * @throws InvalidCursorException if the cursor is invalid or was issued for another plugin
+   */
+  async getPluginVersions(
+    packageId: string,
+    query: CursorPageQueryDto = {},
+  ): Promise<CursorPage<PluginVersionResponse>> {
     this.logger.debug(`Fetching versions for plugin ${packageId}`);
 
     const plugin = await this.pluginsRepository.findByPackageId(packageId);
-    if (!plugin) {
+    if (!plugin || plugin.isDeleted) {
       throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
     }
 
-    const versions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
+    const fingerprint = queryFingerprint({ pluginId: plugin.id });
+    const cursor = query.cursor
+      ? decodePageCursor(query.cursor, this.cursorSecret, PLUGIN_VERSIONS_CURSOR, fingerprint)
+      : null;
+    const paged = cursor !== null || query.pageSize !== undefined;
+    const { items, nextKey } = await this.versionsRepository.findPageByPluginId(plugin.id, {
+      after: cursor?.after,
+      limit: paged ? Math.min(query.pageSize ?? this.defaultPageSize, this.maxPageSize) : undefined,
+    });
 
-    return versions.map((v) => this.toPluginVersionResponse(v));
+    return {
+      data: items.map((v) => this.toPluginVersionResponse(v)),
+      nextCursor: nextKey
+        ? encodePageCursor(
+            { scope: PLUGIN_VERSIONS_CURSOR, query: fingerprint, after: nextKey, page: (cursor?.page ?? 0) + 1 },
+            this.cursorSecret,
+          )
+        : null,
+    };
   }
 
   /**
@@ -312,12 +442,53 @@ export class PluginsService {
   async getVersionById(versionId: string): Promise<PluginVersionResponse> {
     this.logger.debug(`Fetching version ${versionId}`);
 
+    const version = await this.findVisibleVersion(versionId);
+    return this.toPluginVersionResponse(version);
+  }
+
+  /**
+   * Retrieves the file inventory of an installable version of a plugin listed
+   * in the store. Inventories of versions under review, rejected, flagged or
+   * yanked, or of unlisted plugins, are only served to admins
+   * (getVersionFilesForReview) and owners (getPackageVersionFiles).
+   */
+  async getVersionFiles(versionId: string): Promise<PluginVersionFilesResponse> {
+    this.logger.debug(`Fetching files for version ${versionId}`);
+
+    const version = await this.versionsRepository.findById(versionId);
+    const plugin = version ? await this.pluginsRepository.findById(version.pluginId) : null;
+    if (
+      !version ||
+      !plugin ||
+      plugin.isDeleted ||
+      plugin.status !== PluginStatus.PUBLISHED ||
+      !INSTALLABLE_VERSION_STATUSES.includes(version.status)
+    ) {
+      throw new ResourceNotFoundException('PluginVersion', 'id', versionId);
+    }
+    return this.toVersionFilesResponse(version);
+  }
+
+  /**
+   * Retrieves the file inventory of any version, whatever its status, for review.
+   */
+  async getVersionFilesForReview(versionId: string): Promise<PluginVersionFilesResponse> {
     const version = await this.versionsRepository.findById(versionId);
     if (!version) {
       throw new ResourceNotFoundException('PluginVersion', 'id', versionId);
     }
+    return this.toVersionFilesResponse(version);
+  }
 
-    return this.toPluginVersionResponse(version);
+  /**
+   * Retrieves the file inventory of any version of a plugin, whatever its
+   * status; for the plugin's owner.
+   *
+   * @param version Version string (e.g. "1.2.0")
+   */
+  async getPackageVersionFiles(packageId: string, version: string): Promise<PluginVersionFilesResponse> {
+    const { pluginVersion } = await this.findVersionOfPlugin(packageId, version);
+    return this.toVersionFilesResponse(pluginVersion);
   }
 
   /**
@@ -329,21 +500,381 @@ export class PluginsService {
   }
 
   /**
-   * Deletes a plugin and all its associated versions with full storage cleanup.
-   * This is a hard delete operation that removes:
-   * - All plugin version artifacts from storage
-   * - Plugin icon from storage
-   * - All plugin version records from database
-   * - The plugin record from database
+   * Takes a published plugin off the store at its owner's request. It is
+   * hidden from the listing and detail endpoints; checkForUpdate() tells
+   * existing installs it is delisted.
+   */
+  async unpublishPlugin(packageId: string, unpublishedBy: string): Promise<PluginResponse> {
+    const plugin = await this.findLivePlugin(packageId);
+    const unpublished = await this.lifecycle.transitionPlugin(plugin, PluginStatus.UNPUBLISHED, unpublishedBy, {
+      unpublishedAt: new Date(),
+    });
+
+    this.logger.log(`Plugin ${packageId} unpublished by ${unpublishedBy}`);
+    await this.auditService.record({
+      actorId: unpublishedBy,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.PLUGIN_UNPUBLISHED,
+      entityType: AuditEntityType.PLUGIN,
+      entityId: plugin.id,
+      oldStatus: plugin.status,
+      newStatus: PluginStatus.UNPUBLISHED,
+      metadata: { packageId },
+    });
+    return this.toPluginResponse(unpublished);
+  }
+
+  /**
+   * Puts an unpublished plugin back on the store. It is listed at once unless
+   * versions submitted since it was unpublished are awaiting review; it then
+   * returns to PENDING_REVIEW and is listed when one of them is published.
+   *
+   * @throws InvalidTransitionException if the plugin is not unpublished, or
+   * has no installable version and nothing awaiting review
    */
-  async deletePlugin(packageId: string): Promise<void> {
-    this.logger.log(`Deleting plugin ${packageId}`);
+  async relistPlugin(packageId: string, relistedBy: string): Promise<PluginResponse> {
+    const plugin = await this.findLivePlugin(packageId);
+    if (plugin.status !== PluginStatus.UNPUBLISHED) {
+      throw new InvalidTransitionException(`Plugin ${packageId} is ${plugin.status}, not UNPUBLISHED`);
+    }
+
+    const unpublishedAt = plugin.unpublishedAt?.getTime() ?? 0;
+    const versions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
+    const awaitingReview = versions.filter(
+      (v) => v.createdAt.getTime() > unpublishedAt && AWAITING_REVIEW_VERSION_STATUSES.includes(v.status),
+    );
+    const { status, latestVersionId } = derivePluginState(plugin, versions);
+    if (status !== PluginStatus.PUBLISHED && awaitingReview.length === 0) {
+      throw new InvalidTransitionException(
+        `Plugin ${packageId} has no installable version; submit a new version before relisting`,
+      );
+    }
+
+    // While held for review, unpublishedAt tells which versions must be published first
+    const relisted = await this.lifecycle.transitionPlugin(plugin, status, relistedBy, {
+      latestVersionId,
+      unpublishedAt: status === PluginStatus.PUBLISHED ? null : undefined,
+    });
+
+    this.logger.log(`Plugin ${packageId} relisted as ${status} by ${relistedBy}`);
+    await this.auditService.record({
+      actorId: relistedBy,
+      actorRole: AuditActorRole.DEVELOPER,
+      action: AuditAction.PLUGIN_RELISTED,
+      entityType: AuditEntityType.PLUGIN,
+      entityId: plugin.id,
+      oldStatus: plugin.status,
+      newStatus: status,
+      metadata: { packageId, awaitingReview: awaitingReview.map((v) => v.version) },
+    });
+    return this.toPluginResponse(relisted);
+  }
+
+  /**
+   * Tells an installed copy of a plugin whether it should update. Unpublished
+   * plugins answer with `delisted` and no update; deprecation messages and
+   * yank reasons of the installed version are passed on.
+   *
+   * @param installedVersion Version the host has installed
+   * @param appVersion When given, only updates compatible with it are offered
+   */
+  async checkForUpdate(
+    packageId: string,
+    installedVersion?: string,
+    appVersion?: string,
+  ): Promise<PluginUpdateCheckResponse> {
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (
+      !plugin ||
+      plugin.isDeleted ||
+      (plugin.status !== PluginStatus.PUBLISHED && plugin.status !== PluginStatus.UNPUBLISHED)
+    ) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+
+    const installed = installedVersion
+      ? await this.versionsRepository.findByPluginIdAndVersion(plugin.id, installedVersion)
+      : null;
+    const delisted = plugin.status === PluginStatus.UNPUBLISHED;
+
+    let latest: PluginVersion | null = null;
+    if (!delisted) {
+      if (appVersion) {
+        latest = await this.versionsRepository.findLatestCompatibleVersion(plugin.id, appVersion);
+      } else if (plugin.latestVersionId) {
+        latest = await this.versionsRepository.findById(plugin.latestVersionId);
+      }
+    }
+
+    const updateAvailable =
+      !!latest &&
+      (!installed ||
+        (latest.id !== installed.id && SemVer.parse(latest.version).compareTo(SemVer.parse(installed.version)) > 0));
+
+    return new PluginUpdateCheckResponse(
+      plugin.packageId,
+      delisted,
+      installed?.version ?? installedVersion ?? null,
+      installed?.status ?? null,
+      installed ? this.deprecationMessage(installed) : null,
+      installed?.status === VersionStatus.YANKED ? installed.yankReason || null : null,
+      latest?.version ?? null,
+      updateAvailable,
+    );
+  }
+
+  /**
+   * Deprecates a published version. It stays installable and can remain the
+   * plugin's latest version; the message is shown with it in the store.
+   *
+   * @throws InvalidTransitionException unless the version is PUBLISHED
+   */
+  async deprecateVersion(
+    packageId: string,
+    version: string,
+    message: string,
+    actorId: string,
+    actorRole: AuditActorRole,
+  ): Promise<PluginVersionResponse> {
+    const { plugin, pluginVersion } = await this.findVersionOfPlugin(packageId, version);
+    const { version: deprecated } = await this.lifecycle.transitionVersion(
+      pluginVersion,
+      VersionStatus.DEPRECATED,
+      actorId,
+      { deprecationMessage: message.trim(), deprecatedAt: new Date() },
+    );
+
+    this.logger.log(`Deprecated ${packageId}@${version} by ${actorId}`);
+    await this.auditService.record({
+      actorId,
+      actorRole,
+      action: AuditAction.VERSION_DEPRECATED,
+      entityType: AuditEntityType.PLUGIN_VERSION,
+      entityId: pluginVersion.id,
+      entityVersion: version,
+      oldStatus: pluginVersion.status,
+      newStatus: VersionStatus.DEPRECATED,
+      reason: message.trim(),
+      metadata: { packageId: plugin.packageId },
+    });
+    return this.toPluginVersionResponse(deprecated);
+  }
+
+  /**
+   * Yanks a published or deprecated version. It stays in the version history
+   * with its artifact, but is never picked as the latest or a compatible
+   * version; if it was the plugin's latest version, the newest remaining
+   * installable version takes its place.
+   *
+   * @throws InvalidTransitionException unless the version is PUBLISHED or DEPRECATED
+   */
+  async yankVersion(
+    packageId: string,
+    version: string,
+    reason: string,
+    actorId: string,
+    actorRole: AuditActorRole,
+  ): Promise<PluginVersionResponse> {
+    const { plugin, pluginVersion } = await this.findVersionOfPlugin(packageId, version);
+    const { version: yanked, plugin: synced } = await this.lifecycle.transitionVersion(
+      pluginVersion,
+      VersionStatus.YANKED,
+      actorId,
+      { yankReason: reason.trim(), yankedAt: new Date() },
+    );
+    const latestVersionId = (synced ?? plugin).latestVersionId ?? null;
+
+    this.logger.warn(`Yanked ${packageId}@${version} by ${actorId}: ${reason}`);
+    await this.auditService.record({
+      actorId,
+      actorRole,
+      action: AuditAction.VERSION_YANKED,
+      entityType: AuditEntityType.PLUGIN_VERSION,
+      entityId: pluginVersion.id,
+      entityVersion: version,
+      oldStatus: pluginVersion.status,
+      newStatus: VersionStatus.YANKED,
+      reason: reason.trim(),
+      metadata: { packageId: plugin.packageId, latestVersionId },
+    });
+    return this.toPluginVersionResponse(yanked);
+  }
+
+  /**
+   * Soft-deletes a plugin. It disappears from the store and its packageId stays
+   * reserved; it can be restored until the retention window ends and
+   * purgeExpiredPlugins() removes it for good.
+   */
+  async deletePlugin(packageId: string, deletedBy: string): Promise<void> {
+    this.logger.log(`Deleting plugin ${packageId} by ${deletedBy}`);
 
-    // Get the plugin
     const plugin = await this.pluginsRepository.findByPackageId(packageId);
     if (!plugin) {
       throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
     }
+    if (plugin.isDeleted) {
+      throw new InvalidTransitionException(`Plugin ${packageId} is already deleted`);
+    }
+
+    const deleted = await this.lifecycle.transitionPlugin(plugin, PluginStatus.DELETED, deletedBy, {
+      isDeleted: true,
+      deletedAt: new Date(),
+      deletedBy,
+      statusBeforeDeletion: plugin.status,
+    });
+
+    const purgeAfter = this.purgeAfter(deleted);
+    this.logger.log(`Deleted plugin ${packageId}; it will be purged after ${purgeAfter?.toISOString()}`);
+    await this.auditService.record({
+      actorId: deletedBy,
+      actorRole: AuditActorRole.ADMIN,
+      action: AuditAction.PLUGIN_DELETED,
+      entityType: AuditEntityType.PLUGIN,
+      entityId: plugin.id,
+      oldStatus: plugin.status,
+      newStatus: PluginStatus.DELETED,
+      metadata: { packageId, purgeAfter: purgeAfter?.toISOString() ?? null },
+    });
+  }
+
+  /**
+   * Restores a deleted plugin. Its status and latest version are recomputed
+   * from its versions, which may have been flagged while it was deleted; the
+   * status it had before deletion only decides whether it stays unpublished.
+   *
+   * @throws InvalidTransitionException if the plugin is not deleted
+   */
+  async restorePlugin(packageId: string, restoredBy: string): Promise<PluginResponse> {
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (!plugin) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+    if (!plugin.isDeleted) {
+      throw new InvalidTransitionException(`Plugin ${packageId} is not deleted`);
+    }
+
+    const versions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
+    const derived = derivePluginState(plugin, versions);
+    let status: PluginStatus;
+    if (plugin.statusBeforeDeletion === PluginStatus.UNPUBLISHED) {
+      status = PluginStatus.UNPUBLISHED;
+    } else if (versions.length > 0) {
+      status = derived.status;
+    } else {
+      // Without versions there is nothing to derive from
+      status = plugin.statusBeforeDeletion ?? PluginStatus.PENDING_REVIEW;
+    }
+    const restored = await this.lifecycle.transitionPlugin(plugin, status, restoredBy, {
+      latestVersionId: derived.latestVersionId,
+      isDeleted: false,
+      deletedAt: null,
+      deletedBy: null,
+      statusBeforeDeletion: null,
+    });
+
+    this.logger.log(`Restored plugin ${packageId} to ${status} by ${restoredBy}`);
+    await this.auditService.record({
+      actorId: restoredBy,
+      actorRole: AuditActorRole.ADMIN,
+      action: AuditAction.PLUGIN_RESTORED,
+      entityType: AuditEntityType.PLUGIN,
+      entityId: plugin.id,
+      oldStatus: plugin.status,
+      newStatus: status,
+      metadata: { packageId, deletedAt: plugin.deletedAt?.toISOString() ?? null, deletedBy: plugin.deletedBy ?? null },
+    });
+    return this.toPluginResponse(restored);
+  }
+
+  /**
+   * Lists deleted plugins awaiting purge, oldest deletion first.
+   */
+  async listDeletedPlugins(): Promise<DeletedPluginResponse[]> {
+    const plugins = await this.pluginsRepository.findDeleted();
+    return plugins.map(
+      (p) =>
+        new DeletedPluginResponse(
+          p.id,
+          p.packageId,
+          p.name,
+          p.statusBeforeDeletion ?? null,
+          p.deletedAt ?? null,
+          p.deletedBy ?? null,
+          this.purgeAfter(p),
+        ),
+    );
+  }
+
+  /**
+   * Purges the plugins deleted longer ago than the retention window, removing
+   * their artifacts, icons, versions and records. A plugin that fails to
+   * purge is logged and retried on the next run.
+   *
+   * @returns The number of plugins purged
+   */
+  async purgeExpiredPlugins(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS);
+    const expired = await this.pluginsRepository.findDeleted(cutoff);
+
+    let purged = 0;
+    for (const plugin of expired) {
+      try {
+        if (await this.purgePlugin(plugin)) {
+          purged++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to purge plugin ${plugin.packageId}: ${error.message}`);
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Retrieves statistics about a plugin.
+   */
+  async getPluginStatistics(packageId: string): Promise<PluginStatisticsResponse> {
+    this.logger.debug(`Fetching statistics for plugin ${packageId}`);
+
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (!plugin || plugin.isDeleted) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+
+    const allVersions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
+    const totalDownloads = allVersions.reduce((sum, v) => sum + v.downloadCount, 0);
+
+    const publishedVersions = await this.versionsRepository.countByPluginIdAndStatus(
+      plugin.id,
+      'PUBLISHED' as any,
+    );
+
+    return new PluginStatisticsResponse(
+      plugin.packageId,
+      plugin.name,
+      plugin.status,
+      allVersions.length,
+      publishedVersions,
+      totalDownloads,
+      plugin.createdAt,
+      plugin.updatedAt,
+    );
+  }
+
+  // ===== Private helper methods =====
+
+  /**
+   * Permanently removes a plugin, its versions and their stored files.
+   * Storage cleanup failures are logged and do not stop the purge.
+   *
+   * @returns false if the plugin was restored in the meantime
+   */
+  private async purgePlugin(deleted: Plugin): Promise<boolean> {
+    const plugin = await this.pluginsRepository.findById(deleted.id);
+    if (!plugin?.isDeleted) {
+      return false;
+    }
+    const packageId = plugin.packageId;
+    this.logger.log(`Purging plugin ${packageId}`);
 
     // Get all versions for storage cleanup
     const versions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
@@ -390,43 +921,84 @@ export class PluginsService {
     // Delete the plugin record from database
     await this.pluginsRepository.delete(plugin.id);
 
-    this.logger.log(`Successfully deleted plugin ${packageId} and all associated data`);
+    this.logger.log(`Successfully purged plugin ${packageId} and all associated data`);
+    await this.auditService.record({
+      actorId: PURGE_ACTOR,
+      actorRole: AuditActorRole.SYSTEM,
+      action: AuditAction.PLUGIN_PURGED,
+      entityType: AuditEntityType.PLUGIN,
+      entityId: plugin.id,
+      oldStatus: plugin.status,
+      newStatus: null,
+      metadata: { packageId, versions: versions.map((v) => v.version), deletedBy: plugin.deletedBy ?? null },
+    });
+    return true;
   }
 
   /**
-   * Retrieves statistics about a plugin.
+   * When a deleted plugin is purged and its packageId released.
    */
-  async getPluginStatistics(packageId: string): Promise<PluginStatisticsResponse> {
-    this.logger.debug(`Fetching statistics for plugin ${packageId}`);
+  private purgeAfter(plugin: Plugin): Date | null {
+    return plugin.deletedAt ? new Date(plugin.deletedAt.getTime() + this.retentionDays * DAY_MS) : null;
+  }
 
+  /**
+   * Finds a version whose plugin is visible in the store (not deleted).
+   */
+  private async findLivePlugin(packageId: string): Promise<Plugin> {
     const plugin = await this.pluginsRepository.findByPackageId(packageId);
-    if (!plugin) {
+    if (!plugin || plugin.isDeleted) {
       throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
     }
+    return plugin;
+  }
 
-    const allVersions = await this.versionsRepository.findByPluginIdOrderByCreatedAtDesc(plugin.id);
-    const totalDownloads = allVersions.reduce((sum, v) => sum + v.downloadCount, 0);
+  private async findVersionOfPlugin(
+    packageId: string,
+    version: string,
+  ): Promise<{ plugin: Plugin; pluginVersion: PluginVersion }> {
+    const plugin = await this.findLivePlugin(packageId);
+    const pluginVersion = await this.versionsRepository.findByPluginIdAndVersion(plugin.id, version);
+    if (!pluginVersion) {
+      throw new ResourceNotFoundException('PluginVersion', 'version', version);
+    }
+    return { plugin, pluginVersion };
+  }
 
-    const publishedVersions = await this.versionsRepository.countByPluginIdAndStatus(
-      plugin.id,
-      'PUBLISHED' as any,
-    );
+  private async findVisibleVersion(versionId: string): Promise<PluginVersion> {
+    const version = await this.versionsRepository.findById(versionId);
+    const plugin = version ? await this.pluginsRepository.findById(version.pluginId) : null;
+    if (!version || plugin?.isDeleted) {
+      throw new ResourceNotFoundException('PluginVersion', 'id', versionId);
+    }
+    return version;
+  }
 
-    return new PluginStatisticsResponse(
-      plugin.packageId,
-      plugin.name,
-      plugin.status,
-      allVersions.length,
-      publishedVersions,
-      totalDownloads,
-      plugin.createdAt,
-      plugin.updatedAt,
-    );
+  /**
+   * Search results are ranked by relevance unless another sort is asked for;
+   * without a search, relevance falls back to the most recent first.
+   */
+  private resolveStoreSort(sort: StorePluginSort | undefined, searching: boolean): StorePluginSort {
+    if (!searching) {
+      return !sort || sort === StorePluginSort.RELEVANCE ? StorePluginSort.RECENT : sort;
+    }
+    return sort || StorePluginSort.RELEVANCE;
   }
 
-  // ===== Private helper methods =====
+  private toVersionFilesResponse(version: PluginVersion): PluginVersionFilesResponse {
+    const files = version.files.map(
+      (f) => new PluginVersionFileResponse(f.path, f.size, f.sha256, f.mimeType),
+    );
+    return new PluginVersionFilesResponse(
+      version.id,
+      version.version,
+      files.length,
+      files.reduce((total, f) => total + f.size, 0),
+      files,
+    );
+  }
 
-  private toPluginResponse(plugin: Plugin): PluginResponse {
+  private toPluginResponse(plugin: Plugin, match?: StorePluginMatch): PluginResponse {
     return new PluginResponse(
       plugin.id,
       plugin.packageId,
@@ -441,9 +1013,21 @@ export class PluginsService {
       plugin.sourceUrl || null,
       plugin.createdAt,
       plugin.updatedAt,
+      plugin.totalDownloads ?? 0,
+      plugin.ratingAverage ?? null,
+      plugin.ratingCount ?? 0,
+      !!plugin.verified,
+      !!plugin.featured,
+      match ? new PluginSearchMatchResponse(match.rank, match.nameHighlight, match.snippet) : undefined,
     );
   }
 
+  private toFacetsResponse(counts: StorePluginFacetCount[]): StorePluginFacetsResponse {
+    const facet = (name: StorePluginFacetCount['facet']) =>
+      counts.filter((c) => c.facet === name).map((c) => new FacetCountResponse(c.value, c.count));
+    return new StorePluginFacetsResponse(facet('category'), facet('tag'));
+  }
+
   private async toPluginDetailResponse(
     plugin: Plugin,
     version: PluginVersion,
@@ -499,6 +1083,33 @@ export class PluginsService {
       version.checksumSha256 || null,
       storageBucket || null,
       storagePath || null,
+      version.signatures.map(
+        (s) => new PackageSignatureResponse(s.role, s.keyId, s.algorithm, s.publicKey, s.signature),
+      ),
+      this.toPermissionAnalysisResponse(version.permissionAnalysis),
+      this.deprecationMessage(version),
+    );
+  }
+
+  private toPermissionAnalysisResponse(
+    analysis: PermissionAnalysis | null | undefined,
+  ): PermissionAnalysisResponse | null {
+    if (!analysis) {
+      return null;
+    }
+    return new PermissionAnalysisResponse(
+      analysis.detected,
+      analysis.findings.map(
+        (f) =>
+          new PermissionFindingResponse(
+            f.type,
+            f.permission,
+            f.message,
+            f.file ?? null,
+            f.line ?? null,
+            f.column ?? null,
+          ),
+      ),
     );
   }
 
@@ -523,6 +1134,13 @@ export class PluginsService {
       version.storageBucket || null,
       version.fileSizeBytes || null,
       version.checksumSha256 || null,
+      // Lifecycle
+      this.deprecationMessage(version),
+      version.status === VersionStatus.YANKED ? version.yankReason || null : null,
     );
   }
+
+  private deprecationMessage(version: PluginVersion): string | null {
+    return version.status === VersionStatus.DEPRECATED ? version.deprecationMessage || null : null;
+  }
 }
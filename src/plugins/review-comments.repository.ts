@@ -0,0 +1,120 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import { ReviewComment, CreateReviewCommentDto } from '../common/entities/review-comment.entity';
+import { ReviewCommentAuthorRole } from '../common/enums/review-comment-author.enum';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for ReviewComment entity using Supabase.
+ */
+@Injectable()
+export class ReviewCommentsRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find every comment on the given versions, oldest first.
+   */
+  async findByVersionIds(versionIds: string[]): Promise<ReviewComment[]> {
+    if (versionIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('review_comments')
+      .select('*')
+      .in('version_id', versionIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load review comments: ${error.message}`);
+    }
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Count the threads (root comments) on a version.
+   */
+  async countThreadsByVersionId(versionId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('review_comments')
+      .select('*', { count: 'exact', head: true })
+      .eq('version_id', versionId)
+      .is('parent_id', null);
+
+    if (error) {
+      return 0;
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Find a comment by ID.
+   */
+  async findById(id: string): Promise<ReviewComment | null> {
+    const { data, error } = await this.supabase
+      .from('review_comments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Create a comment.
+   */
+  async create(dto: CreateReviewCommentDto): Promise<ReviewComment> {
+    const { data, error } = await this.supabase
+      .from('review_comments')
+      .insert({
+        id: crypto.randomUUID(),
+        version_id: dto.versionId,
+        parent_id: dto.parentId || null,
+        author_id: dto.authorId,
+        author_role: dto.authorRole,
+        body: dto.body,
+        file: dto.file || null,
+        line: dto.line ?? null,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create review comment: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Map database row to ReviewComment entity.
+   */
+  private mapToEntity(data: any): ReviewComment {
+    return {
+      id: data.id,
+      versionId: data.version_id,
+      parentId: data.parent_id,
+      authorId: data.author_id,
+      authorRole: data.author_role as ReviewCommentAuthorRole,
+      body: data.body,
+      file: data.file,
+      line: data.line,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
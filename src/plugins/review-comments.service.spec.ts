@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ReviewCommentsService } from './review-comments.service';
+import { ReviewCommentsRepository } from './review-comments.repository';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { VersionStatus } from '../common/enums/version-status.enum';
+import { ReviewCommentAuthorRole } from '../common/enums/review-comment-author.enum';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { ReviewComment, CreateReviewCommentDto } from '../common/entities/review-comment.entity';
+import { PluginVersion } from '../common/entities/plugin-version.entity';
+import { AuditService } from '../audit/audit.service';
+
+describe('ReviewCommentsService', () => {
+  let service: ReviewCommentsService;
+  let comments: ReviewComment[];
+  let commentsRepository: { create: jest.Mock };
+
+  const version = (id: string, overrides: Partial<PluginVersion> = {}): PluginVersion => ({
+    id,
+    pluginId: 'plugin-1',
+    version: '1.0.0',
+    manifest: {},
+    minAppVersion: '1.0.0',
+    status: VersionStatus.PENDING_REVIEW,
+    createdAt: new Date('2024-01-01'),
+    downloadCount: 0,
+    isFlagged: false,
+    files: [{ path: 'plugin.js', size: 100, sha256: 'aa11', mimeType: 'text/javascript' }],
+    signatures: [],
+    scanFindings: [],
+    ...overrides,
+  });
+
+  // 1.0.1 resubmits 1.0.0, which was sent back for changes
+  const versions: Record<string, PluginVersion> = {
+    'version-1': version('version-1', { status: VersionStatus.CHANGES_REQUESTED }),
+    'version-2': version('version-2', { version: '1.0.1', resubmissionOfVersionId: 'version-1' }),
+    'version-other': version('version-other', { pluginId: 'plugin-2' }),
+  };
+
+  const comment = (id: string, versionId: string, overrides: Partial<ReviewComment> = {}): ReviewComment => ({
+    id,
+    versionId,
+    parentId: null,
+    authorId: 'admin-1',
+    authorRole: ReviewCommentAuthorRole.REVIEWER,
+    body: `comment ${id}`,
+    file: null,
+    line: null,
+    createdAt: new Date('2024-01-02'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    comments = [
+      comment('thread-1', 'version-1', { file: 'plugin.js', line: 12 }),
+      comment('reply-1', 'version-1', {
+        parentId: 'thread-1',
+        authorId: 'dev-1',
+        authorRole: ReviewCommentAuthorRole.DEVELOPER,
+      }),
+      comment('thread-2', 'version-2'),
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewCommentsService,
+        {
+          provide: ReviewCommentsRepository,
+          useValue: {
+            findByVersionIds: jest.fn(async (ids: string[]) => comments.filter((c) => ids.includes(c.versionId))),
+            findById: jest.fn(async (id: string) => comments.find((c) => c.id === id) || null),
+            countThreadsByVersionId: jest.fn(),
+            create: jest.fn(async (dto: CreateReviewCommentDto) => {
+              const created = comment(`new-${comments.length}`, dto.versionId, {
+                ...dto,
+                parentId: dto.parentId ?? null,
+                file: dto.file ?? null,
+                line: dto.line ?? null,
+                createdAt: new Date('2024-01-03'),
+              });
+              comments.push(created);
+              return created;
+            }),
+          },
+        },
+        {
+          provide: PluginsRepository,
+          useValue: {
+            findByPackageId: jest.fn(async (packageId: string) =>
+              packageId === 'com.acme.tasks'
+                ? { id: 'plugin-1', packageId, status: PluginStatus.PENDING_REVIEW }
+                : null,
+            ),
+          },
+        },
+        {
+          provide: PluginVersionsRepository,
+          useValue: {
+            findById: jest.fn(async (id: string) => versions[id] || null),
+            findByPluginIdAndVersion: jest.fn(async (pluginId: string, v: string) =>
+              Object.values(versions).find((x) => x.pluginId === pluginId && x.version === v) || null,
+            ),
+          },
+        },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ReviewCommentsService>(ReviewCommentsService);
+    commentsRepository = module.get(ReviewCommentsRepository);
+  });
+
+  describe('startThread', () => {
+    it('should open a thread anchored to a file and line in the package', async () => {
+      const thread = await service.startThread(
+        'version-2',
+        { body: ' Why is this needed? ', file: 'plugin.js', line: 3 },
+        'admin-1',
+      );
+
+      expect(commentsRepository.create).toHaveBeenCalledWith({
+        versionId: 'version-2',
+        authorId: 'admin-1',
+        authorRole: ReviewCommentAuthorRole.REVIEWER,
+        body: 'Why is this needed?',
+        file: 'plugin.js',
+        line: 3,
+      });
+      expect(thread).toMatchObject({ versionId: 'version-2', version: '1.0.1', file: 'plugin.js', line: 3 });
+      expect(thread.comments).toHaveLength(1);
+    });
+
+    it('should reject files that are not in the package', async () => {
+      await expect(
+        service.startThread('version-2', { body: 'Hm', file: 'missing.js' }, 'admin-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(commentsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ResourceNotFoundException for an unknown version', async () => {
+      await expect(service.startThread('nope', { body: 'Hm' }, 'admin-1')).rejects.toThrow(
+        ResourceNotFoundException,
+      );
+    });
+  });
+
+  describe('reply', () => {
+    it('should add a reply to a reply to the root of its thread', async () => {
+      const thread = await service.reply(
+        'reply-1',
+        { body: 'Fixed in 1.0.1' },
+        'admin-1',
+        ReviewCommentAuthorRole.REVIEWER,
+      );
+
+      expect(commentsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ versionId: 'version-1', parentId: 'thread-1' }),
+      );
+      expect(thread.id).toBe('thread-1');
+      expect(thread.comments.map((c) => c.id)).toEqual(['thread-1', 'reply-1', 'new-3']);
+    });
+  });
+
+  describe('getThreads', () => {
+    it('should include the threads of the versions a resubmission responds to', async () => {
+      const threads = await service.getThreads('version-2');
+
+      expect(threads.map((t) => [t.id, t.version, t.comments.length])).toEqual([
+        ['thread-2', '1.0.1', 1],
+        ['thread-1', '1.0.0', 2],
+      ]);
+      expect(threads[1]).toMatchObject({ file: 'plugin.js', line: 12 });
+    });
+
+    it('should stop at a resubmission cycle', async () => {
+      versions['version-1'].resubmissionOfVersionId = 'version-2';
+      try {
+        expect(await service.getThreads('version-2')).toHaveLength(2);
+      } finally {
+        versions['version-1'].resubmissionOfVersionId = undefined;
+      }
+    });
+  });
+
+  describe('developer access', () => {
+    it('should list threads by package and version string', async () => {
+      const threads = await service.getThreadsForPackage('com.acme.tasks', '1.0.1');
+      expect(threads).toHaveLength(2);
+    });
+
+    it('should reply as the developer', async () => {
+      await service.replyForPackage('com.acme.tasks', 'thread-2', { body: 'Done' }, 'dev-1');
+
+      expect(commentsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ parentId: 'thread-2', authorRole: ReviewCommentAuthorRole.DEVELOPER }),
+      );
+    });
+
+    it("should not reveal threads on another plugin's versions", async () => {
+      comments.push(comment('thread-other', 'version-other'));
+
+      await expect(
+        service.replyForPackage('com.acme.tasks', 'thread-other', { body: 'Done' }, 'dev-1'),
+      ).rejects.toThrow(ResourceNotFoundException);
+      expect(commentsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { ReviewCommentsRepository } from './review-comments.repository';
+import { AuditService } from '../audit/audit.service';
+import { ReviewCommentAuthorRole } from '../common/enums/review-comment-author.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import {
+  CreateReviewThreadRequestDto,
+  ReviewCommentReplyRequestDto,
+  ReviewCommentResponse,
+  ReviewThreadResponse,
+} from '../common/dto';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { ReviewComment } from '../common/entities/review-comment.entity';
+import { PluginVersion } from '../common/entities/plugin-version.entity';
+
+/** Most earlier versions whose threads are shown with a resubmission. */
+export const MAX_RESUBMISSION_DEPTH = 20;
+
+/**
+ * Service for the threaded review comments behind a changes request.
+ *
+ * Reviewers open threads on a version, optionally anchored to a file and
+ * line in its package; reviewers and the plugin's developer reply to them.
+ * A version resubmitted in response to a changes request shows the threads
+ * of the versions it resubmits, so the discussion carries over.
+ */
+@Injectable()
+export class ReviewCommentsService {
+  private readonly logger = new Logger(ReviewCommentsService.name);
+
+  constructor(
+    private readonly commentsRepository: ReviewCommentsRepository,
+    private readonly pluginsRepository: PluginsRepository,
+    private readonly versionsRepository: PluginVersionsRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Opens a review thread on a version.
+   *
+   * @throws BadRequestException if the file is not in the version's package
+   */
+  async startThread(
+    versionId: string,
+    dto: CreateReviewThreadRequestDto,
+    authorId: string,
+  ): Promise<ReviewThreadResponse> {
+    const version = await this.getVersion(versionId);
+    if (dto.file && !version.files.some((f) => f.path === dto.file)) {
+      throw new BadRequestException(`File ${dto.file} is not in version ${version.version}`);
+    }
+
+    const comment = await this.commentsRepository.create({
+      versionId,
+      authorId,
+      authorRole: ReviewCommentAuthorRole.REVIEWER,
+      body: dto.body.trim(),
+      file: dto.file,
+      line: dto.line,
+    });
+
+    this.logger.log(`Review thread ${comment.id} opened on version ${versionId} by ${authorId}`);
+    await this.auditComment(comment, version);
+    return this.toThreadResponse(comment, [], version);
+  }
+
+  /**
+   * Replies to a thread. A reply to a reply is added to the same thread.
+   *
+   * @param pluginId When given, the thread must be on a version of this plugin
+   * @throws ResourceNotFoundException if the comment does not exist (or is on another plugin)
+   */
+  async reply(
+    commentId: string,
+    dto: ReviewCommentReplyRequestDto,
+    authorId: string,
+    authorRole: ReviewCommentAuthorRole,
+    pluginId?: string,
+  ): Promise<ReviewThreadResponse> {
+    const comment = await this.commentsRepository.findById(commentId);
+    const version = comment ? await this.versionsRepository.findById(comment.versionId) : null;
+    if (!comment || !version || (pluginId && version.pluginId !== pluginId)) {
+      throw new ResourceNotFoundException('Review comment', 'id', commentId);
+    }
+
+    const rootId = comment.parentId || comment.id;
+    const reply = await this.commentsRepository.create({
+      versionId: comment.versionId,
+      parentId: rootId,
+      authorId,
+      authorRole,
+      body: dto.body.trim(),
+    });
+    this.logger.log(`${authorRole} ${authorId} replied to review thread ${rootId}`);
+    await this.auditComment(reply, version);
+
+    const comments = await this.commentsRepository.findByVersionIds([comment.versionId]);
+    const root = comments.find((c) => c.id === rootId) as ReviewComment;
+    return this.toThreadResponse(
+      root,
+      comments.filter((c) => c.parentId === rootId),
+      version,
+    );
+  }
+
+  /**
+   * Lists the threads on a version and on the versions it resubmits, newest
+   * version first and oldest thread first within a version.
+   */
+  async getThreads(versionId: string): Promise<ReviewThreadResponse[]> {
+    const versions = await this.getResubmissionChain(await this.getVersion(versionId));
+    const comments = await this.commentsRepository.findByVersionIds(versions.map((v) => v.id));
+
+    const threads: ReviewThreadResponse[] = [];
+    for (const version of versions) {
+      for (const root of comments.filter((c) => c.versionId === version.id && !c.parentId)) {
+        threads.push(
+          this.toThreadResponse(
+            root,
+            comments.filter((c) => c.parentId === root.id),
+            version,
+          ),
+        );
+      }
+    }
+    return threads;
+  }
+
+  /**
+   * Lists the threads on a version of a plugin, for its developer.
+   *
+   * @throws ResourceNotFoundException if the plugin or version does not exist
+   */
+  async getThreadsForPackage(packageId: string, version: string): Promise<ReviewThreadResponse[]> {
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (!plugin) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+    const pluginVersion = await this.versionsRepository.findByPluginIdAndVersion(plugin.id, version);
+    if (!pluginVersion) {
+      throw new ResourceNotFoundException('PluginVersion', 'version', version);
+    }
+    return this.getThreads(pluginVersion.id);
+  }
+
+  /**
+   * Replies to a thread as the plugin's developer.
+   *
+   * @throws ResourceNotFoundException if the plugin does not exist or the thread is not on one of its versions
+   */
+  async replyForPackage(
+    packageId: string,
+    commentId: string,
+    dto: ReviewCommentReplyRequestDto,
+    authorId: string,
+  ): Promise<ReviewThreadResponse> {
+    const plugin = await this.pluginsRepository.findByPackageId(packageId);
+    if (!plugin) {
+      throw new ResourceNotFoundException('Plugin', 'packageId', packageId);
+    }
+    return this.reply(commentId, dto, authorId, ReviewCommentAuthorRole.DEVELOPER, plugin.id);
+  }
+
+  /**
+   * Counts the threads opened on a version.
+   */
+  async countThreads(versionId: string): Promise<number> {
+    return this.commentsRepository.countThreadsByVersionId(versionId);
+  }
+
+  /**
+   * The version followed by the versions it resubmits, newest first.
+   */
+  private async getResubmissionChain(version: PluginVersion): Promise<PluginVersion[]> {
+    const chain = [version];
+    let previousId = version.resubmissionOfVersionId;
+    while (previousId && chain.length <= MAX_RESUBMISSION_DEPTH && !chain.some((v) => v.id === previousId)) {
+      const previous = await this.versionsRepository.findById(previousId);
+      if (!previous) {
+        break;
+      }
+      chain.push(previous);
+      previousId = previous.resubmissionOfVersionId;
+    }
+    return chain;
+  }
+
+  private async auditComment(comment: ReviewComment, version: PluginVersion): Promise<void> {
+    await this.auditService.record({
+      actorId: comment.authorId,
+      actorRole:
+        comment.authorRole === ReviewCommentAuthorRole.DEVELOPER ? AuditActorRole.DEVELOPER : AuditActorRole.ADMIN,
+      action: AuditAction.REVIEW_COMMENT_ADDED,
+      entityType: AuditEntityType.REVIEW_COMMENT,
+      entityId: comment.id,
+      entityVersion: version.version,
+      metadata: { versionId: version.id, threadId: comment.parentId || comment.id, file: comment.file, line: comment.line },
+    });
+  }
+
+  private async getVersion(versionId: string): Promise<PluginVersion> {
+    const version = await this.versionsRepository.findById(versionId);
+    if (!version) {
+      throw new ResourceNotFoundException('PluginVersion', 'id', versionId);
+    }
+    return version;
+  }
+
+  private toThreadResponse(
+    root: ReviewComment,
+    replies: ReviewComment[],
+    version: PluginVersion,
+  ): ReviewThreadResponse {
+    return new ReviewThreadResponse(
+      root.id,
+      version.id,
+      version.version,
+      root.file,
+      root.line,
+      [root, ...replies].map(
+        (c) => new ReviewCommentResponse(c.id, c.authorId, c.authorRole, c.body, c.createdAt),
+      ),
+    );
+  }
+}
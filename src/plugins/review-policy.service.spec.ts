@@ -0,0 +1,42 @@
+import { ConfigService } from '@nestjs/config';
+import { ReviewPolicy } from './review-policy.service';
+
+describe('ReviewPolicy', () => {
+  const policy = (overrides: Record<string, unknown> = {}) =>
+    new ReviewPolicy({
+      get: () => ({
+        requiredApprovals: 1,
+        sensitiveApprovals: 2,
+        sensitivePermissions: ['network', 'clipboard:read'],
+        ...overrides,
+      }),
+    } as unknown as ConfigService);
+
+  it('should need one approver for ordinary versions', () => {
+    expect(policy().requiredApprovals(['storage:read', 'clipboard:write'], [])).toEqual({
+      required: 1,
+      reasons: [],
+    });
+  });
+
+  it('should treat scoped forms of a sensitive family as sensitive', () => {
+    expect(policy().requiredApprovals(['network:https://api.acme.com', 'clipboard:read'], [])).toEqual({
+      required: 2,
+      reasons: ['Requests sensitive permissions: network:https://api.acme.com, clipboard:read'],
+    });
+  });
+
+  it('should list each OAuth provider once', () => {
+    expect(policy().requiredApprovals([], ['slack', 'github', 'slack'])).toEqual({
+      required: 2,
+      reasons: ['Uses OAuth providers: github, slack'],
+    });
+  });
+
+  it('should never need fewer approvers than the default', () => {
+    expect(policy({ requiredApprovals: 3 }).requiredApprovals(['network'], [])).toEqual({
+      required: 3,
+      reasons: [],
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * How many distinct reviewers must approve a version, and why.
+ */
+export interface ApprovalRequirement {
+  required: number;
+
+  /** Why more than the default number of approvals is needed; empty otherwise. */
+  reasons: string[];
+}
+
+/**
+ * Decides how many distinct approvers a version needs before it is published
+ * (see the `review` config).
+ *
+ * Versions of plugins with active OAuth clients, or declaring a sensitive
+ * permission, need `sensitiveApprovals`; all others need `requiredApprovals`.
+ * A sensitive family (e.g. `network`) covers its scoped forms
+ * (`network:https://api.example.com`).
+ */
+@Injectable()
+export class ReviewPolicy {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * @param permissions manifest.permissions of the version
+   * @param oauthProviders Providers of the plugin's active OAuth clients
+   */
+  requiredApprovals(permissions: string[], oauthProviders: string[]): ApprovalRequirement {
+    const config = this.configService.get('review');
+    const sensitive: string[] = config.sensitivePermissions;
+
+    const reasons: string[] = [];
+    const providers = [...new Set(oauthProviders)].sort();
+    if (providers.length > 0) {
+      reasons.push(`Uses OAuth providers: ${providers.join(', ')}`);
+    }
+    const sensitivePermissions = permissions.filter((p) =>
+      sensitive.some((s) => p === s || p.startsWith(`${s}:`)),
+    );
+    if (sensitivePermissions.length > 0) {
+      reasons.push(`Requests sensitive permissions: ${sensitivePermissions.join(', ')}`);
+    }
+
+    const defaultApprovals = Math.max(1, config.requiredApprovals);
+    const required = reasons.length > 0 ? Math.max(defaultApprovals, config.sensitiveApprovals) : defaultApprovals;
+    return { required, reasons: required > defaultApprovals ? reasons : [] };
+  }
+}
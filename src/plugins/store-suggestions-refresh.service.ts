@@ -0,0 +1,61 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PluginsRepository } from './plugins.repository';
+
+/**
+ * Applies pending plugin changes to the store suggestions index every
+ * `refreshIntervalSeconds` (see the `app.storeSuggestions` config), so that
+ * bursts of changes cost one rebuild. Runs never overlap; a run that is still
+ * going when the next is due makes that one a no-op.
+ */
+@Injectable()
+export class StoreSuggestionsRefreshService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StoreSuggestionsRefreshService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly pluginsRepository: PluginsRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalSeconds: number = this.configService.get('app.storeSuggestions').refreshIntervalSeconds;
+    if (intervalSeconds <= 0) {
+      this.logger.log('Refreshing of store suggestions is disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.refresh(), intervalSeconds * 1000);
+    // The schedule alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Rebuilds the suggestions index if changes are pending, unless a refresh
+   * is already running. Failures are logged, never thrown.
+   */
+  async refresh(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      if (await this.pluginsRepository.refreshStoreSuggestions()) {
+        this.logger.debug('Refreshed store suggestions');
+      }
+    } catch (error) {
+      this.logger.error(`Failed to refresh store suggestions: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
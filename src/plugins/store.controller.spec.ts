@@ -1,8 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Response } from 'express';
 import { StoreController } from './store.controller';
 import { PluginsService } from './plugins.service';
+import { StoreSigner } from '../signing/store-signer.service';
 import { PluginStatus } from '../common/enums/plugin-status.enum';
 import { VersionStatus } from '../common/enums/version-status.enum';
+import { StorePluginSort } from '../common/enums/store-plugin-sort.enum';
 import { PluginDetailResponse, PluginVersionResponse, PluginStatisticsResponse } from '../common/dto';
 
 describe('StoreController', () => {
@@ -23,6 +26,11 @@ describe('StoreController', () => {
     sourceUrl: 'https://github.com/test',
     createdAt: new Date(),
     updatedAt: new Date(),
+    totalDownloads: 100,
+    ratingAverage: null,
+    ratingCount: 0,
+    verified: true,
+    featured: false,
   };
 
   const mockPluginDetailResponse: PluginDetailResponse = {
@@ -50,6 +58,9 @@ describe('StoreController', () => {
     checksumSha256: 'abc123',
     storageBucket: 'artifacts',
     storagePath: 'path/to/plugin.zip',
+    signatures: [],
+    permissionAnalysis: null,
+    deprecationMessage: null,
   };
 
   const mockVersionResponse: PluginVersionResponse = {
@@ -71,6 +82,8 @@ describe('StoreController', () => {
     storageBucket: 'artifacts',
     fileSizeBytes: 1024,
     checksumSha256: 'abc123',
+    deprecationMessage: null,
+    yankReason: null,
   };
 
   const mockStatisticsResponse: PluginStatisticsResponse = {
@@ -87,9 +100,11 @@ describe('StoreController', () => {
   beforeEach(async () => {
     const mockPluginsService = {
       listPublishedPlugins: jest.fn(),
+      suggest: jest.fn(),
       getPluginByPackageId: jest.fn(),
       getPluginVersions: jest.fn(),
       getVersionById: jest.fn(),
+      getVersionFiles: jest.fn(),
       getPluginStatistics: jest.fn(),
     };
 
@@ -100,6 +115,16 @@ describe('StoreController', () => {
           provide: PluginsService,
           useValue: mockPluginsService,
         },
+        {
+          provide: StoreSigner,
+          useValue: {
+            getPublicKey: jest.fn().mockReturnValue({
+              keyId: 'store-key',
+              algorithm: 'Ed25519',
+              publicKey: 'c3RvcmUta2V5',
+            }),
+          },
+        },
       ],
     }).compile();
 
@@ -116,39 +141,58 @@ describe('StoreController', () => {
   });
 
   describe('listPlugins', () => {
-    it('should return paginated list of plugins', async () => {
-      service.listPublishedPlugins.mockResolvedValue({
+    it('should return paginated list of plugins with facets', async () => {
+      const page = {
         data: [mockPluginResponse],
         total: 1,
         page: 0,
         pageSize: 20,
         totalPages: 1,
-      });
+        facets: { categories: [{ value: 'productivity', count: 1 }], tags: [{ value: 'test', count: 1 }] },
+        nextCursor: null,
+      };
+      service.listPublishedPlugins.mockResolvedValue(page);
 
-      const result = await controller.listPlugins(undefined, undefined, 0, 20);
+      const result = await controller.listPlugins({});
 
-      expect(result).toEqual({
-        data: [mockPluginResponse],
-        total: 1,
-        page: 0,
-        pageSize: 20,
-        totalPages: 1,
-      });
-      expect(service.listPublishedPlugins).toHaveBeenCalledWith(undefined, undefined, 0, 20);
+      expect(result).toEqual(page);
+      expect(service.listPublishedPlugins).toHaveBeenCalledWith({});
     });
 
-    it('should pass category and search parameters to service', async () => {
+    it('should pass the combined filters and sort to service', async () => {
       service.listPublishedPlugins.mockResolvedValue({
         data: [],
         total: 0,
         page: 0,
         pageSize: 20,
         totalPages: 0,
+        facets: { categories: [], tags: [] },
+        nextCursor: null,
       });
+      const query = {
+        category: 'productivity',
+        search: 'test',
+        tags: ['tasks'],
+        verified: true,
+        sort: StorePluginSort.DOWNLOADS,
+        page: 1,
+      };
 
-      await controller.listPlugins('productivity', 'test', 0, 20);
+      await controller.listPlugins(query);
 
-      expect(service.listPublishedPlugins).toHaveBeenCalledWith('productivity', 'test', 0, 20);
+      expect(service.listPublishedPlugins).toHaveBeenCalledWith(query);
+    });
+  });
+
+  describe('suggest', () => {
+    it('should return the suggestions for the query', async () => {
+      const suggestions = { names: [{ value: 'Tasks', count: 1 }], categories: [], tags: [], authors: [] };
+      service.suggest.mockResolvedValue(suggestions);
+
+      const result = await controller.suggest({ q: 'tas', limit: 3 });
+
+      expect(result).toEqual(suggestions);
+      expect(service.suggest).toHaveBeenCalledWith({ q: 'tas', limit: 3 });
     });
   });
 
@@ -173,12 +217,23 @@ describe('StoreController', () => {
 
   describe('getPluginVersions', () => {
     it('should return all versions of a plugin', async () => {
-      service.getPluginVersions.mockResolvedValue([mockVersionResponse]);
+      service.getPluginVersions.mockResolvedValue({ data: [mockVersionResponse], nextCursor: null });
+      const res = { setHeader: jest.fn() } as unknown as Response;
 
-      const result = await controller.getPluginVersions('com.example.plugin');
+      const result = await controller.getPluginVersions('com.example.plugin', {}, res);
 
       expect(result).toEqual([mockVersionResponse]);
-      expect(service.getPluginVersions).toHaveBeenCalledWith('com.example.plugin');
+      expect(service.getPluginVersions).toHaveBeenCalledWith('com.example.plugin', {});
+      expect(res.setHeader).not.toHaveBeenCalled();
+    });
+
+    it('should send the cursor of the next page in a header', async () => {
+      service.getPluginVersions.mockResolvedValue({ data: [mockVersionResponse], nextCursor: 'next' });
+      const res = { setHeader: jest.fn() } as unknown as Response;
+
+      await controller.getPluginVersions('com.example.plugin', { pageSize: 1 }, res);
+
+      expect(res.setHeader).toHaveBeenCalledWith('X-Next-Cursor', 'next');
     });
   });
 
@@ -193,6 +248,24 @@ describe('StoreController', () => {
     });
   });
 
+  describe('getVersionFiles', () => {
+    it('should return the version file inventory', async () => {
+      const inventory = {
+        versionId: 'version-1',
+        version: '1.0.0',
+        totalFiles: 1,
+        totalSizeBytes: 1024,
+        files: [{ path: 'plugin.js', size: 1024, sha256: 'abc123', mimeType: 'text/javascript' }],
+      };
+      service.getVersionFiles.mockResolvedValue(inventory);
+
+      const result = await controller.getVersionFiles('version-1');
+
+      expect(result).toEqual(inventory);
+      expect(service.getVersionFiles).toHaveBeenCalledWith('version-1');
+    });
+  });
+
   describe('getStatistics', () => {
     it('should return plugin statistics', async () => {
       service.getPluginStatistics.mockResolvedValue(mockStatisticsResponse);
@@ -203,4 +276,14 @@ describe('StoreController', () => {
       expect(service.getPluginStatistics).toHaveBeenCalledWith('com.example.plugin');
     });
   });
+
+  describe('getSigningKeys', () => {
+    it('should return the store counter-signing key', async () => {
+      const result = await controller.getSigningKeys();
+
+      expect(result).toEqual([
+        { keyId: 'store-key', algorithm: 'Ed25519', publicKey: 'c3RvcmUta2V5' },
+      ]);
+    });
+  });
 });
@@ -1,13 +1,23 @@
-import { Controller, Get, Param, Query, UsePipes, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Header, Param, Query, Res, UsePipes, ValidationPipe } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Response } from 'express';
 import { PluginsService } from './plugins.service';
 import {
-  PluginResponse,
   PluginDetailResponse,
   PluginVersionResponse,
+  PluginVersionFilesResponse,
   PluginStatisticsResponse,
-  PaginatedResponse,
+  PluginUpdateCheckResponse,
+  StoreSigningKeyResponse,
+  StorePluginPageResponse,
+  StorePluginsQueryDto,
+  StoreSuggestionsResponse,
+  StoreSuggestQueryDto,
+  CursorPageQueryDto,
 } from '../common/dto';
+import { NEXT_CURSOR_HEADER } from '../common/utils/page-cursor.util';
+import { Public } from '../common/guards/public.guard';
+import { StoreSigner } from '../signing/store-signer.service';
 
 /**
  * Public API controller for the Synapse Plugin Store.
@@ -17,31 +27,66 @@ import {
  * Base path: /api/v1/store
  */
 @ApiTags('Store')
+@Public()
 @Controller('store')
 @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
 export class StoreController {
-  constructor(private readonly pluginsService: PluginsService) {}
+  constructor(
+    private readonly pluginsService: PluginsService,
+    private readonly storeSigner: StoreSigner,
+  ) {}
 
   /**
-   * Lists all published plugins with optional filtering and pagination.
+   * Lists published plugins with combinable filters, sorting, pagination and facet counts.
    */
   @Get('plugins')
   @ApiOperation({
     summary: 'List published plugins',
     description:
-      'Returns a paginated list of all published plugins. Can be filtered by category or search term.',
+      'Returns a page of published plugins matching every given filter, sorted by search relevance, downloads, rating, recency or name, with the number of matching plugins per category and tag in facets. With a search, results are ranked by relevance by default and each plugin carries its highlighted name and a snippet of the matching text in search. Pass nextCursor back as cursor (instead of page) to get the next page without it shifting when plugins are published in between.',
   })
   @ApiQuery({ name: 'category', required: false, description: 'Filter by category (e.g., PRODUCTIVITY, SOCIAL)' })
-  @ApiQuery({ name: 'search', required: false, description: 'Search term for name and description' })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Words matched by prefix against name, tags, description and README',
+  })
+  @ApiQuery({ name: 'tags', required: false, description: 'Comma-separated tags the plugin must all have' })
+  @ApiQuery({ name: 'author', required: false, description: 'Filter by author' })
+  @ApiQuery({ name: 'verified', required: false, description: 'Only verified (true) or unverified (false) plugins' })
+  @ApiQuery({ name: 'featured', required: false, description: 'Only featured (true) or other (false) plugins' })
+  @ApiQuery({
+    name: 'minAppVersion',
+    required: false,
+    description: 'Only plugins with a version that runs on this app version (e.g., 1.0.0)',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description: 'relevance (default with a search), downloads, rating, recent (default) or name',
+    example: 'recent',
+  })
   @ApiQuery({ name: 'page', required: false, description: 'Page number (0-based)', example: 0 })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Page size (max 100)', example: 20 })
-  async listPlugins(
-    @Query('category') category?: string,
-    @Query('search') search?: string,
-    @Query('page') page = 0,
-    @Query('pageSize') pageSize = 20,
-  ): Promise<PaginatedResponse<PluginResponse>> {
-    return this.pluginsService.listPublishedPlugins(category, search, Number(page), Number(pageSize));
+  @ApiQuery({ name: 'cursor', required: false, description: 'nextCursor of the previous page, instead of page' })
+  async listPlugins(@Query() query: StorePluginsQueryDto): Promise<StorePluginPageResponse> {
+    return this.pluginsService.listPublishedPlugins(query);
+  }
+
+  /**
+   * Suggests searches as the user types.
+   */
+  @Get('suggest')
+  @Header('Cache-Control', 'public, max-age=30')
+  @ApiOperation({
+    summary: 'Suggest searches',
+    description:
+      'Returns the plugin names, categories, tags and authors of published plugins with a word starting with what has been typed, each with its number of plugins. Values starting with the query come first, then those with the most plugins. Served from an index refreshed when plugins are published, unpublished or edited, and cacheable for 30 seconds.',
+  })
+  @ApiQuery({ name: 'q', required: true, description: 'What has been typed so far (max 100 characters)', example: 'tas' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Suggestions of each kind (max 10)', example: 5 })
+  async suggest(@Query() query: StoreSuggestQueryDto): Promise<StoreSuggestionsResponse> {
+    return this.pluginsService.suggest(query);
   }
 
   /**
@@ -50,7 +95,8 @@ export class StoreController {
   @Get('plugins/:packageId')
   @ApiOperation({
     summary: 'Get plugin by package ID',
-    description: 'Returns the plugin with the latest compatible version for the specified app version.',
+    description:
+      'Returns the plugin with the latest compatible version for the specified app version. Yanked versions are never returned; a deprecated version carries its deprecationMessage.',
   })
   @ApiParam({ name: 'packageId', description: 'Package ID in reverse domain notation (e.g., com.synapse.tictic)' })
   @ApiQuery({ name: 'appVersion', required: false, description: 'App version for compatibility check (e.g., 1.0.0)' })
@@ -61,17 +107,48 @@ export class StoreController {
     return this.pluginsService.getPluginByPackageId(packageId, appVersion);
   }
 
+  /**
+   * Tells an installed copy of a plugin whether an update is available.
+   */
+  @Get('plugins/:packageId/update-check')
+  @ApiOperation({
+    summary: 'Check for updates',
+    description:
+      'Returns the newest installable version and whether it is newer than the installed one. Plugins unpublished by their owner answer with delisted=true and no update. The installed version\'s deprecation message or yank reason is included.',
+  })
+  @ApiParam({ name: 'packageId', description: 'Package ID in reverse domain notation' })
+  @ApiQuery({ name: 'installedVersion', required: false, description: 'Installed plugin version (e.g., 1.0.0)' })
+  @ApiQuery({ name: 'appVersion', required: false, description: 'App version for compatibility check (e.g., 1.0.0)' })
+  async checkForUpdate(
+    @Param('packageId') packageId: string,
+    @Query('installedVersion') installedVersion?: string,
+    @Query('appVersion') appVersion?: string,
+  ): Promise<PluginUpdateCheckResponse> {
+    return this.pluginsService.checkForUpdate(packageId, installedVersion, appVersion);
+  }
+
   /**
    * Retrieves all versions of a plugin.
    */
   @Get('plugins/:packageId/versions')
   @ApiOperation({
     summary: 'Get plugin versions',
-    description: 'Returns all versions of a plugin, ordered by creation date (newest first).',
+    description:
+      'Returns the versions of a plugin, ordered by creation date (newest first). Deprecated versions carry their deprecationMessage and yanked versions their yankReason. With pageSize or cursor only one page is returned, and the X-Next-Cursor header carries the cursor of the next page.',
   })
   @ApiParam({ name: 'packageId', description: 'Package ID in reverse domain notation' })
-  async getPluginVersions(@Param('packageId') packageId: string): Promise<PluginVersionResponse[]> {
-    return this.pluginsService.getPluginVersions(packageId);
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Page size (max 100); all versions when omitted' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'X-Next-Cursor of the previous page' })
+  async getPluginVersions(
+    @Param('packageId') packageId: string,
+    @Query() query: CursorPageQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<PluginVersionResponse[]> {
+    const page = await this.pluginsService.getPluginVersions(packageId, query);
+    if (page.nextCursor) {
+      res.setHeader(NEXT_CURSOR_HEADER, page.nextCursor);
+    }
+    return page.data;
   }
 
   /**
@@ -87,6 +164,19 @@ export class StoreController {
     return this.pluginsService.getVersionById(versionId);
   }
 
+  /**
+   * Retrieves the file inventory of a specific version.
+   */
+  @Get('versions/:versionId/files')
+  @ApiOperation({
+    summary: 'Get version files',
+    description: 'Returns every file in the version\'s .synx package with its size, SHA-256 and MIME type.',
+  })
+  @ApiParam({ name: 'versionId', description: 'Version UUID' })
+  async getVersionFiles(@Param('versionId') versionId: string): Promise<PluginVersionFilesResponse> {
+    return this.pluginsService.getVersionFiles(versionId);
+  }
+
   /**
    * Retrieves statistics for a plugin.
    */
@@ -99,4 +189,18 @@ export class StoreController {
   async getStatistics(@Param('packageId') packageId: string): Promise<PluginStatisticsResponse> {
     return this.pluginsService.getPluginStatistics(packageId);
   }
+
+  /**
+   * Lists the keys the store counter-signs published artifacts with.
+   */
+  @Get('signing-keys')
+  @ApiOperation({
+    summary: 'Get store signing keys',
+    description:
+      'Returns the Ed25519 public keys the store counter-signs published artifacts with, so hosts can pin them and verify provenance offline.',
+  })
+  async getSigningKeys(): Promise<StoreSigningKeyResponse[]> {
+    const key = this.storeSigner.getPublicKey();
+    return key ? [new StoreSigningKeyResponse(key.keyId, key.algorithm, key.publicKey)] : [];
+  }
 }
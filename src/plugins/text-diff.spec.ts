@@ -0,0 +1,67 @@
+import { MAX_EDIT_DISTANCE, unifiedDiff } from './text-diff';
+
+describe('unifiedDiff', () => {
+  const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join('');
+
+  it('should return an empty string for identical texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', 'a/plugin.js', 'b/plugin.js')).toBe('');
+  });
+
+  it('should show changes with three lines of context and merge nearby hunks', () => {
+    const before = lines(20);
+    const after = before.replace('line 2\n', 'line two\n').replace('line 7\n', '').replace('line 18\n', 'line 18\nextra\n');
+
+    expect(unifiedDiff(before, after, 'a/plugin.js', 'b/plugin.js')).toBe(
+      [
+        '--- a/plugin.js',
+        '+++ b/plugin.js',
+        '@@ -1,10 +1,9 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        ' line 6',
+        '-line 7',
+        ' line 8',
+        ' line 9',
+        ' line 10',
+        '@@ -16,5 +15,6 @@',
+        ' line 16',
+        ' line 17',
+        ' line 18',
+        '+extra',
+        ' line 19',
+        ' line 20',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should diff added and removed files against an empty side', () => {
+    expect(unifiedDiff('', 'a\nb\n', '/dev/null', 'b/lib/util.js')).toBe(
+      '--- /dev/null\n+++ b/lib/util.js\n@@ -0,0 +1,2 @@\n+a\n+b\n',
+    );
+    expect(unifiedDiff('a\n', '', 'a/lib/util.js', '/dev/null')).toBe('--- a/lib/util.js\n+++ /dev/null\n@@ -1 +0,0 @@\n-a\n');
+  });
+
+  it('should mark a missing newline at the end of the file', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb', 'a/x', 'b/x')).toBe(
+      '--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n',
+    );
+  });
+
+  it('should replace the differing middle wholesale when the edit distance is too large', () => {
+    const count = MAX_EDIT_DISTANCE;
+    const before = `header\n${lines(count, 'old')}footer\n`;
+    const after = `header\n${lines(count, 'new')}footer\n`;
+
+    const diff = unifiedDiff(before, after, 'a/x', 'b/x').split('\n');
+
+    expect(diff[2]).toBe(`@@ -1,${count + 2} +1,${count + 2} @@`);
+    expect(diff.filter((l) => l.startsWith('-old'))).toHaveLength(count);
+    expect(diff.filter((l) => l.startsWith('+new'))).toHaveLength(count);
+    expect(diff.findIndex((l) => l.startsWith('+new'))).toBeGreaterThan(diff.findIndex((l) => l === `-old ${count}`));
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Line-based unified diffs (the `diff -u` format) for the version diff view.
+ *
+ * Lines are compared with Myers' algorithm after trimming the common prefix
+ * and suffix. The search gives up after MAX_EDIT_DISTANCE line edits, which
+ * bounds time and memory on rewritten or minified files; the differing middle
+ * is then shown as removed in full and added in full.
+ */
+
+/** Unchanged lines shown around each change. */
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/** Line insertions plus deletions the search tries before giving up. */
+export const MAX_EDIT_DISTANCE = 2000;
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+interface Edit {
+  op: ' ' | '-' | '+';
+
+  /** The line including its terminator; the last line of a file may have none. */
+  line: string;
+}
+
+/**
+ * Returns a unified diff from `before` to `after`, or an empty string if the
+ * texts are identical.
+ *
+ * @param fromLabel Name shown on the `---` line (e.g., "a/plugin.js")
+ * @param toLabel Name shown on the `+++` line (e.g., "b/plugin.js")
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  fromLabel: string,
+  toLabel: string,
+  context = DEFAULT_CONTEXT_LINES,
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const hunk of toHunks(edits, context)) {
+    output.push(hunk.header);
+    for (const edit of hunk.edits) {
+      if (edit.line.endsWith('\n')) {
+        output.push(edit.op + edit.line.slice(0, -1));
+      } else {
+        output.push(edit.op + edit.line, NO_NEWLINE_MARKER);
+      }
+    }
+  }
+  return output.join('\n') + '\n';
+}
+
+/** Splits text into lines, keeping each line's terminator so a missing final newline shows up as a change. */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) || [
+    ...middleA.map((line): Edit => ({ op: '-', line })),
+    ...middleB.map((line): Edit => ({ op: '+', line })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map((line): Edit => ({ op: ' ', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): Edit => ({ op: ' ', line })),
+  ];
+}
+
+/**
+ * Shortest edit script from `a` to `b`, or null if it needs more than
+ * MAX_EDIT_DISTANCE edits.
+ */
+function myers(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, MAX_EDIT_DISTANCE);
+
+  // v[k + offset] is the furthest x reached on diagonal k; trace[d] holds diagonals -d..d after step d
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ op: ' ', line: a[--x] });
+      y--;
+    }
+    if (x === previousX) {
+      edits.push({ op: '+', line: b[--y] });
+    } else {
+      edits.push({ op: '-', line: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    edits.push({ op: ' ', line: a[--x] });
+    y--;
+  }
+
+  return edits.reverse();
+}
+
+interface Hunk {
+  header: string;
+  edits: Edit[];
+}
+
+/**
+ * Groups changes into hunks with `context` unchanged lines around them,
+ * merging hunks whose context would overlap.
+ */
+function toHunks(edits: Edit[], context: number): Hunk[] {
+  const changed = edits.flatMap((edit, i) => (edit.op === ' ' ? [] : [i]));
+  const hunks: Hunk[] = [];
+
+  let i = 0;
+  while (i < changed.length) {
+    const start = Math.max(0, changed[i] - context);
+    let end = changed[i];
+    while (i + 1 < changed.length && changed[i + 1] - end <= 2 * context + 1) {
+      end = changed[++i];
+    }
+    end = Math.min(edits.length - 1, end + context);
+    i++;
+
+    // Line numbers are 1-based; an empty side starts at the line before it
+    let fromLine = 1;
+    let toLine = 1;
+    for (const edit of edits.slice(0, start)) {
+      if (edit.op !== '+') fromLine++;
+      if (edit.op !== '-') toLine++;
+    }
+    const hunkEdits = edits.slice(start, end + 1);
+    const fromCount = hunkEdits.filter((e) => e.op !== '+').length;
+    const toCount = hunkEdits.filter((e) => e.op !== '-').length;
+
+    hunks.push({
+      header: `@@ -${range(fromLine, fromCount)} +${range(toLine, toCount)} @@`,
+      edits: hunkEdits,
+    });
+  }
+  return hunks;
+}
+
+function range(line: number, count: number): string {
+  if (count === 0) {
+    return `${line - 1},0`;
+  }
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
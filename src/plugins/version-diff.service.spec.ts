@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { VersionDiffService } from './version-diff.service';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { StorageService } from '../storage/storage.service';
+import { SynxPackageService } from '../storage/synx-package.service';
+import { PluginStatus } from '../common/enums/plugin-status.enum';
+import { VersionStatus } from '../common/enums/version-status.enum';
+import { FileChangeType } from '../common/enums/file-change.enum';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { PluginVersion, PluginVersionFile } from '../common/entities/plugin-version.entity';
+
+describe('VersionDiffService', () => {
+  let service: VersionDiffService;
+  let versionsRepository: { findById: jest.Mock };
+  let storageService: { downloadArtifact: jest.Mock };
+
+  const file = (path: string, content: string, mimeType = 'text/javascript'): PluginVersionFile => ({
+    path,
+    size: content.length,
+    sha256: `sha-of-${content}`,
+    mimeType,
+  });
+
+  const manifest = (overrides: Record<string, any> = {}) => ({
+    manifestVersion: 2,
+    packageId: 'com.acme.tasks',
+    name: 'Tasks',
+    version: '1.4.0',
+    minAppVersion: '2.0.0',
+    permissions: ['storage:read', 'network:https://api.acme.com'],
+    triggers: { voiceIntents: ['add_task'] },
+    ...overrides,
+  });
+
+  const version = (id: string, overrides: Partial<PluginVersion>): PluginVersion => ({
+    id,
+    pluginId: 'plugin-1',
+    version: '1.4.0',
+    manifest: manifest(),
+    minAppVersion: '2.0.0',
+    status: VersionStatus.PUBLISHED,
+    storagePath: `com.acme.tasks/v${id}/plugin.synx`,
+    storageBucket: 'plugins',
+    createdAt: new Date('2024-01-01'),
+    downloadCount: 0,
+    isFlagged: false,
+    files: [],
+    signatures: [],
+    scanFindings: [],
+    ...overrides,
+  });
+
+  const contents: Record<string, Record<string, string>> = {
+    'old.synx': {
+      'plugin.js': 'const a = 1;\nrun(a);\n',
+      'README.md': 'Tasks\n',
+      'strings/en.json': '{"hello": "Hello"}\n',
+    },
+    'new.synx': {
+      'plugin.js': 'const a = 2;\nrun(a);\n',
+      'README.md': 'Tasks\n',
+      'lib/util.js': 'export const x = 1;\n',
+    },
+  };
+
+  const previous = version('v140', {
+    tempStoragePath: null,
+    storagePath: 'old.synx',
+    files: [
+      file('plugin.js', contents['old.synx']['plugin.js']),
+      file('README.md', 'Tasks\n', 'text/markdown'),
+      file('strings/en.json', contents['old.synx']['strings/en.json'], 'application/json'),
+      file('icon.png', 'old-icon', 'image/png'),
+    ],
+  });
+  const submitted = version('v141', {
+    version: '1.4.1',
+    status: VersionStatus.PENDING_REVIEW,
+    tempStoragePath: 'new.synx',
+    manifest: manifest({
+      version: '1.4.1',
+      minAppVersion: '2.1.0',
+      permissions: ['storage:read', 'storage:write'],
+      triggers: { voiceIntents: ['add_task', 'list_tasks'], screenshotIntents: ['scan_receipt'] },
+      description: 'Now with lists',
+    }),
+    files: [
+      file('plugin.js', contents['new.synx']['plugin.js']),
+      file('README.md', 'Tasks\n', 'text/markdown'),
+      file('lib/util.js', contents['new.synx']['lib/util.js']),
+      file('icon.png', 'new-icon', 'image/png'),
+    ],
+  });
+
+  beforeEach(async () => {
+    const versions = new Map([previous, submitted].map((v) => [v.id, v]));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VersionDiffService,
+        {
+          provide: PluginsRepository,
+          useValue: {
+            findById: jest.fn().mockResolvedValue({
+              id: 'plugin-1',
+              packageId: 'com.acme.tasks',
+              name: 'Tasks',
+              status: PluginStatus.PUBLISHED,
+            }),
+          },
+        },
+        {
+          provide: PluginVersionsRepository,
+          useValue: { findById: jest.fn((id: string) => Promise.resolve(versions.get(id) || null)) },
+        },
+        {
+          provide: StorageService,
+          useValue: { downloadArtifact: jest.fn((path: string) => Promise.resolve(Buffer.from(path))) },
+        },
+        {
+          provide: SynxPackageService,
+          useValue: {
+            extractFiles: jest.fn((buffer: Buffer) =>
+              Promise.resolve(
+                new Map(
+                  Object.entries(contents[buffer.toString()]).map(([path, text]) => [path, Buffer.from(text)]),
+                ),
+              ),
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VersionDiffService>(VersionDiffService);
+    versionsRepository = module.get(PluginVersionsRepository);
+    storageService = module.get(StorageService);
+  });
+
+  it('should diff the manifests', async () => {
+    const diff = await service.diffVersions('v141', 'v140');
+
+    expect(diff).toEqual(
+      expect.objectContaining({
+        packageId: 'com.acme.tasks',
+        versionId: 'v141',
+        version: '1.4.1',
+        againstVersionId: 'v140',
+        againstVersion: '1.4.0',
+      }),
+    );
+    expect(diff.manifest).toEqual({
+      permissions: { added: ['storage:write'], removed: ['network:https://api.acme.com'] },
+      triggers: [
+        { trigger: 'screenshotIntents', added: ['scan_receipt'], removed: [] },
+        { trigger: 'voiceIntents', added: ['list_tasks'], removed: [] },
+      ],
+      minAppVersion: { from: '2.0.0', to: '2.1.0' },
+      otherChangedFields: ['description'],
+    });
+  });
+
+  it('should show unified diffs of changed text files from both artifacts', async () => {
+    const diff = await service.diffVersions('v141', 'v140');
+
+    // The pending version is read from temporary storage, the published one from its bucket
+    expect(storageService.downloadArtifact).toHaveBeenCalledWith('new.synx', 'temp_uploads');
+    expect(storageService.downloadArtifact).toHaveBeenCalledWith('old.synx', 'plugins');
+    expect(diff.unchangedFiles).toBe(1);
+    expect(diff.files).toEqual([
+      {
+        path: 'icon.png',
+        change: FileChangeType.MODIFIED,
+        sizeBefore: 8,
+        sizeAfter: 8,
+        diff: null,
+        diffOmittedReason: 'Binary file (image/png)',
+      },
+      {
+        path: 'lib/util.js',
+        change: FileChangeType.ADDED,
+        sizeBefore: null,
+        sizeAfter: 20,
+        diff: '--- /dev/null\n+++ b/lib/util.js\n@@ -0,0 +1 @@\n+export const x = 1;\n',
+        diffOmittedReason: null,
+      },
+      {
+        path: 'plugin.js',
+        change: FileChangeType.MODIFIED,
+        sizeBefore: 21,
+        sizeAfter: 21,
+        diff: '--- a/plugin.js\n+++ b/plugin.js\n@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n run(a);\n',
+        diffOmittedReason: null,
+      },
+      {
+        path: 'strings/en.json',
+        change: FileChangeType.REMOVED,
+        sizeBefore: 19,
+        sizeAfter: null,
+        diff: '--- a/strings/en.json\n+++ /dev/null\n@@ -1 +0,0 @@\n-{"hello": "Hello"}\n',
+        diffOmittedReason: null,
+      },
+    ]);
+  });
+
+  it('should not download artifacts when only binary files changed', async () => {
+    versionsRepository.findById.mockImplementation((id: string) =>
+      Promise.resolve(
+        id === 'v140'
+          ? version('v140', { files: [file('icon.png', 'old-icon', 'image/png')] })
+          : version('v141', { files: [file('icon.png', 'new-icon', 'image/png')] }),
+      ),
+    );
+
+    const diff = await service.diffVersions('v141', 'v140');
+
+    expect(diff.files.map((f) => [f.path, f.diffOmittedReason])).toEqual([['icon.png', 'Binary file (image/png)']]);
+    expect(storageService.downloadArtifact).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to compare versions of different plugins', async () => {
+    versionsRepository.findById.mockImplementation((id: string) =>
+      Promise.resolve(version(id, id === 'other' ? { pluginId: 'plugin-2' } : {})),
+    );
+
+    await expect(service.diffVersions('v141', 'other')).rejects.toThrow(BadRequestException);
+    await expect(service.diffVersions('v141', 'v141')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should report a missing version or artifact', async () => {
+    await expect(service.diffVersions('v141', 'missing')).rejects.toThrow(ResourceNotFoundException);
+
+    versionsRepository.findById.mockImplementation((id: string) =>
+      Promise.resolve(
+        id === 'v140'
+          ? { ...previous, status: VersionStatus.REJECTED, storagePath: null, storageBucket: null }
+          : submitted,
+      ),
+    );
+    await expect(service.diffVersions('v141', 'v140')).rejects.toThrow("Artifact with versionId 'v140' not found");
+  });
+});
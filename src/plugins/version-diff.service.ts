@@ -0,0 +1,221 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { TextDecoder } from 'util';
+import { PluginsRepository } from './plugins.repository';
+import { PluginVersionsRepository } from './plugin-versions.repository';
+import { StorageService } from '../storage/storage.service';
+import { SynxPackageService } from '../storage/synx-package.service';
+import { unifiedDiff } from './text-diff';
+import { FileChangeType } from '../common/enums/file-change.enum';
+import {
+  VersionDiffResponse,
+  ManifestDiffResponse,
+  ListChangeResponse,
+  TriggerChangeResponse,
+  ValueChangeResponse,
+  FileDiffResponse,
+} from '../common/dto';
+import { ResourceNotFoundException } from '../common/exceptions';
+import { PluginVersion, PluginVersionFile } from '../common/entities/plugin-version.entity';
+
+/** Text files larger than this (on either side) are listed without a diff. */
+export const MAX_DIFF_FILE_BYTES = 1024 * 1024;
+
+/** MIME types diffed as text besides text/*. */
+const TEXT_MIME_TYPES = new Set(['application/json', 'image/svg+xml']);
+
+/** Manifest fields with a structured diff of their own, or that always differ. */
+const STRUCTURED_MANIFEST_FIELDS = new Set(['permissions', 'triggers', 'minAppVersion', 'version']);
+
+/**
+ * Service for comparing two versions of a plugin, so reviewers of an update
+ * only need to read what changed.
+ *
+ * The manifest diff comes from the stored manifests. File changes are found
+ * by comparing the stored file inventories (SHA-256 per path); the contents
+ * of changed text files are read from both stored artifacts and shown as
+ * unified diffs.
+ */
+@Injectable()
+export class VersionDiffService {
+  private readonly logger = new Logger(VersionDiffService.name);
+  private readonly utf8 = new TextDecoder('utf-8', { fatal: true });
+
+  constructor(
+    private readonly pluginsRepository: PluginsRepository,
+    private readonly versionsRepository: PluginVersionsRepository,
+    private readonly storageService: StorageService,
+    private readonly synxPackageService: SynxPackageService,
+  ) {}
+
+  /**
+   * Compares a version with another version of the same plugin.
+   *
+   * @param versionId The version under review
+   * @param againstVersionId The version to compare with, usually the previous release
+   * @throws BadRequestException if the versions are the same or belong to different plugins
+   * @throws ResourceNotFoundException if a version or the artifact of a version with changed text files is missing
+   */
+  async diffVersions(versionId: string, againstVersionId: string): Promise<VersionDiffResponse> {
+    if (versionId === againstVersionId) {
+      throw new BadRequestException('Cannot compare a version with itself');
+    }
+
+    const [version, against] = await Promise.all([
+      this.getVersion(versionId),
+      this.getVersion(againstVersionId),
+    ]);
+    if (version.pluginId !== against.pluginId) {
+      throw new BadRequestException('Only versions of the same plugin can be compared');
+    }
+    const plugin = await this.pluginsRepository.findById(version.pluginId);
+    if (!plugin) {
+      throw new ResourceNotFoundException('Plugin', 'id', version.pluginId);
+    }
+
+    this.logger.debug(`Comparing ${plugin.packageId} ${against.version} -> ${version.version}`);
+
+    const { files, unchangedFiles } = await this.diffFiles(against, version);
+    return new VersionDiffResponse(
+      plugin.packageId,
+      version.id,
+      version.version,
+      against.id,
+      against.version,
+      this.diffManifests(against.manifest, version.manifest),
+      files,
+      unchangedFiles,
+    );
+  }
+
+  /**
+   * Structured difference between two manifests.
+   */
+  diffManifests(before: Record<string, any>, after: Record<string, any>): ManifestDiffResponse {
+    const permissions = this.diffLists(before.permissions, after.permissions);
+
+    const triggersBefore: Record<string, unknown> = before.triggers || {};
+    const triggersAfter: Record<string, unknown> = after.triggers || {};
+    const triggers = [...new Set([...Object.keys(triggersBefore), ...Object.keys(triggersAfter)])]
+      .sort()
+      .map((trigger) => {
+        const change = this.diffLists(triggersBefore[trigger], triggersAfter[trigger]);
+        return new TriggerChangeResponse(trigger, change.added, change.removed);
+      })
+      .filter((change) => change.added.length > 0 || change.removed.length > 0);
+
+    const minAppVersion =
+      before.minAppVersion !== after.minAppVersion
+        ? new ValueChangeResponse(before.minAppVersion ?? null, after.minAppVersion ?? null)
+        : null;
+
+    const otherChangedFields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter((field) => !STRUCTURED_MANIFEST_FIELDS.has(field))
+      .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .sort();
+
+    return new ManifestDiffResponse(permissions, triggers, minAppVersion, otherChangedFields);
+  }
+
+  private diffLists(before: unknown, after: unknown): ListChangeResponse {
+    const beforeItems = (Array.isArray(before) ? before : []).map(String);
+    const afterItems = (Array.isArray(after) ? after : []).map(String);
+    return new ListChangeResponse(
+      afterItems.filter((item) => !beforeItems.includes(item)),
+      beforeItems.filter((item) => !afterItems.includes(item)),
+    );
+  }
+
+  private async diffFiles(
+    before: PluginVersion,
+    after: PluginVersion,
+  ): Promise<{ files: FileDiffResponse[]; unchangedFiles: number }> {
+    const beforeFiles = new Map(before.files.map((f) => [f.path, f]));
+    const afterFiles = new Map(after.files.map((f) => [f.path, f]));
+    const paths = [...new Set([...beforeFiles.keys(), ...afterFiles.keys()])].sort();
+
+    const changed = paths.filter((path) => beforeFiles.get(path)?.sha256 !== afterFiles.get(path)?.sha256);
+    const needsContents = changed.some((path) =>
+      [beforeFiles.get(path), afterFiles.get(path)].some((f) => f && this.isDiffable(f)),
+    );
+
+    // Artifacts are only downloaded when there is text to show
+    const [beforeContents, afterContents] = needsContents
+      ? await Promise.all([this.readArtifact(before), this.readArtifact(after)])
+      : [new Map<string, Buffer>(), new Map<string, Buffer>()];
+
+    const files = changed.map((path) =>
+      this.diffFile(path, beforeFiles.get(path), afterFiles.get(path), beforeContents, afterContents),
+    );
+    return { files, unchangedFiles: paths.length - changed.length };
+  }
+
+  private diffFile(
+    path: string,
+    before: PluginVersionFile | undefined,
+    after: PluginVersionFile | undefined,
+    beforeContents: Map<string, Buffer>,
+    afterContents: Map<string, Buffer>,
+  ): FileDiffResponse {
+    const change = !before ? FileChangeType.ADDED : !after ? FileChangeType.REMOVED : FileChangeType.MODIFIED;
+    const result = (diff: string | null, omittedReason: string | null = null) =>
+      new FileDiffResponse(path, change, before?.size ?? null, after?.size ?? null, diff, omittedReason);
+
+    const file = (after || before) as PluginVersionFile;
+    if (!this.isDiffable(file)) {
+      return result(null, `Binary file (${file.mimeType})`);
+    }
+    if ((before?.size ?? 0) > MAX_DIFF_FILE_BYTES || (after?.size ?? 0) > MAX_DIFF_FILE_BYTES) {
+      return result(null, `File is larger than ${MAX_DIFF_FILE_BYTES / 1024 / 1024} MB`);
+    }
+
+    const beforeText = before ? this.decode(beforeContents.get(path)) : '';
+    const afterText = after ? this.decode(afterContents.get(path)) : '';
+    if (beforeText === null || afterText === null) {
+      return result(null, 'File is not valid UTF-8 text');
+    }
+
+    return result(
+      unifiedDiff(beforeText, afterText, before ? `a/${path}` : '/dev/null', after ? `b/${path}` : '/dev/null'),
+    );
+  }
+
+  private isDiffable(file: PluginVersionFile): boolean {
+    return file.mimeType.startsWith('text/') || TEXT_MIME_TYPES.has(file.mimeType);
+  }
+
+  private decode(data: Buffer | undefined): string | null {
+    if (!data) {
+      return null;
+    }
+    try {
+      return this.utf8.decode(data);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Downloads and extracts a version's artifact: from temporary storage while
+   * it awaits review, from the plugins bucket once published.
+   */
+  private async readArtifact(version: PluginVersion): Promise<Map<string, Buffer>> {
+    let buffer: Buffer;
+    if (version.tempStoragePath) {
+      buffer = await this.storageService.downloadArtifact(version.tempStoragePath, 'temp_uploads');
+    } else if (version.storagePath && version.storageBucket) {
+      buffer = await this.storageService.downloadArtifact(version.storagePath, version.storageBucket);
+    } else {
+      // Rejected versions have their artifact deleted
+      throw new ResourceNotFoundException('Artifact', 'versionId', version.id);
+    }
+    return this.synxPackageService.extractFiles(buffer);
+  }
+
+  private async getVersion(versionId: string): Promise<PluginVersion> {
+    const version = await this.versionsRepository.findById(versionId);
+    if (!version) {
+      throw new ResourceNotFoundException('PluginVersion', 'id', versionId);
+    }
+    return version;
+  }
+}
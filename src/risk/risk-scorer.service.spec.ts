@@ -0,0 +1,159 @@
+import { RiskInput, RiskScorer } from './risk-scorer.service';
+import { PluginVersionFile, ScanFinding } from '../common/entities/plugin-version.entity';
+import { ScanSeverity } from '../common/enums/scan-severity.enum';
+import { PermissionFindingType } from '../common/enums/permission-finding.enum';
+import { RiskFactorType } from '../common/enums/risk-factor.enum';
+
+describe('RiskScorer', () => {
+  const scorer = new RiskScorer();
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  const file = (path: string, size: number, sha256 = path): PluginVersionFile => ({
+    path,
+    size,
+    sha256,
+    mimeType: 'application/javascript',
+  });
+
+  const finding = (severity: ScanSeverity): ScanFinding => ({
+    ruleId: 'rule',
+    severity,
+    message: 'finding',
+    file: 'plugin.js',
+    line: 1,
+    column: 0,
+  });
+
+  // An established developer shipping an unchanged update with nothing to report
+  const input = (overrides: Partial<RiskInput> = {}): RiskInput => ({
+    scanFindings: [],
+    permissions: [],
+    permissionAnalysis: { detected: [], findings: [] },
+    ownerCreatedAt: new Date('2023-01-01'),
+    ownerPublishedPlugins: 3,
+    oauthScopes: [],
+    files: [file('plugin.js', 1000)],
+    previousFiles: [file('plugin.js', 1000)],
+    now,
+    ...overrides,
+  });
+
+  const factor = (overrides: Partial<RiskInput>, type: RiskFactorType) =>
+    scorer.score(input(overrides)).factors.find((f) => f.factor === type);
+
+  it('should score a quiet update from an established developer at zero', () => {
+    expect(scorer.score(input())).toEqual({ score: 0, factors: [] });
+  });
+
+  it('should weight scan findings by severity up to their cap', () => {
+    expect(
+      factor(
+        { scanFindings: [finding(ScanSeverity.HIGH), finding(ScanSeverity.LOW), finding(ScanSeverity.INFO)] },
+        RiskFactorType.SCAN_FINDINGS,
+      ),
+    ).toEqual({ factor: RiskFactorType.SCAN_FINDINGS, points: 11, detail: '1 HIGH, 1 LOW findings' });
+
+    expect(
+      factor(
+        { scanFindings: [finding(ScanSeverity.CRITICAL), finding(ScanSeverity.CRITICAL)] },
+        RiskFactorType.SCAN_FINDINGS,
+      )?.points,
+    ).toBe(40);
+  });
+
+  it('should count permissions, broad permissions and undeclared capabilities', () => {
+    const permissions = factor(
+      {
+        permissions: ['storage', 'network:https://*.acme.com', 'notifications'],
+        permissionAnalysis: {
+          detected: ['clipboard:write'],
+          findings: [
+            { type: PermissionFindingType.UNDECLARED_CAPABILITY, permission: 'clipboard:write', message: '' },
+            { type: PermissionFindingType.UNUSED_PERMISSION, permission: 'notifications', message: '' },
+          ],
+        },
+      },
+      RiskFactorType.PERMISSIONS,
+    );
+
+    expect(permissions).toEqual({
+      factor: RiskFactorType.PERMISSIONS,
+      points: 3 * 2 + 2 * 4 + 6,
+      detail: '3 permissions declared, 2 broad, 1 undeclared capability',
+    });
+  });
+
+  it('should flag new accounts and accounts with nothing published', () => {
+    expect(
+      factor({ ownerCreatedAt: new Date('2024-05-29T00:00:00Z'), ownerPublishedPlugins: 0 }, RiskFactorType.NEW_DEVELOPER),
+    ).toEqual({
+      factor: RiskFactorType.NEW_DEVELOPER,
+      points: 15,
+      detail: 'Account is 3 days old, no published plugins',
+    });
+    expect(factor({ ownerPublishedPlugins: 0 }, RiskFactorType.NEW_DEVELOPER)?.points).toBe(10);
+  });
+
+  it('should weigh OAuth scopes that grant write or full access more', () => {
+    expect(factor({ oauthScopes: ['read', 'write', 'read'] }, RiskFactorType.OAUTH_SCOPES)).toEqual({
+      factor: RiskFactorType.OAUTH_SCOPES,
+      points: 2 * 2 + 4,
+      detail: '2 OAuth scopes (write grants write or full access)',
+    });
+  });
+
+  it('should score the share of the package that changed since the previous published version', () => {
+    const diff = factor(
+      {
+        files: [file('plugin.js', 1000, 'new'), file('assets/new.png', 500), file('manifest.json', 500)],
+        previousFiles: [file('plugin.js', 1000, 'old'), file('manifest.json', 500), file('assets/old.png', 500)],
+      },
+      RiskFactorType.DIFF_SIZE,
+    );
+
+    // 1000 changed + 500 added + 500 removed of a 2000-byte package
+    expect(diff).toEqual({
+      factor: RiskFactorType.DIFF_SIZE,
+      points: 20,
+      detail: '1 added, 1 changed, 1 removed files since the previous published version (100% of the package)',
+    });
+    const partial = factor(
+      {
+        files: [file('plugin.js', 750, 'new'), file('strings.json', 250)],
+        previousFiles: [file('plugin.js', 500, 'old'), file('strings.json', 250)],
+      },
+      RiskFactorType.DIFF_SIZE,
+    );
+    expect(partial?.points).toBe(15);
+  });
+
+  it('should treat a first release as entirely new', () => {
+    expect(factor({ previousFiles: null }, RiskFactorType.DIFF_SIZE)).toEqual({
+      factor: RiskFactorType.DIFF_SIZE,
+      points: 20,
+      detail: 'No published version to compare with; the whole package is new',
+    });
+  });
+
+  it('should cap the total at 100 and list the largest factors first', () => {
+    const assessment = scorer.score(
+      input({
+        scanFindings: [finding(ScanSeverity.CRITICAL), finding(ScanSeverity.CRITICAL)],
+        permissions: ['network', 'storage', 'clipboard', 'notifications'],
+        ownerCreatedAt: now,
+        ownerPublishedPlugins: 0,
+        oauthScopes: ['repo', 'read:user', 'user:email'],
+        previousFiles: null,
+      }),
+    );
+
+    expect(assessment.score).toBe(100);
+    expect(assessment.factors.map((f) => [f.factor, f.points])).toEqual([
+      [RiskFactorType.SCAN_FINDINGS, 40],
+      [RiskFactorType.PERMISSIONS, 20],
+      [RiskFactorType.DIFF_SIZE, 20],
+      [RiskFactorType.NEW_DEVELOPER, 15],
+      [RiskFactorType.OAUTH_SCOPES, 10],
+    ]);
+  });
+});
@@ -0,0 +1,265 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PermissionAnalysis,
+  PluginVersionFile,
+  RiskFactor,
+  ScanFinding,
+} from '../common/entities/plugin-version.entity';
+import { ScanSeverity } from '../common/enums/scan-severity.enum';
+import { PermissionFindingType } from '../common/enums/permission-finding.enum';
+import { RiskFactorType } from '../common/enums/risk-factor.enum';
+
+/**
+ * Everything the risk score is computed from.
+ */
+export interface RiskInput {
+  scanFindings: ScanFinding[];
+
+  /** manifest.permissions */
+  permissions: string[];
+
+  permissionAnalysis?: PermissionAnalysis | null;
+
+  /** When the publishing account was created. */
+  ownerCreatedAt: Date;
+
+  /** Published plugins the publishing account already has. */
+  ownerPublishedPlugins: number;
+
+  /** Scopes of every OAuth client registered for the plugin. */
+  oauthScopes: string[];
+
+  files: PluginVersionFile[];
+
+  /** Files of the previous published version; null if there is none. */
+  previousFiles: PluginVersionFile[] | null;
+
+  /** Reference time for the account age; defaults to now. */
+  now?: Date;
+}
+
+/**
+ * A computed score and what contributed to it.
+ */
+export interface RiskAssessment {
+  /** 0 (low) to 100 (high). */
+  score: number;
+
+  /** Factors that added points, largest first. */
+  factors: RiskFactor[];
+}
+
+export const MAX_RISK_SCORE = 100;
+
+/** Points per finding by severity, and the most a factor can add. */
+const SEVERITY_POINTS: Record<ScanSeverity, number> = {
+  [ScanSeverity.CRITICAL]: 25,
+  [ScanSeverity.HIGH]: 10,
+  [ScanSeverity.MEDIUM]: 4,
+  [ScanSeverity.LOW]: 1,
+  [ScanSeverity.INFO]: 0,
+};
+const MAX_SCAN_POINTS = 40;
+
+const POINTS_PER_PERMISSION = 2;
+const POINTS_PER_BROAD_PERMISSION = 4;
+const POINTS_PER_UNDECLARED_CAPABILITY = 6;
+const MAX_PERMISSION_POINTS = 25;
+
+/** Permission families with modes or targets; declaring the bare family grants all of them. */
+const SCOPED_PERMISSION_FAMILIES = new Set(['network', 'storage', 'clipboard']);
+
+/** Accounts younger than this count as new. */
+export const NEW_DEVELOPER_DAYS = 30;
+const NEW_ACCOUNT_POINTS = 10;
+const NO_PUBLISHED_PLUGINS_POINTS = 10;
+const MAX_NEW_DEVELOPER_POINTS = 15;
+
+const POINTS_PER_SCOPE = 2;
+const POINTS_PER_BROAD_SCOPE = 4;
+const MAX_OAUTH_POINTS = 15;
+
+/** Scopes that grant write or full access (e.g. "write", "chat:write", "repo", "full", "read_write"). */
+const BROAD_SCOPE = /write|admin|full|^repo$|^api$|\*/i;
+
+/** Points when the whole package changed, or there is no published version to compare with. */
+const MAX_DIFF_POINTS = 20;
+
+/**
+ * Computes a version's review risk score, used to prioritize the review queue.
+ *
+ * Each factor adds points up to its own cap and the total is capped at 100:
+ *
+ * | Factor          | Points                                                   | Cap |
+ * |-----------------|----------------------------------------------------------|-----|
+ * | `SCAN_FINDINGS` | 25 per CRITICAL, 10 per HIGH, 4 per MEDIUM, 1 per LOW     | 40  |
+ * | `PERMISSIONS`   | 2 per permission, +4 if broad, 6 per undeclared capability | 25  |
+ * | `NEW_DEVELOPER` | 10 if the account is new, 10 if nothing is published yet | 15  |
+ * | `OAUTH_SCOPES`  | 2 per scope, +4 if it grants write or full access        | 15  |
+ * | `DIFF_SIZE`     | share of the package's bytes changed since the previous published version | 20 |
+ *
+ * A permission is broad when it covers a whole family (`storage`, `network`, `clipboard:*`)
+ * or a host wildcard (`network:https://*.example.com`).
+ */
+@Injectable()
+export class RiskScorer {
+  score(input: RiskInput): RiskAssessment {
+    const factors = [
+      this.scanFindingsFactor(input.scanFindings),
+      this.permissionsFactor(input.permissions, input.permissionAnalysis),
+      this.newDeveloperFactor(input.ownerCreatedAt, input.ownerPublishedPlugins, input.now || new Date()),
+      this.oauthScopesFactor(input.oauthScopes),
+      this.diffSizeFactor(input.files, input.previousFiles),
+    ]
+      .filter((f): f is RiskFactor => f !== null && f.points > 0)
+      .sort((a, b) => b.points - a.points);
+
+    const total = factors.reduce((sum, f) => sum + f.points, 0);
+    return { score: Math.min(MAX_RISK_SCORE, total), factors };
+  }
+
+  private scanFindingsFactor(findings: ScanFinding[]): RiskFactor | null {
+    const counts = Object.values(ScanSeverity)
+      .map((severity) => ({ severity, count: findings.filter((f) => f.severity === severity).length }))
+      .filter((c) => c.count > 0 && SEVERITY_POINTS[c.severity] > 0);
+    if (counts.length === 0) {
+      return null;
+    }
+
+    const total = counts.reduce((sum, c) => sum + c.count, 0);
+    const points = counts.reduce((sum, c) => sum + c.count * SEVERITY_POINTS[c.severity], 0);
+    return {
+      factor: RiskFactorType.SCAN_FINDINGS,
+      points: Math.min(MAX_SCAN_POINTS, points),
+      detail: `${counts.map((c) => `${c.count} ${c.severity}`).join(', ')} ${this.plural(total !== 1, 'finding')}`,
+    };
+  }
+
+  private permissionsFactor(permissions: string[], analysis?: PermissionAnalysis | null): RiskFactor | null {
+    const broad = permissions.filter((p) => this.isBroadPermission(p)).length;
+    const undeclared = (analysis?.findings || []).filter(
+      (f) => f.type === PermissionFindingType.UNDECLARED_CAPABILITY,
+    ).length;
+    if (permissions.length === 0 && undeclared === 0) {
+      return null;
+    }
+
+    const details = [`${permissions.length} ${this.plural(permissions.length !== 1, 'permission')} declared`];
+    if (broad > 0) {
+      details.push(`${broad} broad`);
+    }
+    if (undeclared > 0) {
+      details.push(`${undeclared} undeclared ${this.plural(undeclared !== 1, 'capability', 'capabilities')}`);
+    }
+
+    const points =
+      permissions.length * POINTS_PER_PERMISSION +
+      broad * POINTS_PER_BROAD_PERMISSION +
+      undeclared * POINTS_PER_UNDECLARED_CAPABILITY;
+    return {
+      factor: RiskFactorType.PERMISSIONS,
+      points: Math.min(MAX_PERMISSION_POINTS, points),
+      detail: details.join(', '),
+    };
+  }
+
+  private newDeveloperFactor(createdAt: Date, publishedPlugins: number, now: Date): RiskFactor | null {
+    const ageDays = Math.floor((now.getTime() - createdAt.getTime()) / (24 * 60 * 60 * 1000));
+    const details: string[] = [];
+    let points = 0;
+
+    if (ageDays < NEW_DEVELOPER_DAYS) {
+      details.push(`account is ${ageDays} ${this.plural(ageDays !== 1, 'day')} old`);
+      points += NEW_ACCOUNT_POINTS;
+    }
+    if (publishedPlugins === 0) {
+      details.push('no published plugins');
+      points += NO_PUBLISHED_PLUGINS_POINTS;
+    }
+    if (points === 0) {
+      return null;
+    }
+
+    return {
+      factor: RiskFactorType.NEW_DEVELOPER,
+      points: Math.min(MAX_NEW_DEVELOPER_POINTS, points),
+      detail: this.capitalize(details.join(', ')),
+    };
+  }
+
+  private oauthScopesFactor(scopes: string[]): RiskFactor | null {
+    const unique = [...new Set(scopes)].sort();
+    if (unique.length === 0) {
+      return null;
+    }
+
+    const broad = unique.filter((s) => BROAD_SCOPE.test(s));
+    const points = unique.length * POINTS_PER_SCOPE + broad.length * POINTS_PER_BROAD_SCOPE;
+    return {
+      factor: RiskFactorType.OAUTH_SCOPES,
+      points: Math.min(MAX_OAUTH_POINTS, points),
+      detail:
+        `${unique.length} OAuth ${this.plural(unique.length !== 1, 'scope')}` +
+        (broad.length > 0 ? ` (${broad.join(', ')} ${broad.length === 1 ? 'grants' : 'grant'} write or full access)` : ''),
+    };
+  }
+
+  private diffSizeFactor(files: PluginVersionFile[], previousFiles: PluginVersionFile[] | null): RiskFactor {
+    if (!previousFiles) {
+      return {
+        factor: RiskFactorType.DIFF_SIZE,
+        points: MAX_DIFF_POINTS,
+        detail: 'No published version to compare with; the whole package is new',
+      };
+    }
+
+    const previous = new Map(previousFiles.map((f) => [f.path, f]));
+    const current = new Set(files.map((f) => f.path));
+    let added = 0;
+    let changed = 0;
+    let changedBytes = 0;
+    for (const file of files) {
+      const before = previous.get(file.path);
+      if (!before) {
+        added++;
+        changedBytes += file.size;
+      } else if (before.sha256 !== file.sha256) {
+        changed++;
+        changedBytes += Math.max(file.size, before.size);
+      }
+    }
+    const removed = previousFiles.filter((f) => !current.has(f.path));
+    changedBytes += removed.reduce((sum, f) => sum + f.size, 0);
+
+    const totalBytes = Math.max(
+      files.reduce((sum, f) => sum + f.size, 0),
+      previousFiles.reduce((sum, f) => sum + f.size, 0),
+      1,
+    );
+    const share = Math.min(1, changedBytes / totalBytes);
+    return {
+      factor: RiskFactorType.DIFF_SIZE,
+      points: Math.round(share * MAX_DIFF_POINTS),
+      detail:
+        `${added} added, ${changed} changed, ${removed.length} removed ${this.plural(true, 'file')} ` +
+        `since the previous published version (${Math.round(share * 100)}% of the package)`,
+    };
+  }
+
+  private isBroadPermission(permission: string): boolean {
+    const separator = permission.indexOf(':');
+    if (separator < 0) {
+      return SCOPED_PERMISSION_FAMILIES.has(permission);
+    }
+    const scope = permission.slice(separator + 1);
+    return scope === '*' || scope.includes('://*.');
+  }
+
+  private plural(many: boolean, singular: string, plural = `${singular}s`): string {
+    return many ? plural : singular;
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
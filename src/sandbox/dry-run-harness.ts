@@ -0,0 +1,447 @@
+import * as vm from 'vm';
+import { performance } from 'perf_hooks';
+import { DryRunEvent, DryRunPhase } from '../common/entities/plugin-version.entity';
+import { DryRunEventType, DryRunPhaseOutcome } from '../common/enums/dry-run.enum';
+import { parseSource } from '../scanner/ast-utils';
+
+/**
+ * What the worker needs to dry-run one plugin.
+ */
+export interface DryRunInput {
+  /** Path of the entry point inside the archive. */
+  entryPoint: string;
+
+  source: string;
+
+  voiceIntents: string[];
+  screenshotIntents: string[];
+
+  phaseTimeoutMs: number;
+  maxEventsPerPhase: number;
+}
+
+/** Longest detail kept on an event; arguments can be arbitrarily large. */
+const MAX_DETAIL_LENGTH = 200;
+
+const OUTCOMES = new Set<string>(Object.values(DryRunPhaseOutcome));
+
+/**
+ * Stubs installed in the plugin's context before it loads. Evaluated inside
+ * the context, so everything the plugin can reach belongs to that context;
+ * `record` is the only outside function and stays in this closure.
+ *
+ * - `synapse` is a recording Proxy: any path can be called and resolves to
+ *   undefined. A call with an intent name and a function registers a handler.
+ * - fetch, XMLHttpRequest, WebSocket, EventSource, sendBeacon and
+ *   importScripts record the attempt and fail.
+ * - Timers record the call; callbacks run once, at the end of the phase.
+ * - eval and the Function constructor record the code, then run it.
+ * - console is silent, require() records and throws.
+ *
+ * Plugin code only ever runs inside the harness's try/catch blocks, so the
+ * only thing that escapes to the caller is the vm timeout.
+ */
+const HARNESS_SOURCE = `(function (record) {
+  'use strict';
+  const g = globalThis;
+  const indirectEval = eval;
+  const NativeFunction = Function;
+  const NativePromise = Promise;
+  const NativeProxy = Proxy;
+  const NativeReflect = Reflect;
+  const NativeString = String;
+  const stringify = JSON.stringify;
+  const NETWORK_BLOCKED = 'Network access is disabled during the dry run';
+
+  const handlers = Object.create(null);
+  let timers = [];
+  let nextTimerId = 1;
+  let current = { errored: false, pending: 0, skipped: false };
+
+  function noop() {}
+
+  function text(value) {
+    try {
+      if (typeof value === 'string') {
+        return value;
+      }
+      const json = stringify(value, function (key, v) {
+        return typeof v === 'function' ? '[Function]' : v;
+      });
+      return json === undefined ? NativeString(value) : json;
+    } catch (e) {
+      return '[unserializable]';
+    }
+  }
+
+  function recordError(error) {
+    current.errored = true;
+    let name = 'Error';
+    let message = '';
+    try {
+      if (error !== null && (typeof error === 'object' || typeof error === 'function')) {
+        name = NativeString(error.name || 'Error');
+        message = NativeString(error.message);
+      } else {
+        name = 'Thrown';
+        message = NativeString(error);
+      }
+    } catch (e) {
+      message = '[unprintable error]';
+    }
+    record('ERROR', name, message);
+  }
+
+  function invoke(fn, thisArg, args) {
+    const state = current;
+    try {
+      const result = NativeReflect.apply(fn, thisArg, args);
+      if (result !== null && (typeof result === 'object' || typeof result === 'function') &&
+          typeof result.then === 'function') {
+        state.pending++;
+        NativePromise.resolve(result).then(
+          function () { state.pending--; },
+          function (error) { state.pending--; recordError(error); }
+        );
+      }
+    } catch (error) {
+      recordError(error);
+    }
+  }
+
+  function hostApi(path) {
+    return new NativeProxy(noop, {
+      get: function (target, property) {
+        // Not thenable, so awaiting a namespace does not hang
+        if (typeof property !== 'string' || property === 'then') {
+          return undefined;
+        }
+        return hostApi(path + '.' + property);
+      },
+      apply: function (target, thisArg, args) {
+        record('API_CALL', path, text(args));
+        let handler = null;
+        for (let i = 0; i < args.length; i++) {
+          if (typeof args[i] === 'function') {
+            handler = args[i];
+          }
+        }
+        if (typeof args[0] === 'string' && handler) {
+          handlers[args[0]] = handler;
+        }
+        return NativePromise.resolve(undefined);
+      },
+    });
+  }
+
+  function blockedConstructor(name) {
+    return function (url) {
+      record('NETWORK', name, text(url));
+      throw new Error(NETWORK_BLOCKED);
+    };
+  }
+
+  function scheduler(name) {
+    return function (callback, delay) {
+      const id = nextTimerId++;
+      record('TIMER', name, 'delay ' + (Number(delay) || 0) + 'ms');
+      if (typeof callback === 'function') {
+        timers.push({ id: id, callback: callback, args: [].slice.call(arguments, 2) });
+      } else {
+        // String callbacks are implied eval; recorded, never run
+        record('DYNAMIC_CODE', name, text(callback));
+      }
+      return id;
+    };
+  }
+
+  function clearTimer(id) {
+    const remaining = [];
+    for (let i = 0; i < timers.length; i++) {
+      if (timers[i].id !== id) {
+        remaining.push(timers[i]);
+      }
+    }
+    timers = remaining;
+  }
+
+  const module = { exports: {} };
+
+  function exported(name) {
+    try {
+      const exports = module.exports;
+      if (exports && typeof exports[name] === 'function') {
+        return { fn: exports[name], self: exports };
+      }
+      const fallback = exports && exports.default;
+      if (fallback && typeof fallback[name] === 'function') {
+        return { fn: fallback[name], self: fallback };
+      }
+    } catch (error) {
+      recordError(error);
+    }
+    return null;
+  }
+
+  const synapse = hostApi('synapse');
+  g.synapse = synapse;
+
+  g.fetch = function (input) {
+    record('NETWORK', 'fetch', text(input));
+    return NativePromise.reject(new Error(NETWORK_BLOCKED));
+  };
+  g.XMLHttpRequest = function () {
+    let target = '';
+    this.open = function (method, url) {
+      target = NativeString(method) + ' ' + text(url);
+    };
+    this.setRequestHeader = noop;
+    this.send = function () {
+      record('NETWORK', 'XMLHttpRequest', target);
+      throw new Error(NETWORK_BLOCKED);
+    };
+  };
+  g.WebSocket = blockedConstructor('WebSocket');
+  g.EventSource = blockedConstructor('EventSource');
+  g.importScripts = function () {
+    record('NETWORK', 'importScripts', text([].slice.call(arguments)));
+    throw new Error(NETWORK_BLOCKED);
+  };
+  g.navigator = {
+    sendBeacon: function (url) {
+      record('NETWORK', 'navigator.sendBeacon', text(url));
+      return false;
+    },
+  };
+
+  g.setTimeout = scheduler('setTimeout');
+  g.setInterval = scheduler('setInterval');
+  g.clearTimeout = clearTimer;
+  g.clearInterval = clearTimer;
+
+  const FunctionStub = new NativeProxy(NativeFunction, {
+    apply: function (target, thisArg, args) {
+      record('DYNAMIC_CODE', 'Function', text(args[args.length - 1]));
+      return NativeReflect.apply(target, thisArg, args);
+    },
+    construct: function (target, args) {
+      record('DYNAMIC_CODE', 'Function', text(args[args.length - 1]));
+      return NativeReflect.construct(target, args);
+    },
+  });
+  Object.defineProperty(NativeFunction.prototype, 'constructor', { value: FunctionStub, writable: true, configurable: true });
+  g.Function = FunctionStub;
+  g.eval = function (code) {
+    record('DYNAMIC_CODE', 'eval', text(code));
+    return indirectEval(code);
+  };
+
+  g.console = { log: noop, info: noop, warn: noop, error: noop, debug: noop };
+  g.module = module;
+  g.exports = module.exports;
+  g.require = function (name) {
+    record('API_CALL', 'require', text(name));
+    throw new Error('Cannot load module ' + text(name) + ' during the dry run');
+  };
+  g.window = g;
+  g.self = g;
+
+  function begin() {
+    current = { errored: false, pending: 0, skipped: false };
+  }
+
+  return {
+    load: function (source) {
+      begin();
+      try {
+        indirectEval(source);
+      } catch (error) {
+        recordError(error);
+        return;
+      }
+      const handler = exported('onLoad');
+      if (handler) {
+        invoke(handler.fn, handler.self, [synapse]);
+      }
+    },
+    intent: function (kind, name) {
+      begin();
+      const context = kind === 'voice'
+        ? { intent: name, transcript: '', slots: {} }
+        : { intent: name, screenshot: null };
+      const registered = handlers[name];
+      if (typeof registered === 'function') {
+        invoke(registered, undefined, [context]);
+        return;
+      }
+      const handler = exported(kind === 'voice' ? 'onVoiceIntent' : 'onScreenshotIntent');
+      if (handler) {
+        invoke(handler.fn, handler.self, [name, context]);
+        return;
+      }
+      current.skipped = true;
+    },
+    flushTimers: function () {
+      const due = timers;
+      timers = [];
+      for (let i = 0; i < due.length; i++) {
+        invoke(due[i].callback, undefined, due[i].args);
+      }
+    },
+    outcome: function () {
+      if (current.errored) {
+        return 'ERROR';
+      }
+      if (current.skipped) {
+        return 'SKIPPED';
+      }
+      return current.pending > 0 ? 'PENDING' : 'OK';
+    },
+  };
+})`;
+
+/**
+ * Loads a plugin in a fresh vm context and exercises it: first the load
+ * phase (evaluating the code, then calling its `onLoad(synapse)` export),
+ * then one phase per declared voice and screenshot intent.
+ *
+ * Intent handlers are looked up in this order:
+ * - a function registered through the host API under the intent's name
+ *   (e.g. `synapse.intents.on('create_task', handler)`), called with a context
+ * - an `onVoiceIntent(name, context)` / `onScreenshotIntent(name, context)` export
+ * Exports are also looked up on `exports.default`.
+ *
+ * Each phase has phaseTimeoutMs of CPU time, including the promise jobs and
+ * timer callbacks it causes. A vm context is not a security boundary: this
+ * must run in a worker thread with its own resource limits.
+ *
+ * @param onPhase Called as each phase finishes, so a terminated run keeps what it recorded
+ */
+export function runDryRun(input: DryRunInput, onPhase: (phase: DryRunPhase) => void): void {
+  let phase: DryRunPhase | null = null;
+
+  const record = (type: unknown, name: unknown, detail: unknown) => {
+    if (!phase) {
+      return;
+    }
+    if (phase.events.length >= input.maxEventsPerPhase) {
+      phase.droppedEvents++;
+      return;
+    }
+    const event: DryRunEvent = { type: type as DryRunEventType, name: truncate(String(name)) };
+    if (typeof detail === 'string' && detail) {
+      event.detail = truncate(detail);
+    }
+    phase.events.push(event);
+  };
+
+  // A null-prototype global keeps the plugin from reaching this realm's Object through it
+  const sandbox = vm.createContext(Object.create(null), {
+    name: `dry-run:${input.entryPoint}`,
+    microtaskMode: 'afterEvaluate',
+  });
+  const harness = vm.runInContext(HARNESS_SOURCE, sandbox)(record);
+  Object.defineProperty(sandbox, '__harness', { value: harness });
+  Object.defineProperty(sandbox, '__source', { value: toScript(input.source) });
+
+  const runPhase = (name: string, code: string) => {
+    phase = { name, outcome: DryRunPhaseOutcome.OK, durationMs: 0, events: [], droppedEvents: 0 };
+    const started = performance.now();
+    const deadline = started + input.phaseTimeoutMs;
+    const run = (step: string) =>
+      vm.runInContext(step, sandbox, { timeout: Math.max(1, Math.ceil(deadline - performance.now())) });
+
+    try {
+      run(code);
+      run('__harness.flushTimers()');
+      const outcome = run('__harness.outcome()');
+      phase.outcome = OUTCOMES.has(outcome) ? outcome : DryRunPhaseOutcome.ERROR;
+    } catch (error) {
+      const timedOut = (error as { code?: string })?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+      phase.outcome = timedOut ? DryRunPhaseOutcome.TIMEOUT : DryRunPhaseOutcome.ERROR;
+      record(
+        DryRunEventType.ERROR,
+        timedOut ? 'Timeout' : 'HarnessError',
+        timedOut ? `Ran longer than ${input.phaseTimeoutMs} ms` : 'The dry run harness failed',
+      );
+    }
+
+    phase.durationMs = Math.round(performance.now() - started);
+    onPhase(phase);
+  };
+
+  runPhase('load', '__harness.load(__source)');
+  for (const intent of input.voiceIntents) {
+    runPhase(`voiceIntent:${intent}`, `__harness.intent('voice', ${JSON.stringify(intent)})`);
+  }
+  for (const intent of input.screenshotIntents) {
+    runPhase(`screenshotIntent:${intent}`, `__harness.intent('screenshot', ${JSON.stringify(intent)})`);
+  }
+}
+
+/**
+ * Rewrites an ES module into a script the harness can evaluate: imports
+ * become require() calls (which fail), exports are assigned to `exports`.
+ * Scripts, and code that does not parse, are returned unchanged.
+ */
+export function toScript(source: string): string {
+  let body;
+  try {
+    body = parseSource(source).body;
+  } catch {
+    return source;
+  }
+
+  const edits: { start: number; end: number; text: string }[] = [];
+  const assignments: string[] = [];
+  for (const node of body) {
+    if (node.type === 'ImportDeclaration' || node.type === 'ExportAllDeclaration') {
+      edits.push({ start: node.start, end: node.end, text: `require(${JSON.stringify(node.source.value)});` });
+    } else if (node.type === 'ExportNamedDeclaration') {
+      if (node.source) {
+        edits.push({ start: node.start, end: node.end, text: `require(${JSON.stringify(node.source.value)});` });
+      } else if (node.declaration) {
+        edits.push({ start: node.start, end: node.declaration.start, text: '' });
+        const declaration = node.declaration;
+        const names =
+          declaration.type === 'VariableDeclaration'
+            ? declaration.declarations.flatMap((d) => (d.id.type === 'Identifier' ? [d.id.name] : []))
+            : [declaration.id.name];
+        assignments.push(...names.map((name) => `exports.${name} = ${name};`));
+      } else {
+        edits.push({ start: node.start, end: node.end, text: '' });
+        for (const specifier of node.specifiers) {
+          const local = specifier.local.type === 'Identifier' ? specifier.local.name : null;
+          const exportedAs =
+            specifier.exported.type === 'Identifier' ? specifier.exported.name : String(specifier.exported.value);
+          if (local) {
+            assignments.push(`exports[${JSON.stringify(exportedAs)}] = ${local};`);
+          }
+        }
+      }
+    } else if (node.type === 'ExportDefaultDeclaration') {
+      const declaration = node.declaration;
+      if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+        edits.push({ start: node.start, end: declaration.start, text: '' });
+        assignments.push(`exports.default = ${declaration.id.name};`);
+      } else {
+        edits.push({ start: node.start, end: declaration.start, text: 'exports.default = ' });
+      }
+    }
+  }
+
+  if (edits.length === 0) {
+    return source;
+  }
+
+  // Modules are strict; the directive goes on the first line so line numbers stay put
+  let script = source;
+  for (const edit of edits.reverse()) {
+    script = script.slice(0, edit.start) + edit.text + script.slice(edit.end);
+  }
+  return `'use strict';${script}\n${assignments.join('\n')}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH)}…` : text;
+}
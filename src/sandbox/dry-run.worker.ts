@@ -0,0 +1,12 @@
+import { parentPort, workerData } from 'worker_threads';
+import { DryRunInput, runDryRun } from './dry-run-harness';
+
+/**
+ * Worker thread entry point for PluginDryRunner: runs the harness and posts
+ * each phase back as it finishes.
+ */
+
+// Promises the plugin rejects and never handles must not take the worker down
+process.on('unhandledRejection', () => undefined);
+
+runDryRun(workerData as DryRunInput, (phase) => parentPort?.postMessage(phase));
@@ -0,0 +1,36 @@
+import { ConfigService } from '@nestjs/config';
+import { PluginDryRunner } from './plugin-dry-runner.service';
+import { DryRunPhaseOutcome, DryRunStatus } from '../common/enums/dry-run.enum';
+
+describe('PluginDryRunner', () => {
+  const configService = {
+    get: jest.fn().mockReturnValue({ enabled: true, phaseTimeoutMs: 500, maxMemoryMb: 32, maxEventsPerPhase: 50 }),
+  } as unknown as ConfigService;
+  const runner = new PluginDryRunner(configService);
+
+  it('should run the load phase and each declared intent in a worker', async () => {
+    const report = await runner.run(
+      'plugin.js',
+      'export function onLoad(api) { api.ready(); }\nexport function onVoiceIntent(name) { synapse.handle(name); }',
+      { triggers: { voiceIntents: ['create_task'] } },
+    );
+
+    expect(report.status).toBe(DryRunStatus.COMPLETED);
+    expect(report.error).toBeNull();
+    expect(report.phases.map((p) => [p.name, p.outcome, p.events.map((e) => e.name)])).toEqual([
+      ['load', DryRunPhaseOutcome.OK, ['synapse.ready']],
+      ['voiceIntent:create_task', DryRunPhaseOutcome.OK, ['synapse.handle']],
+    ]);
+  }, 30000);
+
+  it('should stop plugins that exceed the memory limit', async () => {
+    const report = await runner.run(
+      'plugin.js',
+      'const hoard = []; while (true) hoard.push(new Array(100000).fill(Math.random()));',
+      {},
+    );
+
+    expect(report.status).toBe(DryRunStatus.MEMORY_EXCEEDED);
+    expect(report.error).toBe('The plugin exceeded the 32 MB memory limit');
+  }, 30000);
+});
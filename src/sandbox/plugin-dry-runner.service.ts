@@ -0,0 +1,122 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { extname, join } from 'path';
+import { Worker } from 'worker_threads';
+import { DryRunPhase, DryRunReport } from '../common/entities/plugin-version.entity';
+import { DryRunStatus } from '../common/enums/dry-run.enum';
+import { DryRunInput } from './dry-run-harness';
+
+/** Time allowed for the worker thread to start, on top of the phase budgets. */
+const WORKER_STARTUP_MS = 10000;
+
+// Under ts-node (tests, `nest start` without a build) the worker is TypeScript too
+const WORKER_FILE = join(__dirname, `dry-run.worker${extname(__filename)}`);
+const WORKER_EXEC_ARGV = extname(__filename) === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : [];
+
+/**
+ * Runs submitted plugins in a sandbox and reports what they attempt.
+ *
+ * Each dry run gets its own worker thread with a capped heap and no
+ * environment variables; inside it, the plugin runs in a vm context with a
+ * stubbed host API (see runDryRun). The per-phase vm timeouts bound CPU
+ * time, and the worker is terminated if the whole run exceeds the sum of
+ * its phase budgets.
+ *
+ * Dry runs are queued and run one at a time.
+ */
+@Injectable()
+export class PluginDryRunner {
+  private readonly logger = new Logger(PluginDryRunner.name);
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {}
+
+  /**
+   * Whether dry runs are enabled (DRY_RUN_ENABLED).
+   */
+  get enabled(): boolean {
+    return this.configService.get('sandbox').enabled;
+  }
+
+  /**
+   * Queues a dry run of a plugin's entry point.
+   *
+   * @param entryPoint Path of the entry point inside the archive
+   * @param source Entry point contents
+   * @param manifest Validated manifest; its triggers decide which intents are invoked
+   * @returns The report; never rejects, failures are reported as FAILED
+   */
+  run(entryPoint: string, source: string, manifest: Record<string, any>): Promise<DryRunReport> {
+    const sandboxConfig = this.configService.get('sandbox');
+    const input: DryRunInput = {
+      entryPoint,
+      source,
+      voiceIntents: manifest.triggers?.voiceIntents || [],
+      screenshotIntents: manifest.triggers?.screenshotIntents || [],
+      phaseTimeoutMs: sandboxConfig.phaseTimeoutMs,
+      maxEventsPerPhase: sandboxConfig.maxEventsPerPhase,
+    };
+
+    const report = this.queue.then(() => this.execute(input, sandboxConfig.maxMemoryMb));
+    this.queue = report;
+    return report;
+  }
+
+  private execute(input: DryRunInput, maxMemoryMb: number): Promise<DryRunReport> {
+    const startedAt = new Date();
+    const phases: DryRunPhase[] = [];
+    const phaseCount = 1 + input.voiceIntents.length + input.screenshotIntents.length;
+    const budgetMs = WORKER_STARTUP_MS + phaseCount * input.phaseTimeoutMs;
+
+    return new Promise((resolve) => {
+      const report = (status: DryRunStatus, error: string | null = null) => {
+        const durationMs = Date.now() - startedAt.getTime();
+        this.logger.log(`Dry run of ${input.entryPoint} finished: ${status} after ${durationMs} ms`);
+        resolve({ status, error, startedAt: startedAt.toISOString(), durationMs, phases });
+      };
+
+      let worker: Worker;
+      try {
+        worker = new Worker(WORKER_FILE, {
+          workerData: input,
+          env: {},
+          execArgv: WORKER_EXEC_ARGV,
+          resourceLimits: { maxOldGenerationSizeMb: maxMemoryMb },
+        });
+      } catch (error) {
+        this.logger.error(`Failed to start dry run worker: ${error.message}`);
+        report(DryRunStatus.FAILED, 'The dry run worker could not be started');
+        return;
+      }
+
+      let finished = false;
+      const finish = (status: DryRunStatus, error: string | null = null) => {
+        if (!finished) {
+          finished = true;
+          clearTimeout(timer);
+          report(status, error);
+        }
+      };
+      const timer = setTimeout(() => {
+        finish(DryRunStatus.TIMED_OUT, `The dry run ran longer than ${budgetMs} ms and was stopped`);
+        void worker.terminate();
+      }, budgetMs);
+
+      worker.on('message', (phase: DryRunPhase) => phases.push(phase));
+      worker.on('error', (error: Error & { code?: string }) => {
+        if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          finish(DryRunStatus.MEMORY_EXCEEDED, `The plugin exceeded the ${maxMemoryMb} MB memory limit`);
+        } else {
+          this.logger.error(`Dry run worker failed: ${error.message}`);
+          finish(DryRunStatus.FAILED, 'The dry run worker failed');
+        }
+      });
+      worker.on('exit', (code) => {
+        finish(
+          code === 0 ? DryRunStatus.COMPLETED : DryRunStatus.FAILED,
+          code === 0 ? null : `The dry run worker exited with code ${code}`,
+        );
+      });
+    });
+  }
+}
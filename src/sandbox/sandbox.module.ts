@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PluginDryRunner } from './plugin-dry-runner.service';
+
+/**
+ * Sandbox module - dry runs of submitted plugins in isolated worker threads.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [PluginDryRunner],
+  exports: [PluginDryRunner],
+})
+export class SandboxModule {}
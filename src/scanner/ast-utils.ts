@@ -0,0 +1,55 @@
+import { Expression, MemberExpression, parse, PrivateIdentifier, Program, Super } from 'acorn';
+
+/** Names under which plugin code can reach the global object. */
+const GLOBAL_OBJECTS = new Set(['window', 'globalThis', 'self', 'global']);
+
+/**
+ * Parses plugin code as a module, falling back to a script.
+ *
+ * @throws SyntaxError (with `pos`) if the code is neither
+ */
+export function parseSource(source: string): Program {
+  const options = { ecmaVersion: 'latest', allowHashBang: true } as const;
+  try {
+    return parse(source, { ...options, sourceType: 'module' });
+  } catch {
+    // Sloppy-mode scripts (e.g. using `with` or octal literals) are not valid modules
+    return parse(source, { ...options, sourceType: 'script', allowReturnOutsideFunction: true });
+  }
+}
+
+/**
+ * Static name of a member's property (`a.b`, `a['b']`), or null if computed.
+ */
+export function propertyName(node: MemberExpression): string | null {
+  if (!node.computed && node.property.type === 'Identifier') {
+    return node.property.name;
+  }
+  if (node.property.type === 'Literal' && typeof node.property.value === 'string') {
+    return node.property.value;
+  }
+  return null;
+}
+
+/**
+ * Dotted name of an identifier or static member chain, without a leading
+ * global object (`window.eval` -> `eval`), or null if any part is dynamic.
+ */
+export function qualifiedName(node: Expression | Super | PrivateIdentifier): string | null {
+  if (node.type === 'Identifier') {
+    return node.name;
+  }
+  if (node.type === 'ThisExpression') {
+    return 'this';
+  }
+  if (node.type !== 'MemberExpression') {
+    return null;
+  }
+
+  const object = qualifiedName(node.object);
+  const property = propertyName(node);
+  if (object === null || property === null) {
+    return null;
+  }
+  return GLOBAL_OBJECTS.has(object) ? property : `${object}.${property}`;
+}
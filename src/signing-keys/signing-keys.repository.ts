@@ -0,0 +1,129 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeveloperSigningKey,
+  CreateDeveloperSigningKeyDto,
+} from '../common/entities/developer-signing-key.entity';
+import * as crypto from 'crypto';
+
+/**
+ * Repository for DeveloperSigningKey entity using Supabase.
+ */
+@Injectable()
+export class SigningKeysRepository {
+  private readonly supabase: SupabaseClient;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const supabaseConfig = this.configService.get('supabase');
+    this.supabase = createClient(supabaseConfig.projectUrl, supabaseConfig.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  /**
+   * Find a key by ID.
+   */
+  async findById(id: string): Promise<DeveloperSigningKey | null> {
+    const { data, error } = await this.supabase
+      .from('developer_signing_keys')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find a key by its fingerprint.
+   */
+  async findByKeyId(keyId: string): Promise<DeveloperSigningKey | null> {
+    const { data, error } = await this.supabase
+      .from('developer_signing_keys')
+      .select('*')
+      .eq('key_id', keyId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find all keys registered for the given developer accounts, newest first.
+   */
+  async findByDeveloperIds(developerIds: string[]): Promise<DeveloperSigningKey[]> {
+    const { data } = await this.supabase
+      .from('developer_signing_keys')
+      .select('*')
+      .in('developer_id', developerIds)
+      .order('created_at', { ascending: false });
+
+    return (data || []).map((item) => this.mapToEntity(item));
+  }
+
+  /**
+   * Create a new key record.
+   */
+  async create(dto: CreateDeveloperSigningKeyDto): Promise<DeveloperSigningKey> {
+    const { data, error } = await this.supabase
+      .from('developer_signing_keys')
+      .insert({
+        id: crypto.randomUUID(),
+        developer_id: dto.developerId,
+        created_by: dto.createdBy,
+        name: dto.name,
+        key_id: dto.keyId,
+        public_key: dto.publicKey,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create signing key: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Revoke a key.
+   */
+  async revoke(id: string): Promise<DeveloperSigningKey> {
+    const { data, error } = await this.supabase
+      .from('developer_signing_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to revoke signing key: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Map database row to DeveloperSigningKey entity.
+   */
+  private mapToEntity(data: any): DeveloperSigningKey {
+    return {
+      id: data.id,
+      developerId: data.developer_id,
+      createdBy: data.created_by,
+      name: data.name,
+      keyId: data.key_id,
+      publicKey: data.public_key,
+      revokedAt: data.revoked_at ? new Date(data.revoked_at) : null,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { SigningKeysService } from './signing-keys.service';
+import { SigningKeysRepository } from './signing-keys.repository';
+import { DevelopersService } from '../developers/developers.service';
+import { DeveloperSigningKey } from '../common/entities/developer-signing-key.entity';
+import { PluginVersionFile } from '../common/entities/plugin-version.entity';
+import { SignatureRole } from '../common/enums/signature-role.enum';
+import { Role } from '../common/enums/role.enum';
+import { PackageSignatureException } from '../common/exceptions';
+import { PackageSigning } from '../signing/package-signing';
+import { AuthenticatedUser } from '../auth';
+import { AuditService } from '../audit/audit.service';
+
+describe('SigningKeysService', () => {
+  let service: SigningKeysService;
+  let signingKeysRepository: jest.Mocked<SigningKeysRepository>;
+
+  const user: AuthenticatedUser = {
+    id: 'user-1',
+    roles: [Role.DEVELOPER],
+    claims: {},
+  };
+
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const rawPublicKey = PackageSigning.rawPublicKey(publicKey).toString('base64');
+  const keyId = PackageSigning.keyId(rawPublicKey);
+
+  const storedKey: DeveloperSigningKey = {
+    id: 'signing-key-1',
+    developerId: 'org-1',
+    createdBy: 'user-1',
+    name: 'Release key',
+    keyId,
+    publicKey: rawPublicKey,
+    revokedAt: null,
+    createdAt: new Date('2024-01-01'),
+  };
+
+  const files: PluginVersionFile[] = [
+    { path: 'plugin.js', size: 10, sha256: 'b'.repeat(64), mimeType: 'text/javascript' },
+    { path: 'manifest.json', size: 20, sha256: 'a'.repeat(64), mimeType: 'application/json' },
+  ];
+
+  const signFor = (key: KeyObject, version = '1.0.0') =>
+    PackageSigning.sign(PackageSigning.developerPayload('com.acme.tasks', version, files), key);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SigningKeysService,
+        {
+          provide: SigningKeysRepository,
+          useValue: {
+            findById: jest.fn(),
+            findByKeyId: jest.fn(),
+            findByDeveloperIds: jest.fn(),
+            create: jest.fn(),
+            revoke: jest.fn(),
+          },
+        },
+        {
+          provide: DevelopersService,
+          useValue: { getAccountIds: jest.fn().mockResolvedValue(['dev-1', 'org-1']) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(false) },
+        },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SigningKeysService>(SigningKeysService);
+    signingKeysRepository = module.get(SigningKeysRepository);
+  });
+
+  describe('registerKey', () => {
+    it('should store the raw key and its fingerprint for an organization', async () => {
+      signingKeysRepository.findByKeyId.mockResolvedValue(null);
+      signingKeysRepository.create.mockResolvedValue(storedKey);
+
+      const pem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+      await service.registerKey(user, { name: 'Release key', publicKey: pem, organizationId: 'org-1' });
+
+      expect(signingKeysRepository.create).toHaveBeenCalledWith({
+        developerId: 'org-1',
+        createdBy: 'user-1',
+        name: 'Release key',
+        keyId,
+        publicKey: rawPublicKey,
+      });
+    });
+
+    it('should reject keys that are not Ed25519', async () => {
+      const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey;
+      const pem = rsa.export({ format: 'pem', type: 'spki' }).toString();
+
+      await expect(service.registerKey(user, { name: 'RSA', publicKey: pem })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject keys that are already registered', async () => {
+      signingKeysRepository.findByKeyId.mockResolvedValue(storedKey);
+
+      await expect(
+        service.registerKey(user, { name: 'Again', publicKey: rawPublicKey }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('verifyPackageSignature', () => {
+    beforeEach(() => {
+      signingKeysRepository.findByKeyId.mockResolvedValue(storedKey);
+    });
+
+    it('should accept a signature.json made with an owner key', async () => {
+      const signature = signFor(privateKey);
+      const signatureFile = JSON.stringify({ keyId, signature });
+
+      const result = await service.verifyPackageSignature(
+        'com.acme.tasks',
+        '1.0.0',
+        'org-1',
+        [...files, { path: 'signature.json', size: 1, sha256: 'c'.repeat(64), mimeType: 'application/json' }],
+        signatureFile,
+        {},
+      );
+
+      expect(result).toEqual({
+        role: SignatureRole.DEVELOPER,
+        keyId,
+        algorithm: 'Ed25519',
+        publicKey: rawPublicKey,
+        signature,
+      });
+    });
+
+    it('should accept a detached signature from form fields', async () => {
+      const signature = signFor(privateKey);
+
+      const result = await service.verifyPackageSignature('com.acme.tasks', '1.0.0', 'org-1', files, undefined, {
+        keyId,
+        signature,
+      });
+
+      expect(result?.signature).toBe(signature);
+    });
+
+    it('should reject a signature made for another version', async () => {
+      await expect(
+        service.verifyPackageSignature('com.acme.tasks', '1.0.1', 'org-1', files, undefined, {
+          keyId,
+          signature: signFor(privateKey, '1.0.0'),
+        }),
+      ).rejects.toThrow('the signature does not match the package contents');
+    });
+
+    it('should reject keys that belong to another account', async () => {
+      await expect(
+        service.verifyPackageSignature('com.acme.tasks', '1.0.0', 'dev-other', files, undefined, {
+          keyId,
+          signature: signFor(privateKey),
+        }),
+      ).rejects.toThrow('does not belong to the package owner');
+    });
+
+    it('should reject revoked keys', async () => {
+      signingKeysRepository.findByKeyId.mockResolvedValue({ ...storedKey, revokedAt: new Date() });
+
+      await expect(
+        service.verifyPackageSignature('com.acme.tasks', '1.0.0', 'org-1', files, undefined, {
+          keyId,
+          signature: signFor(privateKey),
+        }),
+      ).rejects.toThrow(PackageSignatureException);
+    });
+
+    it('should accept unsigned packages unless signatures are required', async () => {
+      await expect(
+        service.verifyPackageSignature('com.acme.tasks', '1.0.0', 'org-1', files, undefined, {}),
+      ).resolves.toBeNull();
+
+      const strict = new SigningKeysService(
+        signingKeysRepository,
+        {} as DevelopersService,
+        { get: () => true } as unknown as ConfigService,
+        { record: jest.fn() } as unknown as AuditService,
+      );
+      await expect(
+        strict.verifyPackageSignature('com.acme.tasks', '1.0.0', 'org-1', files, undefined, {}),
+      ).rejects.toThrow('the package is not signed');
+    });
+  });
+});
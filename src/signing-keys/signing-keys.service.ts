@@ -0,0 +1,227 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SigningKeysRepository } from './signing-keys.repository';
+import { DevelopersService } from '../developers/developers.service';
+import { AuditService } from '../audit/audit.service';
+import { DeveloperSigningKey } from '../common/entities/developer-signing-key.entity';
+import { PackageSignature, PluginVersionFile } from '../common/entities/plugin-version.entity';
+import { RegisterSigningKeyRequestDto, SigningKeyResponse } from '../common/dto';
+import { SignatureRole } from '../common/enums/signature-role.enum';
+import { AuditAction, AuditActorRole, AuditEntityType } from '../common/enums/audit.enum';
+import { PackageSignatureException, ResourceNotFoundException } from '../common/exceptions';
+import { AuthenticatedUser } from '../auth';
+import { PackageSigning, SIGNATURE_ALGORITHM, SIGNATURE_FILE } from '../signing/package-signing';
+
+/**
+ * A signature and the ID of the key that made it, as supplied by the developer.
+ */
+export interface DetachedSignature {
+  keyId: string;
+  signature: string;
+}
+
+/**
+ * Service for developer Ed25519 signing keys and package signature checks.
+ *
+ * Keys belong to a developer or organization account. A package signature is
+ * only accepted if it was made with an active key of the package's owner.
+ */
+@Injectable()
+export class SigningKeysService {
+  private readonly logger = new Logger(SigningKeysService.name);
+  private readonly requireSignature: boolean;
+
+  constructor(
+    private readonly signingKeysRepository: SigningKeysRepository,
+    private readonly developersService: DevelopersService,
+    @Inject(ConfigService) private configService: ConfigService,
+    private readonly auditService: AuditService,
+  ) {
+    this.requireSignature = !!this.configService.get<boolean>('signing.requireDeveloperSignature');
+  }
+
+  /**
+   * Registers a public key for the caller or one of their organizations.
+   */
+  async registerKey(
+    user: AuthenticatedUser,
+    dto: RegisterSigningKeyRequestDto,
+  ): Promise<SigningKeyResponse> {
+    const accountIds = await this.developersService.getAccountIds(user);
+    const developerId = dto.organizationId || accountIds[0];
+    if (!accountIds.includes(developerId)) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+
+    let publicKey: string;
+    try {
+      publicKey = PackageSigning.normalizePublicKey(dto.publicKey);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const keyId = PackageSigning.keyId(publicKey);
+    if (await this.signingKeysRepository.findByKeyId(keyId)) {
+      throw new ConflictException(`Signing key ${keyId} is already registered`);
+    }
+
+    const key = await this.signingKeysRepository.create({
+      developerId,
+      createdBy: user.id,
+      name: dto.name,
+      keyId,
+      publicKey,
+    });
+
+    this.logger.log(`Registered signing key ${keyId} for developer ${developerId}`);
+    await this.audit(AuditAction.SIGNING_KEY_REGISTERED, key, user);
+    return this.toSigningKeyResponse(key);
+  }
+
+  /**
+   * Lists the keys of the caller and their organizations, including revoked ones.
+   */
+  async listKeys(user: AuthenticatedUser): Promise<SigningKeyResponse[]> {
+    const accountIds = await this.developersService.getAccountIds(user);
+    const keys = await this.signingKeysRepository.findByDeveloperIds(accountIds);
+    return keys.map((k) => this.toSigningKeyResponse(k));
+  }
+
+  /**
+   * Revokes a key of the caller or one of their organizations.
+   * Versions already signed with it keep their signature.
+   */
+  async revokeKey(user: AuthenticatedUser, id: string): Promise<SigningKeyResponse> {
+    const accountIds = await this.developersService.getAccountIds(user);
+    const key = await this.signingKeysRepository.findById(id);
+    if (!key || !accountIds.includes(key.developerId)) {
+      throw new ResourceNotFoundException('Signing key', 'id', id);
+    }
+
+    if (key.revokedAt) {
+      return this.toSigningKeyResponse(key);
+    }
+
+    const revoked = await this.signingKeysRepository.revoke(id);
+    this.logger.log(`Revoked signing key ${key.keyId} for developer ${key.developerId}`);
+    await this.audit(AuditAction.SIGNING_KEY_REVOKED, key, user);
+    return this.toSigningKeyResponse(revoked);
+  }
+
+  /**
+   * Verifies the developer signature of a submitted package.
+   *
+   * The signature comes either from signature.json inside the archive or from
+   * the multipart fields, not both. Unsigned packages are accepted (returning
+   * null) unless PACKAGE_REQUIRE_SIGNATURE is set.
+   *
+   * @throws PackageSignatureException if the signature is missing when required,
+   *   malformed, made with an unknown, revoked or foreign key, or does not verify
+   */
+  async verifyPackageSignature(
+    packageId: string,
+    version: string,
+    ownerId: string,
+    files: PluginVersionFile[],
+    signatureFile: string | undefined,
+    detached: Partial<DetachedSignature>,
+  ): Promise<PackageSignature | null> {
+    const hasDetached = !!(detached.keyId || detached.signature);
+    if (signatureFile !== undefined && hasDetached) {
+      throw new PackageSignatureException(
+        packageId,
+        `provide the signature either in ${SIGNATURE_FILE} or as form fields, not both`,
+      );
+    }
+
+    let supplied: DetachedSignature | null = null;
+    if (signatureFile !== undefined) {
+      supplied = this.parseSignatureFile(packageId, signatureFile);
+    } else if (hasDetached) {
+      if (!detached.keyId || !detached.signature) {
+        throw new PackageSignatureException(packageId, 'both signature and signingKeyId are required');
+      }
+      supplied = { keyId: detached.keyId, signature: detached.signature };
+    }
+
+    if (!supplied) {
+      if (this.requireSignature) {
+        throw new PackageSignatureException(packageId, 'the package is not signed');
+      }
+      return null;
+    }
+
+    const key = await this.signingKeysRepository.findByKeyId(supplied.keyId);
+    if (!key || key.revokedAt) {
+      throw new PackageSignatureException(packageId, `unknown or revoked signing key ${supplied.keyId}`);
+    }
+    if (key.developerId !== ownerId) {
+      throw new PackageSignatureException(
+        packageId,
+        `signing key ${supplied.keyId} does not belong to the package owner`,
+      );
+    }
+
+    const payload = PackageSigning.developerPayload(packageId, version, files);
+    if (!PackageSigning.verify(payload, supplied.signature, key.publicKey)) {
+      throw new PackageSignatureException(packageId, 'the signature does not match the package contents');
+    }
+
+    this.logger.log(`Verified signature of ${packageId}@${version} with key ${key.keyId}`);
+    return {
+      role: SignatureRole.DEVELOPER,
+      keyId: key.keyId,
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey: key.publicKey,
+      signature: supplied.signature,
+    };
+  }
+
+  private async audit(action: AuditAction, key: DeveloperSigningKey, user: AuthenticatedUser): Promise<void> {
+    await this.auditService.record({
+      actorId: user.id,
+      actorRole: AuditActorRole.DEVELOPER,
+      action,
+      entityType: AuditEntityType.SIGNING_KEY,
+      entityId: key.id,
+      metadata: { developerId: key.developerId, keyId: key.keyId },
+    });
+  }
+
+  private parseSignatureFile(packageId: string, content: string): DetachedSignature {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new PackageSignatureException(packageId, `${SIGNATURE_FILE} is not valid JSON`);
+    }
+
+    if (typeof parsed?.keyId !== 'string' || typeof parsed?.signature !== 'string') {
+      throw new PackageSignatureException(
+        packageId,
+        `${SIGNATURE_FILE} must contain string keyId and signature fields`,
+      );
+    }
+    return { keyId: parsed.keyId, signature: parsed.signature };
+  }
+
+  private toSigningKeyResponse(key: DeveloperSigningKey): SigningKeyResponse {
+    return new SigningKeyResponse(
+      key.id,
+      key.developerId,
+      key.name,
+      key.keyId,
+      SIGNATURE_ALGORITHM,
+      key.publicKey,
+      key.revokedAt || null,
+      key.createdAt,
+    );
+  }
+}
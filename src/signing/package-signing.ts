@@ -0,0 +1,136 @@
+import { createHash, createPublicKey, sign, verify, KeyObject } from 'crypto';
+import { PluginVersionFile } from '../common/entities/plugin-version.entity';
+
+/** Detached signature file a developer may include at the archive root. */
+export const SIGNATURE_FILE = 'signature.json';
+
+/** The only signature algorithm accepted. */
+export const SIGNATURE_ALGORITHM = 'Ed25519';
+
+/** DER prefix of an Ed25519 SubjectPublicKeyInfo; the raw 32-byte key follows it. */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const ED25519_KEY_LENGTH = 32;
+const ED25519_SIGNATURE_LENGTH = 64;
+
+/**
+ * Ed25519 helpers for .synx package provenance.
+ *
+ * Developer signatures cover the archive contents rather than the archive
+ * bytes, so the signature can travel inside the archive it signs:
+ *
+ *   synx-package-signature-v1\n
+ *   <packageId>\n
+ *   <version>\n
+ *   <sha256> <path>\n        one line per file, sorted by path (UTF-16 code unit order),
+ *                            signature.json excluded
+ *
+ * Store counter-signatures cover the published artifact and the developer
+ * signature it accepted:
+ *
+ *   synx-store-signature-v1\n
+ *   <packageId>\n
+ *   <version>\n
+ *   <artifact sha256>\n
+ *   <developer signature, or empty>\n
+ */
+export class PackageSigning {
+  /**
+   * Builds the payload a developer signs for a package.
+   */
+  static developerPayload(packageId: string, version: string, files: PluginVersionFile[]): Buffer {
+    const lines = files
+      .filter((f) => f.path !== SIGNATURE_FILE)
+      .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+      .map((f) => `${f.sha256} ${f.path}`);
+    return PackageSigning.payload(['synx-package-signature-v1', packageId, version, ...lines]);
+  }
+
+  /**
+   * Builds the payload the store counter-signs for a published artifact.
+   */
+  static storePayload(
+    packageId: string,
+    version: string,
+    checksumSha256: string,
+    developerSignature: string | null,
+  ): Buffer {
+    return PackageSigning.payload([
+      'synx-store-signature-v1',
+      packageId,
+      version,
+      checksumSha256,
+      developerSignature || '',
+    ]);
+  }
+
+  /**
+   * Parses a public key given as base64 of the raw 32 bytes or as an SPKI PEM.
+   * Returns the raw key, base64 encoded.
+   *
+   * @throws Error if the input is not an Ed25519 public key
+   */
+  static normalizePublicKey(input: string): string {
+    const trimmed = input.trim();
+    if (trimmed.startsWith('-----BEGIN')) {
+      let key: KeyObject;
+      try {
+        key = createPublicKey(trimmed);
+      } catch {
+        throw new Error('Public key is not a valid PEM key');
+      }
+      if (key.asymmetricKeyType !== 'ed25519') {
+        throw new Error(`Expected an Ed25519 key, got ${key.asymmetricKeyType}`);
+      }
+      return PackageSigning.rawPublicKey(key).toString('base64');
+    }
+
+    const raw = Buffer.from(trimmed, 'base64');
+    if (raw.length !== ED25519_KEY_LENGTH || raw.toString('base64') !== trimmed) {
+      throw new Error('Public key must be 32 bytes, base64 encoded, or a PEM public key');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Derives the key ID: the first 32 hex characters of the SHA-256 of the raw public key.
+   */
+  static keyId(publicKey: string): string {
+    return createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Returns the raw 32-byte public key of an Ed25519 public or private key object.
+   */
+  static rawPublicKey(key: KeyObject): Buffer {
+    const publicKey = key.type === 'private' ? createPublicKey(key) : key;
+    return publicKey.export({ format: 'der', type: 'spki' }).subarray(ED25519_SPKI_PREFIX.length);
+  }
+
+  /**
+   * Signs a payload with an Ed25519 private key and returns the base64 signature.
+   */
+  static sign(payload: Buffer, privateKey: KeyObject): string {
+    return sign(null, payload, privateKey).toString('base64');
+  }
+
+  /**
+   * Verifies a base64 signature against a base64 raw public key.
+   */
+  static verify(payload: Buffer, signature: string, publicKey: string): boolean {
+    const signatureBytes = Buffer.from(signature, 'base64');
+    if (signatureBytes.length !== ED25519_SIGNATURE_LENGTH) {
+      return false;
+    }
+
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'base64')]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, payload, key, signatureBytes);
+  }
+
+  private static payload(lines: string[]): Buffer {
+    return Buffer.from(lines.map((line) => `${line}\n`).join(''), 'utf-8');
+  }
+}
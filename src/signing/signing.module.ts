@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StoreSigner } from './store-signer.service';
+
+/**
+ * Signing module - the store's own Ed25519 signing key.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [StoreSigner],
+  exports: [StoreSigner],
+})
+export class SigningModule {}
@@ -0,0 +1,70 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPrivateKey, KeyObject } from 'crypto';
+import { PackageSignature } from '../common/entities/plugin-version.entity';
+import { SignatureRole } from '../common/enums/signature-role.enum';
+import { PackageSigning, SIGNATURE_ALGORITHM } from './package-signing';
+
+/**
+ * Counter-signs published artifacts with the store's Ed25519 key.
+ *
+ * When STORE_SIGNING_PRIVATE_KEY is not configured, counter-signing is
+ * disabled and countersign() returns null.
+ */
+@Injectable()
+export class StoreSigner {
+  private readonly logger = new Logger(StoreSigner.name);
+  private readonly privateKey: KeyObject | null = null;
+  private readonly publicKey: string | null = null;
+  private readonly keyId: string | null = null;
+
+  constructor(@Inject(ConfigService) private configService: ConfigService) {
+    const pem = this.configService.get<string>('signing.storePrivateKey');
+    if (!pem) {
+      this.logger.warn('STORE_SIGNING_PRIVATE_KEY is not set; published artifacts will not be counter-signed');
+      return;
+    }
+
+    const key = createPrivateKey(pem);
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`STORE_SIGNING_PRIVATE_KEY must be an Ed25519 key, got ${key.asymmetricKeyType}`);
+    }
+
+    this.privateKey = key;
+    this.publicKey = PackageSigning.rawPublicKey(key).toString('base64');
+    this.keyId = PackageSigning.keyId(this.publicKey);
+  }
+
+  /**
+   * Returns the store's public key, or null if counter-signing is disabled.
+   */
+  getPublicKey(): { keyId: string; algorithm: string; publicKey: string } | null {
+    if (!this.keyId || !this.publicKey) {
+      return null;
+    }
+    return { keyId: this.keyId, algorithm: SIGNATURE_ALGORITHM, publicKey: this.publicKey };
+  }
+
+  /**
+   * Counter-signs a published artifact and the developer signature it was accepted with.
+   */
+  countersign(
+    packageId: string,
+    version: string,
+    checksumSha256: string,
+    developerSignature: string | null,
+  ): PackageSignature | null {
+    if (!this.privateKey || !this.keyId || !this.publicKey) {
+      return null;
+    }
+
+    const payload = PackageSigning.storePayload(packageId, version, checksumSha256, developerSignature);
+    return {
+      role: SignatureRole.STORE,
+      keyId: this.keyId,
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey: this.publicKey,
+      signature: PackageSigning.sign(payload, this.privateKey),
+    };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * File types allowed inside a .synx archive, keyed by lower-case extension.
+ *
+ * Covers plugin code and bundled modules, localized string files, images,
+ * fonts and WebAssembly. Anything else is rejected on submission.
+ */
+export const PACKAGE_FILE_TYPES: Readonly<Record<string, string>> = {
+  // Code and data
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.json': 'application/json',
+  '.wasm': 'application/wasm',
+  '.css': 'text/css',
+
+  // Documentation and localized strings
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.strings': 'text/plain',
+  '.po': 'text/x-gettext-translation',
+
+  // Images
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+
+  // Fonts
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Extensionless files allowed at any level of the archive.
+ */
+const PLAIN_TEXT_FILES = new Set(['LICENSE', 'NOTICE', 'CHANGELOG']);
+
+/**
+ * Returns the MIME type of an archive path, or null if the file type is not allowed.
+ */
+export function packageFileMimeType(path: string): string | null {
+  const fileName = path.slice(path.lastIndexOf('/') + 1);
+  if (PLAIN_TEXT_FILES.has(fileName)) {
+    return 'text/plain';
+  }
+
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) {
+    return null;
+  }
+  return PACKAGE_FILE_TYPES[fileName.slice(dot).toLowerCase()] ?? null;
+}
@@ -2,6 +2,7 @@ import { Module, Global } from '@nestjs/common';
 import { SupabaseStorageService } from './supabase-storage.service';
 import { SynxPackageService } from './synx-package.service';
 import { StorageService } from './storage.service';
+import { ManifestModule } from '../manifest/manifest.module';
 
 /**
  * Storage module - handles all Supabase Storage operations.
@@ -9,6 +10,7 @@ import { StorageService } from './storage.service';
  */
 @Global()
 @Module({
+  imports: [ManifestModule],
   providers: [
     SupabaseStorageService,
     SynxPackageService,
@@ -68,6 +68,15 @@ export abstract class StorageService {
     version: string,
   ): Promise<{ storagePath: string }>;
 
+  /**
+   * Downloads a stored artifact.
+   *
+   * @param storagePath The path to the file
+   * @param bucket The bucket name
+   * @returns The file contents
+   */
+  abstract downloadArtifact(storagePath: string, bucket: string): Promise<Buffer>;
+
   /**
    * Deletes an artifact from storage.
    *
@@ -198,6 +198,20 @@ export class SupabaseStorageService extends StorageService {
     }
   }
 
+  /**
+   * Downloads a stored artifact.
+   */
+  async downloadArtifact(storagePath: string, bucket: string): Promise<Buffer> {
+    const { data, error } = await this.supabase.storage.from(bucket).download(storagePath);
+
+    if (error || !data) {
+      this.logger.error(`Failed to download artifact ${bucket}/${storagePath}: ${error?.message}`);
+      throw new Error(`Artifact download failed: ${error?.message}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
   /**
    * Deletes an artifact from storage.
    */
@@ -1,16 +1,52 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SynxPackageService, SynxPackage } from './synx-package.service';
 import AdmZip from 'adm-zip';
+import { createHash } from 'crypto';
+import { deflateRawSync } from 'zlib';
+import { ConfigService } from '@nestjs/config';
+import { ManifestSchemaService } from '../manifest/manifest-schema.service';
+import { ManifestValidationException } from '../common/exceptions/manifest-validation.exception';
+import { ArchiveValidationException } from '../common/exceptions/archive-validation.exception';
+import { ArchiveViolationCode } from '../common/enums/archive-violation.enum';
 
 // Mock AdmZip module
 jest.mock('adm-zip');
 
+const MB = 1024 * 1024;
+
+const limits = {
+  maxEntries: 10,
+  maxTotalUncompressedMb: 10,
+  maxEntryUncompressedMb: 4,
+  maxCompressionRatio: 100,
+  compressionRatioMinEntryKb: 1024,
+  maxPathDepth: 3,
+};
+
+/**
+ * Fills in the central directory fields the service inspects before extraction.
+ */
+function withHeaders(entries: Array<Record<string, any>>): Array<Record<string, any>> {
+  return entries.map((entry) => ({
+    rawEntryName: Buffer.from(entry.entryName, 'utf-8'),
+    ...entry,
+    header: { size: 1024, compressedSize: 512, attr: 0, ...entry.header },
+  }));
+}
+
 describe('SynxPackageService', () => {
   let service: SynxPackageService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SynxPackageService],
+      providers: [
+        SynxPackageService,
+        ManifestSchemaService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(limits) },
+        },
+      ],
     }).compile();
 
     service = module.get<SynxPackageService>(SynxPackageService);
@@ -50,7 +86,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -102,7 +138,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -125,7 +161,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -154,7 +190,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -191,7 +227,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -222,7 +258,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -255,7 +291,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -282,7 +318,7 @@ describe('SynxPackageService', () => {
       ];
 
       const mockZipInstance = {
-        getEntries: jest.fn().mockReturnValue(mockEntries),
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
       };
 
       (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
@@ -291,6 +327,339 @@ describe('SynxPackageService', () => {
 
       await expect(service.extractPackage(buffer)).rejects.toThrow('Invalid file path in archive');
     });
+
+    it('should use the entry point and icon declared in the manifest', async () => {
+      const mockEntries = [
+        {
+          entryName: 'manifest.json',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(
+            Buffer.from(
+              JSON.stringify({
+                name: 'Test Plugin',
+                version: '1.0.0',
+                entryPoint: 'dist/main.js',
+                icon: 'assets/logo.svg',
+              }),
+            ),
+          ),
+        },
+        {
+          entryName: 'dist/main.js',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(Buffer.from('main();')),
+        },
+        {
+          entryName: 'assets/logo.svg',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(Buffer.from('<svg/>')),
+        },
+      ];
+
+      const mockZipInstance = {
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
+      };
+
+      (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
+
+      const result = await service.extractPackage(Buffer.from('zip-data'));
+
+      expect(result.entryPoint).toBe('dist/main.js');
+      expect(result.jsCode).toBe('main();');
+      expect(result.iconName).toBe('assets/logo.svg');
+      expect(result.files.map((f) => f.path)).toEqual([
+        'manifest.json',
+        'dist/main.js',
+        'assets/logo.svg',
+      ]);
+    });
+
+    it('should list every manifest file reference missing from the archive', async () => {
+      const mockEntries = [
+        {
+          entryName: 'manifest.json',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(
+            Buffer.from(
+              JSON.stringify({
+                name: 'Test Plugin',
+                version: '1.0.0',
+                entryPoint: 'dist/main.js',
+                icon: 'icon.png',
+              }),
+            ),
+          ),
+        },
+        {
+          entryName: 'plugin.js',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(Buffer.from('code')),
+        },
+      ];
+
+      const mockZipInstance = {
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
+      };
+
+      (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
+
+      const error = await service.extractPackage(Buffer.from('zip-data')).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ManifestValidationException);
+      expect(error.errors).toEqual([
+        expect.objectContaining({ pointer: '/entryPoint', keyword: 'fileExists' }),
+        expect.objectContaining({ pointer: '/icon', keyword: 'fileExists' }),
+      ]);
+    });
+
+    it('should report every manifest schema violation with its JSON pointer', async () => {
+      const mockEntries = [
+        {
+          entryName: 'manifest.json',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(
+            Buffer.from(
+              JSON.stringify({
+                name: 'Test Plugin',
+                version: '1.0.0',
+                entryPoint: 'plugin.ts',
+                triggers: { voiceIntents: ['Create Task'] },
+              }),
+            ),
+          ),
+        },
+        {
+          entryName: 'plugin.js',
+          isDirectory: false,
+          getData: jest.fn().mockReturnValue(Buffer.from('code')),
+        },
+      ];
+
+      const mockZipInstance = {
+        getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)),
+      };
+
+      (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
+
+      const error = await service.extractPackage(Buffer.from('zip-data')).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ManifestValidationException);
+      expect(error.getStatus()).toBe(400);
+      expect(error.errors.map((e: { pointer: string }) => e.pointer)).toEqual([
+        '/entryPoint',
+        '/triggers/voiceIntents/0',
+      ]);
+    });
+  });
+
+  describe('file inventory', () => {
+    it('should inventory bundled modules, locales and assets', async () => {
+      const manifest = Buffer.from(JSON.stringify({ name: 'Test Plugin', version: '1.0.0' }));
+      const wasm = Buffer.from([0x00, 0x61, 0x73, 0x6d]);
+      const entry = (entryName: string, data: Buffer) => ({
+        entryName,
+        isDirectory: false,
+        getData: jest.fn().mockReturnValue(data),
+      });
+      const mockEntries = [
+        entry('manifest.json', manifest),
+        entry('plugin.js', Buffer.from('run();')),
+        { entryName: 'lib/', isDirectory: true, getData: jest.fn() },
+        entry('lib/utils.mjs', Buffer.from('export {};')),
+        entry('assets/locales/en.json', Buffer.from('{}')),
+        entry('assets/engine.wasm', wasm),
+        entry('LICENSE', Buffer.from('MIT')),
+      ];
+      const mockZipInstance = { getEntries: jest.fn().mockReturnValue(withHeaders(mockEntries)) };
+      (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
+
+      const result = await service.extractPackage(Buffer.from('zip-data'));
+
+      expect(result.files.map((f) => [f.path, f.mimeType])).toEqual([
+        ['manifest.json', 'application/json'],
+        ['plugin.js', 'text/javascript'],
+        ['lib/utils.mjs', 'text/javascript'],
+        ['assets/locales/en.json', 'application/json'],
+        ['assets/engine.wasm', 'application/wasm'],
+        ['LICENSE', 'text/plain'],
+      ]);
+      expect([...result.scripts.keys()]).toEqual(['plugin.js', 'lib/utils.mjs']);
+      expect(result.files[4]).toEqual({
+        path: 'assets/engine.wasm',
+        size: 4,
+        sha256: createHash('sha256').update(wasm).digest('hex'),
+        mimeType: 'application/wasm',
+      });
+    });
+  });
+
+  describe('archive limits', () => {
+    const mockZip = (entries: Array<Record<string, any>>) => {
+      const mockZipInstance = { getEntries: jest.fn().mockReturnValue(withHeaders(entries)) };
+      (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
+    };
+
+    const file = (entryName: string, extra: Record<string, any> = {}) => ({
+      entryName,
+      isDirectory: false,
+      getData: jest.fn().mockReturnValue(Buffer.from('data')),
+      ...extra,
+    });
+
+    const codesOf = (error: ArchiveValidationException) =>
+      error.violations.map((violation) => violation.code);
+
+    it('should reject zip bombs from their headers without decompressing', async () => {
+      const bomb = file('assets/payload.wasm', { header: { size: 5 * MB, compressedSize: 5 * 1024 } });
+      mockZip([file('manifest.json'), file('plugin.js'), bomb]);
+
+      const error = await service.extractPackage(Buffer.alloc(8 * 1024)).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ArchiveValidationException);
+      expect(error.getStatus()).toBe(400);
+      expect(error.violations).toEqual([
+        expect.objectContaining({ code: ArchiveViolationCode.ENTRY_SIZE_EXCEEDED, entry: 'assets/payload.wasm' }),
+        expect.objectContaining({
+          code: ArchiveViolationCode.COMPRESSION_RATIO_EXCEEDED,
+          entry: 'assets/payload.wasm',
+        }),
+        expect.objectContaining({ code: ArchiveViolationCode.COMPRESSION_RATIO_EXCEEDED }),
+      ]);
+      expect(bomb.getData).not.toHaveBeenCalled();
+    });
+
+    it('should not inflate an entry that declares a size of 0 but holds data', async () => {
+      const bomb = file('assets/payload.wasm', {
+        header: { size: 0, compressedSize: 10 * 1024, method: 8 },
+        getCompressedData: jest.fn().mockReturnValue(deflateRawSync(Buffer.alloc(10 * MB))),
+      });
+      mockZip([file('manifest.json'), file('plugin.js'), bomb]);
+
+      const error = await service.extractPackage(Buffer.alloc(16 * 1024)).catch((e) => e);
+
+      expect(error.violations).toEqual([
+        expect.objectContaining({ code: ArchiveViolationCode.ENTRY_SIZE_MISMATCH, entry: 'assets/payload.wasm' }),
+      ]);
+      expect(bomb.getData).not.toHaveBeenCalled();
+    });
+
+    it('should accept an empty deflated entry', async () => {
+      const empty = file('lib/empty.js', {
+        header: { size: 0, compressedSize: 2, method: 8 },
+        getCompressedData: jest.fn().mockReturnValue(deflateRawSync(Buffer.alloc(0))),
+      });
+      mockZip([empty]);
+
+      const files = await service.extractFiles(Buffer.from('zip'));
+
+      expect(files.get('lib/empty.js')).toEqual(Buffer.alloc(0));
+    });
+
+    it('should count inflated bytes against the limits', async () => {
+      mockZip([file('a.wasm', { getData: jest.fn().mockReturnValue(Buffer.alloc(5 * MB)) })]);
+
+      const error = await service.extractFiles(Buffer.from('zip')).catch((e) => e);
+
+      expect(codesOf(error)).toEqual([ArchiveViolationCode.ENTRY_SIZE_EXCEEDED]);
+    });
+
+    it('should reject a corrupt entry as an invalid archive', async () => {
+      const corrupt = file('plugin.js', {
+        getData: jest.fn().mockImplementation(() => {
+          throw new Error('CRC32 checksum failed "plugin.js"');
+        }),
+      });
+      mockZip([file('manifest.json'), corrupt]);
+
+      const error = await service.extractPackage(Buffer.from('zip-data')).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ArchiveValidationException);
+      expect(error.violations).toEqual([
+        expect.objectContaining({ code: ArchiveViolationCode.INVALID_ARCHIVE, entry: 'plugin.js' }),
+      ]);
+    });
+
+    it('should reject archives whose entries add up past the total size limit', async () => {
+      const chunk = { header: { size: 4 * MB, compressedSize: 4 * MB } };
+      mockZip([file('a.wasm', chunk), file('b.wasm', chunk), file('c.wasm', chunk)]);
+
+      const error = await service.extractPackage(Buffer.alloc(1024)).catch((e) => e);
+
+      expect(codesOf(error)).toContain(ArchiveViolationCode.TOTAL_SIZE_EXCEEDED);
+      expect(codesOf(error)).not.toContain(ArchiveViolationCode.ENTRY_SIZE_EXCEEDED);
+    });
+
+    it('should reject archives with too many entries', async () => {
+      mockZip(Array.from({ length: 11 }, (_, i) => file(`file-${i}.txt`)));
+
+      const error = await service.extractPackage(Buffer.from('zip-data')).catch((e) => e);
+
+      expect(codesOf(error)).toEqual([ArchiveViolationCode.TOO_MANY_ENTRIES]);
+    });
+
+    it('should reject file types that are not allowed', async () => {
+      mockZip([file('manifest.json'), file('plugin.js'), file('bin/helper.exe'), file('.DS_Store')]);
+
+      const error = await service.extractPackage(Buffer.from('zip-data')).catch((e) => e);
+
+      expect(error.violations).toEqual([
+        expect.objectContaining({ code: ArchiveViolationCode.DISALLOWED_FILE_TYPE, entry: 'bin/helper.exe' }),
+        expect.objectContaining({ code: ArchiveViolationCode.DISALLOWED_FILE_TYPE, entry: '.DS_Store' }),
+      ]);
+    });
+
+    it('should report each unsafe entry with its own code', async () => {
+      mockZip([
+        file('manifest.json'),
+        file('plugin.js'),
+        file('lib\\util.js'),
+        file('C:/Windows/evil.js'),
+        file('a/../../evil.js'),
+        file('a/b/c/d/deep.js'),
+        file('PLUGIN.JS'),
+        file('link.js', { header: { attr: (0o120777 << 16) >>> 0 } }),
+        file('bad\ufffdname.js', { rawEntryName: Buffer.from([0x62, 0x61, 0x64, 0xff, 0x2e, 0x6a, 0x73]) }),
+      ]);
+
+      const error = await service.extractPackage(Buffer.from('zip-data')).catch((e) => e);
+
+      expect(error.violations).toEqual([
+        expect.objectContaining({ code: ArchiveViolationCode.BACKSLASH_PATH, entry: 'lib\\util.js' }),
+        expect.objectContaining({ code: ArchiveViolationCode.ABSOLUTE_PATH, entry: 'C:/Windows/evil.js' }),
+        expect.objectContaining({ code: ArchiveViolationCode.PATH_TRAVERSAL, entry: 'a/../../evil.js' }),
+        expect.objectContaining({ code: ArchiveViolationCode.PATH_TOO_DEEP, entry: 'a/b/c/d/deep.js' }),
+        expect.objectContaining({ code: ArchiveViolationCode.DUPLICATE_ENTRY, entry: 'PLUGIN.JS' }),
+        expect.objectContaining({ code: ArchiveViolationCode.SYMLINK_ENTRY, entry: 'link.js' }),
+        expect.objectContaining({ code: ArchiveViolationCode.INVALID_FILENAME_ENCODING }),
+      ]);
+      expect(error.message).toBe('Invalid file path in archive (backslash separator): lib\\util.js (and 6 more)');
+    });
+  });
+
+  describe('extractFiles', () => {
+    const mockZip = (entries: Array<Record<string, any>>) => {
+      const mockZipInstance = { getEntries: jest.fn().mockReturnValue(withHeaders(entries)) };
+      (AdmZip as jest.MockedClass<typeof AdmZip>).mockImplementation(() => mockZipInstance as any);
+    };
+
+    it('should return every file without requiring a manifest', async () => {
+      mockZip([
+        { entryName: 'lib/', isDirectory: true, getData: jest.fn() },
+        { entryName: 'lib/util.js', isDirectory: false, getData: jest.fn().mockReturnValue(Buffer.from('util')) },
+        { entryName: 'README.md', isDirectory: false, getData: jest.fn().mockReturnValue(Buffer.from('# Tasks')) },
+      ]);
+
+      const files = await service.extractFiles(Buffer.from('zip'));
+
+      expect([...files.keys()]).toEqual(['lib/util.js', 'README.md']);
+      expect(files.get('lib/util.js')?.toString()).toBe('util');
+    });
+
+    it('should apply the archive limits', async () => {
+      mockZip([{ entryName: '../escape.js', isDirectory: false, getData: jest.fn() }]);
+
+      await expect(service.extractFiles(Buffer.from('zip'))).rejects.toThrow(ArchiveValidationException);
+    });
   });
 
   describe('extractPackageFromFile', () => {
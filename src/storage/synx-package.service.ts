@@ -1,18 +1,49 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import AdmZip from 'adm-zip';
-import { validate } from 'class-validator';
-import { plainToInstance } from 'class-transformer';
+import { createHash } from 'crypto';
 import { readFileSync } from 'fs';
+import { TextDecoder } from 'util';
+import { inflateRawSync } from 'zlib';
+import { ManifestSchemaService } from '../manifest/manifest-schema.service';
+import {
+  ManifestValidationError,
+  ManifestValidationException,
+} from '../common/exceptions/manifest-validation.exception';
+import {
+  ArchiveViolation,
+  ArchiveValidationException,
+} from '../common/exceptions/archive-validation.exception';
+import { ArchiveViolationCode } from '../common/enums/archive-violation.enum';
+import { PluginVersionFile } from '../common/entities/plugin-version.entity';
+import { packageFileMimeType } from './package-file-types';
+import { SIGNATURE_FILE } from '../signing/package-signing';
+
+const MANIFEST_FILE = 'manifest.json';
+const DEFAULT_ENTRY_POINT = 'plugin.js';
+const README_FILE = 'README.md';
+const CONVENTIONAL_ICON_FILES = ['icon.png', 'icon.jpg', 'icon.jpeg', 'icon.svg'];
+
+const MB = 1024 * 1024;
+const KB = 1024;
+
+// Unix file type bits, stored in the high 16 bits of a ZIP entry's external attributes
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+/** ZIP compression method of entries stored without compression. */
+const ZIP_METHOD_STORED = 0;
 
 /**
- * Manifest validation DTO.
+ * Archive limits as loaded from the `package` config namespace.
  */
-class ManifestDto {
-  name!: string;
-  version!: string;
-  description?: string;
-  author?: string;
-  minAppVersion?: string;
+interface PackageLimits {
+  maxEntries: number;
+  maxTotalUncompressedMb: number;
+  maxEntryUncompressedMb: number;
+  maxCompressionRatio: number;
+  compressionRatioMinEntryKb: number;
+  maxPathDepth: number;
 }
 
 /**
@@ -20,10 +51,18 @@ class ManifestDto {
  */
 export interface SynxPackage {
   manifest: Record<string, any>;
+  /** Path of the JavaScript entry point inside the archive. */
+  entryPoint: string;
   jsCode: string;
+  /** Source of every JavaScript file keyed by path: the entry point, then bundled modules in archive order. */
+  scripts: Map<string, string>;
+  /** Inventory of every file in the archive. */
+  files: PluginVersionFile[];
   iconData?: Buffer;
   iconName?: string;
   readme?: string;
+  /** Contents of the detached signature file, if present (see PackageSigning). */
+  signatureFile?: string;
 }
 
 /**
@@ -31,122 +70,394 @@ export interface SynxPackage {
  *
  * .synx Format (ZIP archive):
  * - manifest.json (Required): Metadata, permissions, configuration
- * - plugin.js (Required): The JavaScript code
- * - icon.png (Optional): 128x128px icon
+ * - plugin.js (Required): The JavaScript code, or the file named by manifest.entryPoint
+ * - icon.png (Optional): 128x128px icon, or the file named by manifest.icon
  * - README.md (Optional): Documentation
+ * - signature.json (Optional): Detached developer signature
+ * - Any other files of an allowed type (see PACKAGE_FILE_TYPES), e.g. lib/ modules,
+ *   localized strings, images and WASM blobs under assets/
+ *
+ * manifest.json is validated against the schema for its manifestVersion
+ * (see ManifestSchemaService).
+ *
+ * Before anything is decompressed, the archive's central directory is checked
+ * against the configured limits (entry count, sizes, compression ratio, path
+ * depth) and for unsafe entries (symlinks, duplicates, traversal, absolute or
+ * backslash paths, non-UTF-8 names, disallowed file types). Entries are then
+ * inflated no further than the size declared in their header, and the bytes
+ * actually inflated are counted against the same limits.
  */
 @Injectable()
 export class SynxPackageService {
   private readonly logger = new Logger(SynxPackageService.name);
 
+  private readonly limits: PackageLimits;
+  private readonly utf8 = new TextDecoder('utf-8', { fatal: true });
+
+  constructor(
+    private readonly manifestSchemaService: ManifestSchemaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.limits = this.configService.get<PackageLimits>('package') as PackageLimits;
+  }
+
   /**
    * Extracts and validates a .synx package.
    *
+   * The entry point and icon are taken from the manifest when declared
+   * (`entryPoint`, `icon`) and must exist in the archive; otherwise
+   * plugin.js and the first conventional icon file are used.
+   *
    * @param buffer The .synx file buffer
    * @returns Extracted package contents
-   * @throws Error if file is invalid or required files are missing
+   * @throws Error if required files are missing
+   * @throws ArchiveValidationException if the archive is unreadable or breaks the archive limits
+   * @throws ManifestValidationException if the manifest is invalid or references missing files
    */
   async extractPackage(buffer: Buffer): Promise<SynxPackage> {
-    // Validate ZIP format
-    let zip: AdmZip | null = null;
-    try {
-      zip = new AdmZip(buffer);
-    } catch (error) {
-      throw new Error('File must be a valid ZIP archive');
+    const files = this.readFiles(buffer);
+
+    // Validate required files
+    const manifestData = files.get(MANIFEST_FILE);
+    if (!manifestData) {
+      throw new Error("Required file 'manifest.json' not found in .synx package");
+    }
+    const manifest = this.extractManifest(manifestData);
+    this.logger.debug('Extracted manifest.json');
+
+    const entryPoint: string = manifest.entryPoint || DEFAULT_ENTRY_POINT;
+    if (!manifest.entryPoint && !files.has(DEFAULT_ENTRY_POINT)) {
+      throw new Error("Required file 'plugin.js' not found in .synx package");
     }
 
-    const entries = zip.getEntries();
-    const result: Partial<SynxPackage> = {
-      manifest: {},
-      jsCode: '',
+    // Files the manifest explicitly refers to must be present
+    const entryPointData = files.get(entryPoint);
+    const iconName: string | undefined =
+      manifest.icon || CONVENTIONAL_ICON_FILES.find((name) => files.has(name));
+    const iconData = iconName ? files.get(iconName) : undefined;
+
+    const missing: ManifestValidationError[] = [];
+    if (!entryPointData) {
+      missing.push(this.missingFileError('/entryPoint', entryPoint));
+    }
+    if (iconName && !iconData) {
+      missing.push(this.missingFileError('/icon', iconName));
+    }
+    if (!entryPointData || missing.length > 0) {
+      throw new ManifestValidationException(missing, manifest.manifestVersion);
+    }
+
+    const jsCode = entryPointData.toString('utf-8');
+    const result: SynxPackage = {
+      manifest,
+      entryPoint,
+      jsCode,
+      scripts: this.collectScripts(files, entryPoint, jsCode),
+      files: this.buildInventory(files),
     };
+    this.logger.debug(`Extracted ${entryPoint} (${result.jsCode.length} bytes)`);
+    this.logger.debug(`Inventoried ${result.files.length} files, ${result.scripts.size} of them JavaScript`);
+
+    if (iconName && iconData) {
+      result.iconData = iconData;
+      result.iconName = iconName;
+      this.logger.debug(`Extracted ${iconName}`);
+    }
 
-    let foundManifest = false;
-    let foundPluginJs = false;
+    const readmeData = files.get(README_FILE);
+    if (readmeData) {
+      result.readme = readmeData.toString('utf-8');
+      this.logger.debug('Extracted README.md');
+    }
 
-    for (const entry of entries) {
-      const name = entry.entryName;
+    const signatureData = files.get(SIGNATURE_FILE);
+    if (signatureData) {
+      result.signatureFile = signatureData.toString('utf-8');
+      this.logger.debug(`Extracted ${SIGNATURE_FILE}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Extracts every file of a package, e.g. a stored artifact being compared
+   * with another version. The archive checks of extractPackage apply; the
+   * manifest is not validated.
+   *
+   * @param buffer The .synx file buffer
+   * @returns File contents keyed by path, in archive order
+   * @throws ArchiveValidationException if the archive is unreadable or breaks the archive limits
+   */
+  async extractFiles(buffer: Buffer): Promise<Map<string, Buffer>> {
+    return this.readFiles(buffer);
+  }
 
-      // Skip directories
+  /**
+   * Checks the archive against the limits, then decompresses every file.
+   */
+  private readFiles(buffer: Buffer): Map<string, Buffer> {
+    // Validate ZIP format (reads the central directory only)
+    let entries: AdmZip.IZipEntry[];
+    try {
+      entries = new AdmZip(buffer).getEntries();
+    } catch (error) {
+      throw new ArchiveValidationException([
+        { code: ArchiveViolationCode.INVALID_ARCHIVE, message: 'File must be a valid ZIP archive' },
+      ]);
+    }
+
+    // Security: Reject zip bombs and unsafe entries before decompressing anything
+    const violations = this.inspectArchive(entries, buffer.length);
+    if (violations.length > 0) {
+      throw new ArchiveValidationException(violations);
+    }
+
+    // Decompress every file once, counting what is actually inflated
+    const files = new Map<string, Buffer>();
+    let totalBytes = 0;
+    for (const entry of entries) {
       if (entry.isDirectory) {
         continue;
       }
+      const data = this.decompressEntry(entry);
+      totalBytes += data.length;
+      if (data.length > this.limits.maxEntryUncompressedMb * MB) {
+        throw new ArchiveValidationException([
+          {
+            code: ArchiveViolationCode.ENTRY_SIZE_EXCEEDED,
+            entry: entry.entryName,
+            message: `Entry expands past ${this.limits.maxEntryUncompressedMb} MB: ${entry.entryName}`,
+          },
+        ]);
+      }
+      if (totalBytes > this.limits.maxTotalUncompressedMb * MB) {
+        throw new ArchiveValidationException([
+          {
+            code: ArchiveViolationCode.TOTAL_SIZE_EXCEEDED,
+            message: `Archive expands past ${this.limits.maxTotalUncompressedMb} MB`,
+          },
+        ]);
+      }
+      files.set(entry.entryName, data);
+    }
+    return files;
+  }
+
+  /**
+   * Decompresses one entry. adm-zip caps inflation at the size declared in
+   * the entry's header, but not when that size is 0, so an entry declared
+   * empty is inflated here with a one-byte cap and rejected if it holds data.
+   *
+   * @throws ArchiveValidationException if the entry is corrupt or larger than declared
+   */
+  private decompressEntry(entry: AdmZip.IZipEntry): Buffer {
+    const name = entry.entryName;
+    if (entry.header.size === 0 && entry.header.method !== ZIP_METHOD_STORED) {
+      const compressed = entry.getCompressedData();
+      let inflated: Buffer | null = null;
+      try {
+        inflated = compressed.length > 0 ? inflateRawSync(compressed, { maxOutputLength: 1 }) : compressed;
+      } catch {
+        // Holds more than declared, or is not deflate data at all
+      }
+      if (!inflated || inflated.length > 0) {
+        throw new ArchiveValidationException([
+          {
+            code: ArchiveViolationCode.ENTRY_SIZE_MISMATCH,
+            entry: name,
+            message: `Entry holds data but declares a size of 0: ${name}`,
+          },
+        ]);
+      }
+      return Buffer.alloc(0);
+    }
+
+    try {
+      return entry.getData();
+    } catch (error) {
+      throw new ArchiveValidationException([
+        {
+          code: ArchiveViolationCode.INVALID_ARCHIVE,
+          entry: name,
+          message: `Entry could not be decompressed (${(error as Error).message}): ${name}`,
+        },
+      ]);
+    }
+  }
 
-      // Security: Check for zip slip vulnerability
-      if (name.includes('..') || name.startsWith('/')) {
-        throw new Error(`Invalid file path in archive: ${name}`);
+  /**
+   * Decodes the entry point and every other .js, .mjs or .cjs file, so that
+   * bundled modules are analyzed like the entry point.
+   */
+  private collectScripts(files: Map<string, Buffer>, entryPoint: string, jsCode: string): Map<string, string> {
+    const scripts = new Map([[entryPoint, jsCode]]);
+    for (const [path, data] of files) {
+      if (path !== entryPoint && packageFileMimeType(path) === 'text/javascript') {
+        scripts.set(path, data.toString('utf-8'));
       }
+    }
+    return scripts;
+  }
 
-      this.logger.debug(`Processing entry: ${name}`);
+  /**
+   * Lists every file with its size, SHA-256 and MIME type, in archive order.
+   * File types were already checked by inspectArchive.
+   */
+  private buildInventory(files: Map<string, Buffer>): PluginVersionFile[] {
+    return [...files].map(([path, data]) => ({
+      path,
+      size: data.length,
+      sha256: createHash('sha256').update(data).digest('hex'),
+      mimeType: packageFileMimeType(path) as string,
+    }));
+  }
+
+  /**
+   * Checks archive entries against the archive limits using only their
+   * central directory headers. Returns every violation found.
+   */
+  private inspectArchive(entries: AdmZip.IZipEntry[], archiveSize: number): ArchiveViolation[] {
+    const limits = this.limits;
+    if (entries.length > limits.maxEntries) {
+      // Not worth inspecting entries one by one
+      return [
+        {
+          code: ArchiveViolationCode.TOO_MANY_ENTRIES,
+          message: `Archive has ${entries.length} entries (limit ${limits.maxEntries})`,
+        },
+      ];
+    }
+
+    const violations: ArchiveViolation[] = [];
+    const seen = new Set<string>();
+    const maxEntryBytes = limits.maxEntryUncompressedMb * MB;
+    const ratioMinBytes = limits.compressionRatioMinEntryKb * KB;
+    let totalBytes = 0;
+
+    for (const entry of entries) {
+      const header = entry.header;
+      const decodedName = this.decodeEntryName(entry);
+      if (decodedName === null) {
+        violations.push({
+          code: ArchiveViolationCode.INVALID_FILENAME_ENCODING,
+          entry: entry.entryName,
+          message: `Entry name is not valid UTF-8: ${entry.entryName}`,
+        });
+        continue;
+      }
+
+      const name = decodedName;
+      const violation = (code: ArchiveViolationCode, message: string) =>
+        violations.push({ code, entry: name, message: `${message}: ${name}` });
+
+      // Paths
+      if (name.includes('\\')) {
+        violation(ArchiveViolationCode.BACKSLASH_PATH, 'Invalid file path in archive (backslash separator)');
+      }
+      if (/^(\/|\\|[a-zA-Z]:)/.test(name)) {
+        violation(ArchiveViolationCode.ABSOLUTE_PATH, 'Invalid file path in archive (absolute path)');
+      }
+      const segments = name.split(/[\\/]/).filter((segment) => segment.length > 0);
+      if (segments.includes('..')) {
+        violation(ArchiveViolationCode.PATH_TRAVERSAL, 'Invalid file path in archive (path traversal)');
+      }
+      const depth = entry.isDirectory ? segments.length : segments.length - 1;
+      if (depth > limits.maxPathDepth) {
+        violation(
+          ArchiveViolationCode.PATH_TOO_DEEP,
+          `Entry is nested ${depth} directories deep (limit ${limits.maxPathDepth})`,
+        );
+      }
 
-      switch (name) {
-        case 'manifest.json':
-          result.manifest = this.extractManifest(entry.getData());
-          foundManifest = true;
-          this.logger.debug('Extracted manifest.json');
-          break;
+      const key = segments.join('/').toLowerCase() + (entry.isDirectory ? '/' : '');
+      if (seen.has(key)) {
+        violation(ArchiveViolationCode.DUPLICATE_ENTRY, 'Duplicate entry in archive');
+      }
+      seen.add(key);
 
-        case 'plugin.js':
-          result.jsCode = entry.getData().toString('utf-8');
-          foundPluginJs = true;
-          this.logger.debug(`Extracted plugin.js (${result.jsCode.length} bytes)`);
-          break;
+      if (((header.attr >>> 16) & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK) {
+        violation(ArchiveViolationCode.SYMLINK_ENTRY, 'Symbolic links are not allowed in archive');
+      }
 
-        case 'icon.png':
-        case 'icon.jpg':
-        case 'icon.jpeg':
-        case 'icon.svg':
-          result.iconData = entry.getData();
-          result.iconName = name;
-          this.logger.debug(`Extracted ${name}`);
-          break;
+      if (entry.isDirectory) {
+        continue;
+      }
 
-        case 'README.md':
-          result.readme = entry.getData().toString('utf-8');
-          this.logger.debug('Extracted README.md');
-          break;
+      if (!packageFileMimeType(name)) {
+        violation(ArchiveViolationCode.DISALLOWED_FILE_TYPE, 'File type is not allowed in archive');
+      }
 
-        default:
-          // Optional files like LICENSE, assets/, lib/ - log and skip
-          this.logger.debug(`Skipping optional file: ${name}`);
-          break;
+      // Sizes, as declared in the central directory
+      totalBytes += header.size;
+      if (header.size > maxEntryBytes) {
+        violation(
+          ArchiveViolationCode.ENTRY_SIZE_EXCEEDED,
+          `Entry expands to ${header.size} bytes (limit ${limits.maxEntryUncompressedMb} MB)`,
+        );
+      }
+      const ratio = header.size / Math.max(header.compressedSize, 1);
+      if (header.size >= ratioMinBytes && ratio > limits.maxCompressionRatio) {
+        violation(
+          ArchiveViolationCode.COMPRESSION_RATIO_EXCEEDED,
+          `Entry compression ratio ${Math.round(ratio)}:1 exceeds ${limits.maxCompressionRatio}:1`,
+        );
       }
     }
 
-    // Validate required files
-    if (!foundManifest) {
-      throw new Error("Required file 'manifest.json' not found in .synx package");
+    if (totalBytes > limits.maxTotalUncompressedMb * MB) {
+      violations.push({
+        code: ArchiveViolationCode.TOTAL_SIZE_EXCEEDED,
+        message: `Archive expands to ${totalBytes} bytes (limit ${limits.maxTotalUncompressedMb} MB)`,
+      });
     }
-    if (!foundPluginJs) {
-      throw new Error("Required file 'plugin.js' not found in .synx package");
+    const archiveRatio = totalBytes / Math.max(archiveSize, 1);
+    if (totalBytes >= ratioMinBytes && archiveRatio > limits.maxCompressionRatio) {
+      violations.push({
+        code: ArchiveViolationCode.COMPRESSION_RATIO_EXCEEDED,
+        message: `Archive compression ratio ${Math.round(archiveRatio)}:1 exceeds ${limits.maxCompressionRatio}:1`,
+      });
     }
 
-    return result as SynxPackage;
+    return violations;
   }
 
   /**
-   * Extracts and validates manifest.json from the ZIP entry.
+   * Decodes an entry name strictly as UTF-8, returning null if the raw bytes are
+   * not valid UTF-8 (adm-zip would otherwise silently substitute characters).
    */
-  private extractManifest(buffer: Buffer): Record<string, any> {
+  private decodeEntryName(entry: AdmZip.IZipEntry): string | null {
     try {
-      const manifestJson = buffer.toString('utf-8');
-      const manifest = JSON.parse(manifestJson);
+      return this.utf8.decode(entry.rawEntryName);
+    } catch {
+      return null;
+    }
+  }
 
-      // Basic validation - check required fields exist
-      if (!manifest.name) {
-        throw new Error("manifest.json missing required field: 'name'");
-      }
-      if (!manifest.version) {
-        throw new Error("manifest.json missing required field: 'version'");
-      }
+  private missingFileError(pointer: string, file: string): ManifestValidationError {
+    return {
+      pointer,
+      message: `references '${file}', which is not in the package`,
+      keyword: 'fileExists',
+    };
+  }
 
-      return manifest;
+  /**
+   * Extracts manifest.json from the ZIP entry and validates it against its manifest schema.
+   *
+   * @throws ManifestValidationException with JSON-pointer-addressed errors
+   */
+  private extractManifest(buffer: Buffer): Record<string, any> {
+    let manifest: Record<string, any>;
+    try {
+      manifest = JSON.parse(buffer.toString('utf-8'));
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error('manifest.json is not valid JSON');
-      }
-      throw error;
+      throw new ManifestValidationException([
+        { pointer: '', message: 'is not valid JSON', keyword: 'syntax' },
+      ]);
     }
+
+    this.manifestSchemaService.assertValid(manifest);
+    return manifest;
   }
 
   /**
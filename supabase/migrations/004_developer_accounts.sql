@@ -0,0 +1,147 @@
+-- ============================================================
+-- Developer Accounts and Package Namespace Ownership
+-- ============================================================
+-- Adds developer / organization accounts, reverse-domain namespace
+-- claims (e.g. "com.acme" owns "com.acme.*"), plugin ownership and
+-- admin-approved ownership transfers.
+
+-- ============================================================
+-- TABLE: developers
+-- ============================================================
+-- One row per individual developer (linked to the auth token subject)
+-- or organization (no user_id; members are linked through
+-- developer_organization_members).
+
+CREATE TABLE developers (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id         VARCHAR(255) UNIQUE,
+    type            VARCHAR(20) NOT NULL DEFAULT 'INDIVIDUAL',
+    display_name    VARCHAR(255) NOT NULL,
+    email           VARCHAR(255),
+    created_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT developers_type_check CHECK (type IN ('INDIVIDUAL', 'ORGANIZATION')),
+    CONSTRAINT developers_user_id_check CHECK (
+        (type = 'INDIVIDUAL' AND user_id IS NOT NULL) OR
+        (type = 'ORGANIZATION' AND user_id IS NULL)
+    )
+);
+
+CREATE TRIGGER update_developers_updated_at
+    BEFORE UPDATE ON developers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- TABLE: developer_organization_members
+-- ============================================================
+
+CREATE TABLE developer_organization_members (
+    organization_id UUID NOT NULL REFERENCES developers(id) ON DELETE CASCADE,
+    developer_id    UUID NOT NULL REFERENCES developers(id) ON DELETE CASCADE,
+    role            VARCHAR(20) NOT NULL DEFAULT 'MEMBER',
+    created_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    PRIMARY KEY (organization_id, developer_id),
+    CONSTRAINT organization_members_role_check CHECK (role IN ('OWNER', 'MEMBER'))
+);
+
+CREATE INDEX idx_organization_members_developer ON developer_organization_members(developer_id);
+
+-- ============================================================
+-- TABLE: namespace_claims
+-- ============================================================
+-- A developer or organization claims a reverse-domain namespace.
+-- Claims are reviewed by an administrator before they take effect.
+
+CREATE TABLE namespace_claims (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    developer_id        UUID NOT NULL REFERENCES developers(id) ON DELETE CASCADE,
+    namespace           VARCHAR(255) NOT NULL,
+    status              VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    requested_by        VARCHAR(255) NOT NULL,
+    reviewed_by         VARCHAR(255),
+    reviewed_at         TIMESTAMP WITH TIME ZONE,
+    rejection_reason    TEXT,
+    created_at          TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT namespace_claims_status_check CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED'))
+);
+
+-- Only one approved claim per namespace
+CREATE UNIQUE INDEX idx_namespace_claims_approved ON namespace_claims(namespace)
+    WHERE status = 'APPROVED';
+CREATE INDEX idx_namespace_claims_developer ON namespace_claims(developer_id);
+CREATE INDEX idx_namespace_claims_status ON namespace_claims(status);
+
+-- ============================================================
+-- plugins.owner_developer_id
+-- ============================================================
+
+ALTER TABLE plugins
+ADD COLUMN owner_developer_id UUID REFERENCES developers(id);
+
+CREATE INDEX idx_plugins_owner ON plugins(owner_developer_id) WHERE is_deleted = FALSE;
+
+-- ============================================================
+-- TABLE: plugin_ownership_transfers
+-- ============================================================
+
+CREATE TABLE plugin_ownership_transfers (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plugin_id           UUID NOT NULL REFERENCES plugins(id) ON DELETE CASCADE,
+    from_developer_id   UUID REFERENCES developers(id),
+    to_developer_id     UUID NOT NULL REFERENCES developers(id),
+    requested_by        VARCHAR(255) NOT NULL,
+    reason              TEXT,
+    status              VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    reviewed_by         VARCHAR(255),
+    reviewed_at         TIMESTAMP WITH TIME ZONE,
+    review_note         TEXT,
+    created_at          TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT ownership_transfers_status_check CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED'))
+);
+
+-- Only one pending transfer per plugin
+CREATE UNIQUE INDEX idx_ownership_transfers_pending ON plugin_ownership_transfers(plugin_id)
+    WHERE status = 'PENDING';
+CREATE INDEX idx_ownership_transfers_status ON plugin_ownership_transfers(status);
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+ALTER TABLE developers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE developer_organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE namespace_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plugin_ownership_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on developers"
+ON developers FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on developer_organization_members"
+ON developer_organization_members FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on namespace_claims"
+ON namespace_claims FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on plugin_ownership_transfers"
+ON plugin_ownership_transfers FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE developers IS 'Developer and organization accounts that own plugins';
+COMMENT ON COLUMN developers.user_id IS 'Auth token subject for individual developers';
+COMMENT ON TABLE namespace_claims IS 'Reverse-domain namespace claims (e.g. com.acme owns com.acme.*)';
+COMMENT ON COLUMN plugins.owner_developer_id IS 'Developer or organization that owns this package';
@@ -0,0 +1,47 @@
+-- ============================================================
+-- Developer API Keys
+-- ============================================================
+-- Long-lived, scoped keys for non-interactive (CI) publishing.
+-- Only the SHA-256 hash of a key is stored; the plaintext is shown
+-- to the developer once at creation time.
+
+-- ============================================================
+-- TABLE: developer_api_keys
+-- ============================================================
+
+CREATE TABLE developer_api_keys (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    developer_id    UUID NOT NULL REFERENCES developers(id) ON DELETE CASCADE,
+    created_by      VARCHAR(255) NOT NULL,
+    name            VARCHAR(100) NOT NULL,
+    key_prefix      VARCHAR(20) NOT NULL,
+    key_hash        CHAR(64) NOT NULL UNIQUE,
+    scopes          TEXT[] NOT NULL DEFAULT '{}',
+    expires_at      TIMESTAMP WITH TIME ZONE,
+    last_used_at    TIMESTAMP WITH TIME ZONE,
+    last_used_ip    VARCHAR(45),
+    revoked_at      TIMESTAMP WITH TIME ZONE,
+    created_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_developer_api_keys_developer ON developer_api_keys(developer_id);
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+ALTER TABLE developer_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on developer_api_keys"
+ON developer_api_keys FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE developer_api_keys IS 'Scoped API keys for CI-driven plugin publishing';
+COMMENT ON COLUMN developer_api_keys.created_by IS 'Auth token subject of the developer who issued the key; API key callers act as this user';
+COMMENT ON COLUMN developer_api_keys.key_hash IS 'SHA-256 of the full key (VaultService.hash)';
+COMMENT ON COLUMN developer_api_keys.scopes IS 'Granted scopes, e.g. submit:com.acme.* or read:analytics';
@@ -0,0 +1,16 @@
+-- ============================================================
+-- Plugin Version File Inventory
+-- ============================================================
+-- Records every file in a version's .synx archive (path, size,
+-- SHA-256 and MIME type) so clients can inspect bundled modules,
+-- localized strings, images and WASM blobs without downloading
+-- the package.
+
+ALTER TABLE plugin_versions
+ADD COLUMN files JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.files IS 'Archive inventory: [{path, size, sha256, mimeType}]';
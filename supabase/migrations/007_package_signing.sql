@@ -0,0 +1,51 @@
+-- ============================================================
+-- Package Signing
+-- ============================================================
+-- Developers register Ed25519 public keys and sign their .synx
+-- packages; the store counter-signs published artifacts. Each
+-- version keeps the signatures (with the public keys used) so
+-- hosts can verify provenance offline.
+
+-- ============================================================
+-- TABLE: developer_signing_keys
+-- ============================================================
+
+CREATE TABLE developer_signing_keys (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    developer_id    UUID NOT NULL REFERENCES developers(id) ON DELETE CASCADE,
+    created_by      VARCHAR(255) NOT NULL,
+    name            VARCHAR(100) NOT NULL,
+    key_id          VARCHAR(64) NOT NULL UNIQUE,
+    public_key      TEXT NOT NULL,
+    revoked_at      TIMESTAMP WITH TIME ZONE,
+    created_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_developer_signing_keys_developer ON developer_signing_keys(developer_id);
+
+-- ============================================================
+-- plugin_versions.signatures
+-- ============================================================
+
+ALTER TABLE plugin_versions
+ADD COLUMN signatures JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+ALTER TABLE developer_signing_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on developer_signing_keys"
+ON developer_signing_keys FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE developer_signing_keys IS 'Ed25519 public keys developers sign .synx packages with';
+COMMENT ON COLUMN developer_signing_keys.key_id IS 'First 32 hex characters of the SHA-256 of the raw public key';
+COMMENT ON COLUMN developer_signing_keys.public_key IS 'Raw 32-byte Ed25519 public key, base64 encoded';
+COMMENT ON COLUMN plugin_versions.signatures IS 'Developer signature and store counter-signature: [{role, keyId, algorithm, publicKey, signature}]';
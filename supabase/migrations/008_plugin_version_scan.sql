@@ -0,0 +1,19 @@
+-- ============================================================
+-- Plugin Version Static Analysis
+-- ============================================================
+-- Stores the findings of the static analysis run on each
+-- version's entry point at submission, and who published the
+-- version despite critical findings (and why).
+
+ALTER TABLE plugin_versions
+ADD COLUMN scan_findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN scan_override_reason TEXT,
+ADD COLUMN scan_overridden_by VARCHAR(255);
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.scan_findings IS 'Static analysis findings: [{ruleId, severity, message, file, line, column}]';
+COMMENT ON COLUMN plugin_versions.scan_override_reason IS 'Reason given for publishing despite CRITICAL findings';
+COMMENT ON COLUMN plugin_versions.scan_overridden_by IS 'Admin who published despite CRITICAL findings';
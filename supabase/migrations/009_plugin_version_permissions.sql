@@ -0,0 +1,16 @@
+-- ============================================================
+-- Plugin Version Permission Analysis
+-- ============================================================
+-- Records the capabilities a version's entry point actually uses
+-- (network targets, storage, clipboard, notifications) and how
+-- they compare with the permissions declared in its manifest.
+-- NULL for versions whose code could not be analyzed.
+
+ALTER TABLE plugin_versions
+ADD COLUMN permission_analysis JSONB;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.permission_analysis IS 'Permission surface: {detected: [permission], findings: [{type, permission, message, file?, line?, column?}]}';
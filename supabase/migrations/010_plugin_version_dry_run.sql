@@ -0,0 +1,16 @@
+-- ============================================================
+-- Plugin Version Dry Run Report
+-- ============================================================
+-- Records what a version's entry point attempted when it was
+-- loaded in the review sandbox and each declared intent was
+-- invoked: host API calls, network attempts, timers and errors.
+-- NULL until the dry run has finished.
+
+ALTER TABLE plugin_versions
+ADD COLUMN dry_run_report JSONB;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.dry_run_report IS 'Sandbox dry run: {status, error?, startedAt, durationMs, phases: [{name, outcome, durationMs, events: [{type, name, detail?}], droppedEvents}]}';
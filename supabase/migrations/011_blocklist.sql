@@ -0,0 +1,41 @@
+-- ============================================================
+-- Malware Blocklist
+-- ============================================================
+-- Admin-managed list of known-malicious artifact hashes, file
+-- hashes and network domains. Submissions matching a hash are
+-- rejected; versions whose code references a blocked domain are
+-- flagged, including published ones when an entry is added.
+
+-- ============================================================
+-- TABLE: blocklist_entries
+-- ============================================================
+
+CREATE TABLE blocklist_entries (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type            VARCHAR(20) NOT NULL CHECK (type IN ('ARTIFACT_HASH', 'FILE_HASH', 'DOMAIN')),
+    value           VARCHAR(253) NOT NULL,
+    reason          TEXT NOT NULL,
+    created_by      VARCHAR(255) NOT NULL,
+    created_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(type, value)
+);
+
+CREATE INDEX idx_blocklist_entries_value ON blocklist_entries(value);
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+ALTER TABLE blocklist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on blocklist_entries"
+ON blocklist_entries FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE blocklist_entries IS 'Known-malicious artifact hashes, file hashes and network domains';
+COMMENT ON COLUMN blocklist_entries.value IS 'Lowercase hex SHA-256 for hashes, lowercase domain name for DOMAIN (also matches subdomains)';
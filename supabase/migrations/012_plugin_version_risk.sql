@@ -0,0 +1,26 @@
+-- ============================================================
+-- Plugin Version Risk Score
+-- ============================================================
+-- A score from 0 to 100 computed at submission from the scan
+-- findings, permission breadth, the publisher's history, the
+-- plugin's OAuth scopes and how much changed since the previous
+-- published version. Used to prioritize the review queue.
+-- NULL for versions submitted before scoring was introduced.
+
+ALTER TABLE plugin_versions
+ADD COLUMN risk_score SMALLINT CHECK (risk_score BETWEEN 0 AND 100),
+ADD COLUMN risk_factors JSONB NOT NULL DEFAULT '[]';
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+CREATE INDEX idx_plugin_versions_risk_score ON plugin_versions(risk_score DESC NULLS LAST)
+WHERE status IN ('SUBMITTED', 'PENDING_REVIEW');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.risk_score IS 'Review risk from 0 (low) to 100 (high), computed at submission';
+COMMENT ON COLUMN plugin_versions.risk_factors IS 'Contributions to risk_score: [{factor, points, detail}]';
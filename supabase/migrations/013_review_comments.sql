@@ -0,0 +1,55 @@
+-- ============================================================
+-- Review Comments and Requested Changes
+-- ============================================================
+-- Reviewers can send a version back with CHANGES_REQUESTED and
+-- discuss it in comment threads, optionally anchored to a file
+-- and line in the package; developers reply through the
+-- developer API. A version submitted in response links to the
+-- version whose review it answers, so earlier threads stay
+-- visible to the next reviewer.
+
+ALTER TYPE version_status ADD VALUE 'CHANGES_REQUESTED';
+
+ALTER TABLE plugin_versions
+ADD COLUMN resubmission_of UUID REFERENCES plugin_versions(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- TABLE: review_comments
+-- ============================================================
+
+CREATE TABLE review_comments (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    version_id      UUID NOT NULL REFERENCES plugin_versions(id) ON DELETE CASCADE,
+    parent_id       UUID REFERENCES review_comments(id) ON DELETE CASCADE,
+    author_id       VARCHAR(255) NOT NULL,
+    author_role     VARCHAR(20) NOT NULL CHECK (author_role IN ('REVIEWER', 'DEVELOPER')),
+    body            TEXT NOT NULL,
+    file            VARCHAR(500),
+    line            INTEGER CHECK (line > 0),
+    created_at      TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (parent_id IS NULL OR (file IS NULL AND line IS NULL)),
+    CHECK (line IS NULL OR file IS NOT NULL)
+);
+
+CREATE INDEX idx_review_comments_version_id ON review_comments(version_id, created_at);
+CREATE INDEX idx_review_comments_parent_id ON review_comments(parent_id);
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+ALTER TABLE review_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on review_comments"
+ON review_comments FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE review_comments IS 'Review threads on plugin versions: a root comment plus replies';
+COMMENT ON COLUMN review_comments.parent_id IS 'Root comment of the thread; NULL for roots';
+COMMENT ON COLUMN review_comments.file IS 'Path inside the package the thread is anchored to (roots only)';
+COMMENT ON COLUMN plugin_versions.resubmission_of IS 'Version whose CHANGES_REQUESTED review this version responds to';
@@ -0,0 +1,30 @@
+-- ============================================================
+-- Review Claims and Approvals
+-- ============================================================
+-- An admin claims a queued version before reviewing it so two
+-- admins do not review the same version at once. Claims lapse
+-- at claim_expires_at; an expired claim can be taken by anyone.
+--
+-- Versions covered by an approval policy (e.g. plugins with
+-- OAuth clients or sensitive permissions) need several distinct
+-- approvers before they are published; approvals records them.
+
+ALTER TABLE plugin_versions
+ADD COLUMN claimed_by VARCHAR(255),
+ADD COLUMN claim_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN approvals JSONB NOT NULL DEFAULT '[]';
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+CREATE INDEX idx_plugin_versions_claimed_by ON plugin_versions(claimed_by)
+WHERE claimed_by IS NOT NULL;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.claimed_by IS 'Admin reviewing the version; ignored once claim_expires_at has passed';
+COMMENT ON COLUMN plugin_versions.claim_expires_at IS 'When the review claim lapses';
+COMMENT ON COLUMN plugin_versions.approvals IS 'Publish approvals by distinct reviewers: [{approvedBy, approvedAt}]';
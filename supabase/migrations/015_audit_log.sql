@@ -0,0 +1,45 @@
+-- ============================================================
+-- Audit Log
+-- ============================================================
+-- admin_audit_log now records every state-changing admin and
+-- developer action, not only admin ones: admin_id becomes
+-- actor_id with an actor_role alongside it. Automated actions
+-- (e.g. blocklist flags) are recorded with the 'system' role.
+-- correlation_id ties an entry to the request that caused it
+-- (the X-Correlation-ID header).
+
+ALTER TABLE admin_audit_log RENAME COLUMN admin_id TO actor_id;
+
+ALTER TABLE admin_audit_log
+ADD COLUMN actor_role VARCHAR(20) NOT NULL DEFAULT 'admin'
+    CHECK (actor_role IN ('admin', 'developer', 'system')),
+ADD COLUMN correlation_id VARCHAR(255);
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+ALTER INDEX idx_audit_log_admin RENAME TO idx_audit_log_actor;
+
+CREATE INDEX idx_audit_log_correlation_id ON admin_audit_log(correlation_id)
+WHERE correlation_id IS NOT NULL;
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on admin_audit_log"
+ON admin_audit_log FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON TABLE admin_audit_log IS 'State-changing admin, developer and system actions';
+COMMENT ON COLUMN admin_audit_log.actor_id IS 'User ID (token subject) of the actor, or the system component for automated actions';
+COMMENT ON COLUMN admin_audit_log.actor_role IS 'admin, developer or system';
+COMMENT ON COLUMN admin_audit_log.correlation_id IS 'X-Correlation-ID of the request that performed the action';
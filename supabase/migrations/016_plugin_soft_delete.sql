@@ -0,0 +1,31 @@
+-- ============================================================
+-- Plugin Soft Delete and Retention
+-- ============================================================
+-- Deleting a plugin no longer removes it at once: it is marked
+-- deleted (is_deleted, deleted_at) with status DELETED, hidden
+-- from the store, and its package_id stays reserved. Admins can
+-- restore it to status_before_deletion until the retention
+-- window ends; the purge job then removes its artifacts, icon,
+-- versions and row.
+
+ALTER TYPE plugin_status ADD VALUE 'DELETED';
+
+ALTER TABLE plugins
+ADD COLUMN deleted_by VARCHAR(255),
+ADD COLUMN status_before_deletion plugin_status;
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+CREATE INDEX idx_plugins_deleted_at ON plugins(deleted_at)
+WHERE is_deleted = TRUE;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugins.is_deleted IS 'Soft-deleted: hidden from the store and purged once the retention window ends';
+COMMENT ON COLUMN plugins.deleted_at IS 'When the plugin was deleted; the purge job removes it after DELETED_PLUGIN_RETENTION_DAYS';
+COMMENT ON COLUMN plugins.deleted_by IS 'Admin who deleted the plugin';
+COMMENT ON COLUMN plugins.status_before_deletion IS 'Status the plugin returns to when restored';
@@ -0,0 +1,61 @@
+-- ============================================================
+-- Version Yanking and Deprecation
+-- ============================================================
+-- A published version can be DEPRECATED (still installable and
+-- eligible as latest, shown with a message) or YANKED (kept in
+-- the version history with its artifact, but never picked as a
+-- plugin's latest or compatible version). Admins and the plugin's
+-- owner set both, with a reason.
+
+ALTER TYPE version_status ADD VALUE 'DEPRECATED';
+ALTER TYPE version_status ADD VALUE 'YANKED';
+
+ALTER TABLE plugin_versions
+ADD COLUMN deprecation_message TEXT,
+ADD COLUMN deprecated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN yank_reason TEXT,
+ADD COLUMN yanked_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================
+-- FUNCTION: find_latest_compatible_version
+-- ============================================================
+-- Deprecated versions stay installable; yanked versions are skipped.
+-- Returns whole rows so the result follows later column additions.
+
+DROP FUNCTION IF EXISTS find_latest_compatible_version(UUID, VARCHAR);
+
+CREATE FUNCTION find_latest_compatible_version(
+    p_plugin_id UUID,
+    p_app_version VARCHAR
+) RETURNS SETOF plugin_versions AS $$
+BEGIN
+    RETURN QUERY
+    SELECT v.*
+    FROM plugin_versions v
+    WHERE v.plugin_id = p_plugin_id
+      AND v.status::TEXT IN ('PUBLISHED', 'DEPRECATED')
+      AND v.min_app_version <= p_app_version
+    ORDER BY
+        STRING_TO_ARRAY(v.min_app_version, '.')::INT[] DESC,
+        v.created_at DESC
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================
+
+-- Deprecated and yanked versions remain part of the public history
+DROP POLICY IF EXISTS "Public can read published versions" ON plugin_versions;
+
+CREATE POLICY "Public can read published versions"
+ON plugin_versions FOR SELECT
+USING (status::TEXT IN ('PUBLISHED', 'DEPRECATED', 'YANKED'));
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.deprecation_message IS 'Shown to users of a DEPRECATED version';
+COMMENT ON COLUMN plugin_versions.yank_reason IS 'Why the version was YANKED';
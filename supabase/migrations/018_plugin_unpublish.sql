@@ -0,0 +1,19 @@
+-- ============================================================
+-- Owner Unpublish and Relist
+-- ============================================================
+-- A plugin's owner can take it off the store (status UNPUBLISHED)
+-- and relist it later. While unpublished it is hidden from the
+-- listing and detail endpoints; existing installs are told it is
+-- delisted by the update check. Relisting skips review unless
+-- versions submitted since unpublished_at are awaiting review.
+
+ALTER TYPE plugin_status ADD VALUE 'UNPUBLISHED';
+
+ALTER TABLE plugins
+ADD COLUMN unpublished_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugins.unpublished_at IS 'When the owner last unpublished the plugin';
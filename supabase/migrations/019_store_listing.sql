@@ -0,0 +1,182 @@
+-- ============================================================
+-- Store Listing: Filters, Sorting and Facets
+-- ============================================================
+-- The store lists published plugins a page at a time in the
+-- database. store_plugins() applies the listing filters and is
+-- queried like a table, so the API sorts, pages and counts its
+-- rows; store_plugin_facets() counts the matches per category and
+-- tag. The download total and publication times the listing sorts
+-- by are now kept up to date.
+
+-- ============================================================
+-- FUNCTION: app_version_parts
+-- ============================================================
+-- Numeric parts of a version string, so that '1.10.0' sorts after
+-- '1.9.0'. Pre-release and build suffixes are ignored.
+
+CREATE OR REPLACE FUNCTION app_version_parts(p_version VARCHAR)
+RETURNS INT[] AS $$
+    SELECT COALESCE(
+        STRING_TO_ARRAY(SUBSTRING(p_version FROM '^[0-9]+(?:\.[0-9]+)*'), '.')::INT[],
+        ARRAY[]::INT[]
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- FUNCTION: plugin_tags
+-- ============================================================
+-- The comma-separated tags column as a lower-case array.
+
+CREATE OR REPLACE FUNCTION plugin_tags(p_tags VARCHAR)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(
+        ARRAY_AGG(DISTINCT LOWER(TRIM(t))) FILTER (WHERE TRIM(t) <> ''),
+        ARRAY[]::TEXT[]
+    )
+    FROM UNNEST(STRING_TO_ARRAY(p_tags, ',')) AS t;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- FUNCTION: store_plugins
+-- ============================================================
+-- Published plugins matching every given filter; NULL skips a
+-- filter. Tags must all be present (lower case). With an app
+-- version, only plugins with an installable version that runs on
+-- it are returned.
+
+CREATE OR REPLACE FUNCTION store_plugins(
+    p_category VARCHAR DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_author VARCHAR DEFAULT NULL,
+    p_verified BOOLEAN DEFAULT NULL,
+    p_featured BOOLEAN DEFAULT NULL,
+    p_app_version VARCHAR DEFAULT NULL
+) RETURNS SETOF plugins AS $$
+    SELECT p.*
+    FROM plugins p
+    WHERE p.status = 'PUBLISHED'
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_search IS NULL
+           OR p.name ILIKE '%' || p_search || '%'
+           OR p.description ILIKE '%' || p_search || '%')
+      AND (p_tags IS NULL OR plugin_tags(p.tags) @> p_tags)
+      AND (p_author IS NULL OR p.author = p_author)
+      AND (p_verified IS NULL OR COALESCE(p.verified, FALSE) = p_verified)
+      AND (p_featured IS NULL OR COALESCE(p.featured, FALSE) = p_featured)
+      AND (p_app_version IS NULL OR EXISTS (
+          SELECT 1
+          FROM plugin_versions v
+          WHERE v.plugin_id = p.id
+            AND v.status::TEXT IN ('PUBLISHED', 'DEPRECATED')
+            AND app_version_parts(v.min_app_version) <= app_version_parts(p_app_version)
+      ));
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- FUNCTION: store_plugin_facets
+-- ============================================================
+-- Matching plugins per category and per tag. Category counts
+-- ignore the category filter, so they show what picking another
+-- category would return; tags are combined with AND, so tag counts
+-- show what adding a tag would leave.
+
+CREATE OR REPLACE FUNCTION store_plugin_facets(
+    p_category VARCHAR DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_author VARCHAR DEFAULT NULL,
+    p_verified BOOLEAN DEFAULT NULL,
+    p_featured BOOLEAN DEFAULT NULL,
+    p_app_version VARCHAR DEFAULT NULL
+) RETURNS TABLE (facet TEXT, value TEXT, plugin_count BIGINT) AS $$
+    SELECT 'category', p.category::TEXT, COUNT(*)
+    FROM store_plugins(NULL, p_search, p_tags, p_author, p_verified, p_featured, p_app_version) p
+    WHERE p.category IS NOT NULL
+    GROUP BY p.category
+    UNION ALL
+    SELECT 'tag', t.tag, COUNT(*)
+    FROM store_plugins(p_category, p_search, p_tags, p_author, p_verified, p_featured, p_app_version) p
+    CROSS JOIN LATERAL UNNEST(plugin_tags(p.tags)) AS t(tag)
+    GROUP BY t.tag
+    ORDER BY 1, 3 DESC, 2;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- Download totals and publication times
+-- ============================================================
+
+-- Download counts no longer touch updated_at
+DROP TRIGGER IF EXISTS update_plugins_updated_at ON plugins;
+
+CREATE TRIGGER update_plugins_updated_at
+    BEFORE UPDATE ON plugins
+    FOR EACH ROW
+    WHEN (OLD.total_downloads IS NOT DISTINCT FROM NEW.total_downloads)
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION increment_download_count(p_version_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE plugin_versions
+    SET download_count = download_count + 1
+    WHERE id = p_version_id;
+
+    UPDATE plugins
+    SET total_downloads = COALESCE(total_downloads, 0) + 1
+    WHERE id = (SELECT plugin_id FROM plugin_versions WHERE id = p_version_id);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_plugin_publication()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status::TEXT = 'PUBLISHED' AND OLD.status IS DISTINCT FROM NEW.status THEN
+        UPDATE plugins
+        SET last_updated_at = NOW(),
+            first_published_at = COALESCE(first_published_at, NOW())
+        WHERE id = NEW.plugin_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_plugin_publication
+    AFTER UPDATE OF status ON plugin_versions
+    FOR EACH ROW EXECUTE FUNCTION record_plugin_publication();
+
+-- Backfill from the versions
+ALTER TABLE plugins DISABLE TRIGGER update_plugins_updated_at;
+
+UPDATE plugins p
+SET total_downloads = s.downloads,
+    first_published_at = COALESCE(p.first_published_at, s.first_published),
+    last_updated_at = COALESCE(p.last_updated_at, s.last_published)
+FROM (
+    SELECT plugin_id,
+           SUM(download_count) AS downloads,
+           MIN(published_at) AS first_published,
+           MAX(published_at) AS last_published
+    FROM plugin_versions
+    GROUP BY plugin_id
+) s
+WHERE s.plugin_id = p.id;
+
+ALTER TABLE plugins ENABLE TRIGGER update_plugins_updated_at;
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+CREATE INDEX idx_plugins_published_last_updated ON plugins(last_updated_at DESC) WHERE status = 'PUBLISHED';
+CREATE INDEX idx_plugins_published_rating ON plugins(rating_average DESC) WHERE status = 'PUBLISHED';
+CREATE INDEX idx_plugins_published_name ON plugins(name) WHERE status = 'PUBLISHED';
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON FUNCTION store_plugins IS 'Published plugins matching the store listing filters; sorted and paged by the caller';
+COMMENT ON FUNCTION store_plugin_facets IS 'Store listing match counts per category and tag';
+COMMENT ON COLUMN plugins.total_downloads IS 'Downloads of all versions, kept by increment_download_count';
+COMMENT ON COLUMN plugins.last_updated_at IS 'When a version of the plugin was last published';
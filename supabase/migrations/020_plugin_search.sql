@@ -0,0 +1,223 @@
+-- ============================================================
+-- Ranked Plugin Search
+-- ============================================================
+-- Store search used a substring match on name and description.
+-- Plugins now carry a weighted search document (name, tags,
+-- description and the README of the latest published version),
+-- kept up to date by a trigger and indexed by idx_plugins_search,
+-- which previously covered an expression no query used. Search
+-- terms match word prefixes, and plugin names also match with a
+-- typo. search_plugins() ranks the matches and highlights them.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE plugin_versions
+ADD COLUMN readme TEXT;
+
+ALTER TABLE plugins
+ADD COLUMN search_vector TSVECTOR;
+
+-- ============================================================
+-- FUNCTION: html_escape
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION html_escape(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(p_text,
+        '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- FUNCTION: plugin_search_document
+-- ============================================================
+-- Name (weight A), tags (B), description (C) and README (D). Only
+-- the start of a long README is indexed.
+
+CREATE OR REPLACE FUNCTION plugin_search_document(
+    p_name VARCHAR,
+    p_description TEXT,
+    p_tags VARCHAR,
+    p_readme TEXT
+) RETURNS TSVECTOR AS $$
+    SELECT SETWEIGHT(TO_TSVECTOR('english', COALESCE(p_name, '')), 'A')
+        || SETWEIGHT(TO_TSVECTOR('english', ARRAY_TO_STRING(plugin_tags(p_tags), ' ')), 'B')
+        || SETWEIGHT(TO_TSVECTOR('english', COALESCE(p_description, '')), 'C')
+        || SETWEIGHT(TO_TSVECTOR('english', LEFT(COALESCE(p_readme, ''), 100000)), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- FUNCTION: plugin_search_query
+-- ============================================================
+-- The search terms as a prefix query, every term required. Only
+-- runs of letters and digits are kept, so the input can never be
+-- read as tsquery syntax. NULL when there are no terms.
+
+CREATE OR REPLACE FUNCTION plugin_search_query(p_search TEXT)
+RETURNS TSQUERY AS $$
+    SELECT TO_TSQUERY('english', STRING_AGG(term || ':*', ' & '))
+    FROM (
+        SELECT term
+        FROM REGEXP_SPLIT_TO_TABLE(LOWER(p_search), '[^[:alnum:]]+') AS term
+        WHERE term <> ''
+        LIMIT 16
+    ) terms;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- TRIGGER: plugins search document
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_plugin_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := plugin_search_document(
+        NEW.name,
+        NEW.description,
+        NEW.tags,
+        (SELECT readme FROM plugin_versions WHERE id = NEW.latest_version_id)
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_plugins_search_vector
+    BEFORE INSERT OR UPDATE OF name, description, tags, latest_version_id ON plugins
+    FOR EACH ROW EXECUTE FUNCTION update_plugin_search_vector();
+
+-- Backfill; READMEs were not kept before this migration
+ALTER TABLE plugins DISABLE TRIGGER update_plugins_updated_at;
+
+UPDATE plugins
+SET search_vector = plugin_search_document(name, description, tags, NULL);
+
+ALTER TABLE plugins ENABLE TRIGGER update_plugins_updated_at;
+
+-- ============================================================
+-- FUNCTION: store_plugins
+-- ============================================================
+-- As in 019, except that the search matches the search document
+-- by prefix, or the plugin name by trigram word similarity
+-- (pg_trgm.word_similarity_threshold, 0.6 by default).
+
+CREATE OR REPLACE FUNCTION store_plugins(
+    p_category VARCHAR DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_author VARCHAR DEFAULT NULL,
+    p_verified BOOLEAN DEFAULT NULL,
+    p_featured BOOLEAN DEFAULT NULL,
+    p_app_version VARCHAR DEFAULT NULL
+) RETURNS SETOF plugins AS $$
+    SELECT p.*
+    FROM plugins p
+    WHERE p.status = 'PUBLISHED'
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_search IS NULL
+           OR p.search_vector @@ plugin_search_query(p_search)
+           OR p_search <% p.name)
+      AND (p_tags IS NULL OR plugin_tags(p.tags) @> p_tags)
+      AND (p_author IS NULL OR p.author = p_author)
+      AND (p_verified IS NULL OR COALESCE(p.verified, FALSE) = p_verified)
+      AND (p_featured IS NULL OR COALESCE(p.featured, FALSE) = p_featured)
+      AND (p_app_version IS NULL OR EXISTS (
+          SELECT 1
+          FROM plugin_versions v
+          WHERE v.plugin_id = p.id
+            AND v.status::TEXT IN ('PUBLISHED', 'DEPRECATED')
+            AND app_version_parts(v.min_app_version) <= app_version_parts(p_app_version)
+      ));
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- FUNCTION: search_plugins
+-- ============================================================
+-- A page of the plugins store_plugins() returns for the search,
+-- best match first. The rank is ts_rank over the weighted search
+-- document plus half the name's word similarity, so a misspelt
+-- name still ranks. Pages start at p_offset, or after the plugin
+-- with rank p_after_rank and ID p_after_id. Each row carries the
+-- plugin as JSON, the HTML-escaped name with the matched words in
+-- <mark>, a highlighted snippet of the description (or of the
+-- README when only it matches) and the number of matches.
+
+CREATE OR REPLACE FUNCTION search_plugins(
+    p_search TEXT,
+    p_category VARCHAR DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_author VARCHAR DEFAULT NULL,
+    p_verified BOOLEAN DEFAULT NULL,
+    p_featured BOOLEAN DEFAULT NULL,
+    p_app_version VARCHAR DEFAULT NULL,
+    p_offset INT DEFAULT 0,
+    p_limit INT DEFAULT 20,
+    p_after_rank DOUBLE PRECISION DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL
+) RETURNS TABLE (
+    plugin JSONB,
+    search_rank DOUBLE PRECISION,
+    name_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT plugin_search_query(p_search) AS q
+    ),
+    matches AS (
+        SELECT p.*,
+               (COALESCE(TS_RANK(p.search_vector, query.q), 0)
+                + 0.5 * WORD_SIMILARITY(p_search, p.name))::DOUBLE PRECISION AS match_rank
+        FROM store_plugins(p_category, p_search, p_tags, p_author, p_verified, p_featured, p_app_version) p
+        CROSS JOIN query
+    ),
+    page AS (
+        SELECT *
+        FROM matches m
+        WHERE p_after_id IS NULL
+           OR m.match_rank < p_after_rank
+           OR (m.match_rank = p_after_rank AND m.id > p_after_id)
+        ORDER BY m.match_rank DESC, m.id
+        OFFSET CASE WHEN p_after_id IS NULL THEN p_offset ELSE 0 END
+        LIMIT p_limit
+    )
+    SELECT TO_JSONB(page) - 'match_rank' - 'search_vector',
+           page.match_rank,
+           COALESCE(
+               TS_HEADLINE('english', html_escape(page.name), query.q,
+                           'HighlightAll=TRUE, StartSel=<mark>, StopSel=</mark>'),
+               html_escape(page.name)
+           ),
+           CASE
+               WHEN query.q IS NULL THEN NULL
+               WHEN TO_TSVECTOR('english', COALESCE(page.description, '')) @@ query.q THEN
+                   TS_HEADLINE('english', html_escape(page.description), query.q,
+                               'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2')
+               ELSE (
+                   SELECT TS_HEADLINE('english', html_escape(LEFT(v.readme, 20000)), query.q,
+                                      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2')
+                   FROM plugin_versions v
+                   WHERE v.id = page.latest_version_id
+                     AND TO_TSVECTOR('english', LEFT(COALESCE(v.readme, ''), 100000)) @@ query.q
+               )
+           END,
+           (SELECT COUNT(*) FROM matches)
+    FROM page
+    CROSS JOIN query
+    ORDER BY page.match_rank DESC, page.id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+DROP INDEX IF EXISTS idx_plugins_search;
+CREATE INDEX idx_plugins_search ON plugins USING GIN(search_vector);
+CREATE INDEX idx_plugins_name_trgm ON plugins USING GIN(name gin_trgm_ops);
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.readme IS 'README.md of the package; the latest published version''s is searched';
+COMMENT ON COLUMN plugins.search_vector IS 'Weighted search document: name (A), tags (B), description (C), README (D)';
+COMMENT ON FUNCTION plugin_search_query IS 'Search terms as a prefix tsquery; never parses the input as tsquery syntax';
+COMMENT ON FUNCTION search_plugins IS 'Ranked, highlighted store search; filters as store_plugins()';
@@ -0,0 +1,176 @@
+-- ============================================================
+-- Store Search Suggestions
+-- ============================================================
+-- Type-ahead for the store search box. store_suggestions holds
+-- the names, categories, tags and authors of published plugins
+-- with the number of plugins for each, once per word the value
+-- can be found by, so a prefix lookup reads a small index. Changes
+-- to plugins that can alter it (publishing, unpublishing, deleting
+-- or editing a listed field of a published plugin) are recorded in
+-- store_suggestion_changes, and the API's refresh job rebuilds it
+-- concurrently, without blocking reads, once changes are pending.
+
+-- ============================================================
+-- FUNCTION: suggestion_term
+-- ============================================================
+-- Lower-case words separated by single spaces; everything but
+-- letters and digits separates words.
+
+CREATE OR REPLACE FUNCTION suggestion_term(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT TRIM(ARRAY_TO_STRING(REGEXP_SPLIT_TO_ARRAY(LOWER(COALESCE(p_text, '')), '[^[:alnum:]]+'), ' '));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================
+-- MATERIALIZED VIEW: store_suggestions
+-- ============================================================
+-- One row per value and word: term is the value's suggestion term
+-- from that word on, so 'Simple Tasks' is found by 'sim' and 'ta'.
+
+CREATE MATERIALIZED VIEW store_suggestions AS
+WITH published AS (
+    SELECT name, category, tags, author
+    FROM plugins
+    WHERE status = 'PUBLISHED'
+),
+entries AS (
+    SELECT 'name' AS kind, name::TEXT AS value, COUNT(*) AS plugin_count
+    FROM published
+    GROUP BY name
+    UNION ALL
+    SELECT 'category', category::TEXT, COUNT(*)
+    FROM published
+    WHERE category IS NOT NULL
+    GROUP BY category
+    UNION ALL
+    SELECT 'tag', t.tag, COUNT(*)
+    FROM published p
+    CROSS JOIN LATERAL UNNEST(plugin_tags(p.tags)) AS t(tag)
+    GROUP BY t.tag
+    UNION ALL
+    SELECT 'author', author::TEXT, COUNT(*)
+    FROM published
+    GROUP BY author
+)
+SELECT e.kind,
+       e.value,
+       e.plugin_count,
+       ARRAY_TO_STRING(w.words[i:], ' ') AS term,
+       i - 1 AS word_position
+FROM entries e
+CROSS JOIN LATERAL (SELECT STRING_TO_ARRAY(suggestion_term(e.value), ' ') AS words) w
+CROSS JOIN LATERAL GENERATE_SUBSCRIPTS(w.words, 1) AS i
+WHERE w.words[i] <> '';
+
+-- ============================================================
+-- FUNCTION: store_suggest
+-- ============================================================
+-- Up to p_limit values of each kind with a word starting with the
+-- query (the query's words in order, the last one by prefix).
+-- Values starting with the query come first, then those with the
+-- most plugins. The term holds only letters, digits and spaces,
+-- so it is safe to use as a LIKE pattern.
+
+CREATE OR REPLACE FUNCTION store_suggest(p_query TEXT, p_limit INT DEFAULT 5)
+RETURNS TABLE (kind TEXT, value TEXT, plugin_count BIGINT) AS $$
+    WITH matches AS (
+        SELECT s.kind, s.value, s.plugin_count, MIN(s.word_position) AS word_position
+        FROM store_suggestions s
+        WHERE suggestion_term(p_query) <> ''
+          AND s.term LIKE suggestion_term(p_query) || '%'
+        GROUP BY s.kind, s.value, s.plugin_count
+    ),
+    ranked AS (
+        SELECT m.*,
+               ROW_NUMBER() OVER (
+                   PARTITION BY m.kind
+                   ORDER BY m.word_position = 0 DESC, m.plugin_count DESC, m.value
+               ) AS n
+        FROM matches m
+    )
+    SELECT r.kind, r.value, r.plugin_count
+    FROM ranked r
+    WHERE r.n <= p_limit
+    ORDER BY r.kind, r.n;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- TABLE: store_suggestion_changes
+-- ============================================================
+-- Plugin changes not yet reflected in store_suggestions. Rows are
+-- only ever inserted by the triggers and deleted by the refresh,
+-- so recording a change never waits on a running refresh.
+
+CREATE TABLE store_suggestion_changes (
+    id          BIGSERIAL PRIMARY KEY,
+    changed_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION record_store_suggestion_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO store_suggestion_changes DEFAULT VALUES;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_store_suggestion_insert
+    AFTER INSERT ON plugins
+    FOR EACH ROW
+    WHEN (NEW.status = 'PUBLISHED')
+    EXECUTE FUNCTION record_store_suggestion_change();
+
+CREATE TRIGGER record_store_suggestion_update
+    AFTER UPDATE OF status, name, category, tags, author ON plugins
+    FOR EACH ROW
+    WHEN ((OLD.status = 'PUBLISHED' OR NEW.status = 'PUBLISHED')
+          AND (OLD.status, OLD.name, OLD.category, OLD.tags, OLD.author)
+              IS DISTINCT FROM (NEW.status, NEW.name, NEW.category, NEW.tags, NEW.author))
+    EXECUTE FUNCTION record_store_suggestion_change();
+
+CREATE TRIGGER record_store_suggestion_delete
+    AFTER DELETE ON plugins
+    FOR EACH ROW
+    WHEN (OLD.status = 'PUBLISHED')
+    EXECUTE FUNCTION record_store_suggestion_change();
+
+-- ============================================================
+-- FUNCTION: refresh_store_suggestions
+-- ============================================================
+-- Rebuilds store_suggestions if changes are pending, returning
+-- whether it did. The rebuild is concurrent, so suggestions stay
+-- readable meanwhile. Only the changes seen before the rebuild
+-- are cleared; later ones wait for the next refresh.
+
+CREATE OR REPLACE FUNCTION refresh_store_suggestions()
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_changes BIGINT[];
+BEGIN
+    SELECT ARRAY_AGG(id) INTO v_changes FROM store_suggestion_changes;
+    IF v_changes IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    REFRESH MATERIALIZED VIEW CONCURRENTLY store_suggestions;
+    DELETE FROM store_suggestion_changes WHERE id = ANY(v_changes);
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- INDEXES
+-- ============================================================
+
+-- Required for concurrent refreshes
+CREATE UNIQUE INDEX idx_store_suggestions_key ON store_suggestions(kind, value, word_position);
+CREATE INDEX idx_store_suggestions_term ON store_suggestions(term text_pattern_ops);
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON MATERIALIZED VIEW store_suggestions IS 'Store type-ahead index: published plugin names, categories, tags and authors by word';
+COMMENT ON FUNCTION store_suggest IS 'Top store suggestions of each kind for a search prefix, with plugin counts';
+COMMENT ON TABLE store_suggestion_changes IS 'Plugin changes pending a store_suggestions refresh';
+COMMENT ON FUNCTION refresh_store_suggestions IS 'Concurrently rebuilds store_suggestions when changes are pending; run by the API on a schedule';
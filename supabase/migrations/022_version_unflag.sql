@@ -0,0 +1,16 @@
+-- ============================================================
+-- Version Unflagging
+-- ============================================================
+-- Flagging a version moves it to FLAGGED. The status it had is
+-- now kept in status_before_flag, and unflagging moves it back
+-- there. Versions flagged before this migration have no saved
+-- status and return to PENDING_REVIEW for a new decision.
+
+ALTER TABLE plugin_versions
+ADD COLUMN status_before_flag version_status;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON COLUMN plugin_versions.status_before_flag IS 'Status the version returns to when unflagged';
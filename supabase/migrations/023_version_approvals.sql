@@ -0,0 +1,35 @@
+-- ============================================================
+-- Atomic Review Approvals
+-- ============================================================
+-- Approvals were appended by reading a version's approvals and
+-- writing them back, so two reviewers approving at once could
+-- overwrite each other's approval. record_version_approval()
+-- appends one in a single statement instead.
+
+-- ============================================================
+-- FUNCTION: record_version_approval
+-- ============================================================
+-- Appends p_approval ({approvedBy, approvedAt}) to the version's
+-- approvals and releases its claim, unless the version is no
+-- longer awaiting review or the reviewer has already approved it.
+-- Returns the updated version, or no row if nothing was recorded.
+-- A concurrent approval of the same version waits for this one
+-- and is then checked against the updated approvals.
+
+CREATE OR REPLACE FUNCTION record_version_approval(p_version_id UUID, p_approval JSONB)
+RETURNS SETOF plugin_versions AS $$
+    UPDATE plugin_versions
+    SET approvals = approvals || JSONB_BUILD_ARRAY(p_approval),
+        claimed_by = NULL,
+        claim_expires_at = NULL
+    WHERE id = p_version_id
+      AND status::TEXT IN ('SUBMITTED', 'PENDING_REVIEW')
+      AND NOT approvals @> JSONB_BUILD_ARRAY(JSONB_BUILD_OBJECT('approvedBy', p_approval->>'approvedBy'))
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+COMMENT ON FUNCTION record_version_approval IS 'Atomically appends a distinct reviewer''s approval to a version awaiting review';
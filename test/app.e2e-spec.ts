@@ -108,26 +108,18 @@ describe('AppController (e2e)', () => {
   });
 
   describe('Developer Endpoints', () => {
-    it('/api/v1/dev/plugins/submit (POST) without file should return error', () => {
-      // Without file upload middleware in e2e test context, this returns 500
-      // We're testing that the endpoint exists and handles the request
+    it('/api/v1/dev/plugins/submit (POST) without a bearer token should return 401', () => {
       return request(app.getHttpServer())
         .post('/api/v1/dev/plugins/submit')
-        .expect((res) => {
-          // Either 400 (validation error) or 500 (no file provided)
-          expect([400, 500]).toContain(res.status);
-        });
+        .expect(401);
     });
   });
 
   describe('Admin Endpoints', () => {
-    it('/api/v1/admin/review-queue (GET) should return review queue', () => {
+    it('/api/v1/admin/review-queue (GET) without a bearer token should return 401', () => {
       return request(app.getHttpServer())
         .get('/api/v1/admin/review-queue')
-        .expect(200)
-        .expect((res) => {
-          expect(Array.isArray(res.body)).toBe(true);
-        });
+        .expect(401);
     });
   });
 